@@ -0,0 +1,96 @@
+import { getAppConfig } from "@/config/app";
+import { AGENT_TOOLS } from "@/lib/agent/tools";
+import { createLlmProvider, SYSTEM_PROMPT } from "@/lib/llm";
+import type { LlmMessage, LlmStreamEvent } from "@/types/llm";
+
+export const dynamic = "force-dynamic";
+
+const isLlmMessage = (value: unknown): value is LlmMessage =>
+  typeof value === "object" &&
+  value !== null &&
+  ((value as LlmMessage).role === "user" ||
+    (value as LlmMessage).role === "assistant") &&
+  typeof (value as LlmMessage).content === "string";
+
+/**
+ * Stream the configured model's reply as newline-delimited LlmStreamEvents
+ */
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as {
+    messages?: unknown;
+    context?: unknown;
+  } | null;
+  const messages = body?.messages;
+  const context = body?.context;
+
+  if (
+    !Array.isArray(messages) ||
+    messages.length === 0 ||
+    !messages.every(isLlmMessage)
+  ) {
+    return new Response("Expected { messages: [{ role, content }] }", {
+      status: 400,
+    });
+  }
+  if (context !== undefined && typeof context !== "string") {
+    return new Response("Expected context to be a string", { status: 400 });
+  }
+
+  const config = getAppConfig().llm;
+  // The client applies the budget too; this guards against oversized requests
+  const viewerContext = context?.slice(0, config.contextMaxChars).trim();
+  const system = viewerContext
+    ? `${SYSTEM_PROMPT}\n\n${viewerContext}`
+    : SYSTEM_PROMPT;
+
+  let provider;
+  try {
+    provider = createLlmProvider(config);
+  } catch (error) {
+    return new Response(
+      error instanceof Error ? error.message : "LLM is not configured",
+      { status: 500 },
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: LlmStreamEvent) =>
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+
+      try {
+        for await (const event of provider.stream({
+          system,
+          messages,
+          tools: AGENT_TOOLS,
+          signal: request.signal,
+        })) {
+          send(event);
+        }
+      } catch (error) {
+        if (!request.signal.aborted) {
+          console.error("Chat model request failed:", error);
+          send({
+            type: "error",
+            message:
+              error instanceof Error ? error.message : "Chat model failed",
+          });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // The client has already gone away
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
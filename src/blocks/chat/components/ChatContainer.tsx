@@ -1,9 +1,11 @@
 "use client";
 
-import React from "react";
+import React, { useEffect, useRef } from "react";
 import { useChatState } from "@/hooks/useChatState";
+import { useAssistant } from "@/hooks/useAssistant";
 import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
 import { usePanelResize } from "@/hooks/usePanelResize";
+import { useMolstar } from "@/contexts/MolstarContext";
 import { KeyboardShortcut } from "@/types/ui";
 import { Conversation, Template, Folder } from "@/types/chat";
 
@@ -12,7 +14,11 @@ interface ChatContainerProps {
   initialTemplates: Template[];
   initialFolders: Folder[];
   children: (
-    props: ReturnType<typeof useChatState> & ReturnType<typeof usePanelResize>,
+    props: ReturnType<typeof useChatState> &
+      ReturnType<typeof usePanelResize> & {
+        /** What the viewer context sent with requests describes, if anything */
+        viewerContextSummary: string | null;
+      },
   ) => React.ReactNode;
 }
 
@@ -22,14 +28,35 @@ export function ChatContainer({
   initialFolders,
   children,
 }: ChatContainerProps) {
+  // Viewer commands run directly; other messages go to the chat model
+  const { respond, contextSummary } = useAssistant();
+
   const chatState = useChatState({
     initialConversations,
     initialTemplates,
     initialFolders,
+    respond,
   });
 
   const panelResize = usePanelResize();
 
+  // Sessions saved from the structure workspace include the open conversation
+  const { setGetConversation, setOpenConversation } = useMolstar();
+  const selectedRef = useRef(chatState.selected);
+  useEffect(() => {
+    selectedRef.current = chatState.selected;
+  }, [chatState.selected]);
+  useEffect(() => {
+    setGetConversation(() => selectedRef.current);
+    return () => setGetConversation(null);
+  }, [setGetConversation]);
+
+  const { importConversation } = chatState;
+  useEffect(() => {
+    setOpenConversation(importConversation);
+    return () => setOpenConversation(null);
+  }, [importConversation, setOpenConversation]);
+
   const shortcuts: KeyboardShortcut[] = [
     {
       key: "n",
@@ -58,5 +85,13 @@ export function ChatContainer({
 
   useKeyboardShortcuts(shortcuts);
 
-  return <>{children({ ...chatState, ...panelResize })}</>;
+  return (
+    <>
+      {children({
+        ...chatState,
+        ...panelResize,
+        viewerContextSummary: contextSummary,
+      })}
+    </>
+  );
 }
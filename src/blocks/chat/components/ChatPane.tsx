@@ -3,6 +3,7 @@
 import { useState, forwardRef, useImperativeHandle, useRef } from "react";
 import { Pencil, RefreshCw, Check, X, Square } from "lucide-react";
 import Message from "./Message";
+import MessageContent from "./MessageContent";
 import Composer from "./Composer";
 import { cls, timeAgo } from "@/components/data/utils";
 import type { Conversation } from "@/types/chat";
@@ -14,6 +15,10 @@ interface ChatPaneProps {
   onResendMessage?: (id: string) => void;
   isThinking?: boolean;
   onPauseThinking?: () => void;
+  /** Description of the viewer state attached to requests, if any */
+  viewerContextSummary?: string | null;
+  includeViewerContext?: boolean;
+  onToggleViewerContext?: () => void;
 }
 
 function ThinkingMessage({ onPause }: { onPause: () => void }) {
@@ -45,6 +50,9 @@ const ChatPane = forwardRef<any, ChatPaneProps>(function ChatPane(
     onResendMessage,
     isThinking,
     onPauseThinking,
+    viewerContextSummary,
+    includeViewerContext,
+    onToggleViewerContext,
   },
   ref,
 ) {
@@ -70,6 +78,7 @@ const ChatPane = forwardRef<any, ChatPaneProps>(function ChatPane(
     ? conversation.messages
     : [];
   const count = messages.length || conversation.messageCount || 0;
+  const isStreaming = !!messages[messages.length - 1]?.streaming;
 
   function startEdit(m) {
     setEditingId(m.id);
@@ -158,7 +167,26 @@ const ChatPane = forwardRef<any, ChatPaneProps>(function ChatPane(
                   </div>
                 ) : (
                   <Message role={m.role}>
-                    <div className="whitespace-pre-wrap">{m.content}</div>
+                    <div className="whitespace-pre-wrap">
+                      {m.role === "assistant" ? (
+                        <MessageContent content={m.content} />
+                      ) : (
+                        m.content
+                      )}
+                      {m.streaming && (
+                        <span className="ml-0.5 inline-block h-3.5 w-1.5 animate-pulse bg-zinc-400 align-middle" />
+                      )}
+                    </div>
+                    {m.streaming && isThinking && (
+                      <div className="mt-1 flex gap-2 text-[11px] text-zinc-500">
+                        <button
+                          className="inline-flex items-center gap-1 hover:underline"
+                          onClick={onPauseThinking}
+                        >
+                          <Square className="h-3.5 w-3.5" /> Stop
+                        </button>
+                      </div>
+                    )}
                     {m.role === "user" && (
                       <div className="mt-1 flex gap-2 text-[11px] text-zinc-500">
                         <button
@@ -179,7 +207,9 @@ const ChatPane = forwardRef<any, ChatPaneProps>(function ChatPane(
                 )}
               </div>
             ))}
-            {isThinking && <ThinkingMessage onPause={onPauseThinking} />}
+            {isThinking && !isStreaming && (
+              <ThinkingMessage onPause={onPauseThinking} />
+            )}
           </>
         )}
       </div>
@@ -193,6 +223,9 @@ const ChatPane = forwardRef<any, ChatPaneProps>(function ChatPane(
           setBusy(false);
         }}
         busy={busy}
+        contextSummary={viewerContextSummary}
+        contextEnabled={includeViewerContext}
+        onToggleContext={onToggleViewerContext}
       />
     </div>
   );
@@ -7,11 +7,28 @@ import {
   useImperativeHandle,
   useEffect,
 } from "react";
-import { Send, Loader2, Plus, Mic } from "lucide-react";
+import { Send, Loader2, Plus, Mic, Box, X } from "lucide-react";
 import ComposerActionsPopover from "./ComposerActionsPopover";
 import { cls } from "@/components/data/utils";
 
-const Composer = forwardRef(function Composer({ onSend, busy }, ref) {
+interface ComposerProps {
+  onSend?: (text: string) => void | Promise<void>;
+  busy?: boolean;
+  /** Viewer state attached to messages, shown as a toggleable chip */
+  contextSummary?: string | null;
+  contextEnabled?: boolean;
+  onToggleContext?: () => void;
+}
+
+export interface ComposerHandle {
+  insertTemplate: (content: string) => void;
+  focus: () => void;
+}
+
+const Composer = forwardRef<ComposerHandle, ComposerProps>(function Composer(
+  { onSend, busy, contextSummary, contextEnabled, onToggleContext },
+  ref,
+) {
   const [value, setValue] = useState("");
   const [sending, setSending] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
@@ -118,14 +135,39 @@ const Composer = forwardRef(function Composer({ onSend, busy }, ref) {
         </div>
 
         <div className="flex items-center justify-between mt-2">
-          <ComposerActionsPopover>
-            <button
-              className="inline-flex shrink-0 items-center justify-center rounded-full p-2 text-zinc-500 hover:bg-zinc-100 hover:text-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800 dark:hover:text-zinc-300 transition-colors"
-              title="Add attachment"
-            >
-              <Plus className="h-4 w-4" />
-            </button>
-          </ComposerActionsPopover>
+          <div className="flex min-w-0 items-center gap-1">
+            <ComposerActionsPopover>
+              <button
+                className="inline-flex shrink-0 items-center justify-center rounded-full p-2 text-zinc-500 hover:bg-zinc-100 hover:text-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800 dark:hover:text-zinc-300 transition-colors"
+                title="Add attachment"
+              >
+                <Plus className="h-4 w-4" />
+              </button>
+            </ComposerActionsPopover>
+
+            {/* Viewer state sent with the message */}
+            {contextSummary && onToggleContext && (
+              <button
+                onClick={onToggleContext}
+                aria-pressed={!!contextEnabled}
+                title={
+                  contextEnabled
+                    ? "The viewer state is sent with your message. Click to leave it out."
+                    : "Click to send the viewer state with your message."
+                }
+                className={cls(
+                  "inline-flex min-w-0 items-center gap-1.5 rounded-full border px-2.5 py-1 text-xs transition-colors",
+                  contextEnabled
+                    ? "border-zinc-300 bg-zinc-100 text-zinc-700 hover:bg-zinc-200 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200 dark:hover:bg-zinc-700"
+                    : "border-dashed border-zinc-300 text-zinc-400 hover:text-zinc-600 dark:border-zinc-700 dark:text-zinc-500",
+                )}
+              >
+                <Box className="h-3.5 w-3.5 shrink-0" />
+                <span className="truncate">{contextSummary}</span>
+                {contextEnabled && <X className="h-3 w-3 shrink-0" />}
+              </button>
+            )}
+          </div>
 
           <div className="flex items-center gap-1 shrink-0">
             <button
@@ -0,0 +1,105 @@
+"use client";
+
+import { useMemo, useRef } from "react";
+import { useMolstar } from "@/contexts/MolstarContext";
+import { selectionRegionsToResidueRanges } from "@/lib/molstar/sequenceToMolstar";
+import { getStructureSequenceData } from "@/lib/molstar/structureSequence";
+import {
+  parseResidueReferences,
+  resolveResidueReference,
+} from "@/lib/residueReferences";
+import type { ResidueReference } from "@/types/chat";
+import type { SelectionRegion } from "@/types/sequence";
+
+/**
+ * Message text with residue and chain mentions rendered as chips that
+ * highlight on hover, and select and focus on click, in the active structure
+ */
+export default function MessageContent({ content }: { content: string }) {
+  const segments = useMemo(() => parseResidueReferences(content), [content]);
+
+  return (
+    <>
+      {segments.map((segment, index) =>
+        typeof segment === "string" ? (
+          segment
+        ) : (
+          <ResidueChip key={index} reference={segment} />
+        ),
+      )}
+    </>
+  );
+}
+
+function ResidueChip({ reference }: { reference: ResidueReference }) {
+  const { wrapper, selectRegions } = useMolstar();
+  // Set while hovered, so a lookup finishing after mouse leave is dropped
+  const hoveredRef = useRef(false);
+
+  // Regions in the active structure; looked up on use, as it may change
+  const resolve = async (): Promise<{
+    structureRef: string;
+    regions: SelectionRegion[];
+  } | null> => {
+    const structureRef = wrapper?.getActiveStructureRef();
+    if (!wrapper?.plugin || !structureRef) return null;
+
+    const label =
+      wrapper.getStructures().find((s) => s.ref === structureRef)?.label ??
+      structureRef;
+    const data = await getStructureSequenceData(
+      wrapper.plugin,
+      label,
+      structureRef,
+    ).catch(() => null);
+    if (!data) return null;
+
+    const regions = resolveResidueReference(reference, data.chains);
+    return regions.length > 0 ? { structureRef, regions } : null;
+  };
+
+  const handleMouseEnter = async () => {
+    hoveredRef.current = true;
+    const resolved = await resolve();
+    if (!resolved || !hoveredRef.current) return;
+
+    wrapper?.highlightResidues(
+      resolved.regions.map((region) => ({
+        chainId: region.chainId,
+        startSeq: region.start,
+        endSeq: region.end,
+      })),
+      resolved.structureRef,
+    );
+  };
+
+  const handleMouseLeave = () => {
+    hoveredRef.current = false;
+    wrapper?.clearHighlight();
+  };
+
+  const handleClick = async () => {
+    const resolved = await resolve();
+    if (!resolved) return;
+
+    selectRegions?.(resolved.regions);
+    wrapper?.focusResidues(
+      resolved.structureRef,
+      selectionRegionsToResidueRanges(resolved.regions),
+    );
+  };
+
+  return (
+    <button
+      type="button"
+      onMouseEnter={handleMouseEnter}
+      onMouseLeave={handleMouseLeave}
+      onClick={handleClick}
+      disabled={!wrapper}
+      title={`Show ${reference.text} in the viewer`}
+      className="inline rounded bg-zinc-100 px-1 font-medium text-zinc-900 underline decoration-zinc-400 decoration-dotted underline-offset-2 transition-colors hover:bg-blue-100 hover:text-blue-900 disabled:cursor-default disabled:no-underline dark:bg-zinc-800 dark:text-zinc-100 dark:hover:bg-blue-900/40 dark:hover:text-blue-100"
+    >
+      {reference.text}
+    </button>
+  );
+}
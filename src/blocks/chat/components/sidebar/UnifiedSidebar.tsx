@@ -36,6 +36,9 @@ interface UnifiedSidebarProps {
   onResendMessage: (messageId: string) => void;
   isThinking: boolean;
   onPauseThinking: () => void;
+  viewerContextSummary: string | null;
+  includeViewerContext: boolean;
+  onToggleViewerContext: () => void;
 }
 
 const UnifiedSidebar = forwardRef<any, UnifiedSidebarProps>(
@@ -65,6 +68,9 @@ const UnifiedSidebar = forwardRef<any, UnifiedSidebarProps>(
       onResendMessage,
       isThinking,
       onPauseThinking,
+      viewerContextSummary,
+      includeViewerContext,
+      onToggleViewerContext,
     },
     ref,
   ) {
@@ -245,6 +251,9 @@ const UnifiedSidebar = forwardRef<any, UnifiedSidebarProps>(
                 onResendMessage={onResendMessage}
                 isThinking={isThinking}
                 onPauseThinking={onPauseThinking}
+                viewerContextSummary={viewerContextSummary}
+                includeViewerContext={includeViewerContext}
+                onToggleViewerContext={onToggleViewerContext}
               />
             </div>
           </div>
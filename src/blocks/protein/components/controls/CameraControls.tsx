@@ -1,24 +1,29 @@
 "use client";
 
 import React, { useState } from "react";
-import { Home, Focus, RotateCcw } from "lucide-react";
+import { Home, Focus, RotateCcw, ImageDown } from "lucide-react";
 import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
 import {
   zoomToFit,
   resetCamera,
   focusOnSelection,
 } from "@/lib/molstar/cameraControls";
+import { ImageExportDialog } from "./ImageExportDialog";
 
 interface CameraControlsProps {
   plugin: PluginUIContext | null;
   className?: string;
+  /** Default title of exported images, e.g. the structure label */
+  imageTitle?: string;
 }
 
 export function CameraControls({
   plugin,
   className = "",
+  imageTitle,
 }: CameraControlsProps) {
   const [isLoading, setIsLoading] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   const handleCameraAction = async (
     action: () => Promise<boolean>,
@@ -77,6 +82,22 @@ export function CameraControls({
           <Icon className="h-3.5 w-3.5" />
         </button>
       ))}
+      <button
+        onClick={() => setIsExportOpen(true)}
+        disabled={isLoading}
+        className="inline-flex items-center justify-center w-7 h-7 rounded-md text-zinc-600 hover:bg-zinc-100 hover:text-zinc-900 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        title="Export Image"
+      >
+        <ImageDown className="h-3.5 w-3.5" />
+      </button>
+
+      {isExportOpen && (
+        <ImageExportDialog
+          plugin={plugin}
+          defaultTitle={imageTitle}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
     </div>
   );
 }
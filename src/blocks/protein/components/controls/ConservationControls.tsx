@@ -0,0 +1,273 @@
+"use client";
+
+import React, { useState, useEffect, useMemo, useRef } from "react";
+import { Upload } from "lucide-react";
+import type { molstarWrapper } from "@/lib/molstar/MolstarWrapper";
+import { usePDBSequence } from "@/hooks/usePdbSequence";
+import {
+  MSA_FILE_ACCEPT,
+  computeConservation,
+  findMatchingRow,
+  mapRowToChain,
+  parseMsa,
+} from "@/lib/msa";
+import { getResidueKey } from "@/lib/molstar/sequenceToMolstar";
+import type { SceneStructure } from "@/types/molstar";
+import type {
+  ConservationMapping,
+  ConservationMethod,
+  MultipleSequenceAlignment,
+  SequenceChain,
+} from "@/types/sequence";
+
+interface ConservationControlsProps {
+  wrapper: molstarWrapper | null;
+  structures: SceneStructure[];
+  isLoading?: boolean;
+  /** Structure the alignment is mapped onto */
+  activeStructureRef?: string | null;
+  conservation?: ConservationMapping | null;
+  onConservationChange?: (conservation: ConservationMapping | null) => void;
+}
+
+const selectClassName =
+  "w-full rounded border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50";
+
+const chainSequence = (chain: SequenceChain) =>
+  chain.residues.map((residue) => residue.code).join("");
+
+/**
+ * Import an MSA, match one of its rows to a chain of the active structure
+ * and colour sequence and structure by conservation
+ */
+export function ConservationControls({
+  wrapper,
+  structures,
+  isLoading = false,
+  activeStructureRef = null,
+  conservation = null,
+  onConservationChange,
+}: ConservationControlsProps) {
+  const [msa, setMsa] = useState<MultipleSequenceAlignment | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rowIndex, setRowIndex] = useState(0);
+  const [chainId, setChainId] = useState("");
+  const [method, setMethod] = useState<ConservationMethod>("jensen-shannon");
+  const [colorStructure, setColorStructure] = useState(true);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeLabel =
+    structures.find((s: SceneStructure) => s.ref === activeStructureRef)
+      ?.label ?? null;
+  const { data: sequenceData } = usePDBSequence(activeLabel, {
+    plugin: wrapper?.plugin,
+    structureRef: activeStructureRef,
+  });
+  const chains = useMemo(() => sequenceData?.chains ?? [], [sequenceData]);
+  const chain = chains.find((c: SequenceChain) => c.id === chainId);
+
+  useEffect(() => {
+    if (!chains.some((c: SequenceChain) => c.id === chainId)) {
+      setChainId(chains[0]?.id ?? "");
+    }
+  }, [chains, chainId]);
+
+  // Suggest the row that best matches the chosen chain
+  useEffect(() => {
+    if (msa && chain) setRowIndex(findMatchingRow(msa, chainSequence(chain)));
+  }, [msa, chain]);
+
+  // Scores are stale once their structure has left the scene
+  useEffect(() => {
+    if (
+      conservation &&
+      !structures.some(
+        (s: SceneStructure) => s.ref === conservation.structureRef,
+      )
+    ) {
+      onConservationChange?.(null);
+    }
+  }, [structures, conservation, onConservationChange]);
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      setMsa(parseMsa(await file.text()));
+      setFileName(file.name);
+      setError(null);
+    } catch (err) {
+      setMsa(null);
+      setFileName(null);
+      setError(err instanceof Error ? err.message : "Failed to read alignment");
+    }
+  };
+
+  const handleApply = async () => {
+    if (!msa || !chain || !activeStructureRef) return;
+
+    setIsApplying(true);
+    setError(null);
+    try {
+      const row = msa.sequences[rowIndex];
+      const columnScores = computeConservation(msa, method);
+      const byIndex = mapRowToChain(row, columnScores, chainSequence(chain));
+
+      const scores = new Map<string, number>();
+      byIndex.forEach((score, index) => {
+        const residue = chain.residues[index];
+        scores.set(
+          getResidueKey(
+            residue.chainId,
+            residue.position,
+            residue.insertionCode,
+          ),
+          score,
+        );
+      });
+
+      // Colouring a different structure replaces the previous one
+      if (conservation && conservation.structureRef !== activeStructureRef) {
+        await wrapper?.setConservationColoring(conservation.structureRef, null);
+      }
+      await wrapper?.setConservationColoring(
+        activeStructureRef,
+        colorStructure ? scores : null,
+      );
+
+      onConservationChange?.({
+        structureRef: activeStructureRef,
+        chainId: chain.id,
+        rowName: row.name,
+        method,
+        scores,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Conservation failed");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!conservation) return;
+    try {
+      await wrapper?.setConservationColoring(conservation.structureRef, null);
+    } catch (err) {
+      console.error("Error clearing conservation colouring:", err);
+    }
+    onConservationChange?.(null);
+  };
+
+  const isDisabled = isLoading || isApplying;
+
+  return (
+    <div className="mb-3">
+      <h4 className="text-xs font-medium text-zinc-600 mb-2">Conservation</h4>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={MSA_FILE_ACCEPT}
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isDisabled}
+        className="w-full mb-2 px-2 py-1 text-xs bg-white border border-zinc-200 text-zinc-700 rounded hover:bg-zinc-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-1"
+        title="FASTA, Clustal or Stockholm alignment"
+      >
+        <Upload className="h-3 w-3" />
+        <span className="truncate">
+          {fileName
+            ? `${fileName} (${msa?.sequences.length} seqs)`
+            : "Import alignment"}
+        </span>
+      </button>
+
+      {msa && (
+        <div className="grid grid-cols-3 gap-2 mb-2">
+          <select
+            value={rowIndex}
+            onChange={(e) => setRowIndex(Number(e.target.value))}
+            disabled={isDisabled}
+            className={selectClassName}
+            title="Alignment row corresponding to the chain"
+          >
+            {msa.sequences.map((sequence, index) => (
+              <option key={sequence.name} value={index}>
+                {sequence.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={chainId}
+            onChange={(e) => setChainId(e.target.value)}
+            disabled={isDisabled || chains.length === 0}
+            className={selectClassName}
+          >
+            {chains.map((c: SequenceChain) => (
+              <option key={c.id} value={c.id}>
+                Chain {c.id}
+              </option>
+            ))}
+          </select>
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as ConservationMethod)}
+            disabled={isDisabled}
+            className={selectClassName}
+          >
+            <option value="jensen-shannon">Jensen-Shannon</option>
+            <option value="shannon">Shannon entropy</option>
+          </select>
+        </div>
+      )}
+
+      {msa && (
+        <label className="flex items-center gap-1.5 mb-2 text-xs text-zinc-600">
+          <input
+            type="checkbox"
+            checked={colorStructure}
+            onChange={(e) => setColorStructure(e.target.checked)}
+            disabled={isDisabled}
+          />
+          Colour structure
+        </label>
+      )}
+
+      <div className="flex gap-1">
+        <button
+          onClick={handleApply}
+          disabled={isDisabled || !msa || !chain}
+          className="flex-1 px-2 py-1 text-xs bg-white border border-zinc-200 text-zinc-700 rounded hover:bg-blue-50 hover:border-blue-300 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isApplying ? "Applying..." : "Apply"}
+        </button>
+        <button
+          onClick={handleClear}
+          disabled={isDisabled || !conservation}
+          className="flex-1 px-2 py-1 text-xs bg-white border border-zinc-200 text-zinc-700 rounded hover:bg-zinc-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Clear
+        </button>
+      </div>
+
+      {error && <div className="text-xs text-red-600 mt-1">{error}</div>}
+
+      {conservation && (
+        <div className="text-xs text-zinc-600 mt-1">
+          {conservation.rowName} → chain {conservation.chainId} ·{" "}
+          {conservation.scores.size} residues scored
+        </div>
+      )}
+    </div>
+  );
+}
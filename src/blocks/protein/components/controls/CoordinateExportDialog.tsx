@@ -0,0 +1,181 @@
+"use client";
+
+import React, { useState } from "react";
+import { Download, X } from "lucide-react";
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import {
+  COORDINATE_FORMATS,
+  exportCoordinates,
+} from "@/lib/molstar/coordinateExport";
+import { downloadFile } from "@/utils/download";
+import type { CoordinateExportScope, CoordinateFormat } from "@/types/molstar";
+import type { SelectionRegion } from "@/types/sequence";
+
+interface CoordinateExportDialogProps {
+  plugin: PluginUIContext;
+  structureRef: string;
+  /** Structure label, used to name the file */
+  label: string;
+  regions: SelectionRegion[];
+  onClose: () => void;
+}
+
+const MIME_TYPES: Record<CoordinateFormat, string> = {
+  pdb: "chemical/x-pdb",
+  mmcif: "chemical/x-mmcif",
+};
+
+const DEFAULT_LIGAND_RADIUS = 5;
+
+/**
+ * Write the selected residues, their chains or the visible structure to a
+ * PDB or mmCIF file, optionally with nearby ligands
+ */
+export function CoordinateExportDialog({
+  plugin,
+  structureRef,
+  label,
+  regions,
+  onClose,
+}: CoordinateExportDialogProps) {
+  const [scope, setScope] = useState<CoordinateExportScope>("residues");
+  const [format, setFormat] = useState<CoordinateFormat>("pdb");
+  const [includeLigands, setIncludeLigands] = useState(false);
+  const [ligandRadius, setLigandRadius] = useState(DEFAULT_LIGAND_RADIUS);
+  const [error, setError] = useState<string | null>(null);
+
+  const chainIds = [...new Set(regions.map((region) => region.chainId))];
+  const scopes: { value: CoordinateExportScope; label: string }[] = [
+    {
+      value: "residues",
+      label: `Selected residues (${regions.map((r) => r.label ?? r.id).join(", ")})`,
+    },
+    {
+      value: "chains",
+      label: `Whole chain${chainIds.length > 1 ? "s" : ""} ${chainIds.join(", ")}`,
+    },
+    { value: "visible", label: "Visible structure" },
+  ];
+  const isValidRadius = !includeLigands || ligandRadius > 0;
+
+  const handleExport = () => {
+    setError(null);
+    try {
+      const text = exportCoordinates(plugin, structureRef, label, {
+        scope,
+        format,
+        ranges: regions,
+        ligandRadius: includeLigands ? ligandRadius : undefined,
+      });
+      const suffix =
+        scope === "residues"
+          ? "selection"
+          : scope === "chains"
+            ? chainIds.join("")
+            : "visible";
+      const extension =
+        COORDINATE_FORMATS.find((f) => f.value === format)?.extension ?? format;
+      const name = label.replace(/[^\w.-]+/g, "_");
+      downloadFile(text, `${name}_${suffix}.${extension}`, MIME_TYPES[format]);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    }
+  };
+
+  const inputClass =
+    "w-full px-2 py-1 text-xs border border-zinc-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-sm w-full mx-4 p-5">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-sm font-semibold text-zinc-900">
+            Export coordinates
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-zinc-400 hover:text-zinc-600"
+            title="Close"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <fieldset>
+            <legend className="block text-xs font-medium text-zinc-600 mb-1">
+              Atoms
+            </legend>
+            {scopes.map((option) => (
+              <label
+                key={option.value}
+                className="flex items-center gap-1.5 text-xs text-zinc-600 mb-0.5"
+              >
+                <input
+                  type="radio"
+                  name="coordinate-scope"
+                  checked={scope === option.value}
+                  onChange={() => setScope(option.value)}
+                />
+                <span className="truncate">{option.label}</span>
+              </label>
+            ))}
+          </fieldset>
+
+          <div>
+            <label className="block text-xs font-medium text-zinc-600 mb-1">
+              Format
+            </label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as CoordinateFormat)}
+              className={inputClass}
+            >
+              {COORDINATE_FORMATS.map(({ value, label: formatLabel }) => (
+                <option key={value} value={value}>
+                  {formatLabel}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="flex items-center gap-1.5 text-xs text-zinc-600 mb-1">
+              <input
+                type="checkbox"
+                checked={includeLigands}
+                onChange={(e) => setIncludeLigands(e.target.checked)}
+              />
+              Ligands and ions within
+            </label>
+            <div className="flex items-center gap-1">
+              <input
+                type="number"
+                min={0.5}
+                step={0.5}
+                value={ligandRadius}
+                onChange={(e) => setLigandRadius(Number(e.target.value))}
+                disabled={!includeLigands}
+                className={inputClass}
+                aria-label="Ligand radius in Å"
+              />
+              <span className="text-xs text-zinc-500">Å</span>
+            </div>
+          </div>
+
+          {error && <div className="text-xs text-red-600">{error}</div>}
+
+          <button
+            onClick={handleExport}
+            disabled={!isValidRadius}
+            className="w-full px-3 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-1"
+          >
+            <Download className="h-3 w-3" />
+            Export {COORDINATE_FORMATS.find((f) => f.value === format)?.label}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
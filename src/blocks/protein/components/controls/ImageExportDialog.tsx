@@ -0,0 +1,236 @@
+"use client";
+
+import React, { useState } from "react";
+import { Download, X } from "lucide-react";
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import {
+  getViewportSize,
+  IMAGE_DPI_OPTIONS,
+  IMAGE_SIZE_PRESETS,
+  MAX_IMAGE_SIZE,
+  renderImage,
+} from "@/lib/molstar/imageExport";
+import { downloadFile } from "@/utils/download";
+
+type SizePreset = (typeof IMAGE_SIZE_PRESETS)[number]["id"] | "custom";
+
+interface ImageExportDialogProps {
+  plugin: PluginUIContext;
+  /** Initial title, e.g. the structure label; also names the file */
+  defaultTitle?: string;
+  onClose: () => void;
+}
+
+const CM_PER_INCH = 2.54;
+
+/**
+ * Render the current view to a PNG at a chosen size and print resolution,
+ * optionally on a transparent background with a title and scale bar
+ */
+export function ImageExportDialog({
+  plugin,
+  defaultTitle = "",
+  onClose,
+}: ImageExportDialogProps) {
+  // Taken when the dialog opens, so preset heights keep the view's shape
+  const [viewport] = useState(
+    () => getViewportSize(plugin) ?? { width: 1280, height: 720 },
+  );
+  const [preset, setPreset] = useState<SizePreset>("4k");
+  const [customWidth, setCustomWidth] = useState(viewport.width);
+  const [customHeight, setCustomHeight] = useState(viewport.height);
+  const [dpi, setDpi] = useState(300);
+  const [transparentBackground, setTransparentBackground] = useState(false);
+  const [title, setTitle] = useState(defaultTitle);
+  const [showTitle, setShowTitle] = useState(false);
+  const [scaleBar, setScaleBar] = useState(true);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const size = (() => {
+    if (preset === "custom") {
+      return { width: customWidth, height: customHeight };
+    }
+    const width =
+      IMAGE_SIZE_PRESETS.find((p) => p.id === preset)?.width ?? viewport.width;
+    return {
+      width,
+      height: Math.round((width * viewport.height) / viewport.width),
+    };
+  })();
+  const isValidSize =
+    Number.isInteger(size.width) &&
+    Number.isInteger(size.height) &&
+    size.width > 0 &&
+    size.height > 0 &&
+    size.width <= MAX_IMAGE_SIZE &&
+    size.height <= MAX_IMAGE_SIZE;
+
+  const handleExport = async () => {
+    setIsRendering(true);
+    setError(null);
+    try {
+      const image = await renderImage(plugin, {
+        ...size,
+        dpi,
+        transparentBackground,
+        title: showTitle ? title : undefined,
+        scaleBar,
+      });
+      const name = (title.trim() || defaultTitle || "structure").replace(
+        /[^\w.-]+/g,
+        "_",
+      );
+      downloadFile(image, `${name}.png`, "image/png");
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-2 py-1 text-xs border border-zinc-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-sm w-full mx-4 p-5">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-sm font-semibold text-zinc-900">Export image</h3>
+          <button
+            onClick={onClose}
+            disabled={isRendering}
+            className="text-zinc-400 hover:text-zinc-600"
+            title="Close"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <label className="block text-xs font-medium text-zinc-600 mb-1">
+              Size
+            </label>
+            <select
+              value={preset}
+              onChange={(e) => setPreset(e.target.value as SizePreset)}
+              disabled={isRendering}
+              className={inputClass}
+            >
+              {IMAGE_SIZE_PRESETS.map(({ id, label }) => (
+                <option key={id} value={id}>
+                  {label}
+                </option>
+              ))}
+              <option value="custom">Custom</option>
+            </select>
+            {preset === "custom" && (
+              <div className="flex items-center gap-1 mt-1">
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_IMAGE_SIZE}
+                  value={customWidth}
+                  onChange={(e) => setCustomWidth(Number(e.target.value))}
+                  disabled={isRendering}
+                  className={inputClass}
+                  aria-label="Width in pixels"
+                />
+                <span className="text-xs text-zinc-500">×</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_IMAGE_SIZE}
+                  value={customHeight}
+                  onChange={(e) => setCustomHeight(Number(e.target.value))}
+                  disabled={isRendering}
+                  className={inputClass}
+                  aria-label="Height in pixels"
+                />
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-zinc-600 mb-1">
+              Resolution
+            </label>
+            <select
+              value={dpi}
+              onChange={(e) => setDpi(Number(e.target.value))}
+              disabled={isRendering}
+              className={inputClass}
+            >
+              {IMAGE_DPI_OPTIONS.map((value) => (
+                <option key={value} value={value}>
+                  {value} DPI
+                </option>
+              ))}
+            </select>
+            <div className="text-xs text-zinc-500 mt-1">
+              {isValidSize
+                ? `${size.width} × ${size.height} px, ${((size.width / dpi) * CM_PER_INCH).toFixed(1)} × ${((size.height / dpi) * CM_PER_INCH).toFixed(1)} cm in print`
+                : `Width and height must be 1 to ${MAX_IMAGE_SIZE} px`}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-1.5 text-xs text-zinc-600">
+            <input
+              type="checkbox"
+              checked={transparentBackground}
+              onChange={(e) => setTransparentBackground(e.target.checked)}
+              disabled={isRendering}
+            />
+            Transparent background
+          </label>
+
+          <label
+            className="flex items-center gap-1.5 text-xs text-zinc-600"
+            title="Length at the centre of rotation; parts nearer or further away appear larger or smaller"
+          >
+            <input
+              type="checkbox"
+              checked={scaleBar}
+              onChange={(e) => setScaleBar(e.target.checked)}
+              disabled={isRendering}
+            />
+            Scale bar
+          </label>
+
+          <div>
+            <label className="flex items-center gap-1.5 text-xs text-zinc-600 mb-1">
+              <input
+                type="checkbox"
+                checked={showTitle}
+                onChange={(e) => setShowTitle(e.target.checked)}
+                disabled={isRendering}
+              />
+              Title
+            </label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              disabled={isRendering || !showTitle}
+              className={inputClass}
+              placeholder="Figure title"
+            />
+          </div>
+
+          {error && <div className="text-xs text-red-600">{error}</div>}
+
+          <button
+            onClick={handleExport}
+            disabled={isRendering || !isValidSize}
+            className="w-full px-3 py-1.5 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-1"
+          >
+            <Download className="h-3 w-3" />
+            {isRendering ? "Rendering..." : "Export PNG"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from "react";
+import type { molstarWrapper } from "@/lib/molstar/MolstarWrapper";
+import {
+  getStructureResidueLabel,
+  INTERACTION_KINDS,
+  structureResidueToResidueRange,
+} from "@/lib/molstar/interactions";
+import {
+  getResidueKey,
+  selectionRegionsToResidueRanges,
+} from "@/lib/molstar/sequenceToMolstar";
+import type { ResidueRange } from "@/lib/molstar/highlighting";
+import type {
+  InteractionKind,
+  SceneStructure,
+  StructureInteraction,
+  StructureResidue,
+} from "@/types/molstar";
+import type { SelectionRegion } from "@/types/sequence";
+
+interface InteractionsControlsProps {
+  wrapper: molstarWrapper | null;
+  structures: SceneStructure[];
+  isLoading?: boolean;
+  /** Structure the sequence selection and ligands belong to */
+  activeStructureRef?: string | null;
+  selectedRegions?: SelectionRegion[];
+}
+
+interface InteractionsResult {
+  structureRef: string;
+  targetLabel: string;
+  interactions: StructureInteraction[];
+}
+
+const selectClassName =
+  "w-full rounded border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50";
+
+const SELECTION_TARGET = "selection";
+
+const getLigandKey = (ligand: StructureResidue) =>
+  getResidueKey(ligand.chainId, ligand.residueNumber, ligand.insertionCode);
+
+/**
+ * Compute non-covalent interactions of the sequence selection or a ligand,
+ * draw them in 3D and list them; rows highlight the residues involved
+ */
+export function InteractionsControls({
+  wrapper,
+  structures,
+  isLoading = false,
+  activeStructureRef = null,
+  selectedRegions = [],
+}: InteractionsControlsProps) {
+  const [target, setTarget] = useState(SELECTION_TARGET);
+  const [result, setResult] = useState<InteractionsResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ligands = useMemo(
+    () =>
+      wrapper && activeStructureRef && structures.length > 0
+        ? wrapper.getLigands(activeStructureRef)
+        : [],
+    [wrapper, activeStructureRef, structures],
+  );
+
+  // Fall back to the selection when the chosen ligand is gone
+  useEffect(() => {
+    if (
+      target !== SELECTION_TARGET &&
+      !ligands.some(
+        (ligand: StructureResidue) => getLigandKey(ligand) === target,
+      )
+    ) {
+      setTarget(SELECTION_TARGET);
+    }
+  }, [ligands, target]);
+
+  // Results are stale once their structure has left the scene
+  useEffect(() => {
+    if (
+      result &&
+      !structures.some((s: SceneStructure) => s.ref === result.structureRef)
+    ) {
+      setResult(null);
+    }
+  }, [structures, result]);
+
+  const getTargetRanges = (): {
+    ranges: ResidueRange[];
+    label: string;
+  } | null => {
+    if (target === SELECTION_TARGET) {
+      if (selectedRegions.length === 0) return null;
+      return {
+        ranges: selectionRegionsToResidueRanges(selectedRegions),
+        label: selectedRegions
+          .map((r: SelectionRegion) => `${r.chainId}:${r.start}-${r.end}`)
+          .join(", "),
+      };
+    }
+
+    const ligand = ligands.find(
+      (l: StructureResidue) => getLigandKey(l) === target,
+    );
+    if (!ligand) return null;
+    return {
+      ranges: [structureResidueToResidueRange(ligand)],
+      label: getStructureResidueLabel(ligand),
+    };
+  };
+
+  const handleCompute = async () => {
+    const targetRanges = getTargetRanges();
+    if (!wrapper || !activeStructureRef || !targetRanges) return;
+
+    setIsRunning(true);
+    setError(null);
+    try {
+      // Only one set of interactions is drawn at a time
+      if (result && result.structureRef !== activeStructureRef) {
+        await wrapper.clearInteractions(result.structureRef);
+      }
+      const interactions = await wrapper.showInteractions(
+        activeStructureRef,
+        targetRanges.ranges,
+      );
+      setResult({
+        structureRef: activeStructureRef,
+        targetLabel: targetRanges.label,
+        interactions,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Interactions failed");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!result) return;
+    try {
+      await wrapper?.clearInteractions(result.structureRef);
+    } catch (err) {
+      console.error("Error clearing interactions:", err);
+    }
+    setResult(null);
+  };
+
+  // e.g. "3 hydrogen bond, 1 salt bridge"
+  const summary = useMemo(() => {
+    const counts = new Map<InteractionKind, number>();
+    result?.interactions.forEach((interaction) =>
+      counts.set(interaction.kind, (counts.get(interaction.kind) ?? 0) + 1),
+    );
+    return [...counts]
+      .map(
+        ([kind, count]) =>
+          `${count} ${INTERACTION_KINDS[kind].label.toLowerCase()}`,
+      )
+      .join(", ");
+  }, [result]);
+
+  const isDisabled = isLoading || isRunning;
+  const canCompute =
+    !!activeStructureRef &&
+    (target !== SELECTION_TARGET || selectedRegions.length > 0);
+
+  return (
+    <div className="mb-3">
+      <h4 className="text-xs font-medium text-zinc-600 mb-2">Interactions</h4>
+
+      <div className="grid grid-cols-3 gap-2 mb-2">
+        <select
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          disabled={isDisabled}
+          className={`${selectClassName} col-span-2`}
+        >
+          <option value={SELECTION_TARGET}>
+            Current selection
+            {selectedRegions.length === 0 ? " (none)" : ""}
+          </option>
+          {ligands.map((ligand: StructureResidue) => (
+            <option key={getLigandKey(ligand)} value={getLigandKey(ligand)}>
+              Ligand {getStructureResidueLabel(ligand)}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-1">
+          <button
+            onClick={handleCompute}
+            disabled={isDisabled || !canCompute}
+            className="flex-1 px-2 py-1 text-xs bg-white border border-zinc-200 text-zinc-700 rounded hover:bg-blue-50 hover:border-blue-300 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRunning ? "..." : "Show"}
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={isDisabled || !result}
+            className="flex-1 px-2 py-1 text-xs bg-white border border-zinc-200 text-zinc-700 rounded hover:bg-zinc-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="text-xs text-red-600 mb-2">{error}</div>}
+
+      {result && (
+        <>
+          <div className="text-xs text-zinc-600 mb-1">
+            {result.targetLabel} · {result.interactions.length} interactions
+            {summary && <span className="text-zinc-500"> ({summary})</span>}
+          </div>
+
+          {result.interactions.length > 0 && (
+            <div className="max-h-48 overflow-y-auto rounded border border-zinc-200">
+              <table className="w-full text-xs text-zinc-700">
+                <thead className="sticky top-0 bg-zinc-50 text-zinc-500">
+                  <tr>
+                    <th className="px-2 py-1 text-left font-medium">Type</th>
+                    <th className="px-2 py-1 text-left font-medium">Target</th>
+                    <th className="px-2 py-1 text-left font-medium">Partner</th>
+                    <th className="px-2 py-1 text-right font-medium">
+                      Distance
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.interactions.map((interaction) => (
+                    <tr
+                      key={interaction.id}
+                      onMouseEnter={() =>
+                        wrapper?.highlightInteraction(
+                          result.structureRef,
+                          interaction,
+                        )
+                      }
+                      onMouseLeave={() => wrapper?.clearHighlight()}
+                      onClick={() =>
+                        wrapper?.highlightInteraction(
+                          result.structureRef,
+                          interaction,
+                          true,
+                        )
+                      }
+                      className="cursor-pointer border-t border-zinc-100 hover:bg-blue-50"
+                      title={`${interaction.target.atoms.join(" ")} – ${interaction.partner.atoms.join(" ")}`}
+                    >
+                      <td className="px-2 py-0.5">
+                        <span className="flex items-center gap-1.5">
+                          <span
+                            className="inline-block h-2 w-2 rounded-full shrink-0"
+                            style={{
+                              backgroundColor:
+                                INTERACTION_KINDS[interaction.kind].color,
+                            }}
+                          />
+                          {INTERACTION_KINDS[interaction.kind].label}
+                        </span>
+                      </td>
+                      <td className="px-2 py-0.5 font-mono">
+                        {getStructureResidueLabel(interaction.target)}
+                      </td>
+                      <td className="px-2 py-0.5 font-mono">
+                        {getStructureResidueLabel(interaction.partner)}
+                      </td>
+                      <td className="px-2 py-0.5 text-right font-mono">
+                        {interaction.distance.toFixed(2)} Å
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
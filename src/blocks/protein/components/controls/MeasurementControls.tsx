@@ -0,0 +1,158 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Crosshair, Trash2 } from "lucide-react";
+import {
+  formatMeasurementValue,
+  getMeasurementPointLabel,
+  MEASUREMENT_KIND_LABELS,
+  MEASUREMENT_POINT_COUNT,
+} from "@/lib/molstar/measurements";
+import type { MeasurementsState } from "@/hooks/useMeasurements";
+import type { Measurement, MeasurementKind } from "@/types/molstar";
+import { cls } from "@/components/data/utils";
+
+interface MeasurementControlsProps {
+  measurements: MeasurementsState;
+  isLoading?: boolean;
+}
+
+const selectClassName =
+  "w-full rounded border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50";
+
+/**
+ * Pick atoms for distance, angle and dihedral measurements and manage the
+ * measurement list
+ */
+export function MeasurementControls({
+  measurements: state,
+  isLoading = false,
+}: MeasurementControlsProps) {
+  const { kind, picks, isPicking, error } = state;
+  const needed = MEASUREMENT_POINT_COUNT[kind];
+
+  return (
+    <div className="mb-3">
+      <h4 className="text-xs font-medium text-zinc-600 mb-2">Measurements</h4>
+
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <select
+          value={kind}
+          onChange={(e) => state.setKind(e.target.value as MeasurementKind)}
+          disabled={isLoading}
+          className={selectClassName}
+        >
+          {Object.entries(MEASUREMENT_KIND_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label} ({MEASUREMENT_POINT_COUNT[value as MeasurementKind]}{" "}
+              atoms)
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => state.setIsPicking(!isPicking)}
+          disabled={isLoading}
+          className={cls(
+            "px-2 py-1 text-xs border rounded flex items-center justify-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed transition-colors",
+            isPicking
+              ? "bg-blue-50 border-blue-300 text-blue-700"
+              : "bg-white border-zinc-200 text-zinc-700 hover:bg-zinc-50",
+          )}
+          title="Click atoms in the 3D view to measure between them"
+        >
+          <Crosshair className="h-3 w-3" />
+          <span>{isPicking ? "Picking in 3D" : "Pick in 3D"}</span>
+        </button>
+      </div>
+
+      <div className="text-xs text-zinc-500 mb-2">
+        {picks.length > 0 ? (
+          <>
+            Picked {picks.length}/{needed}:{" "}
+            {picks.map(getMeasurementPointLabel).join(", ")}{" "}
+            <button
+              onClick={state.clearPicks}
+              className="text-zinc-500 hover:text-zinc-700 underline"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          `Pick ${needed} atoms in 3D, or right-click residues in the sequence`
+        )}
+      </div>
+
+      {error && <div className="text-xs text-red-600 mb-2">{error}</div>}
+
+      {state.measurements.length > 0 && (
+        <div className="space-y-1">
+          {state.measurements.map((measurement) => (
+            <MeasurementRow
+              key={measurement.id}
+              measurement={measurement}
+              onRename={(label) =>
+                state.renameMeasurement(measurement.id, label)
+              }
+              onRemove={() => state.removeMeasurement(measurement.id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface MeasurementRowProps {
+  measurement: Measurement;
+  onRename: (label: string) => void;
+  onRemove: () => void;
+}
+
+function MeasurementRow({
+  measurement,
+  onRename,
+  onRemove,
+}: MeasurementRowProps) {
+  const [label, setLabel] = useState(measurement.label ?? "");
+
+  useEffect(() => {
+    setLabel(measurement.label ?? "");
+  }, [measurement.label]);
+
+  const commit = () => {
+    if (label.trim() !== (measurement.label ?? "")) onRename(label);
+  };
+
+  const atoms = measurement.points.map(getMeasurementPointLabel).join(" – ");
+
+  return (
+    <div
+      className="flex items-center gap-2 px-2 py-1 rounded border border-zinc-200 bg-white"
+      title={atoms}
+    >
+      <span className="text-xs text-zinc-500 w-14 shrink-0">
+        {MEASUREMENT_KIND_LABELS[measurement.kind]}
+      </span>
+      <input
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+        placeholder={atoms}
+        className="min-w-0 flex-1 text-xs text-zinc-700 bg-transparent focus:outline-none placeholder:text-zinc-400"
+      />
+      <span className="text-xs font-mono text-zinc-700 shrink-0">
+        {formatMeasurementValue(measurement.kind, measurement.value)}
+      </span>
+      <button
+        onClick={onRemove}
+        className="p-0.5 rounded text-zinc-400 hover:text-red-600"
+        title="Delete measurement"
+      >
+        <Trash2 className="h-3 w-3" />
+      </button>
+    </div>
+  );
+}
@@ -8,28 +8,62 @@ import {
   Upload,
   Database,
   Check,
+  FileText,
+  Sparkles,
 } from "lucide-react";
 import { cls } from "@/components/data/utils";
-import { EXAMPLE_STRUCTURES } from "@/config/constants";
+import {
+  EXAMPLE_ALPHAFOLD_MODELS,
+  EXAMPLE_STRUCTURES,
+} from "@/config/constants";
+import { normalizeUniProtAccession } from "@/lib/molstar/alphafold";
+import {
+  detectStructureFormat,
+  STRUCTURE_FILE_ACCEPT,
+} from "@/lib/molstar/structureFormats";
+
+type LoaderMode = "pdb" | "alphafold";
 
 interface PDBLoaderProps {
   currentPdbId?: string;
+  /** Name of the local file currently shown, if any */
+  currentFileName?: string;
+  /** UniProt accession of the AlphaFold model currently shown, if any */
+  currentAccession?: string;
   onLoadStructure: (pdbId: string) => void;
+  onLoadFile?: (file: File) => void;
+  onLoadAlphaFold?: (accession: string) => void;
   isLoading?: boolean;
 }
 
 export function PDBLoader({
   currentPdbId,
+  currentFileName,
+  currentAccession,
   onLoadStructure,
+  onLoadFile,
+  onLoadAlphaFold,
   isLoading,
 }: PDBLoaderProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<LoaderMode>(
+    currentAccession ? "alphafold" : "pdb",
+  );
   const [searchQuery, setSearchQuery] = useState("");
-  const [inputValue, setInputValue] = useState(currentPdbId || "");
+  const [inputValue, setInputValue] = useState(
+    currentPdbId || currentAccession || "",
+  );
+  const [isDragging, setIsDragging] = useState(false);
+  const [loaderError, setLoaderError] = useState<string | null>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const currentId = mode === "pdb" ? currentPdbId : currentAccession;
 
   // Filter popular structures based on search
-  const filteredStructures = EXAMPLE_STRUCTURES.filter(
+  const examples =
+    mode === "pdb" ? EXAMPLE_STRUCTURES : EXAMPLE_ALPHAFOLD_MODELS;
+  const filteredStructures = examples.filter(
     (structure) =>
       structure.id.toLowerCase().includes(searchQuery.toLowerCase()) ||
       structure.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -53,10 +87,86 @@ export function PDBLoader({
     }
   };
 
+  const handleLoadAlphaFold = (input: string) => {
+    if (!onLoadAlphaFold) return;
+
+    const accession = normalizeUniProtAccession(input);
+    if (!accession) {
+      setLoaderError(`Not a UniProt accession: ${input.trim()}`);
+      setIsOpen(true);
+      return;
+    }
+
+    setLoaderError(null);
+    if (accession !== currentAccession) {
+      onLoadAlphaFold(accession);
+    }
+    setInputValue(accession);
+    setIsOpen(false);
+    setSearchQuery("");
+  };
+
+  const handleLoad = (id: string) => {
+    if (mode === "alphafold") {
+      handleLoadAlphaFold(id);
+    } else {
+      setLoaderError(null);
+      handleLoadPDB(id);
+    }
+  };
+
+  const handleModeChange = (newMode: LoaderMode) => {
+    setMode(newMode);
+    setLoaderError(null);
+    setSearchQuery("");
+    setInputValue((newMode === "pdb" ? currentPdbId : currentAccession) || "");
+  };
+
+  const handleFile = (file: File | undefined) => {
+    if (!file || !onLoadFile) return;
+
+    if (!detectStructureFormat(file.name)) {
+      setLoaderError(`Unsupported file: ${file.name}`);
+      setIsOpen(true);
+      return;
+    }
+
+    setLoaderError(null);
+    setInputValue("");
+    setIsOpen(false);
+    setSearchQuery("");
+    onLoadFile(file);
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFile(e.target.files?.[0]);
+    // Reset so selecting the same file again still triggers a change
+    e.target.value = "";
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!onLoadFile || !e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!onLoadFile) return;
+    e.preventDefault();
+    setIsDragging(false);
+    handleFile(e.dataTransfer.files?.[0]);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter") {
       if (inputValue.trim()) {
-        handleLoadPDB(inputValue.trim());
+        handleLoad(inputValue.trim());
       }
     } else if (e.key === "Escape") {
       setIsOpen(false);
@@ -65,10 +175,37 @@ export function PDBLoader({
   };
 
   return (
-    <div className="relative">
+    <div
+      className="relative"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {/* Hidden file input for local structure uploads */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={STRUCTURE_FILE_ACCEPT}
+        onChange={handleFileInputChange}
+        className="hidden"
+      />
+
       {/* Main PDB Input */}
-      <div className="flex items-center gap-2 px-3 py-1.5 bg-white border border-zinc-200 rounded-md min-w-[160px] hover:border-zinc-300 transition-colors">
-        <Database className="h-4 w-4 text-zinc-500" />
+      <div
+        className={cls(
+          "flex items-center gap-2 px-3 py-1.5 bg-white border rounded-md min-w-[160px] transition-colors",
+          isDragging
+            ? "border-blue-400 bg-blue-50"
+            : "border-zinc-200 hover:border-zinc-300",
+        )}
+      >
+        {currentFileName ? (
+          <FileText className="h-4 w-4 text-zinc-500" />
+        ) : mode === "alphafold" ? (
+          <Sparkles className="h-4 w-4 text-zinc-500" />
+        ) : (
+          <Database className="h-4 w-4 text-zinc-500" />
+        )}
         <input
           type="text"
           value={inputValue}
@@ -77,9 +214,19 @@ export function PDBLoader({
           onFocus={() => setIsOpen(true)}
           onClick={() => setIsOpen(true)}
           className="flex-1 text-sm font-mono uppercase bg-transparent border-none outline-none placeholder-zinc-400 cursor-text"
-          placeholder="PDB ID"
-          maxLength={4}
+          placeholder={
+            isDragging ? "Drop file" : mode === "pdb" ? "PDB ID" : "UniProt"
+          }
+          maxLength={mode === "pdb" ? 4 : 20}
         />
+        {currentFileName && !inputValue && (
+          <span
+            className="max-w-[140px] truncate text-xs text-zinc-600"
+            title={currentFileName}
+          >
+            {currentFileName}
+          </span>
+        )}
         {isLoading ? (
           <div className="animate-spin h-3 w-3 border border-zinc-300 border-t-blue-500 rounded-full" />
         ) : (
@@ -104,8 +251,30 @@ export function PDBLoader({
       {/* Dropdown Menu */}
       {isOpen && (
         <div className="absolute top-full left-0 z-50 mt-2 w-80 bg-white border border-zinc-200 rounded-lg shadow-lg">
-          {/* Search Header */}
+          {/* Source Tabs + Search Header */}
           <div className="p-3 border-b border-zinc-100">
+            <div className="flex items-center gap-1 mb-2 text-xs">
+              {(
+                [
+                  { id: "pdb", label: "PDB" },
+                  { id: "alphafold", label: "AlphaFold DB" },
+                ] as const
+              ).map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => handleModeChange(tab.id)}
+                  disabled={tab.id === "alphafold" && !onLoadAlphaFold}
+                  className={cls(
+                    "px-2 py-1 rounded-md transition-colors disabled:opacity-50",
+                    mode === tab.id
+                      ? "bg-zinc-900 text-white"
+                      : "text-zinc-600 hover:bg-zinc-100",
+                  )}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
             <div className="relative">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-zinc-400" />
               <input
@@ -115,7 +284,11 @@ export function PDBLoader({
                 onChange={(e) => setSearchQuery(e.target.value)}
                 onKeyPress={handleKeyPress}
                 className="w-full pl-9 pr-3 py-2 text-sm bg-zinc-50 border border-zinc-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="Search structures..."
+                placeholder={
+                  mode === "pdb"
+                    ? "Search structures..."
+                    : "Search predicted models..."
+                }
               />
             </div>
           </div>
@@ -124,17 +297,19 @@ export function PDBLoader({
           <div className="max-h-64 overflow-y-auto">
             <div className="p-2">
               <div className="text-xs font-medium text-zinc-500 uppercase tracking-wide px-2 py-1">
-                Popular Structures
+                {mode === "pdb"
+                  ? "Popular Structures"
+                  : "Predicted Models (UniProt)"}
               </div>
               {filteredStructures.length > 0 ? (
                 <div className="space-y-1">
                   {filteredStructures.map((structure) => (
                     <button
                       key={structure.id}
-                      onClick={() => handleLoadPDB(structure.id)}
+                      onClick={() => handleLoad(structure.id)}
                       className={cls(
                         "w-full text-left p-2 rounded-md transition-colors group",
-                        currentPdbId === structure.id
+                        currentId === structure.id
                           ? "bg-blue-50 border border-blue-200"
                           : "hover:bg-zinc-50",
                       )}
@@ -145,7 +320,7 @@ export function PDBLoader({
                             <span className="font-mono text-sm font-medium text-blue-600 uppercase">
                               {structure.id}
                             </span>
-                            {currentPdbId === structure.id && (
+                            {currentId === structure.id && (
                               <Check className="h-3 w-3 text-blue-600" />
                             )}
                           </div>
@@ -170,8 +345,16 @@ export function PDBLoader({
 
           {/* Actions Footer */}
           <div className="p-3 border-t border-zinc-100 bg-zinc-50">
+            {loaderError && (
+              <div className="mb-2 text-xs text-red-600">{loaderError}</div>
+            )}
             <div className="flex items-center gap-4 text-xs text-zinc-500">
-              <button className="flex items-center gap-1 hover:text-zinc-700 transition-colors">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!onLoadFile}
+                className="flex items-center gap-1 hover:text-zinc-700 transition-colors disabled:opacity-50"
+                title="Upload .pdb, .cif or .bcif (optionally .gz), or drop a file here"
+              >
                 <Upload className="h-3 w-3" />
                 Upload File
               </button>
@@ -0,0 +1,214 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from "react";
+import type { molstarWrapper } from "@/lib/molstar/MolstarWrapper";
+import { usePDBSequence } from "@/hooks/usePdbSequence";
+import {
+  getStructureResidueLabel,
+  structureResidueToResidueRange,
+} from "@/lib/molstar/interactions";
+import type { ProximitySource } from "@/lib/molstar/proximity";
+import {
+  getResidueKey,
+  residueKeysToSelectionRegions,
+  selectionRegionsToResidueRanges,
+} from "@/lib/molstar/sequenceToMolstar";
+import type { SceneStructure, StructureResidue } from "@/types/molstar";
+import type { SelectionRegion, SequenceChain } from "@/types/sequence";
+
+interface ProximityControlsProps {
+  wrapper: molstarWrapper | null;
+  structures: SceneStructure[];
+  isLoading?: boolean;
+  /** Structure the sequence selection, chains and ligands belong to */
+  activeStructureRef?: string | null;
+  selectedRegions?: SelectionRegion[];
+  /** Replace the sequence selection with the residues found */
+  onSelectRegions?: (regions: SelectionRegion[]) => void;
+}
+
+const selectClassName =
+  "w-full rounded border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50";
+
+const SELECTION_SOURCE = "selection";
+
+const getLigandKey = (ligand: StructureResidue) =>
+  `ligand:${getResidueKey(ligand.chainId, ligand.residueNumber, ligand.insertionCode)}`;
+
+/**
+ * Select residues within a radius of the sequence selection, a chain or a
+ * ligand; the result replaces the sequence selection
+ */
+export function ProximityControls({
+  wrapper,
+  structures,
+  isLoading = false,
+  activeStructureRef = null,
+  selectedRegions = [],
+  onSelectRegions,
+}: ProximityControlsProps) {
+  const [source, setSource] = useState(SELECTION_SOURCE);
+  const [radius, setRadius] = useState(5);
+  const [wholeResidues, setWholeResidues] = useState(false);
+  const [includeSource, setIncludeSource] = useState(true);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeLabel =
+    structures.find((s: SceneStructure) => s.ref === activeStructureRef)
+      ?.label ?? null;
+  const { data: sequenceData } = usePDBSequence(activeLabel, {
+    plugin: wrapper?.plugin,
+    structureRef: activeStructureRef,
+  });
+  const chains = useMemo(() => sequenceData?.chains ?? [], [sequenceData]);
+
+  const ligands = useMemo(
+    () =>
+      wrapper && activeStructureRef && structures.length > 0
+        ? wrapper.getLigands(activeStructureRef)
+        : [],
+    [wrapper, activeStructureRef, structures],
+  );
+
+  // Fall back to the selection when the chosen chain or ligand is gone
+  useEffect(() => {
+    const exists =
+      source === SELECTION_SOURCE ||
+      chains.some((c: SequenceChain) => `chain:${c.id}` === source) ||
+      ligands.some((l: StructureResidue) => getLigandKey(l) === source);
+    if (!exists) setSource(SELECTION_SOURCE);
+  }, [chains, ligands, source]);
+
+  const getSource = (): ProximitySource | null => {
+    if (source === SELECTION_SOURCE) {
+      return selectedRegions.length > 0
+        ? {
+            kind: "residues",
+            ranges: selectionRegionsToResidueRanges(selectedRegions),
+          }
+        : null;
+    }
+    if (source.startsWith("chain:")) {
+      return { kind: "chain", chainId: source.slice("chain:".length) };
+    }
+
+    const ligand = ligands.find(
+      (l: StructureResidue) => getLigandKey(l) === source,
+    );
+    return ligand
+      ? { kind: "residues", ranges: [structureResidueToResidueRange(ligand)] }
+      : null;
+  };
+
+  const handleSelect = () => {
+    const proximitySource = getSource();
+    if (!wrapper || !activeStructureRef || !proximitySource) return;
+
+    try {
+      const residues = wrapper.getResiduesWithinRadius(
+        activeStructureRef,
+        proximitySource,
+        { radius, wholeResidues, includeSource },
+      );
+      const keys = new Set(
+        residues.map((residue: StructureResidue) =>
+          getResidueKey(
+            residue.chainId,
+            residue.residueNumber,
+            residue.insertionCode,
+          ),
+        ),
+      );
+      const regions = residueKeysToSelectionRegions(keys, chains);
+
+      onSelectRegions?.(regions);
+      setMessage(
+        `${keys.size} residues within ${radius} Å (${regions.length} regions)`,
+      );
+      setError(null);
+    } catch (err) {
+      setMessage(null);
+      setError(err instanceof Error ? err.message : "Selection failed");
+    }
+  };
+
+  const canSelect =
+    !!activeStructureRef &&
+    radius > 0 &&
+    (source !== SELECTION_SOURCE || selectedRegions.length > 0);
+
+  return (
+    <div className="mb-3">
+      <h4 className="text-xs font-medium text-zinc-600 mb-2">Select Around</h4>
+
+      <div className="grid grid-cols-3 gap-2 mb-2">
+        <select
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          disabled={isLoading}
+          className={selectClassName}
+        >
+          <option value={SELECTION_SOURCE}>
+            Current selection
+            {selectedRegions.length === 0 ? " (none)" : ""}
+          </option>
+          {chains.map((chain: SequenceChain) => (
+            <option key={chain.id} value={`chain:${chain.id}`}>
+              Chain {chain.id}
+            </option>
+          ))}
+          {ligands.map((ligand: StructureResidue) => (
+            <option key={getLigandKey(ligand)} value={getLigandKey(ligand)}>
+              Ligand {getStructureResidueLabel(ligand)}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-xs text-zinc-600">
+          <input
+            type="number"
+            min={0.5}
+            max={30}
+            step={0.5}
+            value={radius}
+            onChange={(e) => setRadius(Number(e.target.value))}
+            disabled={isLoading}
+            className={selectClassName}
+          />
+          Å
+        </label>
+        <button
+          onClick={handleSelect}
+          disabled={isLoading || !canSelect}
+          className="px-2 py-1 text-xs bg-white border border-zinc-200 text-zinc-700 rounded hover:bg-blue-50 hover:border-blue-300 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Select
+        </button>
+      </div>
+
+      <div className="flex gap-3 mb-1">
+        <label className="flex items-center gap-1.5 text-xs text-zinc-600">
+          <input
+            type="checkbox"
+            checked={wholeResidues}
+            onChange={(e) => setWholeResidues(e.target.checked)}
+            disabled={isLoading}
+          />
+          Whole residues only
+        </label>
+        <label className="flex items-center gap-1.5 text-xs text-zinc-600">
+          <input
+            type="checkbox"
+            checked={includeSource}
+            onChange={(e) => setIncludeSource(e.target.checked)}
+            disabled={isLoading}
+          />
+          Include source
+        </label>
+      </div>
+
+      {error && <div className="text-xs text-red-600">{error}</div>}
+      {message && <div className="text-xs text-zinc-600">{message}</div>}
+    </div>
+  );
+}
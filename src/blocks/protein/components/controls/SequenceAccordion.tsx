@@ -8,6 +8,7 @@
 import React, { useState } from "react";
 import { ChevronDown, ChevronUp, HelpCircle } from "lucide-react";
 import { SequenceWorkspace } from "../sequence/SequenceWorkspace";
+import type { SelectionRegion } from "@/types/sequence";
 
 interface SequenceAccordionProps {
   pdbId: string;
@@ -24,7 +25,10 @@ interface SequenceAccordionProps {
   onHighlightChange: (residues: any[]) => void;
   onChainSelectionChange: (chainIds: string[]) => void;
   onChainsLoaded: (chains: string[]) => void;
-  onResidueAction: (action: string, region: any) => void;
+  onResidueAction: (
+    region: SelectionRegion,
+    action: "hide" | "isolate" | "highlight" | "copy" | "measure",
+  ) => void;
   className?: string;
 }
 
@@ -0,0 +1,86 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Download, Upload } from "lucide-react";
+import { SESSION_FILE_ACCEPT } from "@/lib/session";
+import type { SessionState } from "@/hooks/useSession";
+
+interface SessionControlsProps {
+  session: SessionState;
+  isLoading?: boolean;
+  /** Whether there is anything in the scene to save */
+  canSave?: boolean;
+}
+
+/**
+ * Save the workspace to a session file, or replace it with one
+ */
+export function SessionControls({
+  session,
+  isLoading = false,
+  canSave = false,
+}: SessionControlsProps) {
+  const [includeMolstarState, setIncludeMolstarState] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) await session.openSession(file);
+  };
+
+  const isDisabled = isLoading || session.isBusy;
+
+  return (
+    <div className="mb-3">
+      <h4 className="text-xs font-medium text-zinc-600 mb-2">Session</h4>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={SESSION_FILE_ACCEPT}
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      <div className="flex gap-1 mb-2">
+        <button
+          onClick={() => session.saveSession(includeMolstarState)}
+          disabled={isDisabled || !canSave}
+          className="flex-1 px-2 py-1 text-xs bg-white border border-zinc-200 text-zinc-700 rounded hover:bg-zinc-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-1"
+          title="Download structures, view, selection, measurements and chat as a session file"
+        >
+          <Download className="h-3 w-3" />
+          Save session
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isDisabled}
+          className="flex-1 px-2 py-1 text-xs bg-white border border-zinc-200 text-zinc-700 rounded hover:bg-zinc-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-1"
+          title="Replace the workspace with a saved session"
+        >
+          <Upload className="h-3 w-3" />
+          Open session
+        </button>
+      </div>
+
+      <label
+        className="flex items-center gap-1.5 text-xs text-zinc-600"
+        title="Restores representations exactly, at the cost of a larger file"
+      >
+        <input
+          type="checkbox"
+          checked={includeMolstarState}
+          onChange={(e) => setIncludeMolstarState(e.target.checked)}
+          disabled={isDisabled}
+        />
+        Include Mol* state
+      </label>
+
+      {session.error && (
+        <div className="text-xs text-red-600 mt-1">{session.error}</div>
+      )}
+    </div>
+  );
+}
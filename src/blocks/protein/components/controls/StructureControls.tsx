@@ -1,15 +1,69 @@
 "use client";
 
-import React, { useState } from "react";
-import { ChevronDown, ChevronUp, Droplets, Atom, Zap } from "lucide-react";
+import React, { useState, useEffect } from "react";
+import {
+  ChevronDown,
+  ChevronUp,
+  Droplets,
+  Atom,
+  Zap,
+  Eye,
+  EyeOff,
+  Focus,
+  Trash2,
+  Undo2,
+  Redo2,
+  Link,
+  Check,
+} from "lucide-react";
 import { Menu, MenuButton, MenuItem, MenuItems } from "@headlessui/react";
 import type { molstarWrapper } from "@/lib/molstar/molstarWrapper";
+import type { SceneStructure, SuperpositionResult } from "@/types/molstar";
+import type { ConservationMapping, SelectionRegion } from "@/types/sequence";
 import { REPRESENTATIONS } from "@/config/constants";
+import { cls } from "@/components/data/utils";
+import { SuperpositionControls } from "./SuperpositionControls";
+import { ConservationControls } from "./ConservationControls";
+import { MeasurementControls } from "./MeasurementControls";
+import { InteractionsControls } from "./InteractionsControls";
+import { ProximityControls } from "./ProximityControls";
+import { SessionControls } from "./SessionControls";
+import type { MeasurementsState } from "@/hooks/useMeasurements";
+import type { ViewHistory } from "@/hooks/useViewHistory";
+import type { SessionState } from "@/hooks/useSession";
+import type { ViewLinkState } from "@/hooks/useViewLink";
+
+// Map Mol* representation types to our method names
+const representationMap: Record<string, string> = {
+  cartoon: "cartoon",
+  "molecular-surface": "surface",
+  "ball-and-stick": "ball-stick",
+  spacefill: "spacefill",
+};
 
 interface StructureControlsProps {
   wrapper: molstarWrapper | null;
   isLoading?: boolean;
   availableChains?: string[];
+  /** Structure that chain and component operations apply to */
+  activeStructureRef?: string | null;
+  onActiveStructureChange?: (structureRef: string | null) => void;
+  /** Sequence selection of the active structure, for superposition and interactions */
+  selectedRegions?: SelectionRegion[];
+  superposition?: SuperpositionResult | null;
+  onSuperpositionChange?: (result: SuperpositionResult | null) => void;
+  conservation?: ConservationMapping | null;
+  onConservationChange?: (conservation: ConservationMapping | null) => void;
+  /** Replace the sequence selection, e.g. with residues around a ligand */
+  onSelectRegions?: (regions: SelectionRegion[]) => void;
+  /** Measurement picks and list, see useMeasurements */
+  measurements?: MeasurementsState;
+  /** Undo and redo, see useViewHistory */
+  history?: ViewHistory;
+  /** Saving and opening session files, see useSession */
+  session?: SessionState;
+  /** Copying a link to the current view, see useViewLink */
+  viewLink?: ViewLinkState;
 }
 
 /**
@@ -20,8 +74,22 @@ export function StructureControls({
   wrapper,
   isLoading = false,
   availableChains = [],
+  activeStructureRef = null,
+  onActiveStructureChange,
+  selectedRegions,
+  superposition = null,
+  onSuperpositionChange,
+  conservation = null,
+  onConservationChange,
+  onSelectRegions,
+  measurements,
+  history,
+  session,
+  viewLink,
 }: StructureControlsProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [structures, setStructures] = useState<SceneStructure[]>([]);
+  const targetRef = activeStructureRef ?? undefined;
   const [currentRepresentation, setCurrentRepresentation] =
     useState<string>("cartoon");
   const [selectedChain, setSelectedChain] = useState<string>("");
@@ -33,6 +101,60 @@ export function StructureControls({
     ions: false,
   });
 
+  // Keep the structure list, and what the target structure shows, in sync
+  // with the Mol* scene, e.g. after an undo
+  useEffect(() => {
+    if (!wrapper) return;
+
+    const update = () => {
+      setStructures(wrapper.getStructures());
+
+      const viewState = wrapper.getViewState(targetRef);
+      if (!viewState) return;
+      const removed = viewState.removedComponents;
+      setComponentsHidden({
+        water: removed.includes("water"),
+        ligands: removed.includes("ligands"),
+        ions: removed.includes("ions"),
+      });
+      const representation =
+        viewState.representation && representationMap[viewState.representation];
+      if (representation) setCurrentRepresentation(representation);
+    };
+    update();
+    return wrapper.onStructuresChanged(update);
+  }, [wrapper, targetRef]);
+
+  // Scene structure operations
+  const handleToggleStructureVisibility = (structure: SceneStructure) => {
+    wrapper?.setStructureVisibility(structure.ref, !structure.isVisible);
+  };
+
+  const handleFocusStructure = (structureRef: string) => {
+    wrapper?.focusStructure(structureRef);
+  };
+
+  const handleRemoveStructure = async (structureRef: string) => {
+    if (!wrapper || isLoading) return;
+    try {
+      await wrapper.removeStructure(structureRef);
+      if (structureRef === activeStructureRef) {
+        const next = wrapper.getStructures()[0];
+        if (next) wrapper.setActiveStructure(next.ref);
+        onActiveStructureChange?.(next?.ref ?? null);
+      }
+    } catch (error) {
+      console.error("Error removing structure:", error);
+    }
+  };
+
+  const handleSelectStructure = (structureRef: string) => {
+    if (structureRef === activeStructureRef) return;
+    wrapper?.setActiveStructure(structureRef);
+    onActiveStructureChange?.(structureRef);
+    setSelectedChain("");
+  };
+
   // Representation controls
   const handleRepresentationChange = async (representation: string) => {
     if (!wrapper || isLoading) return;
@@ -72,7 +194,7 @@ export function StructureControls({
   const handleHideChain = async (chainId: string) => {
     if (!wrapper || isLoading) return;
     try {
-      await wrapper.hideChain(chainId);
+      await wrapper.hideChain(chainId, targetRef);
     } catch (error) {
       console.error("Error hiding chain:", error);
     }
@@ -81,7 +203,7 @@ export function StructureControls({
   const handleIsolateChain = async (chainId: string) => {
     if (!wrapper || isLoading) return;
     try {
-      await wrapper.isolateChain(chainId);
+      await wrapper.isolateChain(chainId, targetRef);
     } catch (error) {
       console.error("Error isolating chain:", error);
     }
@@ -90,7 +212,7 @@ export function StructureControls({
   const handleShowAllChains = async () => {
     if (!wrapper || isLoading) return;
     try {
-      await wrapper.showAllChains();
+      await wrapper.showAllChains(targetRef);
       setSelectedChain(""); // Clear selection
       setComponentsHidden({ water: false, ligands: false, ions: false }); // Reset component states
     } catch (error) {
@@ -107,8 +229,8 @@ export function StructureControls({
     if (!wrapper || isLoading) return;
     try {
       if (componentsHidden.water) {
-        // Restore water by reloading structure
-        await wrapper.showAllChains(); // This reloads the structure
+        // Restore water by rebuilding the structure's representations
+        await wrapper.showAllChains(targetRef);
         setComponentsHidden((prev) => ({
           ...prev,
           water: false,
@@ -117,7 +239,7 @@ export function StructureControls({
         }));
       } else {
         // Remove water
-        await wrapper.removeWater();
+        await wrapper.removeWater(targetRef);
         setComponentsHidden((prev) => ({ ...prev, water: true }));
       }
     } catch (error) {
@@ -129,8 +251,8 @@ export function StructureControls({
     if (!wrapper || isLoading) return;
     try {
       if (componentsHidden.ligands) {
-        // Restore ligands by reloading structure
-        await wrapper.showAllChains(); // This reloads the structure
+        // Restore ligands by rebuilding the structure's representations
+        await wrapper.showAllChains(targetRef);
         setComponentsHidden((prev) => ({
           ...prev,
           water: false,
@@ -139,7 +261,7 @@ export function StructureControls({
         }));
       } else {
         // Remove ligands
-        await wrapper.removeLigands();
+        await wrapper.removeLigands(targetRef);
         setComponentsHidden((prev) => ({ ...prev, ligands: true }));
       }
     } catch (error) {
@@ -151,8 +273,8 @@ export function StructureControls({
     if (!wrapper || isLoading) return;
     try {
       if (componentsHidden.ions) {
-        // Restore ions by reloading structure
-        await wrapper.showAllChains(); // This reloads the structure
+        // Restore ions by rebuilding the structure's representations
+        await wrapper.showAllChains(targetRef);
         setComponentsHidden((prev) => ({
           ...prev,
           water: false,
@@ -161,7 +283,7 @@ export function StructureControls({
         }));
       } else {
         // Remove ions
-        await wrapper.removeIons();
+        await wrapper.removeIons(targetRef);
         setComponentsHidden((prev) => ({ ...prev, ions: true }));
       }
     } catch (error) {
@@ -169,14 +291,6 @@ export function StructureControls({
     }
   };
 
-  // Map constants to our method names
-  const representationMap: Record<string, string> = {
-    cartoon: "cartoon",
-    "molecular-surface": "surface",
-    "ball-and-stick": "ball-stick",
-    spacefill: "spacefill",
-  };
-
   const getCurrentRepLabel = () => {
     const rep = REPRESENTATIONS.find(
       (r) => representationMap[r.value] === currentRepresentation,
@@ -187,21 +301,195 @@ export function StructureControls({
   return (
     <div className="bg-white border-b border-zinc-200">
       {/* Accordion Header */}
-      <button
-        onClick={() => setIsExpanded(!isExpanded)}
-        className="w-full px-4 py-2 flex items-center justify-between text-sm font-medium text-zinc-700 hover:bg-zinc-50 transition-colors"
-      >
-        <span>Structure Controls</span>
-        {isExpanded ? (
-          <ChevronUp className="h-4 w-4" />
-        ) : (
-          <ChevronDown className="h-4 w-4" />
+      <div className="flex items-center">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex-1 px-4 py-2 flex items-center justify-between text-sm font-medium text-zinc-700 hover:bg-zinc-50 transition-colors"
+        >
+          <span>Structure Controls</span>
+          {isExpanded ? (
+            <ChevronUp className="h-4 w-4" />
+          ) : (
+            <ChevronDown className="h-4 w-4" />
+          )}
+        </button>
+
+        {/* Undo and redo, also Ctrl+Z and Ctrl+Shift+Z */}
+        {history && (
+          <div className="flex items-center gap-0.5 px-2">
+            <button
+              onClick={history.undo}
+              disabled={isLoading || !history.canUndo}
+              className="p-1 rounded text-zinc-600 hover:bg-zinc-100 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+              title={
+                history.undoLabel
+                  ? `Undo: ${history.undoLabel} (Ctrl+Z)`
+                  : "Nothing to undo"
+              }
+            >
+              <Undo2 className="h-3.5 w-3.5" />
+            </button>
+            <button
+              onClick={history.redo}
+              disabled={isLoading || !history.canRedo}
+              className="p-1 rounded text-zinc-600 hover:bg-zinc-100 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+              title={
+                history.redoLabel
+                  ? `Redo: ${history.redoLabel} (Ctrl+Shift+Z)`
+                  : "Nothing to redo"
+              }
+            >
+              <Redo2 className="h-3.5 w-3.5" />
+            </button>
+          </div>
         )}
-      </button>
+
+        {/* Copy a link that opens this view */}
+        {viewLink && (
+          <div className="flex items-center pr-2">
+            <button
+              onClick={viewLink.copyLink}
+              disabled={isLoading || !viewLink.canCopyLink}
+              className="p-1 rounded text-zinc-600 hover:bg-zinc-100 disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+              title={
+                viewLink.canCopyLink
+                  ? "Copy link to this view"
+                  : "Only PDB entries and AlphaFold models can be linked"
+              }
+            >
+              {viewLink.isCopied ? (
+                <Check className="h-3.5 w-3.5 text-green-600" />
+              ) : (
+                <Link className="h-3.5 w-3.5" />
+              )}
+            </button>
+          </div>
+        )}
+      </div>
 
       {/* Accordion Content */}
       {isExpanded && (
         <div className="px-4 pb-3">
+          {/* Structures in the scene */}
+          {structures.length > 0 && (
+            <div className="mb-3">
+              <h4 className="text-xs font-medium text-zinc-600 mb-2">
+                Structures
+              </h4>
+              <div className="space-y-1">
+                {structures.map((structure) => (
+                  <div
+                    key={structure.ref}
+                    className={cls(
+                      "flex items-center gap-1 px-2 py-1 text-xs border rounded",
+                      structure.ref === activeStructureRef
+                        ? "bg-blue-50 border-blue-200 text-blue-700"
+                        : "bg-white border-zinc-200 text-zinc-700",
+                    )}
+                  >
+                    <button
+                      onClick={() => handleSelectStructure(structure.ref)}
+                      disabled={isLoading}
+                      className={cls(
+                        "flex-1 text-left truncate disabled:cursor-not-allowed",
+                        !structure.isVisible && "opacity-50",
+                      )}
+                      title="Target chain and component controls at this structure"
+                    >
+                      {structure.label}
+                    </button>
+                    <button
+                      onClick={() => handleToggleStructureVisibility(structure)}
+                      className="p-0.5 rounded hover:bg-zinc-100"
+                      title={structure.isVisible ? "Hide" : "Show"}
+                    >
+                      {structure.isVisible ? (
+                        <Eye className="h-3 w-3" />
+                      ) : (
+                        <EyeOff className="h-3 w-3" />
+                      )}
+                    </button>
+                    <button
+                      onClick={() => handleFocusStructure(structure.ref)}
+                      className="p-0.5 rounded hover:bg-zinc-100"
+                      title="Focus"
+                    >
+                      <Focus className="h-3 w-3" />
+                    </button>
+                    <button
+                      onClick={() => handleRemoveStructure(structure.ref)}
+                      disabled={isLoading}
+                      className="p-0.5 rounded hover:bg-red-50 hover:text-red-700 disabled:opacity-50"
+                      title="Remove from scene"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {session && (
+            <SessionControls
+              session={session}
+              isLoading={isLoading}
+              canSave={structures.length > 0}
+            />
+          )}
+
+          {/* Superposition needs two structures */}
+          {structures.length > 1 && (
+            <SuperpositionControls
+              wrapper={wrapper}
+              structures={structures}
+              isLoading={isLoading}
+              activeStructureRef={activeStructureRef}
+              selectedRegions={selectedRegions}
+              result={superposition}
+              onResultChange={onSuperpositionChange}
+            />
+          )}
+
+          {structures.length > 0 && (
+            <ConservationControls
+              wrapper={wrapper}
+              structures={structures}
+              isLoading={isLoading}
+              activeStructureRef={activeStructureRef}
+              conservation={conservation}
+              onConservationChange={onConservationChange}
+            />
+          )}
+
+          {measurements && structures.length > 0 && (
+            <MeasurementControls
+              measurements={measurements}
+              isLoading={isLoading}
+            />
+          )}
+
+          {structures.length > 0 && (
+            <ProximityControls
+              wrapper={wrapper}
+              structures={structures}
+              isLoading={isLoading}
+              activeStructureRef={activeStructureRef}
+              selectedRegions={selectedRegions}
+              onSelectRegions={onSelectRegions}
+            />
+          )}
+
+          {structures.length > 0 && (
+            <InteractionsControls
+              wrapper={wrapper}
+              structures={structures}
+              isLoading={isLoading}
+              activeStructureRef={activeStructureRef}
+              selectedRegions={selectedRegions}
+            />
+          )}
+
           {/* Three Column Layout */}
           <div className="grid grid-cols-3 gap-4">
             {/* First Column - Representation & Camera */}
@@ -0,0 +1,277 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from "react";
+import type { molstarWrapper } from "@/lib/molstar/MolstarWrapper";
+import type {
+  SceneStructure,
+  SuperpositionResult,
+  SuperpositionTarget,
+} from "@/types/molstar";
+import type { SelectionRegion } from "@/types/sequence";
+
+interface SuperpositionControlsProps {
+  wrapper: molstarWrapper | null;
+  structures: SceneStructure[];
+  isLoading?: boolean;
+  /** Structure the sequence selection belongs to */
+  activeStructureRef?: string | null;
+  selectedRegions?: SelectionRegion[];
+  result?: SuperpositionResult | null;
+  onResultChange?: (result: SuperpositionResult | null) => void;
+}
+
+const selectClassName =
+  "w-full rounded border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50";
+
+/**
+ * Superpose a chain of one scene structure onto a chain of another
+ * and report the Cα RMSD
+ */
+export function SuperpositionControls({
+  wrapper,
+  structures,
+  isLoading = false,
+  activeStructureRef = null,
+  selectedRegions = [],
+  result = null,
+  onResultChange,
+}: SuperpositionControlsProps) {
+  const [mobileRef, setMobileRef] = useState("");
+  const [referenceRef, setReferenceRef] = useState("");
+  const [mobileChain, setMobileChain] = useState("");
+  const [referenceChain, setReferenceChain] = useState("");
+  const [chainsByStructure, setChainsByStructure] = useState<
+    Record<string, string[]>
+  >({});
+  const [useSelection, setUseSelection] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Default to the first structure as reference and the next one as mobile,
+  // and drop structures that were removed from the scene
+  useEffect(() => {
+    const refs = structures.map((s: SceneStructure) => s.ref);
+    const reference = refs.includes(referenceRef) ? referenceRef : refs[0];
+    const mobile = refs.includes(mobileRef)
+      ? mobileRef
+      : refs.find((ref: string) => ref !== reference);
+    setReferenceRef(reference ?? "");
+    setMobileRef(mobile ?? "");
+  }, [structures, referenceRef, mobileRef]);
+
+  // A result is stale once either structure has left the scene
+  useEffect(() => {
+    if (!result) return;
+    const refs = structures.map((s: SceneStructure) => s.ref);
+    if (
+      !refs.includes(result.mobile.structureRef) ||
+      !refs.includes(result.reference.structureRef)
+    ) {
+      onResultChange?.(null);
+    }
+  }, [structures, result, onResultChange]);
+
+  // Chains are read from the scene whenever its structures change
+  useEffect(() => {
+    if (!wrapper) return;
+    setChainsByStructure(
+      Object.fromEntries(
+        structures.map((s: SceneStructure) => [
+          s.ref,
+          wrapper.getSuperposableChains(s.ref),
+        ]),
+      ),
+    );
+  }, [wrapper, structures]);
+
+  const mobileChains = useMemo(
+    () => chainsByStructure[mobileRef] ?? [],
+    [chainsByStructure, mobileRef],
+  );
+  const referenceChains = useMemo(
+    () => chainsByStructure[referenceRef] ?? [],
+    [chainsByStructure, referenceRef],
+  );
+
+  useEffect(() => {
+    if (!mobileChains.includes(mobileChain)) {
+      setMobileChain(mobileChains[0] ?? "");
+    }
+  }, [mobileChains, mobileChain]);
+
+  useEffect(() => {
+    if (!referenceChains.includes(referenceChain)) {
+      setReferenceChain(referenceChains[0] ?? "");
+    }
+  }, [referenceChains, referenceChain]);
+
+  // The sequence selection only covers the active structure
+  const selectionSide =
+    activeStructureRef === mobileRef
+      ? "mobile"
+      : activeStructureRef === referenceRef
+        ? "reference"
+        : null;
+  const canUseSelection = selectionSide !== null && selectedRegions.length > 0;
+
+  const structureLabel = (ref: string) =>
+    structures.find((s: SceneStructure) => s.ref === ref)?.label ?? ref;
+
+  const handleSuperpose = async () => {
+    if (!wrapper || !mobileChain || !referenceChain) return;
+
+    const mobile: SuperpositionTarget = {
+      structureRef: mobileRef,
+      chainId: mobileChain,
+    };
+    const reference: SuperpositionTarget = {
+      structureRef: referenceRef,
+      chainId: referenceChain,
+    };
+
+    if (useSelection && canUseSelection) {
+      const target = selectionSide === "mobile" ? mobile : reference;
+      const ranges = selectedRegions
+        .filter((region) => region.chainId === target.chainId)
+        .map((region) => ({ start: region.start, end: region.end }));
+      if (ranges.length === 0) {
+        setError(`No residues of chain ${target.chainId} are selected`);
+        return;
+      }
+      target.ranges = ranges;
+    }
+
+    setIsRunning(true);
+    setError(null);
+    try {
+      onResultChange?.(await wrapper.superpose(mobile, reference));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Superposition failed");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleReset = async () => {
+    const ref = result?.mobile.structureRef ?? mobileRef;
+    if (!wrapper || !ref) return;
+
+    setError(null);
+    try {
+      await wrapper.resetSuperposition(ref);
+      onResultChange?.(null);
+    } catch (err) {
+      console.error("Error resetting superposition:", err);
+    }
+  };
+
+  const isDisabled = isLoading || isRunning;
+
+  return (
+    <div className="mb-3">
+      <h4 className="text-xs font-medium text-zinc-600 mb-2">Superpose</h4>
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <div className="space-y-1">
+          <label className="block text-xs text-zinc-500">Mobile</label>
+          <select
+            value={mobileRef}
+            onChange={(e) => setMobileRef(e.target.value)}
+            disabled={isDisabled}
+            className={selectClassName}
+          >
+            {structures.map((structure: SceneStructure) => (
+              <option key={structure.ref} value={structure.ref}>
+                {structure.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={mobileChain}
+            onChange={(e) => setMobileChain(e.target.value)}
+            disabled={isDisabled || mobileChains.length === 0}
+            className={selectClassName}
+          >
+            {mobileChains.map((chainId: string) => (
+              <option key={chainId} value={chainId}>
+                Chain {chainId}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="block text-xs text-zinc-500">Reference</label>
+          <select
+            value={referenceRef}
+            onChange={(e) => setReferenceRef(e.target.value)}
+            disabled={isDisabled}
+            className={selectClassName}
+          >
+            {structures.map((structure: SceneStructure) => (
+              <option key={structure.ref} value={structure.ref}>
+                {structure.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={referenceChain}
+            onChange={(e) => setReferenceChain(e.target.value)}
+            disabled={isDisabled || referenceChains.length === 0}
+            className={selectClassName}
+          >
+            {referenceChains.map((chainId: string) => (
+              <option key={chainId} value={chainId}>
+                Chain {chainId}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <label
+        className="flex items-center gap-1.5 mb-2 text-xs text-zinc-600"
+        title="Restrict the fit to the residues selected in the sequence panel"
+      >
+        <input
+          type="checkbox"
+          checked={useSelection && canUseSelection}
+          onChange={(e) => setUseSelection(e.target.checked)}
+          disabled={isDisabled || !canUseSelection}
+        />
+        Selected residues only
+      </label>
+
+      <div className="flex gap-1">
+        <button
+          onClick={handleSuperpose}
+          disabled={
+            isDisabled ||
+            !mobileChain ||
+            !referenceChain ||
+            mobileRef === referenceRef
+          }
+          className="flex-1 px-2 py-1 text-xs bg-white border border-zinc-200 text-zinc-700 rounded hover:bg-blue-50 hover:border-blue-300 hover:text-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRunning ? "Superposing..." : "Superpose"}
+        </button>
+        <button
+          onClick={handleReset}
+          disabled={isDisabled || !result}
+          className="flex-1 px-2 py-1 text-xs bg-white border border-zinc-200 text-zinc-700 rounded hover:bg-zinc-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Reset
+        </button>
+      </div>
+
+      {error && <div className="text-xs text-red-600 mt-1">{error}</div>}
+
+      {result && (
+        <div className="text-xs text-zinc-600 mt-1">
+          {structureLabel(result.mobile.structureRef)}:{result.mobile.chainId}{" "}
+          onto {structureLabel(result.reference.structureRef)}:
+          {result.reference.chainId} · RMSD {result.rmsd.toFixed(2)} Å over{" "}
+          {result.alignedCount} Cα
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,12 +2,14 @@
 
 import React, { useState } from "react";
 import { ChainTooltip } from "./ChainTooltip";
+import type { PolymerType } from "@/types/sequence";
 
 interface ChainInfo {
   id: string;
   name?: string;
   residueCount: number;
   description?: string;
+  polymerType?: PolymerType;
 }
 
 interface ChainSelectorProps {
@@ -113,7 +115,7 @@ export function ChainSelector({
                   }
                   hover:scale-105 active:scale-95
                 `}
-                title={`Chain ${chain.id}${chain.name ? ` - ${chain.name}` : ""}`}
+                title={`Chain ${chain.id}${chain.polymerType && chain.polymerType !== "protein" ? ` (${chain.polymerType.toUpperCase()})` : ""}${chain.name ? ` - ${chain.name}` : ""}`}
               >
                 {chain.id}
               </button>
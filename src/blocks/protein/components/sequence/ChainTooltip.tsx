@@ -1,12 +1,14 @@
 "use client";
 
 import React from "react";
+import type { PolymerType } from "@/types/sequence";
 
 interface ChainInfo {
   id: string;
   name?: string;
   residueCount: number;
   description?: string;
+  polymerType?: PolymerType;
 }
 
 interface ChainTooltipProps {
@@ -40,7 +42,10 @@ export function ChainTooltip({
           </div>
         )}
         <div className="text-gray-400 mt-1">
-          {chain.residueCount.toLocaleString()} residues
+          {chain.residueCount.toLocaleString()}{" "}
+          {chain.polymerType === "dna" || chain.polymerType === "rna"
+            ? `nucleotides (${chain.polymerType.toUpperCase()})`
+            : "residues"}
         </div>
         {chain.description && (
           <div className="text-gray-400 mt-1 text-xs">{chain.description}</div>
@@ -0,0 +1,334 @@
+"use client";
+
+import React, { useState, useEffect, useMemo, useCallback } from "react";
+import { AlignmentGrid } from "@/blocks/sequence";
+import type { AlignedSelection, AlignmentGridRow } from "@/blocks/sequence";
+import { usePDBSequence } from "@/hooks/usePdbSequence";
+import {
+  DEFAULT_ALIGNMENT_PARAMS,
+  alignSequences,
+  alignmentPercent,
+} from "@/lib/sequenceAlignment";
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import type { SceneStructure, StructureResidueRange } from "@/types/molstar";
+import type {
+  AlignmentMode,
+  PairwiseAlignment,
+  SequenceChain,
+  SequenceResidue,
+} from "@/types/sequence";
+
+interface PairwiseAlignmentPanelProps {
+  plugin?: PluginUIContext | null;
+  structures: SceneStructure[];
+  activeStructureRef?: string | null;
+  /** Residues selected in the alignment, per structure */
+  onSelectionChange?: (ranges: StructureResidueRange[]) => void;
+}
+
+interface ChainPick {
+  structureRef: string;
+  chainId: string;
+}
+
+const inputClassName =
+  "rounded border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-700 focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+/**
+ * Group residues into author-numbered ranges of consecutive chain residues
+ */
+function toResidueRanges(
+  structureRef: string,
+  chain: SequenceChain,
+  residues: SequenceResidue[],
+): StructureResidueRange[] {
+  const indices = residues
+    .map((residue) => chain.residues.indexOf(residue))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b);
+
+  const ranges: StructureResidueRange[] = [];
+  let runStart = 0;
+  for (let k = 1; k <= indices.length; k++) {
+    if (k < indices.length && indices[k] === indices[k - 1] + 1) continue;
+    ranges.push({
+      structureRef,
+      chainId: chain.id,
+      startSeq: chain.residues[indices[runStart]].position,
+      endSeq: chain.residues[indices[k - 1]].position,
+    });
+    runStart = k;
+  }
+  return ranges;
+}
+
+/**
+ * Pick a structure and chain for one side of the alignment
+ */
+function ChainPicker({
+  label,
+  structures,
+  chains,
+  value,
+  onChange,
+}: {
+  label: string;
+  structures: SceneStructure[];
+  chains: SequenceChain[];
+  value: ChainPick;
+  onChange: (value: ChainPick) => void;
+}) {
+  return (
+    <div className="flex items-center gap-1">
+      <span className="text-xs text-zinc-500 w-4">{label}</span>
+      <select
+        value={value.structureRef}
+        onChange={(e) =>
+          onChange({ structureRef: e.target.value, chainId: "" })
+        }
+        className={`${inputClassName} max-w-[10rem]`}
+      >
+        {structures.map((structure) => (
+          <option key={structure.ref} value={structure.ref}>
+            {structure.label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={value.chainId}
+        onChange={(e) => onChange({ ...value, chainId: e.target.value })}
+        disabled={chains.length === 0}
+        className={inputClassName}
+      >
+        {chains.map((chain) => (
+          <option key={chain.id} value={chain.id}>
+            Chain {chain.id}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+/**
+ * Pairwise alignment of two chains, from the same or different structures
+ */
+export function PairwiseAlignmentPanel({
+  plugin,
+  structures,
+  activeStructureRef,
+  onSelectionChange,
+}: PairwiseAlignmentPanelProps) {
+  const [pickA, setPickA] = useState<ChainPick>({
+    structureRef: "",
+    chainId: "",
+  });
+  const [pickB, setPickB] = useState<ChainPick>({
+    structureRef: "",
+    chainId: "",
+  });
+  const [mode, setMode] = useState<AlignmentMode>(
+    DEFAULT_ALIGNMENT_PARAMS.mode,
+  );
+  const [gapOpen, setGapOpen] = useState(DEFAULT_ALIGNMENT_PARAMS.gapOpen);
+  const [gapExtend, setGapExtend] = useState(
+    DEFAULT_ALIGNMENT_PARAMS.gapExtend,
+  );
+
+  // Default to the active structure against the next one in the scene
+  useEffect(() => {
+    const refs = structures.map((s) => s.ref);
+    setPickA((pick) =>
+      refs.includes(pick.structureRef)
+        ? pick
+        : { structureRef: activeStructureRef ?? refs[0] ?? "", chainId: "" },
+    );
+    setPickB((pick) =>
+      refs.includes(pick.structureRef)
+        ? pick
+        : {
+            structureRef:
+              refs.find((ref) => ref !== activeStructureRef) ?? refs[0] ?? "",
+            chainId: "",
+          },
+    );
+  }, [structures, activeStructureRef]);
+
+  const labelOf = (ref: string) =>
+    structures.find((s) => s.ref === ref)?.label ?? null;
+
+  const sequenceA = usePDBSequence(labelOf(pickA.structureRef), {
+    plugin,
+    structureRef: pickA.structureRef,
+  });
+  const sequenceB = usePDBSequence(labelOf(pickB.structureRef), {
+    plugin,
+    structureRef: pickB.structureRef,
+  });
+  const chainsA = useMemo(() => sequenceA.data?.chains ?? [], [sequenceA.data]);
+  const chainsB = useMemo(() => sequenceB.data?.chains ?? [], [sequenceB.data]);
+
+  // Fill in chains once the sequences are known; the same structure on both
+  // sides defaults to two different chains
+  useEffect(() => {
+    if (chainsA.length === 0 || chainsA.some((c) => c.id === pickA.chainId))
+      return;
+    setPickA((pick) => ({ ...pick, chainId: chainsA[0].id }));
+  }, [chainsA, pickA.chainId]);
+
+  useEffect(() => {
+    if (chainsB.length === 0 || chainsB.some((c) => c.id === pickB.chainId))
+      return;
+    const other =
+      pickA.structureRef === pickB.structureRef
+        ? chainsB.find((c) => c.id !== pickA.chainId)
+        : undefined;
+    setPickB((pick) => ({ ...pick, chainId: (other ?? chainsB[0]).id }));
+  }, [
+    chainsB,
+    pickB.chainId,
+    pickA.structureRef,
+    pickB.structureRef,
+    pickA.chainId,
+  ]);
+
+  const chainA = chainsA.find((c) => c.id === pickA.chainId);
+  const chainB = chainsB.find((c) => c.id === pickB.chainId);
+
+  const { alignment, error } = useMemo((): {
+    alignment: PairwiseAlignment | null;
+    error: string | null;
+  } => {
+    if (!chainA || !chainB) return { alignment: null, error: null };
+    try {
+      const sequence = (chain: SequenceChain) =>
+        chain.residues.map((residue) => residue.code).join("");
+      return {
+        alignment: alignSequences(sequence(chainA), sequence(chainB), {
+          mode,
+          gapOpen,
+          gapExtend,
+        }),
+        error: null,
+      };
+    } catch (err) {
+      return {
+        alignment: null,
+        error: err instanceof Error ? err.message : "Alignment failed",
+      };
+    }
+  }, [chainA, chainB, mode, gapOpen, gapExtend]);
+
+  // Selections refer to the previous alignment
+  useEffect(() => {
+    onSelectionChange?.([]);
+  }, [alignment, onSelectionChange]);
+
+  const handleSelectionChange = useCallback(
+    ([residuesA, residuesB]: AlignedSelection) => {
+      if (!chainA || !chainB) return;
+      onSelectionChange?.([
+        ...toResidueRanges(pickA.structureRef, chainA, residuesA),
+        ...toResidueRanges(pickB.structureRef, chainB, residuesB),
+      ]);
+    },
+    [chainA, chainB, pickA.structureRef, pickB.structureRef, onSelectionChange],
+  );
+
+  const labelA = `${labelOf(pickA.structureRef) ?? ""}:${pickA.chainId}`;
+  const labelB = `${labelOf(pickB.structureRef) ?? ""}:${pickB.chainId}`;
+  const rows = useMemo(
+    () =>
+      chainA && chainB
+        ? ([
+            { label: labelA, residues: chainA.residues },
+            { label: labelB, residues: chainB.residues },
+          ] as [AlignmentGridRow, AlignmentGridRow])
+        : null,
+    [chainA, chainB, labelA, labelB],
+  );
+
+  const isLoading = sequenceA.isLoading || sequenceB.isLoading;
+  const loadError = sequenceA.error ?? sequenceB.error;
+
+  return (
+    <div className="bg-white">
+      <div className="flex flex-wrap items-center gap-3 px-6 pt-4 text-xs text-zinc-600">
+        <ChainPicker
+          label="A"
+          structures={structures}
+          chains={chainsA}
+          value={pickA}
+          onChange={setPickA}
+        />
+        <ChainPicker
+          label="B"
+          structures={structures}
+          chains={chainsB}
+          value={pickB}
+          onChange={setPickB}
+        />
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as AlignmentMode)}
+          className={inputClassName}
+          title="Needleman–Wunsch (global) or Smith–Waterman (local)"
+        >
+          <option value="global">Global (NW)</option>
+          <option value="local">Local (SW)</option>
+        </select>
+        <label className="flex items-center gap-1">
+          Gap open
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={gapOpen}
+            onChange={(e) => setGapOpen(Math.max(0, Number(e.target.value)))}
+            className={`${inputClassName} w-14`}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          Extend
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={gapExtend}
+            onChange={(e) => setGapExtend(Math.max(0, Number(e.target.value)))}
+            className={`${inputClassName} w-14`}
+          />
+        </label>
+      </div>
+
+      {alignment && (
+        <div className="px-6 pt-3 text-xs text-zinc-600">
+          Identity {alignment.identical}/{alignment.columns.length} (
+          {alignmentPercent(alignment.identical, alignment).toFixed(1)}%) ·
+          Similarity {alignment.similar}/{alignment.columns.length} (
+          {alignmentPercent(alignment.similar, alignment).toFixed(1)}%) · Gaps{" "}
+          {alignment.gaps} · Score {alignment.score.toFixed(1)} · BLOSUM62
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="px-6 py-4 text-xs text-zinc-500">
+          Loading sequences...
+        </div>
+      )}
+      {(loadError || error) && (
+        <div className="px-6 py-4 text-xs text-red-600">
+          {loadError ?? error}
+        </div>
+      )}
+
+      {alignment && rows && (
+        <AlignmentGrid
+          alignment={alignment}
+          rows={rows}
+          onSelectionChange={handleSelectionChange}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,39 +1,56 @@
 import React from "react";
 import { SequenceInterface } from "@/blocks/sequence";
 import { usePDBSequence } from "@/hooks/usePdbSequence";
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
 import type {
   SequenceSelection,
   SequenceResidue,
   SelectionRegion,
+  ResidueTrack,
 } from "@/types/sequence";
 
 interface SequenceViewerProps {
-  pdbId: string;
+  structureId: string;
+  plugin?: PluginUIContext | null;
+  structureRef?: string | null;
   className?: string;
+  /** Selection to apply to the sequence interface, see SequenceInterfaceProps */
+  selection?: SequenceSelection;
   onSelectionChange?: (selection: SequenceSelection) => void;
   onHighlightChange?: (residues: SequenceResidue[]) => void;
   selectedChainIds?: string[];
   onChainSelectionChange?: (chainIds: string[]) => void;
+  residueTracks?: ResidueTrack[];
+  colorScheme?: string;
+  residueScores?: Map<string, number>;
   onResidueAction?: (
     region: SelectionRegion,
-    action: "hide" | "isolate" | "highlight" | "copy",
+    action: "hide" | "isolate" | "highlight" | "copy" | "measure",
   ) => void;
+  onExportCoordinates?: (regions: SelectionRegion[]) => void;
 }
 
 export function SequenceViewer({
-  pdbId,
+  structureId,
+  plugin,
+  structureRef,
   className = "",
+  selection,
   onSelectionChange,
   onHighlightChange,
   selectedChainIds,
   onChainSelectionChange,
+  residueTracks,
+  colorScheme,
+  residueScores,
   onResidueAction,
+  onExportCoordinates,
 }: SequenceViewerProps) {
   const {
     data: sequenceData,
     isLoading: isSequenceLoading,
     error: sequenceError,
-  } = usePDBSequence(pdbId);
+  } = usePDBSequence(structureId, { plugin, structureRef });
 
   if (sequenceError) {
     return (
@@ -55,7 +72,9 @@ export function SequenceViewer({
       >
         <div className="p-6 text-center">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <div className="text-gray-600">Loading sequence data from PDB...</div>
+          <div className="text-gray-600">
+            Loading sequence data from structure...
+          </div>
         </div>
       </div>
     );
@@ -77,12 +96,17 @@ export function SequenceViewer({
     <div className={`bg-white rounded-lg shadow overflow-hidden ${className}`}>
       <SequenceInterface
         data={sequenceData}
+        selection={selection}
         selectedChainIds={selectedChainIds}
         onChainSelectionChange={onChainSelectionChange}
+        residueTracks={residueTracks}
+        colorScheme={colorScheme}
+        residueScores={residueScores}
         callbacks={{
           onSelectionChange,
           onHighlightChange,
           onResidueAction,
+          onExportCoordinates,
         }}
         className="min-h-96"
       />
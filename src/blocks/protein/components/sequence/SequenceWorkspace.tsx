@@ -11,7 +11,17 @@ import {
 } from "lucide-react";
 import { SequenceViewer } from "./SequenceViewer";
 import { ChainSelector } from "./ChainSelector";
+import { PairwiseAlignmentPanel } from "./PairwiseAlignmentPanel";
+import { cls } from "@/components/data/utils";
+import { COLOR_SCHEME_OPTIONS } from "@/lib/aminoAcidColors";
 import { usePDBSequence } from "@/hooks/usePdbSequence";
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import type {
+  PolymerType,
+  ResidueTrack,
+  SelectionRegion,
+} from "@/types/sequence";
+import type { SceneStructure, StructureResidueRange } from "@/types/molstar";
 import type {
   SequenceSelection,
   SequenceResidue,
@@ -22,20 +32,43 @@ interface ChainInfo {
   name?: string;
   residueCount: number;
   description?: string;
+  polymerType?: PolymerType;
 }
 
+/** Colour schemes offered only when the entry has DNA or RNA chains */
+const NUCLEOTIDE_SCHEMES = ["nucleotide", "purine-pyrimidine"];
+
 interface SequenceWorkspaceProps {
   pdbId?: string;
+  /** Id of the structure that finished loading in Mol*; null while loading */
+  structureId?: string | null;
+  plugin?: PluginUIContext | null;
+  /** Scene structure the sequence is shown for (multi-structure scenes) */
+  structureRef?: string | null;
   isViewerReady?: boolean;
+  /** Selection pushed into the sequence interface, e.g. proximity selection */
+  selection?: SequenceSelection;
   onSelectionChange?: (selection: SequenceSelection) => void;
   onHighlightChange?: (residues: SequenceResidue[]) => void;
   selectedChainIds?: string[];
   onChainSelectionChange?: (chainIds: string[]) => void;
   onChainsLoaded?: (chainIds: string[]) => void;
+  /** Extra per-residue tracks, e.g. superposition deviation */
+  residueTracks?: ResidueTrack[];
+  /** Sequence colour scheme id, see COLOR_SCHEMES */
+  colorScheme?: string;
+  onColorSchemeChange?: (colorScheme: string) => void;
+  /** Scores for score-based colour schemes, e.g. MSA conservation */
+  residueScores?: Map<string, number>;
+  /** Scene structures whose chains can be aligned */
+  structures?: SceneStructure[];
+  onAlignmentSelectionChange?: (ranges: StructureResidueRange[]) => void;
   onResidueAction?: (
     region: SelectionRegion,
-    action: "hide" | "isolate" | "highlight" | "copy",
+    action: "hide" | "isolate" | "highlight" | "copy" | "measure",
   ) => void;
+  /** Export coordinates of selected regions, see SelectionSummary */
+  onExportCoordinates?: (regions: SelectionRegion[]) => void;
   className?: string;
 }
 
@@ -44,29 +77,47 @@ interface SequenceWorkspaceProps {
  *
  * Responsibilities:
  * - UI layout and presentation (collapsible, compact view)
- * - PDB data fetching and transformation
+ * - Sequence extraction from the loaded structure
  * - Chain selection state management
  * - Integration between ChainSelector and SequenceInterface
  */
 export function SequenceWorkspace({
   pdbId,
+  structureId = null,
+  plugin,
+  structureRef,
   isViewerReady,
+  selection,
   onSelectionChange,
   onHighlightChange,
   selectedChainIds = [],
   onChainSelectionChange,
   onChainsLoaded,
+  residueTracks,
+  colorScheme,
+  onColorSchemeChange,
+  residueScores,
+  structures = [],
+  onAlignmentSelectionChange,
   onResidueAction,
+  onExportCoordinates,
   className = "",
 }: SequenceWorkspaceProps) {
   const [isExpanded, setIsExpanded] = useState(true); // Start open like structure controls
+  const [viewMode, setViewMode] = useState<"sequence" | "alignment">(
+    "sequence",
+  );
   const [showTooltip, setShowTooltip] = useState(false);
   const [showInstructions, setShowInstructions] = useState(false);
   const [currentSelection, setCurrentSelection] =
     useState<SequenceSelection | null>(null);
 
-  // Fetch PDB data for chain selector only
-  const { data: pdbData, isLoading, error } = usePDBSequence(pdbId || "");
+  // Derive chains for the chain selector from the loaded model
+  const {
+    data: pdbData,
+    isLoading,
+    error,
+  } = usePDBSequence(structureId, { plugin, structureRef });
 
   // Transform PDB chains to ChainInfo format for ChainSelector
   const chainInfo = useMemo((): ChainInfo[] => {
@@ -76,10 +127,21 @@ export function SequenceWorkspace({
       id: chain.id,
       name: chain.name,
       residueCount: chain.residues.length,
-      description: chain.organism || "Protein chain",
+      description:
+        chain.organism ||
+        (chain.polymerType === "dna"
+          ? "DNA chain"
+          : chain.polymerType === "rna"
+            ? "RNA chain"
+            : "Protein chain"),
+      polymerType: chain.polymerType,
     }));
   }, [pdbData]);
 
+  const hasNucleicAcids = chainInfo.some(
+    (chain) => chain.polymerType === "dna" || chain.polymerType === "rna",
+  );
+
   // Notify parent when chains are loaded
   useEffect(() => {
     if (chainInfo.length > 0 && onChainsLoaded) {
@@ -105,6 +167,12 @@ export function SequenceWorkspace({
     onSelectionChange?.(selection);
   };
 
+  const handleViewModeChange = (mode: "sequence" | "alignment") => {
+    setViewMode(mode);
+    // Alignment selections only apply while the alignment is shown
+    if (mode === "sequence") onAlignmentSelectionChange?.([]);
+  };
+
   // Calculate selection stats for compact display
   const selectionStats = useMemo(() => {
     if (!currentSelection) {
@@ -136,7 +204,7 @@ export function SequenceWorkspace({
     );
   }
 
-  if (isLoading) {
+  if (isLoading || !structureId) {
     return (
       <div className={`bg-white border-t border-zinc-200 ${className}`}>
         <div className="px-4 py-3">
@@ -188,7 +256,7 @@ export function SequenceWorkspace({
           </button>
 
           {/* Chain Selector - Not inside button */}
-          {chainInfo.length > 0 && (
+          {viewMode === "sequence" && chainInfo.length > 0 && (
             <div className="flex items-center gap-2 min-w-0 flex-1">
               <span className="font-mono uppercase text-zinc-600 text-xs flex-shrink-0">
                 {pdbId}
@@ -215,6 +283,53 @@ export function SequenceWorkspace({
           )}
         </div>
 
+        {/* Colour scheme; conservation is shown while scores are mapped */}
+        {viewMode === "sequence" && onColorSchemeChange && (
+          <select
+            value={colorScheme ?? "default"}
+            onChange={(e) => onColorSchemeChange(e.target.value)}
+            disabled={!!residueScores}
+            className="mr-2 rounded border border-zinc-200 bg-white px-1.5 py-0.5 text-xs text-zinc-600 focus:border-blue-500 focus:outline-none disabled:opacity-50"
+            title={
+              residueScores
+                ? "Coloured by conservation while an alignment is mapped"
+                : "Sequence colour scheme"
+            }
+          >
+            {COLOR_SCHEME_OPTIONS.filter(
+              (option) =>
+                (option.value !== "conservation" || residueScores) &&
+                (!NUCLEOTIDE_SCHEMES.includes(option.value) || hasNucleicAcids),
+            ).map((option) => (
+              <option
+                key={option.value}
+                value={option.value}
+                title={option.description}
+              >
+                {option.label}
+              </option>
+            ))}
+          </select>
+        )}
+
+        {/* Sequence / pairwise alignment view */}
+        <div className="flex items-center gap-0.5 rounded border border-zinc-200 p-0.5 text-xs">
+          {(["sequence", "alignment"] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => handleViewModeChange(mode)}
+              className={cls(
+                "px-2 py-0.5 rounded capitalize transition-colors",
+                viewMode === mode
+                  ? "bg-zinc-100 text-zinc-900"
+                  : "text-zinc-500 hover:text-zinc-700",
+              )}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+
         {/* Help Button with Tooltip */}
         <div className="relative">
           <button
@@ -257,15 +372,31 @@ export function SequenceWorkspace({
       {/* Accordion Content */}
       {isExpanded && (
         <div className="bg-zinc-50">
-          <SequenceViewer
-            pdbId={pdbId}
-            selectedChainIds={effectiveSelectedChains}
-            onChainSelectionChange={onChainSelectionChange}
-            onSelectionChange={handleSelectionChange}
-            onHighlightChange={onHighlightChange}
-            onResidueAction={onResidueAction}
-            className="compact-sequence"
-          />
+          {viewMode === "alignment" ? (
+            <PairwiseAlignmentPanel
+              plugin={plugin}
+              structures={structures}
+              activeStructureRef={structureRef}
+              onSelectionChange={onAlignmentSelectionChange}
+            />
+          ) : (
+            <SequenceViewer
+              structureId={structureId}
+              plugin={plugin}
+              structureRef={structureRef}
+              selection={selection}
+              selectedChainIds={effectiveSelectedChains}
+              onChainSelectionChange={onChainSelectionChange}
+              onSelectionChange={handleSelectionChange}
+              onHighlightChange={onHighlightChange}
+              residueTracks={residueTracks}
+              colorScheme={colorScheme}
+              residueScores={residueScores}
+              onResidueAction={onResidueAction}
+              onExportCoordinates={onExportCoordinates}
+              className="compact-sequence"
+            />
+          )}
         </div>
       )}
 
@@ -1,5 +1,6 @@
 // Protein Sequence Components
 export { SequenceWorkspace } from "./SequenceWorkspace";
 export { SequenceViewer } from "./SequenceViewer";
+export { PairwiseAlignmentPanel } from "./PairwiseAlignmentPanel";
 export { ChainSelector } from "./ChainSelector";
 export { ChainTooltip } from "./ChainTooltip";
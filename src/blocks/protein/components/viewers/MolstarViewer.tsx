@@ -1,14 +1,24 @@
 "use client";
 
-import React, { useRef, useEffect, useState } from "react";
+import React, { useRef, useEffect, useState, useMemo } from "react";
 import { molstarWrapper } from "@/lib/molstar/MolstarWrapper";
+import {
+  getStructureSourceKey,
+  getStructureSourceLabel,
+} from "@/lib/molstar/structureSource";
+import type { StructureResidueRange, StructureSource } from "@/types/molstar";
 import { Script } from "molstar/lib/mol-script/script";
 import { StructureSelection } from "molstar/lib/mol-model/structure";
 
 export interface MolstarViewerProps {
   pdbId?: string;
+  /** Structure to load (PDB entry, file, AlphaFold model); overrides pdbId */
+  source?: StructureSource | null;
+  /** Scene structure that highlights apply to; defaults to the active one */
+  structureRef?: string | null;
   className?: string;
-  onStructureLoaded?: (pdbId: string) => void;
+  /** Called when a source is loaded (or re-selected if already in the scene) */
+  onStructureLoaded?: (pdbId: string, structureRef: string) => void;
   onError?: (error: string) => void;
   showControls?: boolean;
   // Expose wrapper methods for external controls
@@ -18,8 +28,16 @@ export interface MolstarViewerProps {
     chainId: string;
     startSeq: number;
     endSeq: number;
+    /** label_asym_id and label_seq_id instead of author numbering */
+    label?: boolean;
   }>;
-  hoveredResidues?: Array<{ chainId: string; residueNumber: number }>;
+  hoveredResidues?: Array<{
+    chainId: string;
+    residueNumber: number;
+    insertionCode?: string;
+  }>;
+  /** Extra ranges highlighted in their own structures, e.g. from an alignment */
+  linkedRegions?: StructureResidueRange[];
 }
 
 /**
@@ -28,6 +46,8 @@ export interface MolstarViewerProps {
  */
 export function MolstarViewer({
   pdbId = "1grm",
+  source = null,
+  structureRef = null,
   className = "",
   onStructureLoaded,
   onError,
@@ -35,12 +55,22 @@ export function MolstarViewer({
   onWrapperReady,
   selectedRegions = [],
   hoveredResidues = [],
+  linkedRegions = [],
 }: MolstarViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const wrapperRef = useRef<molstarWrapper | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [currentPdbId, setCurrentPdbId] = useState(pdbId);
+  const resolvedSource = useMemo<StructureSource | null>(
+    () => source ?? (pdbId ? { kind: "pdb", id: pdbId } : null),
+    [source, pdbId],
+  );
+  const sourceKey = resolvedSource
+    ? getStructureSourceKey(resolvedSource)
+    : null;
+  const [currentSourceKey, setCurrentSourceKey] = useState(sourceKey);
+  // Source currently being added to the scene, to avoid loading it twice
+  const loadingKeyRef = useRef<string | null>(sourceKey);
 
   // Initialize wrapper once
   useEffect(() => {
@@ -81,11 +111,12 @@ export function MolstarViewer({
         onWrapperReady?.(wrapper);
 
         // Load initial structure immediately after initialization
-        if (pdbId) {
+        if (resolvedSource) {
+          const sourceId = getStructureSourceLabel(resolvedSource);
           try {
-            await wrapper.loadPDB(pdbId);
-            setCurrentPdbId(pdbId);
-            onStructureLoaded?.(pdbId);
+            const loadedRef = await wrapper.loadSource(resolvedSource);
+            setCurrentSourceKey(sourceKey);
+            onStructureLoaded?.(sourceId, loadedRef);
             setIsLoading(false);
           } catch (loadErr) {
             const errorMsg =
@@ -93,12 +124,14 @@ export function MolstarViewer({
                 ? loadErr.message
                 : "Failed to load initial structure";
             console.error(
-              `Failed to load initial structure ${pdbId}:`,
+              `Failed to load initial structure ${sourceId}:`,
               loadErr,
             );
             setError(errorMsg);
             onError?.(errorMsg);
             setIsLoading(false);
+          } finally {
+            loadingKeyRef.current = null;
           }
         } else {
           setIsLoading(false);
@@ -126,31 +159,52 @@ export function MolstarViewer({
     };
   }, []); // No dependencies - init only once
 
-  // Handle PDB ID changes (not initial load)
+  // Handle source changes (not initial load). New sources are added to the
+  // scene; sources already in the scene are just re-selected.
   useEffect(() => {
-    if (!wrapperRef.current || !pdbId || pdbId === currentPdbId) return;
+    const wrapper = wrapperRef.current;
+    if (
+      !wrapper ||
+      !resolvedSource ||
+      !sourceKey ||
+      loadingKeyRef.current === sourceKey
+    )
+      return;
+
+    const sourceId = getStructureSourceLabel(resolvedSource);
+    const existingRef = wrapper.findStructureBySource(sourceKey);
+    if (existingRef) {
+      if (sourceKey !== currentSourceKey) {
+        wrapper.setActiveStructure(existingRef);
+        setCurrentSourceKey(sourceKey);
+        onStructureLoaded?.(sourceId, existingRef);
+      }
+      return;
+    }
 
     const loadNewStructure = async () => {
+      loadingKeyRef.current = sourceKey;
       try {
         setIsLoading(true);
         setError(null);
 
-        await wrapperRef.current!.loadPDB(pdbId);
-        setCurrentPdbId(pdbId);
-        onStructureLoaded?.(pdbId);
+        const loadedRef = await wrapper.loadSource(resolvedSource);
+        setCurrentSourceKey(sourceKey);
+        onStructureLoaded?.(sourceId, loadedRef);
       } catch (err) {
         const errorMsg =
           err instanceof Error ? err.message : "Failed to load structure";
-        console.error(`Failed to load new structure ${pdbId}:`, err);
+        console.error(`Failed to load new structure ${sourceId}:`, err);
         setError(errorMsg);
         onError?.(errorMsg);
       } finally {
+        loadingKeyRef.current = null;
         setIsLoading(false);
       }
     };
 
     loadNewStructure();
-  }, [pdbId, currentPdbId, onStructureLoaded, onError]); // Only when pdbId actually changes
+  }, [resolvedSource, sourceKey, currentSourceKey, onStructureLoaded, onError]); // Only loads sources that are not in the scene yet
 
   // Handle highlighting from sequence selections
   useEffect(() => {
@@ -161,6 +215,8 @@ export function MolstarViewer({
       chainId: string;
       startSeq: number;
       endSeq: number;
+      insertionCode?: string;
+      label?: boolean;
     }> = [];
 
     // Add selected regions
@@ -169,6 +225,7 @@ export function MolstarViewer({
         chainId: region.chainId,
         startSeq: region.startSeq,
         endSeq: region.endSeq,
+        label: region.label,
       });
     });
 
@@ -178,16 +235,31 @@ export function MolstarViewer({
         chainId: residue.chainId,
         startSeq: residue.residueNumber,
         endSeq: residue.residueNumber,
+        insertionCode: residue.insertionCode,
       });
     });
 
     // Apply highlighting
     if (allHighlights.length > 0) {
-      wrapperRef.current.highlightResidues(allHighlights);
+      wrapperRef.current.highlightResidues(
+        allHighlights,
+        structureRef ?? undefined,
+      );
     } else {
       wrapperRef.current.clearHighlight();
     }
-  }, [selectedRegions, hoveredResidues]);
+
+    // Linked ranges are added per structure on top of the highlights above
+    const linkedByStructure = new Map<string, StructureResidueRange[]>();
+    linkedRegions.forEach((region) => {
+      const ranges = linkedByStructure.get(region.structureRef) ?? [];
+      ranges.push(region);
+      linkedByStructure.set(region.structureRef, ranges);
+    });
+    linkedByStructure.forEach((ranges, ref) => {
+      wrapperRef.current?.highlightResidues(ranges, ref, { append: true });
+    });
+  }, [selectedRegions, hoveredResidues, linkedRegions, structureRef]);
 
   // Basic control handlers (only if showControls is true)
   const handleResetCamera = () => {
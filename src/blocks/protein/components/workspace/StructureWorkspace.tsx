@@ -10,7 +10,33 @@ import { MolstarViewer } from "../viewers/MolstarViewer";
 import { SequenceWorkspace } from "../sequence/SequenceWorkspace";
 import { PDBLoader } from "../controls/PDBLoader";
 import { StructureControls } from "../controls/StructureControls";
+import { CameraControls } from "../controls/CameraControls";
+import { CoordinateExportDialog } from "../controls/CoordinateExportDialog";
 import { DEFAULT_STRUCTURE_ID } from "@/config/constants";
+import { useMeasurements } from "@/hooks/useMeasurements";
+import { useViewHistory } from "@/hooks/useViewHistory";
+import { useSession } from "@/hooks/useSession";
+import { useViewLink } from "@/hooks/useViewLink";
+import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
+import { useMolstar } from "@/contexts/MolstarContext";
+import {
+  getStructureSourceKey,
+  getStructureSourceLabel,
+} from "@/lib/molstar/structureSource";
+import {
+  DEVIATION_BANDS,
+  getDeviationColor,
+} from "@/lib/molstar/superposition";
+import { getResidueKey } from "@/lib/molstar/sequenceToMolstar";
+import type {
+  SceneStructure,
+  StructureResidueRange,
+  StructureSource,
+  SuperpositionResult,
+} from "@/types/molstar";
+import type { ConservationMapping, ResidueTrack } from "@/types/sequence";
+import type { KeyboardShortcut } from "@/types/ui";
+import type { AnalysisSession, ViewLink } from "@/types/session";
 import type { molstarWrapper } from "@/lib/molstar/molstarWrapper";
 import type {
   SelectionRegion,
@@ -28,7 +54,18 @@ export function StructureWorkspace({
   initialPdbId = DEFAULT_STRUCTURE_ID,
 }: StructureWorkspaceProps) {
   // Core state
-  const [pdbId, setPdbId] = useState<string>(initialPdbId);
+  const [source, setSource] = useState<StructureSource>({
+    kind: "pdb",
+    id: initialPdbId,
+  });
+  const pdbId = source.kind === "pdb" ? source.id : undefined;
+  const [loadedStructureId, setLoadedStructureId] = useState<string | null>(
+    null,
+  );
+  // Scene structure shown in the sequence panel and targeted by operations
+  const [activeStructureRef, setActiveStructureRef] = useState<string | null>(
+    null,
+  );
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isViewerReady, setIsViewerReady] = useState(false);
@@ -36,22 +73,100 @@ export function StructureWorkspace({
   // Bidirectional highlighting state
   const [selectedRegions, setSelectedRegions] = useState<SelectionRegion[]>([]);
   const [hoveredResidues, setHoveredResidues] = useState<SequenceResidue[]>([]);
+  // Selection pushed into the sequence interface by structure controls
+  const [pushedSelection, setPushedSelection] = useState<
+    SequenceSelection | undefined
+  >(undefined);
+  // Residues picked in the pairwise alignment view, in any structure
+  const [alignmentRegions, setAlignmentRegions] = useState<
+    StructureResidueRange[]
+  >([]);
 
   // Chain selection state
   const [availableChains, setAvailableChains] = useState<string[]>([]);
   const [selectedChainIds, setSelectedChainIds] = useState<string[]>([]);
 
+  // Latest superposition, shown as a deviation track for either structure
+  const [superposition, setSuperposition] =
+    useState<SuperpositionResult | null>(null);
+
+  const residueTracks = useMemo((): ResidueTrack[] => {
+    if (!superposition || !activeStructureRef) return [];
+
+    const side =
+      superposition.mobile.structureRef === activeStructureRef
+        ? "mobile"
+        : superposition.reference.structureRef === activeStructureRef
+          ? "reference"
+          : null;
+    if (!side) return [];
+
+    const values = new Map<string, number>();
+    for (const entry of superposition.deviations) {
+      const residue = entry[side];
+      values.set(
+        getResidueKey(residue.chainId, residue.position, residue.insertionCode),
+        entry.deviation,
+      );
+    }
+
+    return [
+      {
+        id: "superposition-deviation",
+        label: "Cα deviation",
+        values,
+        getColor: getDeviationColor,
+        formatValue: (value) => `${value.toFixed(2)} Å`,
+        legend: DEVIATION_BANDS.map(({ label, color }) => ({ label, color })),
+      },
+    ];
+  }, [superposition, activeStructureRef]);
+
+  // MSA conservation scores, shown in the sequence grid of their structure
+  const [conservation, setConservation] = useState<ConservationMapping | null>(
+    null,
+  );
+  const activeConservation =
+    conservation && conservation.structureRef === activeStructureRef
+      ? conservation
+      : null;
+  // Sequence colour scheme chosen in the sequence panel; conservation
+  // colouring takes over while an MSA is mapped onto the active structure
+  const [sequenceColorScheme, setSequenceColorScheme] = useState("default");
+  // Regions whose coordinates are being exported, while the dialog is open
+  const [exportRegions, setExportRegions] = useState<SelectionRegion[] | null>(
+    null,
+  );
+
   // Molstar wrapper reference for controls
   const [molstarWrapper, setmolstarWrapper] = useState<molstarWrapper | null>(
     null,
   );
+  const [sceneStructures, setSceneStructures] = useState<SceneStructure[]>([]);
+
+  // Scene structures for the alignment view
+  useEffect(() => {
+    if (!molstarWrapper) return;
+
+    const update = () => setSceneStructures(molstarWrapper.getStructures());
+    update();
+    return molstarWrapper.onStructuresChanged(update);
+  }, [molstarWrapper]);
+
+  const measurements = useMeasurements(molstarWrapper, sceneStructures);
+  const { addResiduePicks } = measurements;
 
   // Structure loading handlers
-  const handleStructureLoaded = useCallback((loadedPdbId: string) => {
-    setIsLoading(false);
-    setError(null);
-    console.log(`Structure loaded: ${loadedPdbId}`);
-  }, []);
+  const handleStructureLoaded = useCallback(
+    (loadedPdbId: string, structureRef: string) => {
+      setIsLoading(false);
+      setError(null);
+      setLoadedStructureId(loadedPdbId);
+      setActiveStructureRef(structureRef);
+      console.log(`Structure loaded: ${loadedPdbId}`);
+    },
+    [],
+  );
 
   const handleError = useCallback((err: unknown) => {
     setIsLoading(false);
@@ -59,26 +174,90 @@ export function StructureWorkspace({
     console.error("Structure workspace error:", err);
   }, []);
 
+  const handleActiveStructureChange = useCallback(
+    (structureRef: string | null) => {
+      if (structureRef === activeStructureRef) return;
+
+      const structure = molstarWrapper
+        ?.getStructures()
+        .find((s: SceneStructure) => s.ref === structureRef);
+      setActiveStructureRef(structureRef);
+      setLoadedStructureId(structure?.label ?? null);
+      // Selections refer to chains of the previously active structure
+      setSelectedRegions([]);
+      setPushedSelection(undefined);
+      setHoveredResidues([]);
+    },
+    [activeStructureRef, molstarWrapper],
+  );
+
+  const loadSource = useCallback(
+    (newSource: StructureSource) => {
+      // Sources already in the scene are re-selected instead of reloaded
+      const existingRef = molstarWrapper?.findStructureBySource(
+        getStructureSourceKey(newSource),
+      );
+      if (existingRef) {
+        molstarWrapper?.setActiveStructure(existingRef);
+        handleActiveStructureChange(existingRef);
+        setSource(newSource);
+        return;
+      }
+
+      setIsLoading(true);
+      setError(null);
+      setSource(newSource);
+      setLoadedStructureId(null);
+      // Clear previous selections when loading new structure
+      setSelectedRegions([]);
+      setPushedSelection(undefined);
+      setHoveredResidues([]);
+    },
+    [molstarWrapper, handleActiveStructureChange],
+  );
+
   const handleLoadStructure = useCallback(
     (newPdbId: string) => {
-      if (newPdbId && newPdbId !== pdbId) {
-        setIsLoading(true);
-        setError(null);
-        setPdbId(newPdbId.toLowerCase());
-        // Clear previous selections when loading new structure
-        setSelectedRegions([]);
-        setHoveredResidues([]);
+      if (newPdbId) {
+        loadSource({ kind: "pdb", id: newPdbId.toLowerCase() });
       }
     },
-    [pdbId],
+    [loadSource],
+  );
+
+  const handleLoadFile = useCallback(
+    (file: File) => loadSource({ kind: "file", file }),
+    [loadSource],
+  );
+
+  const handleLoadAlphaFold = useCallback(
+    (accession: string) => loadSource({ kind: "alphafold", accession }),
+    [loadSource],
   );
 
+  // Expose the viewer to the chat so typed commands can drive it
+  const {
+    setWrapper,
+    setLoadStructure,
+    setSelectRegions,
+    setSequenceSelection,
+  } = useMolstar();
+  useEffect(() => {
+    setWrapper(molstarWrapper);
+    return () => setWrapper(null);
+  }, [molstarWrapper, setWrapper]);
+
+  useEffect(() => {
+    setLoadStructure(loadSource);
+    return () => setLoadStructure(null);
+  }, [loadSource, setLoadStructure]);
+
   // Remove unused handleViewerReady - we'll set isViewerReady when structure loads
   useEffect(() => {
-    if (pdbId) {
+    if (source) {
       setIsViewerReady(true);
     }
-  }, [pdbId]);
+  }, [source]);
 
   // Bidirectional highlighting handlers
   const handleSequenceSelectionChange = useCallback(
@@ -105,6 +284,84 @@ export function StructureWorkspace({
     [],
   );
 
+  const handleSelectRegions = useCallback((regions: SelectionRegion[]) => {
+    setPushedSelection({ regions, activeRegion: null, clipboard: null });
+  }, []);
+
+  useEffect(() => {
+    setSelectRegions(handleSelectRegions);
+    return () => setSelectRegions(null);
+  }, [handleSelectRegions, setSelectRegions]);
+
+  // Undo and redo of viewer operations and selections
+  const history = useViewHistory(
+    molstarWrapper,
+    selectedRegions,
+    handleSelectRegions,
+  );
+  const { undo, redo } = history;
+  const historyShortcuts = useMemo(
+    (): KeyboardShortcut[] => [
+      {
+        key: "z",
+        metaKey: true,
+        shiftKey: false,
+        ignoreInInputs: true,
+        action: undo,
+        description: "Undo",
+      },
+      {
+        key: "z",
+        metaKey: true,
+        shiftKey: true,
+        ignoreInInputs: true,
+        action: redo,
+        description: "Redo",
+      },
+    ],
+    [undo, redo],
+  );
+  useKeyboardShortcuts(historyShortcuts);
+
+  // Saving and opening analysis sessions
+  const handleSessionOpened = useCallback(
+    (session: AnalysisSession, activeSource: StructureSource | null) => {
+      setSuperposition(null);
+      setConservation(null);
+      setAlignmentRegions([]);
+      setSequenceColorScheme(session.sequenceColorScheme);
+      if (activeSource) loadSource(activeSource);
+      handleSelectRegions(session.selection);
+    },
+    [loadSource, handleSelectRegions],
+  );
+  const session = useSession(molstarWrapper, {
+    selectedRegions,
+    sequenceColorScheme,
+    measurements,
+    onSessionOpened: handleSessionOpened,
+  });
+
+  // Shareable links: the URL opens a view and follows the current one
+  const handleLinkRead = useCallback((link: ViewLink | null) => {
+    if (link?.source) setSource(link.source);
+    if (link?.colorScheme) setSequenceColorScheme(link.colorScheme);
+  }, []);
+  const viewLink = useViewLink(molstarWrapper, {
+    activeStructureRef,
+    selectedRegions,
+    sequenceColorScheme,
+    onLinkRead: handleLinkRead,
+    onSelectRegions: handleSelectRegions,
+  });
+
+  // The chat describes the selection to the model
+  useEffect(() => {
+    setSequenceSelection(selectedRegions);
+  }, [selectedRegions, setSequenceSelection]);
+
+  useEffect(() => () => setSequenceSelection([]), [setSequenceSelection]);
+
   // Chain selection handler
   const handleChainSelectionChange = useCallback((chainIds: string[]) => {
     setSelectedChainIds(chainIds);
@@ -118,33 +375,49 @@ export function StructureWorkspace({
   const handleResidueAction = useCallback(
     async (
       region: SelectionRegion,
-      action: "hide" | "isolate" | "highlight" | "copy",
+      action: "hide" | "isolate" | "highlight" | "copy" | "measure",
     ) => {
       if (!molstarWrapper) return;
 
       try {
+        // Regions from grid residues carry their label span, which is exact
+        // where author numbers have insertion codes
+        const { chainId, start, end } = region.labelRange ?? region;
+        const options = { label: region.labelRange !== undefined };
         switch (action) {
           case "hide":
             await molstarWrapper.hideResidueRange(
-              region.chainId,
-              region.start,
-              region.end,
+              chainId,
+              start,
+              end,
+              activeStructureRef ?? undefined,
+              options,
             );
             break;
           case "isolate":
             await molstarWrapper.isolateResidueRange(
-              region.chainId,
-              region.start,
-              region.end,
+              chainId,
+              start,
+              end,
+              activeStructureRef ?? undefined,
+              options,
             );
             break;
           case "highlight":
             await molstarWrapper.showResidueRange(
-              region.chainId,
-              region.start,
-              region.end,
+              chainId,
+              start,
+              end,
+              activeStructureRef ?? undefined,
+              options,
             );
             break;
+          case "measure": {
+            const structureRef =
+              activeStructureRef ?? molstarWrapper.getActiveStructureRef();
+            if (structureRef) await addResiduePicks(structureRef, region);
+            break;
+          }
           case "copy":
             // Copy action is handled locally in ResidueGrid, so we don't need to do anything here
             break;
@@ -153,7 +426,7 @@ export function StructureWorkspace({
         console.error(`Error performing ${action} on residue range:`, error);
       }
     },
-    [molstarWrapper],
+    [molstarWrapper, activeStructureRef, addResiduePicks],
   );
 
   // Handle wrapper ready callback
@@ -171,7 +444,15 @@ export function StructureWorkspace({
         <div className="flex items-center gap-3">
           <PDBLoader
             currentPdbId={pdbId}
+            currentFileName={
+              source.kind === "file" ? source.file.name : undefined
+            }
+            currentAccession={
+              source.kind === "alphafold" ? source.accession : undefined
+            }
             onLoadStructure={handleLoadStructure}
+            onLoadFile={handleLoadFile}
+            onLoadAlphaFold={handleLoadAlphaFold}
             isLoading={isLoading}
           />
           {error && (
@@ -179,6 +460,20 @@ export function StructureWorkspace({
               Error: {error}
             </div>
           )}
+          {viewLink.warnings.length > 0 && (
+            <div
+              className={`text-sm text-amber-700 bg-amber-50 px-3 py-1 rounded-md flex items-center gap-2 ${error ? "" : "ml-auto"}`}
+            >
+              <span>Link: {viewLink.warnings.join("; ")}</span>
+              <button
+                onClick={viewLink.dismissWarnings}
+                className="text-amber-700 hover:text-amber-900"
+                title="Dismiss"
+              >
+                ×
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -188,43 +483,98 @@ export function StructureWorkspace({
           {/* Structure Controls - Accordion */}
           <StructureControls
             wrapper={molstarWrapper}
-            isLoading={isLoading}
+            isLoading={isLoading || session.isBusy}
             availableChains={availableChains}
+            activeStructureRef={activeStructureRef}
+            onActiveStructureChange={handleActiveStructureChange}
+            selectedRegions={selectedRegions}
+            superposition={superposition}
+            onSuperpositionChange={setSuperposition}
+            conservation={conservation}
+            onConservationChange={setConservation}
+            onSelectRegions={handleSelectRegions}
+            measurements={measurements}
+            history={history}
+            session={session}
+            viewLink={viewLink}
           />
 
           {/* 3D Structure Viewer - Fixed height */}
-          <div className="h-[420px] bg-white border-b border-zinc-200 flex-shrink-0">
-            <MolstarViewer
-              pdbId={pdbId}
-              className="h-full w-full"
-              onStructureLoaded={handleStructureLoaded}
-              onError={handleError}
-              onWrapperReady={handleWrapperReady}
-              selectedRegions={selectedRegions.map((region) => ({
-                chainId: region.chainId,
-                startSeq: region.start,
-                endSeq: region.end,
-              }))}
-              hoveredResidues={hoveredResidues.map((residue) => ({
-                chainId: residue.chainId,
-                residueNumber: residue.position,
-              }))}
+          <div className="relative h-[420px] bg-white border-b border-zinc-200 flex-shrink-0">
+            {/* Waits for the link in the URL, which may name the structure */}
+            {viewLink.isLinkRead && (
+              <MolstarViewer
+                source={source}
+                structureRef={activeStructureRef}
+                className="h-full w-full"
+                onStructureLoaded={handleStructureLoaded}
+                onError={handleError}
+                onWrapperReady={handleWrapperReady}
+                linkedRegions={alignmentRegions}
+                selectedRegions={selectedRegions.map((region) =>
+                  region.labelRange
+                    ? {
+                        chainId: region.labelRange.chainId,
+                        startSeq: region.labelRange.start,
+                        endSeq: region.labelRange.end,
+                        label: true,
+                      }
+                    : {
+                        chainId: region.chainId,
+                        startSeq: region.start,
+                        endSeq: region.end,
+                      },
+                )}
+                hoveredResidues={hoveredResidues.map((residue) => ({
+                  chainId: residue.chainId,
+                  residueNumber: residue.position,
+                  insertionCode: residue.insertionCode ?? "",
+                }))}
+              />
+            )}
+            <CameraControls
+              plugin={molstarWrapper?.plugin ?? null}
+              imageTitle={loadedStructureId ?? undefined}
+              className="absolute top-2 left-2 z-10 bg-white/90 rounded-md shadow-sm p-0.5"
             />
           </div>
 
           {/* Sequence Interface - Accordion Style */}
           <SequenceWorkspace
-            pdbId={pdbId}
+            pdbId={loadedStructureId ?? getStructureSourceLabel(source)}
+            structureId={loadedStructureId}
+            plugin={molstarWrapper?.plugin}
+            structureRef={activeStructureRef}
             isViewerReady={isViewerReady}
+            selection={pushedSelection}
             selectedChainIds={selectedChainIds}
             onSelectionChange={handleSequenceSelectionChange}
             onHighlightChange={handleSequenceHighlightChange}
             onChainSelectionChange={handleChainSelectionChange}
             onChainsLoaded={handleChainsLoaded}
+            residueTracks={residueTracks}
+            colorScheme={
+              activeConservation ? "conservation" : sequenceColorScheme
+            }
+            onColorSchemeChange={setSequenceColorScheme}
+            residueScores={activeConservation?.scores}
+            structures={sceneStructures}
+            onAlignmentSelectionChange={setAlignmentRegions}
             onResidueAction={handleResidueAction}
+            onExportCoordinates={setExportRegions}
           />
         </div>
       </div>
+
+      {exportRegions && molstarWrapper?.plugin && activeStructureRef && (
+        <CoordinateExportDialog
+          plugin={molstarWrapper.plugin}
+          structureRef={activeStructureRef}
+          label={loadedStructureId ?? getStructureSourceLabel(source)}
+          regions={exportRegions}
+          onClose={() => setExportRegions(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,4 +1,5 @@
 import React, { useState } from "react";
+import { useAssistant } from "@/hooks/useAssistant";
 
 interface Message {
   id: string;
@@ -23,6 +24,7 @@ export function AgentSection({ className = "" }: AgentSectionProps) {
   ]);
   const [inputValue, setInputValue] = useState("");
   const [isTyping, setIsTyping] = useState(false);
+  const { respond } = useAssistant();
 
   const handleSendMessage = async () => {
     if (!inputValue.trim()) return;
@@ -34,21 +36,42 @@ export function AgentSection({ className = "" }: AgentSectionProps) {
       timestamp: new Date(),
     };
 
+    const history = messages.slice(1).map((message) => ({
+      role:
+        message.type === "user" ? ("user" as const) : ("assistant" as const),
+      content: message.content,
+    }));
     setMessages((prev) => [...prev, userMessage]);
     setInputValue("");
     setIsTyping(true);
 
-    // Simulate AI response (replace with actual AI integration)
-    setTimeout(() => {
-      const agentMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        type: "agent",
-        content: `I understand you're asking about: "${inputValue}". This is a placeholder response. In the full implementation, I would analyze your molecular structure and provide specific insights.`,
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, agentMessage]);
-      setIsTyping(false);
-    }, 1500);
+    // The reply is added on its first text and updated as it streams
+    const agentMessage: Message = {
+      id: (Date.now() + 1).toString(),
+      type: "agent",
+      content: "",
+      timestamp: new Date(),
+    };
+    const showReply = (content: string) =>
+      setMessages((prev) =>
+        prev.some((message) => message.id === agentMessage.id)
+          ? prev.map((message) =>
+              message.id === agentMessage.id
+                ? { ...message, content }
+                : message,
+            )
+          : [...prev, { ...agentMessage, content }],
+      );
+
+    try {
+      showReply(
+        await respond(userMessage.content, { history, onText: showReply }),
+      );
+    } catch (error) {
+      console.error("Failed to respond to message:", error);
+      showReply("Sorry, something went wrong while handling that.");
+    }
+    setIsTyping(false);
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -99,7 +122,7 @@ export function AgentSection({ className = "" }: AgentSectionProps) {
                   : "bg-gray-100 text-gray-900"
               }`}
             >
-              <p className="text-sm">{message.content}</p>
+              <p className="text-sm whitespace-pre-wrap">{message.content}</p>
               <p
                 className={`text-xs mt-1 ${
                   message.type === "user" ? "text-blue-100" : "text-gray-500"
@@ -114,7 +137,7 @@ export function AgentSection({ className = "" }: AgentSectionProps) {
           </div>
         ))}
 
-        {isTyping && (
+        {isTyping && messages[messages.length - 1]?.type === "user" && (
           <div className="flex justify-start">
             <div className="bg-gray-100 rounded-lg px-3 py-2">
               <div className="flex space-x-1">
@@ -168,10 +191,10 @@ export function AgentSection({ className = "" }: AgentSectionProps) {
         {/* Quick Actions */}
         <div className="mt-3 flex flex-wrap gap-2">
           {[
-            "Highlight active site",
-            "Show binding pocket",
-            "Analyze structure",
-            "Compare chains",
+            "Show as surface",
+            "Remove waters",
+            "Focus on ligand",
+            "Show all chains",
           ].map((action) => (
             <button
               key={action}
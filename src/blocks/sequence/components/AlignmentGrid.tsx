@@ -0,0 +1,265 @@
+"use client";
+
+import React, {
+  useState,
+  useCallback,
+  useRef,
+  useEffect,
+  useMemo,
+} from "react";
+import { getResidueColor, getResidueInfo } from "@/lib/aminoAcidColors";
+import { blosum62Score } from "@/lib/sequenceAlignment";
+import type { PairwiseAlignment, SequenceResidue } from "@/types/sequence";
+
+const DEFAULT_COLUMNS_PER_ROW = 40;
+const LABEL_WIDTH = 72;
+
+export interface AlignmentGridRow {
+  label: string;
+  residues: SequenceResidue[];
+}
+
+/** Residues picked in each alignment row, in sequence order */
+export type AlignedSelection = [SequenceResidue[], SequenceResidue[]];
+
+interface AlignmentGridProps {
+  alignment: PairwiseAlignment;
+  rows: [AlignmentGridRow, AlignmentGridRow];
+  onSelectionChange?: (selection: AlignedSelection) => void;
+  className?: string;
+}
+
+interface ColumnRange {
+  /** Row the drag started in; its aligned partners are selected too */
+  row: 0 | 1;
+  start: number;
+  end: number;
+}
+
+/**
+ * Two gapped, column-synchronised sequence rows. Dragging over residues of
+ * one row selects them and the residues they are aligned to in the other row.
+ */
+export const AlignmentGrid = React.memo(function AlignmentGrid({
+  alignment,
+  rows,
+  onSelectionChange,
+  className = "",
+}: AlignmentGridProps) {
+  const [columnsPerRow, setColumnsPerRow] = useState(DEFAULT_COLUMNS_PER_ROW);
+  const [selection, setSelection] = useState<ColumnRange | null>(null);
+  const [dragStart, setDragStart] = useState<{
+    row: 0 | 1;
+    column: number;
+  } | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  // Responsive columns per row, as in the residue grid
+  useEffect(() => {
+    const updateColumnsPerRow = () => {
+      if (gridRef.current) {
+        const availableWidth = gridRef.current.clientWidth - 48 - LABEL_WIDTH;
+        const calculated = Math.max(20, Math.floor(availableWidth / 19));
+        if (calculated !== columnsPerRow) setColumnsPerRow(calculated);
+      }
+    };
+
+    const timer = setTimeout(updateColumnsPerRow, 100);
+    const resizeObserver = new ResizeObserver(() =>
+      setTimeout(updateColumnsPerRow, 50),
+    );
+    if (gridRef.current) resizeObserver.observe(gridRef.current);
+
+    return () => {
+      clearTimeout(timer);
+      resizeObserver.disconnect();
+    };
+  }, [columnsPerRow]);
+
+  // A new alignment invalidates column-based selections
+  useEffect(() => {
+    setSelection(null);
+  }, [alignment]);
+
+  const residueAt = useCallback(
+    (row: 0 | 1, column: number): SequenceResidue | null => {
+      const index =
+        row === 0 ? alignment.columns[column].a : alignment.columns[column].b;
+      return index === null ? null : rows[row].residues[index];
+    },
+    [alignment, rows],
+  );
+
+  // Residues selected directly (source row) and through the alignment
+  const selected = useMemo((): AlignedSelection => {
+    const result: AlignedSelection = [[], []];
+    if (!selection) return result;
+
+    const other = selection.row === 0 ? 1 : 0;
+    for (let column = selection.start; column <= selection.end; column++) {
+      const source = residueAt(selection.row, column);
+      if (!source) continue;
+      result[selection.row].push(source);
+      const partner = residueAt(other, column);
+      if (partner) result[other].push(partner);
+    }
+    return result;
+  }, [selection, residueAt]);
+
+  const selectedSets = useMemo(
+    () => [new Set(selected[0]), new Set(selected[1])] as const,
+    [selected],
+  );
+
+  const handleMouseDown = (row: 0 | 1, column: number) => {
+    if (!residueAt(row, column)) return;
+    setDragStart({ row, column });
+    setSelection({ row, start: column, end: column });
+  };
+
+  const handleMouseEnter = (row: 0 | 1, column: number) => {
+    if (!dragStart || dragStart.row !== row) return;
+    setSelection({
+      row,
+      start: Math.min(dragStart.column, column),
+      end: Math.max(dragStart.column, column),
+    });
+  };
+
+  const handleMouseUp = useCallback(() => {
+    if (!dragStart) return;
+    setDragStart(null);
+    onSelectionChange?.(selected);
+  }, [dragStart, selected, onSelectionChange]);
+
+  useEffect(() => {
+    document.addEventListener("mouseup", handleMouseUp);
+    return () => document.removeEventListener("mouseup", handleMouseUp);
+  }, [handleMouseUp]);
+
+  const handleClearSelection = () => {
+    setSelection(null);
+    onSelectionChange?.([[], []]);
+  };
+
+  const blocks = useMemo(() => {
+    const result: number[][] = [];
+    for (let i = 0; i < alignment.columns.length; i += columnsPerRow) {
+      const end = Math.min(i + columnsPerRow, alignment.columns.length);
+      result.push(Array.from({ length: end - i }, (_, k) => i + k));
+    }
+    return result;
+  }, [alignment, columnsPerRow]);
+
+  const matchSymbol = (column: number) => {
+    const a = residueAt(0, column);
+    const b = residueAt(1, column);
+    if (!a || !b) return "";
+    if (a.code === b.code) return "|";
+    return blosum62Score(a.code, b.code) > 0 ? ":" : "";
+  };
+
+  const gridStyle = (length: number): React.CSSProperties => ({
+    display: "grid",
+    gridTemplateColumns: `${LABEL_WIDTH}px repeat(${length}, 18px)`,
+    gap: "1px",
+  });
+
+  const renderRow = (row: 0 | 1, columns: number[]) => {
+    const first = columns
+      .map((column) => residueAt(row, column))
+      .find((residue) => residue !== null);
+
+    return (
+      <div style={gridStyle(columns.length)}>
+        <div
+          className="text-xs text-gray-500 truncate pr-2 text-right"
+          title={rows[row].label}
+        >
+          {rows[row].label}
+          {first && (
+            <span className="text-gray-400 ml-1">{first.position}</span>
+          )}
+        </div>
+        {columns.map((column) => {
+          const residue = residueAt(row, column);
+          if (!residue) {
+            return (
+              <div
+                key={column}
+                className="flex items-center justify-center font-mono text-gray-400 bg-gray-100"
+                style={{ width: "18px", height: "18px", fontSize: "11px" }}
+              >
+                -
+              </div>
+            );
+          }
+
+          const isSource = selection?.row === row;
+          const isSelected = selectedSets[row].has(residue);
+          return (
+            <div
+              key={column}
+              className="flex items-center justify-center font-mono text-white font-medium cursor-pointer"
+              style={{
+                width: "18px",
+                height: "18px",
+                fontSize: "11px",
+                backgroundColor: isSelected
+                  ? isSource
+                    ? "#000000"
+                    : "#245F73"
+                  : getResidueColor(residue.code, "default"),
+              }}
+              onMouseDown={() => handleMouseDown(row, column)}
+              onMouseEnter={() => handleMouseEnter(row, column)}
+              title={`${getResidueInfo(residue.code).name} (${residue.code}${residue.position}${residue.insertionCode ?? ""}) - ${rows[row].label}`}
+            >
+              {residue.code}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      ref={gridRef}
+      className={`alignment-grid p-6 overflow-hidden select-none ${className}`}
+      style={{ userSelect: "none", WebkitUserSelect: "none" }}
+    >
+      {selection && (
+        <div className="flex items-center justify-between mb-3 text-xs text-gray-600">
+          <span>
+            {selected[0].length} + {selected[1].length} residues selected
+          </span>
+          <button
+            onClick={handleClearSelection}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {blocks.map((columns) => (
+          <div key={columns[0]}>
+            {renderRow(0, columns)}
+            <div
+              className="text-gray-500 font-mono text-center"
+              style={{ ...gridStyle(columns.length), fontSize: "10px" }}
+            >
+              <span />
+              {columns.map((column) => (
+                <span key={column}>{matchSymbol(column)}</span>
+              ))}
+            </div>
+            {renderRow(1, columns)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
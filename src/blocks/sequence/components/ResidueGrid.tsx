@@ -6,8 +6,31 @@ import React, {
   useMemo,
 } from "react";
 import { useSequenceSelection } from "./context/SequenceSelectionContext";
-import { getResidueColor, getResidueInfo } from "@/lib/aminoAcidColors";
+import {
+  getNucleotideColor,
+  getNucleotideInfo,
+  getResidueColor,
+  getResidueInfo,
+} from "@/lib/aminoAcidColors";
+import { PLDDT_BANDS, getPLDDTBand } from "@/lib/molstar/alphafold";
+import { getResidueKey } from "@/lib/molstar/sequenceToMolstar";
+import {
+  countRegionResidues,
+  createResidueRegion,
+  formatRegion,
+  getResidueNumber,
+  getResidueSeqNumber,
+  isResidueInRegion,
+} from "@/lib/residueNumbering";
+import type {
+  NumberingScheme,
+  ResidueTrack,
+  SequenceChain,
+  SequenceLigand,
+} from "@/types/sequence";
 import { SelectionContextMenu } from "./components/SelectionContextMenu";
+import { LigandStrip } from "./components/LigandStrip";
+import { SecondaryStructureTrack } from "./components/SecondaryStructureTrack";
 import type {
   SequenceData,
   SequenceSelection,
@@ -17,14 +40,65 @@ import type {
 
 const DEFAULT_RESIDUES_PER_ROW = 40;
 
+function getSingleResidueRegion(
+  chain: SequenceChain,
+  residue: SequenceResidue,
+): SelectionRegion | null {
+  return createResidueRegion(
+    chain,
+    [residue],
+    `${residue.chainId}-${residue.position}${residue.insertionCode ?? ""}`,
+  );
+}
+
+/**
+ * Ruler number above every other residue; insertion residues are left
+ * blank, as their number is the previous residue's
+ */
+function getRulerLabel(
+  residue: SequenceResidue,
+  numbering: NumberingScheme,
+): number | "" {
+  const number = getResidueSeqNumber(residue, numbering);
+  if (number === undefined || Math.abs(number) % 2 !== 1) return "";
+  if (numbering === "auth" && residue.insertionCode) return "";
+  return number;
+}
+
+/**
+ * Author number, and the UniProt entry or its absence, for tooltips in
+ * other numberings
+ */
+function getNumberingNote(
+  residue: SequenceResidue,
+  numbering: NumberingScheme,
+): string {
+  if (numbering === "auth") return "";
+  const author = ` - Author ${getResidueNumber(residue, "auth")}`;
+  if (numbering === "label") return author;
+  return residue.uniprot
+    ? ` - UniProt ${residue.uniprot.accession}${author}`
+    : ` - Not in UniProt${author}`;
+}
+
 interface ResidueGridProps {
   data: SequenceData;
   selection: SequenceSelection;
   highlightedResidues: SequenceResidue[];
+  /** Extra per-residue colour tracks, e.g. superposition deviation */
+  tracks?: ResidueTrack[];
+  /** Id of a COLOR_SCHEMES entry */
+  colorScheme?: string;
+  /** Scores for score-based colour schemes, keyed by residue key */
+  residueScores?: Map<string, number>;
   readOnly?: boolean;
+  /** Region to scroll into view, e.g. the current motif search match */
+  focusedRegion?: SelectionRegion | null;
+  /** Numbering of the ruler, tooltips and context menu */
+  numbering?: NumberingScheme;
   onRegionAction?: (
     region: SelectionRegion,
-    action: "hide" | "isolate" | "highlight" | "copy",
+    action: "hide" | "isolate" | "highlight" | "copy" | "measure",
   ) => void;
 }
 
@@ -35,7 +109,12 @@ export const ResidueGrid = React.memo(function ResidueGrid({
   data,
   selection,
   highlightedResidues,
+  tracks = [],
+  colorScheme = "default",
+  residueScores,
   readOnly = false,
+  focusedRegion,
+  numbering = "auth",
   onRegionAction,
 }: ResidueGridProps) {
   const {
@@ -46,10 +125,7 @@ export const ResidueGrid = React.memo(function ResidueGrid({
     replaceSelection,
   } = useSequenceSelection();
 
-  const [dragStart, setDragStart] = useState<{
-    chainId: string;
-    position: number;
-  } | null>(null);
+  const [dragStart, setDragStart] = useState<SequenceResidue | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [dragRegion, setDragRegion] = useState<SelectionRegion | null>(null);
   const [residuesPerRow, setResiduesPerRow] = useState(
@@ -60,6 +136,12 @@ export const ResidueGrid = React.memo(function ResidueGrid({
     region: SelectionRegion;
   } | null>(null);
   const gridRef = useRef<HTMLDivElement>(null);
+  // Latest chains for the focus scroll, which runs per request only
+  const chainsRef = useRef(data.chains);
+
+  useEffect(() => {
+    chainsRef.current = data.chains;
+  }, [data.chains]);
 
   // Responsive residues per row calculation
   useEffect(() => {
@@ -95,10 +177,19 @@ export const ResidueGrid = React.memo(function ResidueGrid({
   }, [residuesPerRow]);
 
   const residueKey = useCallback(
-    (r: SequenceResidue) => `${r.chainId}:${r.position}`,
+    (r: SequenceResidue) =>
+      getResidueKey(r.chainId, r.position, r.insertionCode),
     [],
   );
 
+  const chainsById = useMemo(
+    () =>
+      new Map<string, SequenceChain>(
+        data.chains.map((chain: SequenceChain) => [chain.id, chain]),
+      ),
+    [data.chains],
+  );
+
   const regionsByChain = useMemo(() => {
     const byChain = new Map<string, SelectionRegion[]>();
     for (const region of selection.regions) {
@@ -118,18 +209,14 @@ export const ResidueGrid = React.memo(function ResidueGrid({
     (residue: SequenceResidue) => {
       const chainRegions = regionsByChain.get(residue.chainId);
       const inSelection =
-        chainRegions?.some(
-          (region: SelectionRegion) =>
-            residue.position >= region.start && residue.position <= region.end,
+        chainRegions?.some((region: SelectionRegion) =>
+          isResidueInRegion(residue, region),
         ) || false;
 
       const inDragRegion =
-        dragRegion &&
-        dragRegion.chainId === residue.chainId &&
-        residue.position >= dragRegion.start &&
-        residue.position <= dragRegion.end;
+        dragRegion !== null && isResidueInRegion(residue, dragRegion);
 
-      return inSelection || !!inDragRegion;
+      return inSelection || inDragRegion;
     },
     [regionsByChain, dragRegion],
   );
@@ -144,9 +231,8 @@ export const ResidueGrid = React.memo(function ResidueGrid({
   const getResidueRegion = useCallback(
     (residue: SequenceResidue) => {
       const chainRegions = regionsByChain.get(residue.chainId);
-      return chainRegions?.find(
-        (region: SelectionRegion) =>
-          residue.position >= region.start && residue.position <= region.end,
+      return chainRegions?.find((region: SelectionRegion) =>
+        isResidueInRegion(residue, region),
       );
     },
     [regionsByChain],
@@ -157,17 +243,11 @@ export const ResidueGrid = React.memo(function ResidueGrid({
       if (readOnly) return;
       event.preventDefault();
 
-      const newRegion: SelectionRegion = {
-        id: `${residue.chainId}-${residue.position}`,
-        chainId: residue.chainId,
-        start: residue.position,
-        end: residue.position,
-        sequence: residue.code,
-        label: `${residue.chainId}:${residue.position}`,
-      };
-      addSelectionRegion(newRegion);
+      const chain = chainsById.get(residue.chainId);
+      const region = chain && getSingleResidueRegion(chain, residue);
+      if (region) addSelectionRegion(region);
     },
-    [readOnly, addSelectionRegion],
+    [readOnly, chainsById, addSelectionRegion],
   );
 
   const handleResidueRightClick = useCallback(
@@ -187,14 +267,9 @@ export const ResidueGrid = React.memo(function ResidueGrid({
         });
       } else {
         // Create a single-residue selection and show context menu
-        const newRegion: SelectionRegion = {
-          id: `${residue.chainId}-${residue.position}`,
-          chainId: residue.chainId,
-          start: residue.position,
-          end: residue.position,
-          sequence: residue.code,
-          label: `${residue.chainId}:${residue.position}`,
-        };
+        const chain = chainsById.get(residue.chainId);
+        const newRegion = chain && getSingleResidueRegion(chain, residue);
+        if (!newRegion) return;
 
         replaceSelection(newRegion);
         setContextMenu({
@@ -203,11 +278,91 @@ export const ResidueGrid = React.memo(function ResidueGrid({
         });
       }
     },
-    [readOnly, onRegionAction, getResidueRegion, replaceSelection],
+    [readOnly, onRegionAction, getResidueRegion, chainsById, replaceSelection],
+  );
+
+  // Ligands are single-residue regions, so hide and isolate work as for
+  // residues
+  const getLigandRegion = useCallback(
+    (ligand: SequenceLigand): SelectionRegion => ({
+      id: `ligand-${ligand.chainId}-${ligand.position}${ligand.insertionCode ?? ""}`,
+      chainId: ligand.chainId,
+      start: ligand.position,
+      end: ligand.position,
+      sequence: "",
+      label: `${ligand.compId} ${ligand.chainId}:${ligand.position}`,
+    }),
+    [],
+  );
+
+  const isLigandSelected = useCallback(
+    (ligand: SequenceLigand) =>
+      regionsByChain
+        .get(ligand.chainId)
+        ?.some(
+          (region) =>
+            !region.labelRange &&
+            ligand.position >= region.start &&
+            ligand.position <= region.end,
+        ) ?? false,
+    [regionsByChain],
+  );
+
+  const isLigandHighlighted = useCallback(
+    (ligand: SequenceLigand) =>
+      highlightedSet.has(
+        getResidueKey(ligand.chainId, ligand.position, ligand.insertionCode),
+      ),
+    [highlightedSet],
+  );
+
+  const handleLigandHover = useCallback(
+    (ligand: SequenceLigand | null) => {
+      if (readOnly || isDragging || contextMenu) return;
+      setHighlightedResidues(
+        ligand
+          ? [
+              {
+                chainId: ligand.chainId,
+                position: ligand.position,
+                insertionCode: ligand.insertionCode,
+                code: ligand.compId,
+                compId: ligand.compId,
+              },
+            ]
+          : [],
+      );
+    },
+    [readOnly, isDragging, contextMenu, setHighlightedResidues],
+  );
+
+  const handleLigandClick = useCallback(
+    (ligand: SequenceLigand, event: React.MouseEvent) => {
+      if (readOnly) return;
+      event.preventDefault();
+      addSelectionRegion(getLigandRegion(ligand));
+    },
+    [readOnly, addSelectionRegion, getLigandRegion],
+  );
+
+  const handleLigandRightClick = useCallback(
+    (ligand: SequenceLigand, event: React.MouseEvent) => {
+      if (readOnly || !onRegionAction) return;
+      event.preventDefault();
+      event.stopPropagation();
+
+      const region = getLigandRegion(ligand);
+      replaceSelection(region);
+      setContextMenu({
+        position: { x: event.clientX, y: event.clientY },
+        region,
+      });
+    },
+    [readOnly, onRegionAction, getLigandRegion, replaceSelection],
   );
 
   const handleContextMenuAction = useCallback(
-    (action: "hide" | "isolate" | "highlight" | "copy") => {
+    (action: "hide" | "isolate" | "highlight" | "copy" | "measure") => {
       if (!contextMenu) return;
 
       const { region } = contextMenu;
@@ -234,46 +389,31 @@ export const ResidueGrid = React.memo(function ResidueGrid({
     (residue: SequenceResidue) => {
       if (readOnly || contextMenu) return; // Don't start drag if context menu is open
 
+      const chain = chainsById.get(residue.chainId);
+      if (!chain) return;
+
       setIsDragging(true);
       setDragStart(residue);
-
-      const initialDragRegion: SelectionRegion = {
-        id: `drag-${residue.chainId}-${residue.position}`,
-        chainId: residue.chainId,
-        start: residue.position,
-        end: residue.position,
-        sequence: residue.code,
-        label: `${residue.chainId}:${residue.position}`,
-      };
-      setDragRegion(initialDragRegion);
+      const region = getSingleResidueRegion(chain, residue);
+      setDragRegion(region && { ...region, id: `drag-${region.id}` });
     },
-    [readOnly, contextMenu],
+    [readOnly, contextMenu, chainsById],
   );
 
   const handleMouseEnter = useCallback(
     (residue: SequenceResidue) => {
       if (contextMenu) return; // Don't drag if context menu is open
       if (isDragging && dragStart && dragStart.chainId === residue.chainId) {
-        const start = Math.min(dragStart.position, residue.position);
-        const end = Math.max(dragStart.position, residue.position);
-
-        const chain = data.chains.find((c) => c.id === residue.chainId);
+        // Grid order, not author numbers, which may repeat or jump
+        const chain = chainsById.get(residue.chainId);
         if (chain) {
-          const residuesInRange = chain.residues.filter(
-            (r) => r.position >= start && r.position <= end,
+          const from = chain.residues.indexOf(dragStart);
+          const to = chain.residues.indexOf(residue);
+          const region = createResidueRegion(
+            chain,
+            chain.residues.slice(Math.min(from, to), Math.max(from, to) + 1),
           );
-          const sequence = residuesInRange.map((r) => r.code).join("");
-
-          const newDragRegion: SelectionRegion = {
-            id: `drag-${residue.chainId}-${start}-${end}`,
-            chainId: residue.chainId,
-            start,
-            end,
-            sequence,
-            label: `${residue.chainId}:${start}-${end}`,
-          };
-
-          setDragRegion(newDragRegion);
+          setDragRegion(region && { ...region, id: `drag-${region.id}` });
         }
       } else if (!isDragging && !readOnly) {
         setHighlightedResidues([residue]);
@@ -282,7 +422,7 @@ export const ResidueGrid = React.memo(function ResidueGrid({
     [
       isDragging,
       dragStart,
-      data.chains,
+      chainsById,
       setHighlightedResidues,
       readOnly,
       contextMenu,
@@ -343,6 +483,20 @@ export const ResidueGrid = React.memo(function ResidueGrid({
     };
   }, [handleMouseUp]);
 
+  // Scroll the first residue of the focused region into view
+  useEffect(() => {
+    if (!focusedRegion) return;
+    const residue = chainsRef.current
+      .find((chain: SequenceChain) => chain.id === focusedRegion.chainId)
+      ?.residues.find((r: SequenceResidue) =>
+        isResidueInRegion(r, focusedRegion),
+      );
+    if (!residue) return;
+    gridRef.current
+      ?.querySelector(`[data-residue-key="${CSS.escape(residueKey(residue))}"]`)
+      ?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [focusedRegion, residueKey]);
+
   const handleDoubleClick = useCallback(
     async (residue: SequenceResidue) => {
       if (readOnly) return;
@@ -373,6 +527,22 @@ export const ResidueGrid = React.memo(function ResidueGrid({
         for (let i = 0; i < chain.residues.length; i += residuesPerRow) {
           rows.push(chain.residues.slice(i, i + residuesPerRow));
         }
+        const hasPLDDT = chain.residues.some(
+          (residue: SequenceResidue) => residue.plddt !== undefined,
+        );
+        // Chains without helices or strands, e.g. unassigned, get no track
+        const hasSecondaryStructure = chain.residues.some(
+          (residue: SequenceResidue) =>
+            residue.secondaryStructure === "helix" ||
+            residue.secondaryStructure === "sheet",
+        );
+        const isNucleic =
+          chain.polymerType === "dna" || chain.polymerType === "rna";
+        const chainTracks = tracks.filter((track) =>
+          chain.residues.some((residue: SequenceResidue) =>
+            track.values.has(residueKey(residue)),
+          ),
+        );
 
         return (
           <div key={chain.id} className="chain-section mb-8">
@@ -380,14 +550,55 @@ export const ResidueGrid = React.memo(function ResidueGrid({
               <div className="flex items-baseline justify-between">
                 <h3 className="text-xs font-medium text-gray-600">
                   Chain {chain.id}
+                  {isNucleic && (
+                    <span className="ml-1 px-1 rounded-sm bg-gray-100 text-gray-500 font-normal uppercase">
+                      {chain.polymerType}
+                    </span>
+                  )}
                   {chain.name && (
                     <span className="text-gray-500 ml-1 font-normal text-xs">
                       ({chain.name})
                     </span>
                   )}
                 </h3>
-                <div className="text-xs text-gray-500">
-                  {chain.residues.length} residues
+                <div className="flex items-center gap-3 text-xs text-gray-500">
+                  {hasPLDDT && (
+                    <div className="flex items-center gap-1.5" title="pLDDT">
+                      {PLDDT_BANDS.map((band) => (
+                        <span
+                          key={band.id}
+                          className="inline-block w-2 h-2 rounded-sm"
+                          style={{ backgroundColor: band.color }}
+                          title={band.label}
+                        />
+                      ))}
+                      <span>pLDDT</span>
+                    </div>
+                  )}
+                  {chainTracks.map(
+                    (track) =>
+                      track.legend && (
+                        <div
+                          key={track.id}
+                          className="flex items-center gap-1.5"
+                          title={track.label}
+                        >
+                          {track.legend.map((item) => (
+                            <span
+                              key={item.label}
+                              className="inline-block w-2 h-2 rounded-sm"
+                              style={{ backgroundColor: item.color }}
+                              title={item.label}
+                            />
+                          ))}
+                          <span>{track.label}</span>
+                        </div>
+                      ),
+                  )}
+                  <span>
+                    {chain.residues.length}{" "}
+                    {isNucleic ? "nucleotides" : "residues"}
+                  </span>
                 </div>
               </div>
             </div>
@@ -411,12 +622,20 @@ export const ResidueGrid = React.memo(function ResidueGrid({
                           className="text-center overflow-hidden text-ellipsis whitespace-nowrap"
                           style={{ width: "18px" }}
                         >
-                          {residue.position % 2 === 1 ? residue.position : ""}
+                          {getRulerLabel(residue, numbering)}
                         </span>
                       ))}
                     </div>
                   </div>
 
+                  {hasSecondaryStructure && (
+                    <SecondaryStructureTrack
+                      residues={row}
+                      nextResidue={rows[rowIndex + 1]?.[0]}
+                      numbering={numbering}
+                    />
+                  )}
+
                   <div
                     style={{
                       display: "grid",
@@ -428,11 +647,15 @@ export const ResidueGrid = React.memo(function ResidueGrid({
                       const selected = isResidueSelected(residue);
                       const highlighted = isResidueHighlighted(residue);
                       const region = getResidueRegion(residue);
-                      const residueInfo = getResidueInfo(residue.code);
+                      const residueInfo = isNucleic
+                        ? getNucleotideInfo(residue.code)
+                        : getResidueInfo(residue.code);
+                      const score = residueScores?.get(residueKey(residue));
 
                       return (
                         <div
-                          key={`${residue.chainId}-${residue.position}`}
+                          key={residueKey(residue)}
+                          data-residue-key={residueKey(residue)}
                           className={`
                             flex items-center justify-center font-mono
                             transition-all duration-150 text-white font-medium
@@ -442,11 +665,28 @@ export const ResidueGrid = React.memo(function ResidueGrid({
                             width: "18px",
                             height: "18px",
                             fontSize: "11px",
+                            // Residues without modelled coordinates are dimmed
+                            opacity:
+                              residue.observed === false && !selected
+                                ? 0.35
+                                : undefined,
                             backgroundColor: selected
                               ? "#000000"
                               : highlighted
                                 ? "#245F73"
-                                : getResidueColor(residue.code, "default"),
+                                : isNucleic
+                                  ? getNucleotideColor(
+                                      residue.code,
+                                      colorScheme,
+                                      score,
+                                    )
+                                  : getResidueColor(
+                                      residue.code,
+                                      colorScheme,
+                                      false,
+                                      score,
+                                      residue.secondaryStructure,
+                                    ),
                           }}
                           onClick={(e) => handleResidueClick(residue, e)}
                           onContextMenu={(e) =>
@@ -456,13 +696,79 @@ export const ResidueGrid = React.memo(function ResidueGrid({
                           onMouseEnter={() => handleMouseEnter(residue)}
                           onMouseLeave={handleMouseLeave}
                           onDoubleClick={() => handleDoubleClick(residue)}
-                          title={`${residueInfo.name} (${residue.code}${residue.position}) - Chain ${residue.chainId}${region ? ` - Region: ${region.label}` : ""}`}
+                          title={`${residueInfo.name} (${residue.code}${getResidueNumber(residue, numbering) ?? ""}) - Chain ${residue.chainId}${getNumberingNote(residue, numbering)}${residue.observed === false ? " - Not modelled" : ""}${region ? ` - Region: ${formatRegion(region, data.chains, numbering)}` : ""}`}
                         >
                           {residue.code}
                         </div>
                       );
                     })}
                   </div>
+
+                  {/* Per-residue model confidence for predicted structures */}
+                  {hasPLDDT && (
+                    <div
+                      className="mt-px"
+                      style={{
+                        display: "grid",
+                        gridTemplateColumns: `repeat(${row.length}, 18px)`,
+                        gap: "1px",
+                      }}
+                    >
+                      {row.map((residue) => {
+                        const band =
+                          residue.plddt !== undefined
+                            ? getPLDDTBand(residue.plddt)
+                            : null;
+                        return (
+                          <div
+                            key={residueKey(residue)}
+                            style={{
+                              height: "4px",
+                              backgroundColor: band?.color ?? "transparent",
+                            }}
+                            title={
+                              band
+                                ? `pLDDT ${residue.plddt!.toFixed(1)} (${band.label})`
+                                : undefined
+                            }
+                          />
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {chainTracks.map((track) => (
+                    <div
+                      key={track.id}
+                      className="mt-px"
+                      style={{
+                        display: "grid",
+                        gridTemplateColumns: `repeat(${row.length}, 18px)`,
+                        gap: "1px",
+                      }}
+                    >
+                      {row.map((residue) => {
+                        const value = track.values.get(residueKey(residue));
+                        return (
+                          <div
+                            key={residueKey(residue)}
+                            style={{
+                              height: "4px",
+                              backgroundColor:
+                                value !== undefined
+                                  ? track.getColor(value)
+                                  : "transparent",
+                            }}
+                            title={
+                              value !== undefined
+                                ? `${track.label}: ${track.formatValue?.(value) ?? value}`
+                                : undefined
+                            }
+                          />
+                        );
+                      })}
+                    </div>
+                  ))}
                 </div>
               ))}
             </div>
@@ -470,11 +776,25 @@ export const ResidueGrid = React.memo(function ResidueGrid({
         );
       })}
 
+      {data.ligands && data.ligands.length > 0 && (
+        <LigandStrip
+          ligands={data.ligands}
+          isSelected={isLigandSelected}
+          isHighlighted={isLigandHighlighted}
+          readOnly={readOnly}
+          onHover={handleLigandHover}
+          onClick={handleLigandClick}
+          onContextMenu={handleLigandRightClick}
+        />
+      )}
+
       {/* Context Menu */}
       {contextMenu && (
         <SelectionContextMenu
           position={contextMenu.position}
           region={contextMenu.region}
+          label={formatRegion(contextMenu.region, data.chains, numbering)}
+          residueCount={countRegionResidues(contextMenu.region, data.chains)}
           onAction={handleContextMenuAction}
           onClose={handleCloseContextMenu}
           isVisible={true}
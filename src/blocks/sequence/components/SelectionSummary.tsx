@@ -1,14 +1,28 @@
 import React from "react";
-import type { SequenceSelection, SelectionRegion, RegionAction } from "./types";
+import { SequenceExportMenu } from "./components/SequenceExportMenu";
+import { countRegionResidues, formatRegion } from "@/lib/residueNumbering";
+import type { NumberingScheme } from "@/types/sequence";
+import type {
+  SequenceData,
+  SequenceSelection,
+  SelectionRegion,
+  RegionAction,
+} from "./types";
 
 interface SelectionSummaryProps {
   selection: SequenceSelection;
+  /** Whole entry, for exporting the sequences of unselected chains too */
+  entry?: SequenceData;
+  /** Numbering of the region ranges shown and exported */
+  numbering?: NumberingScheme;
   onClearSelection: () => void;
   onRegionAction?: (
     region: SelectionRegion | null,
     action: RegionAction,
   ) => void;
   onCopy?: (text: string) => Promise<void>;
+  /** Export the atoms of the selected regions, e.g. as a PDB file */
+  onExportCoordinates?: (regions: SelectionRegion[]) => void;
   readOnly?: boolean;
 }
 
@@ -52,16 +66,21 @@ const sortRegions = (regions: SelectionRegion[]) =>
 
 export function SelectionSummary({
   selection,
+  entry,
+  numbering = "auth",
   onClearSelection,
   onRegionAction,
   onCopy,
+  onExportCoordinates,
   readOnly = false,
 }: SelectionSummaryProps) {
   if (selection.regions.length === 0) return null;
 
+  const chains = entry?.chains ?? [];
   const sortedRegions = sortRegions(selection.regions);
   const totalResidues = selection.regions.reduce(
-    (sum, region) => sum + (region.end - region.start + 1),
+    (sum: number, region: SelectionRegion) =>
+      sum + countRegionResidues(region, chains),
     0,
   );
 
@@ -98,7 +117,9 @@ export function SelectionSummary({
                     key={region.id}
                     className="text-sm font-mono text-gray-700 break-words"
                   >
-                    <span className="font-medium">{region.label}:</span>
+                    <span className="font-medium">
+                      {formatRegion(region, chains, numbering)}:
+                    </span>
                     <span className="ml-1">{region.sequence}</span>
                     {index < sortedRegions.length - 1 && (
                       <span className="text-gray-400 ml-2">|</span>
@@ -113,7 +134,8 @@ export function SelectionSummary({
           ) : (
             <div className="flex items-center gap-4">
               <span className="text-sm font-mono text-gray-700 break-words">
-                {sortedRegions[0].label}: {sortedRegions[0].sequence}
+                {formatRegion(sortedRegions[0], chains, numbering)}:{" "}
+                {sortedRegions[0].sequence}
               </span>
               <span className="text-xs text-gray-500 whitespace-nowrap">
                 ({totalResidues} residue{totalResidues !== 1 ? "s" : ""})
@@ -136,6 +158,29 @@ export function SelectionSummary({
                 Copy
               </ActionButton>
             )}
+            {entry && (
+              <SequenceExportMenu
+                entry={entry}
+                regions={sortedRegions}
+                numbering={numbering}
+                onCopy={onCopy}
+              >
+                <span
+                  className="block text-xs transition-colors px-1.5 py-0.5 rounded whitespace-nowrap cursor-pointer text-gray-600 hover:text-blue-600 hover:bg-blue-50"
+                  title="Export sequences as FASTA, PIR or GenBank"
+                >
+                  Export sequence
+                </span>
+              </SequenceExportMenu>
+            )}
+            {onExportCoordinates && (
+              <ActionButton
+                onClick={() => onExportCoordinates(sortedRegions)}
+                title="Export coordinates as PDB or mmCIF"
+              >
+                Export coordinates
+              </ActionButton>
+            )}
             <ActionButton
               onClick={onClearSelection}
               variant="clear"
@@ -1,6 +1,6 @@
 "use client";
 
-import React from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { SequenceSelectionProvider } from "./context/SequenceSelectionContext";
 import { ResidueGrid } from "./ResidueGrid";
 import { SelectionSummary } from "./SelectionSummary";
@@ -8,19 +8,39 @@ import { SequenceHeader } from "./components/SequenceHeader";
 import { ErrorState, LoadingState } from "./components/ErrorStates";
 import { useSequenceInterface } from "./hooks/useSequenceInterface";
 import { cn } from "./utils/cn";
-import type { SequenceInterfaceProps } from "./types";
+import { hasNumbering } from "@/lib/residueNumbering";
+import type { NumberingScheme } from "@/types/sequence";
+import type { SequenceInterfaceProps, SelectionRegion } from "./types";
 
 function SequenceInterfaceInternal({
   className = "",
   readOnly = false,
   callbacks,
+  residueTracks,
+  colorScheme,
+  residueScores,
   ...rest
 }: SequenceInterfaceProps) {
-  const { state, clearSelection, copyToClipboard } = useSequenceInterface({
-    readOnly,
-    callbacks,
-    ...rest,
-  });
+  const { state, originalData, clearSelection, copyToClipboard } =
+    useSequenceInterface({
+      readOnly,
+      callbacks,
+      ...rest,
+    });
+  // Copied on every request, so focusing the same match again still scrolls
+  const [focusedRegion, setFocusedRegion] = useState<SelectionRegion | null>(
+    null,
+  );
+  const handleFocusRegion = useCallback(
+    (region: SelectionRegion) => setFocusedRegion({ ...region }),
+    [],
+  );
+  const [numbering, setNumbering] = useState<NumberingScheme>("auth");
+
+  // Entries without a SIFTS mapping fall back to author numbering
+  useEffect(() => {
+    if (!hasNumbering(originalData.chains, numbering)) setNumbering("auth");
+  }, [originalData.chains, numbering]);
 
   if (state.isLoading) {
     return <LoadingState className={className} />;
@@ -39,21 +59,32 @@ function SequenceInterfaceInternal({
         data={state.data}
         selection={state.selection}
         readOnly={readOnly}
+        numbering={numbering}
+        onNumberingChange={setNumbering}
+        onFocusRegion={handleFocusRegion}
       />
 
       <ResidueGrid
         data={state.data}
         selection={state.selection}
         highlightedResidues={state.highlightedResidues}
+        tracks={residueTracks}
+        colorScheme={colorScheme}
+        residueScores={residueScores}
         readOnly={readOnly}
+        focusedRegion={focusedRegion}
+        numbering={numbering}
         onRegionAction={callbacks?.onResidueAction}
       />
 
       {state.selection.regions.length > 0 && (
         <SelectionSummary
           selection={state.selection}
+          entry={originalData}
+          numbering={numbering}
           onClearSelection={clearSelection}
           onRegionAction={callbacks?.onRegionAction}
+          onExportCoordinates={callbacks?.onExportCoordinates}
           onCopy={copyToClipboard}
           readOnly={readOnly}
         />
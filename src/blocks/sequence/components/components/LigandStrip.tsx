@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from "react";
+import type { SequenceLigand } from "@/types/sequence";
+
+interface LigandStripProps {
+  ligands: SequenceLigand[];
+  isSelected: (ligand: SequenceLigand) => boolean;
+  isHighlighted: (ligand: SequenceLigand) => boolean;
+  readOnly?: boolean;
+  onHover: (ligand: SequenceLigand | null) => void;
+  onClick: (ligand: SequenceLigand, event: React.MouseEvent) => void;
+  onContextMenu: (ligand: SequenceLigand, event: React.MouseEvent) => void;
+}
+
+/** Copies listed per component before the rest are collapsed */
+const MAX_COPIES_SHOWN = 12;
+
+interface LigandGroup {
+  compId: string;
+  name?: string;
+  ligands: SequenceLigand[];
+}
+
+/**
+ * Ligands, ions and carbohydrates of the entry, one chip per residue grouped
+ * by component, e.g. every HEM copy in a row
+ */
+export function LigandStrip({
+  ligands,
+  isSelected,
+  isHighlighted,
+  readOnly = false,
+  onHover,
+  onClick,
+  onContextMenu,
+}: LigandStripProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const groups = useMemo(() => {
+    const byCompId = new Map<string, LigandGroup>();
+    for (const ligand of ligands) {
+      const group = byCompId.get(ligand.compId) ?? {
+        compId: ligand.compId,
+        name: ligand.name,
+        ligands: [],
+      };
+      group.ligands.push(ligand);
+      byCompId.set(ligand.compId, group);
+    }
+    return [...byCompId.values()].sort((a, b) =>
+      a.compId.localeCompare(b.compId),
+    );
+  }, [ligands]);
+
+  const toggleExpanded = (compId: string) => {
+    setExpanded((previous) => {
+      const next = new Set(previous);
+      if (next.has(compId)) next.delete(compId);
+      else next.add(compId);
+      return next;
+    });
+  };
+
+  return (
+    <div className="chain-section mb-8">
+      <div className="chain-header mb-2 pb-1 border-b border-gray-200">
+        <div className="flex items-baseline justify-between">
+          <h3 className="text-xs font-medium text-gray-600">
+            Ligands and ions
+          </h3>
+          <span className="text-xs text-gray-500">
+            {ligands.length} residue{ligands.length !== 1 ? "s" : ""}
+          </span>
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        {groups.map((group) => {
+          const isExpanded = expanded.has(group.compId);
+          const shown = isExpanded
+            ? group.ligands
+            : group.ligands.slice(0, MAX_COPIES_SHOWN);
+          const hidden = group.ligands.length - shown.length;
+
+          return (
+            <div key={group.compId} className="flex items-start gap-2">
+              <div
+                className="w-24 shrink-0 pt-0.5 text-xs font-mono font-medium text-gray-600 truncate"
+                title={group.name}
+              >
+                {group.compId}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {shown.map((ligand) => {
+                  const selected = isSelected(ligand);
+                  const highlighted = isHighlighted(ligand);
+                  const label = `${ligand.chainId}:${ligand.position}${ligand.insertionCode ?? ""}`;
+                  return (
+                    <div
+                      key={label}
+                      className={`px-1.5 h-[18px] flex items-center text-[11px] font-mono rounded-sm transition-all duration-150 ${
+                        selected
+                          ? "bg-black text-white"
+                          : highlighted
+                            ? "bg-[#245F73] text-white"
+                            : "bg-gray-200 text-gray-700"
+                      } ${readOnly ? "cursor-default" : "cursor-pointer"}`}
+                      onClick={(e) => onClick(ligand, e)}
+                      onContextMenu={(e) => onContextMenu(ligand, e)}
+                      onMouseEnter={() => onHover(ligand)}
+                      onMouseLeave={() => onHover(null)}
+                      title={`${group.name ?? group.compId} (${group.compId}) - Chain ${ligand.chainId} - Residue ${ligand.position}${ligand.insertionCode ?? ""}`}
+                    >
+                      {label}
+                    </div>
+                  );
+                })}
+                {group.ligands.length > MAX_COPIES_SHOWN && (
+                  <button
+                    type="button"
+                    onClick={() => toggleExpanded(group.compId)}
+                    className="px-1.5 h-[18px] text-[11px] text-gray-500 hover:text-blue-600 rounded-sm"
+                  >
+                    {isExpanded ? "Show less" : `+${hidden} more`}
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
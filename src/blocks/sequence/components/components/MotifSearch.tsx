@@ -0,0 +1,206 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, Search, X } from "lucide-react";
+import { useSequenceSelection } from "../context/SequenceSelectionContext";
+import {
+  findMotifs,
+  MAX_MOTIF_MATCHES,
+  MOTIF_SEARCH_MODES,
+} from "@/lib/motifSearch";
+import { formatRegion } from "@/lib/residueNumbering";
+import type {
+  MotifSearchMode,
+  MotifSearchResult,
+  NumberingScheme,
+  SelectionRegion,
+  SequenceChain,
+} from "@/types/sequence";
+
+interface MotifSearchProps {
+  /** Chains shown in the grid, which the search covers */
+  chains: SequenceChain[];
+  /** Numbering of the match labels */
+  numbering?: NumberingScheme;
+  /** Bring a match into view in the residue grid */
+  onFocusRegion?: (region: SelectionRegion) => void;
+}
+
+/** Matches listed by label; the rest are reached by stepping */
+const MAX_LISTED_MATCHES = 30;
+
+/**
+ * Search bar for peptides, regexes and PROSITE patterns; all matches become
+ * the selection, and stepping selects one match at a time
+ */
+export function MotifSearch({
+  chains,
+  numbering = "auth",
+  onFocusRegion,
+}: MotifSearchProps) {
+  const { setSelectionRegions, replaceSelection } = useSequenceSelection();
+  const [query, setQuery] = useState("");
+  const [mode, setMode] = useState<MotifSearchMode>("prosite");
+  const [result, setResult] = useState<MotifSearchResult | null>(null);
+  const [current, setCurrent] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Matches refer to the chains searched; start over when they change
+  useEffect(() => {
+    setResult(null);
+    setCurrent(null);
+  }, [chains]);
+
+  const matches = result?.regions ?? [];
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setCurrent(null);
+    try {
+      const found = findMotifs(chains, query, mode);
+      setResult(found);
+      if (found.regions.length > 0) setSelectionRegions(found.regions);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : "Invalid pattern");
+    }
+  };
+
+  const goTo = (index: number) => {
+    const region = matches[index];
+    if (!region) return;
+    setCurrent(index);
+    replaceSelection(region);
+    onFocusRegion?.(region);
+  };
+
+  const step = (delta: number) => {
+    if (matches.length === 0) return;
+    const from = current ?? (delta > 0 ? -1 : 0);
+    goTo((from + delta + matches.length) % matches.length);
+  };
+
+  const handleClear = () => {
+    setQuery("");
+    setResult(null);
+    setCurrent(null);
+    setError(null);
+  };
+
+  const placeholder =
+    MOTIF_SEARCH_MODES.find((m) => m.value === mode)?.placeholder ?? "";
+  const buttonClass =
+    "p-1 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-gray-500";
+
+  return (
+    <div className="mt-2">
+      <form onSubmit={handleSearch} className="flex items-center gap-1">
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as MotifSearchMode)}
+          className="px-1.5 py-1 text-xs border border-gray-200 rounded bg-white text-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          aria-label="Search type"
+        >
+          {MOTIF_SEARCH_MODES.map(({ value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <div className="relative flex-1 min-w-0">
+          <Search className="absolute left-1.5 top-1/2 -translate-y-1/2 h-3 w-3 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={placeholder}
+            className="w-full pl-6 pr-2 py-1 text-xs font-mono border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+            aria-label="Sequence motif"
+          />
+        </div>
+        {result && (
+          <>
+            <span className="text-xs text-gray-500 whitespace-nowrap px-1">
+              {matches.length === 0
+                ? "No matches"
+                : current === null
+                  ? `${matches.length}${result.truncated ? "+" : ""} match${matches.length !== 1 ? "es" : ""}`
+                  : `${current + 1} of ${matches.length}${result.truncated ? "+" : ""}`}
+            </span>
+            <button
+              type="button"
+              onClick={() => step(-1)}
+              disabled={matches.length === 0}
+              className={buttonClass}
+              title="Previous match"
+            >
+              <ChevronLeft className="h-3 w-3" />
+            </button>
+            <button
+              type="button"
+              onClick={() => step(1)}
+              disabled={matches.length === 0}
+              className={buttonClass}
+              title="Next match"
+            >
+              <ChevronRight className="h-3 w-3" />
+            </button>
+            <button
+              type="button"
+              onClick={handleClear}
+              className={buttonClass}
+              title="Clear search"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </>
+        )}
+      </form>
+
+      {error && <div className="text-xs text-red-600 mt-1">{error}</div>}
+      {result?.truncated && (
+        <div className="text-xs text-amber-700 mt-1">
+          Showing the first {MAX_MOTIF_MATCHES} matches
+        </div>
+      )}
+
+      {matches.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 mt-1.5">
+          {matches.slice(0, MAX_LISTED_MATCHES).map((region, index) => (
+            <button
+              key={region.id}
+              type="button"
+              onClick={() => goTo(index)}
+              className={`px-1.5 py-0.5 text-xs font-mono rounded border transition-colors ${
+                index === current
+                  ? "bg-blue-50 border-blue-300 text-blue-700"
+                  : "border-gray-200 text-gray-600 hover:bg-gray-50"
+              }`}
+              title={region.sequence}
+            >
+              {formatRegion(region, chains, numbering)}
+            </button>
+          ))}
+          {matches.length > MAX_LISTED_MATCHES && (
+            <span className="text-xs text-gray-400">
+              +{matches.length - MAX_LISTED_MATCHES} more
+            </span>
+          )}
+          {current !== null && (
+            <button
+              type="button"
+              onClick={() => {
+                setCurrent(null);
+                setSelectionRegions(matches);
+              }}
+              className="px-1.5 py-0.5 text-xs text-gray-600 hover:text-blue-600 hover:bg-blue-50 rounded"
+            >
+              Select all
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import React from "react";
+import { SECONDARY_STRUCTURE_COLORS } from "@/lib/aminoAcidColors";
+import { formatResidueRange } from "@/lib/residueNumbering";
+import type {
+  NumberingScheme,
+  SecondaryStructureType,
+  SequenceResidue,
+} from "@/types/sequence";
+
+interface SecondaryStructureTrackProps {
+  /** Residues of one grid row */
+  residues: SequenceResidue[];
+  /** First residue of the next row, to tell whether a strand ends here */
+  nextResidue?: SequenceResidue;
+  /** Numbering shown in the run tooltips */
+  numbering: NumberingScheme;
+}
+
+/** Residue cell width plus the 1px grid gap */
+const COLUMN_WIDTH = 19;
+const CELL_WIDTH = 18;
+const HEIGHT = 10;
+const MIDDLE = HEIGHT / 2;
+const ARROW_LENGTH = 6;
+
+const LABELS: Record<SecondaryStructureType, string> = {
+  helix: "Helix",
+  sheet: "Strand",
+  loop: "Coil",
+};
+
+interface Run {
+  type: SecondaryStructureType;
+  first: number;
+  last: number;
+}
+
+/**
+ * Runs of residues with the same assignment; unmodelled residues split runs
+ * and are left blank
+ */
+function getRuns(residues: SequenceResidue[]): Run[] {
+  const runs: Run[] = [];
+  residues.forEach((residue, index) => {
+    const type = residue.secondaryStructure;
+    if (!type) return;
+    const previous = runs[runs.length - 1];
+    if (previous && previous.type === type && previous.last === index - 1) {
+      previous.last = index;
+    } else {
+      runs.push({ type, first: index, last: index });
+    }
+  });
+  return runs;
+}
+
+/**
+ * Cartoon of the secondary structure above a grid row: a coil for helices,
+ * an arrow for strands and a line for loops
+ */
+export function SecondaryStructureTrack({
+  residues,
+  nextResidue,
+  numbering,
+}: SecondaryStructureTrackProps) {
+  const width = residues.length * COLUMN_WIDTH - 1;
+
+  return (
+    <svg
+      width={width}
+      height={HEIGHT}
+      className="block mb-px"
+      aria-label="Secondary structure"
+    >
+      {getRuns(residues).map(({ type, first, last }) => {
+        const x0 = first * COLUMN_WIDTH;
+        const x1 = last * COLUMN_WIDTH + CELL_WIDTH;
+        const color = SECONDARY_STRUCTURE_COLORS[type];
+        const range = formatResidueRange(
+          residues.slice(first, last + 1),
+          numbering,
+        );
+        const title = `${LABELS[type]} ${residues[first].chainId}${
+          range ? `:${range}` : ""
+        }`;
+
+        if (type === "helix") {
+          // One half-turn of the coil per half residue column
+          const halfWave = COLUMN_WIDTH / 2;
+          const waves = Math.max(1, Math.round((x1 - x0) / halfWave));
+          const step = (x1 - x0) / waves;
+          const path =
+            `M ${x0} ${MIDDLE} q ${step / 2} ${-MIDDLE * 1.6} ${step} 0` +
+            ` t ${step} 0`.repeat(waves - 1);
+          return (
+            <path
+              key={first}
+              d={path}
+              fill="none"
+              stroke={color}
+              strokeWidth={2}
+              strokeLinecap="round"
+            >
+              <title>{title}</title>
+            </path>
+          );
+        }
+
+        if (type === "sheet") {
+          // The arrowhead marks the strand end, which may be on a later row
+          const endsHere =
+            last < residues.length - 1 ||
+            nextResidue?.secondaryStructure !== "sheet";
+          const body = endsHere ? Math.max(x0, x1 - ARROW_LENGTH) : x1;
+          const points = endsHere
+            ? [
+                [x0, 2],
+                [body, 2],
+                [body, 0],
+                [x1, MIDDLE],
+                [body, HEIGHT],
+                [body, HEIGHT - 2],
+                [x0, HEIGHT - 2],
+              ]
+            : [
+                [x0, 2],
+                [x1, 2],
+                [x1, HEIGHT - 2],
+                [x0, HEIGHT - 2],
+              ];
+          return (
+            <polygon
+              key={first}
+              points={points.map((point) => point.join(",")).join(" ")}
+              fill={color}
+            >
+              <title>{title}</title>
+            </polygon>
+          );
+        }
+
+        return (
+          <line
+            key={first}
+            x1={x0}
+            y1={MIDDLE}
+            x2={x1}
+            y2={MIDDLE}
+            stroke={color}
+            strokeWidth={1}
+          >
+            <title>{title}</title>
+          </line>
+        );
+      })}
+    </svg>
+  );
+}
@@ -2,24 +2,31 @@
 
 import React, { useEffect, useRef } from "react";
 import { Menu, MenuButton, MenuItem, MenuItems } from "@headlessui/react";
-import { EyeOff, Focus, Eye, Copy } from "lucide-react";
+import { EyeOff, Focus, Eye, Copy, Ruler } from "lucide-react";
 import type { SelectionRegion } from "../types";
 
 interface SelectionContextMenuProps {
   position: { x: number; y: number };
   region: SelectionRegion;
-  onAction: (action: "hide" | "isolate" | "highlight" | "copy") => void;
+  /** Region range in the displayed numbering; author numbers by default */
+  label?: string;
+  residueCount?: number;
+  onAction: (
+    action: "hide" | "isolate" | "highlight" | "copy" | "measure",
+  ) => void;
   onClose: () => void;
   isVisible: boolean;
 }
 
 /**
  * Context menu for sequence selections
- * Provides residue-level operations: hide, isolate, highlight, copy
+ * Provides residue-level operations: hide, isolate, highlight, measure, copy
  */
 export function SelectionContextMenu({
   position,
   region,
+  label,
+  residueCount = region.end - region.start + 1,
   onAction,
   onClose,
   isVisible,
@@ -56,7 +63,7 @@ export function SelectionContextMenu({
     if (!isVisible) return position;
 
     const menuWidth = 200;
-    const menuHeight = 160;
+    const menuHeight = 200;
     const padding = 10;
 
     let { x, y } = position;
@@ -82,13 +89,15 @@ export function SelectionContextMenu({
 
   if (!isVisible) return null;
 
-  const handleAction = (action: "hide" | "isolate" | "highlight" | "copy") => {
+  const handleAction = (
+    action: "hide" | "isolate" | "highlight" | "copy" | "measure",
+  ) => {
     onAction(action);
     onClose();
   };
 
-  const residueCount = region.end - region.start + 1;
-  const regionLabel = `${region.chainId}:${region.start}-${region.end}`;
+  const regionLabel =
+    label ?? `${region.chainId}:${region.start}-${region.end}`;
 
   return (
     <div
@@ -133,6 +142,14 @@ export function SelectionContextMenu({
           <span>Highlight Selection</span>
         </button>
 
+        <button
+          onClick={() => handleAction("measure")}
+          className="w-full px-3 py-2 text-left text-sm text-zinc-700 hover:bg-blue-50 hover:text-blue-700 flex items-center gap-2 transition-colors"
+        >
+          <Ruler className="h-4 w-4" />
+          <span>Add to Measurement</span>
+        </button>
+
         <div className="border-t border-zinc-100 my-1" />
 
         <button
@@ -0,0 +1,141 @@
+"use client";
+
+import React, { useState } from "react";
+import { Copy, Download } from "lucide-react";
+import { SimplePopover } from "@/components/ui/common/SimplePopover";
+import {
+  exportSequences,
+  SEQUENCE_EXPORT_FORMATS,
+  SEQUENCE_EXPORT_SCOPES,
+} from "@/lib/sequenceExport";
+import { downloadFile } from "@/utils/download";
+import type {
+  NumberingScheme,
+  SelectionRegion,
+  SequenceData,
+  SequenceExportFormat,
+  SequenceExportScope,
+} from "@/types/sequence";
+
+interface SequenceExportMenuProps {
+  /** Every chain of the entry, including ones not shown in the grid */
+  entry: SequenceData;
+  regions: SelectionRegion[];
+  /** Numbering of region ranges in record names */
+  numbering?: NumberingScheme;
+  onCopy?: (text: string) => Promise<void>;
+  children: React.ReactNode;
+}
+
+/**
+ * Popover exporting the selection, its chains or the whole entry as FASTA,
+ * PIR or GenBank text, to a file or the clipboard
+ */
+export function SequenceExportMenu({
+  entry,
+  regions,
+  numbering = "auth",
+  onCopy,
+  children,
+}: SequenceExportMenuProps) {
+  const [format, setFormat] = useState<SequenceExportFormat>("fasta");
+  const [scope, setScope] = useState<SequenceExportScope>("regions");
+  const [status, setStatus] = useState<string | null>(null);
+
+  const getText = () => {
+    setStatus(null);
+    try {
+      return exportSequences(entry, regions, scope, format, numbering);
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : "Export failed");
+      return null;
+    }
+  };
+
+  const handleDownload = () => {
+    const text = getText();
+    if (text === null) return;
+    const extension =
+      SEQUENCE_EXPORT_FORMATS.find((f) => f.value === format)?.extension ??
+      format;
+    const suffix =
+      scope === "entry"
+        ? ""
+        : scope === "chains"
+          ? `_${[...new Set(regions.map((r) => r.chainId))].join("")}`
+          : "_selection";
+    const name = `${entry.id || "sequence"}${suffix}`.replace(/[^\w.-]+/g, "_");
+    downloadFile(text, `${name}.${extension}`, "text/plain");
+  };
+
+  const handleCopy = async () => {
+    const text = getText();
+    if (text === null || !onCopy) return;
+    try {
+      await onCopy(text);
+      setStatus("Copied to clipboard");
+    } catch {
+      setStatus("Failed to copy");
+    }
+  };
+
+  const selectClass =
+    "w-full px-2 py-1 text-xs border border-zinc-200 rounded bg-white focus:outline-none focus:ring-1 focus:ring-blue-500";
+  const buttonClass =
+    "flex-1 px-2 py-1 text-xs bg-white border border-zinc-200 text-zinc-700 rounded hover:bg-zinc-50 flex items-center justify-center gap-1";
+
+  return (
+    <SimplePopover trigger={children} className="w-56 p-3" align="end">
+      <div className="space-y-2">
+        <div>
+          <label className="block text-xs font-medium text-zinc-600 mb-1">
+            Format
+          </label>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as SequenceExportFormat)}
+            className={selectClass}
+          >
+            {SEQUENCE_EXPORT_FORMATS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-zinc-600 mb-1">
+            Sequences
+          </label>
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as SequenceExportScope)}
+            className={selectClass}
+          >
+            {SEQUENCE_EXPORT_SCOPES.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex gap-1">
+          <button onClick={handleDownload} className={buttonClass}>
+            <Download className="h-3 w-3" />
+            Download
+          </button>
+          {onCopy && (
+            <button onClick={handleCopy} className={buttonClass}>
+              <Copy className="h-3 w-3" />
+              Copy
+            </button>
+          )}
+        </div>
+
+        {status && <div className="text-xs text-zinc-500">{status}</div>}
+      </div>
+    </SimplePopover>
+  );
+}
@@ -1,25 +1,70 @@
 import React from "react";
-import type { SequenceData, SequenceSelection } from "../types";
+import { MotifSearch } from "./MotifSearch";
+import { hasNumbering, NUMBERING_SCHEMES } from "@/lib/residueNumbering";
+import type { NumberingScheme } from "@/types/sequence";
+import type {
+  SequenceData,
+  SequenceSelection,
+  SelectionRegion,
+} from "../types";
 
 interface SequenceHeaderProps {
   data: SequenceData;
   selection: SequenceSelection;
   readOnly?: boolean;
+  numbering?: NumberingScheme;
+  onNumberingChange?: (numbering: NumberingScheme) => void;
+  /** Bring a motif search match into view in the residue grid */
+  onFocusRegion?: (region: SelectionRegion) => void;
 }
 
 export function SequenceHeader({
   data,
   selection,
   readOnly = false,
+  numbering = "auth",
+  onNumberingChange,
+  onFocusRegion,
 }: SequenceHeaderProps) {
   return (
     <div className="border-b bg-white px-6 py-3">
       <div className="grid grid-cols-12 gap-4 items-center">
         {/* Structure info - takes up 9 columns */}
         <div className="col-span-9 min-w-0">
-          <h2 className="text-xs font-medium text-gray-600 truncate">
-            {data.name || data.id}
-          </h2>
+          <div className="flex items-center justify-between gap-2">
+            <h2 className="text-xs font-medium text-gray-600 truncate">
+              {data.name || data.id}
+            </h2>
+            {onNumberingChange && (
+              <select
+                value={numbering}
+                onChange={(e) =>
+                  onNumberingChange(e.target.value as NumberingScheme)
+                }
+                className="px-1.5 py-0.5 text-xs border border-gray-200 rounded bg-white text-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                aria-label="Residue numbering"
+                title="Residue numbering"
+              >
+                {NUMBERING_SCHEMES.map(({ value, label, description }) => {
+                  const available = hasNumbering(data.chains, value);
+                  return (
+                    <option
+                      key={value}
+                      value={value}
+                      disabled={!available}
+                      title={
+                        available
+                          ? description
+                          : "No SIFTS mapping in the loaded file"
+                      }
+                    >
+                      {label} numbering
+                    </option>
+                  );
+                })}
+              </select>
+            )}
+          </div>
           {data.metadata && (
             <div className="flex items-center space-x-2 mt-0.5 text-xs text-gray-500">
               {data.metadata.organism && (
@@ -46,6 +91,14 @@ export function SequenceHeader({
         {/* Spacer when readOnly */}
         {readOnly && <div className="col-span-3"></div>}
       </div>
+
+      {!readOnly && (
+        <MotifSearch
+          chains={data.chains}
+          numbering={numbering}
+          onFocusRegion={onFocusRegion}
+        />
+      )}
     </div>
   );
 }
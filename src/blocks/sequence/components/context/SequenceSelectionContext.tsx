@@ -7,6 +7,7 @@ import React, {
   useCallback,
   useEffect,
 } from "react";
+import { getRegionResidues } from "@/lib/residueNumbering";
 import type {
   SequenceInterfaceState,
   SequenceInterfaceAction,
@@ -53,6 +54,16 @@ function sequenceInterfaceReducer(
         selection: action.payload,
       };
 
+    case "SET_SELECTION_REGIONS":
+      return {
+        ...state,
+        selection: {
+          ...state.selection,
+          regions: action.payload,
+          activeRegion: action.payload[0]?.id ?? null,
+        },
+      };
+
     case "ADD_SELECTION_REGION":
       const newRegion = action.payload;
       const existingRegions = state.selection.regions.filter(
@@ -140,6 +151,7 @@ interface SequenceSelectionContextType {
   setHighlightedResidues: (residues: SequenceResidue[]) => void;
   clearSelection: () => void;
   replaceSelection: (region: SelectionRegion) => void;
+  setSelectionRegions: (regions: SelectionRegion[]) => void;
   copyToClipboard: (text: string) => Promise<void>;
   getSelectionSequence: (region: SelectionRegion) => string;
 }
@@ -245,6 +257,10 @@ export function SequenceSelectionProvider({
     [state.selection.clipboard],
   );
 
+  const setSelectionRegions = useCallback((regions: SelectionRegion[]) => {
+    dispatch({ type: "SET_SELECTION_REGIONS", payload: regions });
+  }, []);
+
   const copyToClipboard = useCallback(async (text: string): Promise<void> => {
     try {
       await navigator.clipboard.writeText(text);
@@ -260,10 +276,9 @@ export function SequenceSelectionProvider({
       const chain = state.data.chains.find((c) => c.id === region.chainId);
       if (!chain) return "";
 
-      const residues = chain.residues.filter(
-        (r) => r.position >= region.start && r.position <= region.end,
-      );
-      return residues.map((r) => r.code).join("");
+      return getRegionResidues(chain, region)
+        .map((r) => r.code)
+        .join("");
     },
     [state.data],
   );
@@ -278,6 +293,7 @@ export function SequenceSelectionProvider({
     setHighlightedResidues,
     clearSelection,
     replaceSelection,
+    setSelectionRegions,
     copyToClipboard,
     getSelectionSequence,
   };
@@ -4,6 +4,7 @@ import type { SequenceInterfaceProps, SequenceData } from "../types";
 
 export function useSequenceInterface({
   data,
+  selection: externalSelection,
   callbacks,
   readOnly,
   selectedChainIds: externalSelectedChainIds,
@@ -11,6 +12,7 @@ export function useSequenceInterface({
 }: Pick<
   SequenceInterfaceProps,
   | "data"
+  | "selection"
   | "callbacks"
   | "readOnly"
   | "selectedChainIds"
@@ -21,6 +23,7 @@ export function useSequenceInterface({
     setData,
     setHighlightedResidues,
     clearSelection,
+    setSelectionRegions,
     copyToClipboard,
   } = useSequenceSelection();
 
@@ -38,6 +41,7 @@ export function useSequenceInterface({
       id: data.id || "",
       name: data.name || "",
       chains: data.chains || [],
+      ligands: data.ligands,
       metadata: data.metadata,
     }),
     [data],
@@ -80,6 +84,11 @@ export function useSequenceInterface({
     clearSelection();
   }, [selectedChainIds, clearSelection]);
 
+  // Apply selections pushed from outside, e.g. proximity selection
+  useEffect(() => {
+    if (externalSelection) setSelectionRegions(externalSelection.regions);
+  }, [externalSelection, setSelectionRegions]);
+
   // Set initial selected chains based on logic (only for internal state):
   // - If > 3 chains, select only the first one
   // - Otherwise, select all chains
@@ -119,6 +128,11 @@ export function useSequenceInterface({
     callbacks?.onSelectionChange?.(state.selection);
   }, [state.selection, callbacks]);
 
+  // Hovered residues and ligands are shown in the 3D view too
+  useEffect(() => {
+    callbacks?.onHighlightChange?.(state.highlightedResidues);
+  }, [state.highlightedResidues, callbacks]);
+
   return {
     // State (single source of truth)
     state,
@@ -19,6 +19,8 @@ export {
 
 // Individual components
 export { ResidueGrid } from "./ResidueGrid";
+export { AlignmentGrid } from "./AlignmentGrid";
+export type { AlignmentGridRow, AlignedSelection } from "./AlignmentGrid";
 export { SelectionSummary } from "./SelectionSummary";
 
 // Modular components
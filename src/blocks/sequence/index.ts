@@ -10,6 +10,7 @@
 // Main sequence components
 export { SequenceInterface } from "./components/SequenceInterface";
 export { ResidueGrid } from "./components/ResidueGrid";
+export { AlignmentGrid } from "./components/AlignmentGrid";
 export { SelectionContextMenu } from "./components/components/SelectionContextMenu";
 export { SequenceHeader } from "./components/components/SequenceHeader";
 export { SelectionSummary } from "./components/SelectionSummary";
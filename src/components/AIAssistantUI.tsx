@@ -68,6 +68,9 @@ export function AIAssistantUI() {
                     chatProps.thinkingConvId === chatProps.selected?.id
                   }
                   onPauseThinking={chatProps.pauseThinking}
+                  viewerContextSummary={chatProps.viewerContextSummary}
+                  includeViewerContext={chatProps.includeViewerContext}
+                  onToggleViewerContext={chatProps.toggleViewerContext}
                 />
               }
               main={<ProteinViewer />}
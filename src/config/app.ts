@@ -4,6 +4,7 @@
  */
 
 import type { AppConfig } from "@/types";
+import type { LlmProviderKind } from "@/types/llm";
 
 /**
  * Default application configuration
@@ -21,6 +22,10 @@ export const defaultAppConfig: AppConfig = {
     viewportShowAnimation: false,
     pdbProvider: "https://www.ebi.ac.uk/pdbe/static/entry",
     emdbProvider: "https://www.ebi.ac.uk/emdb/structures",
+    alphafoldProvider:
+      process.env.NEXT_PUBLIC_ALPHAFOLD_PROVIDER ||
+      "https://alphafold.ebi.ac.uk/files",
+    alphafoldModelVersion: 4,
   },
 
   sequence: {
@@ -48,6 +53,17 @@ export const defaultAppConfig: AppConfig = {
     lazyLoading: true,
   },
 
+  // Chat model; LLM_* variables are only read on the server
+  llm: {
+    provider: (process.env.LLM_PROVIDER as LlmProviderKind) || "mock",
+    baseUrl: process.env.LLM_BASE_URL || "",
+    model: process.env.LLM_MODEL || "",
+    apiKey: process.env.LLM_API_KEY,
+    maxTokens: 1024,
+    temperature: 0.2,
+    contextMaxChars: 4000,
+  },
+
   api: {
     baseUrl: "https://www.ebi.ac.uk/pdbe/api",
     timeout: 30000,
@@ -129,6 +145,52 @@ export function validateConfig(config: Partial<AppConfig>): string[] {
     }
   }
 
+  // Validate Molstar configuration
+  if (config.molstar) {
+    if (
+      config.molstar.alphafoldProvider &&
+      !/^(https?:\/\/|\/)/.test(config.molstar.alphafoldProvider)
+    ) {
+      errors.push("AlphaFold provider must be an http(s) URL or absolute path");
+    }
+
+    if (
+      config.molstar.alphafoldModelVersion !== undefined &&
+      config.molstar.alphafoldModelVersion < 1
+    ) {
+      errors.push("AlphaFold model version must be at least 1");
+    }
+  }
+
+  // Validate chat model configuration
+  if (config.llm) {
+    if (!["openai", "anthropic", "mock"].includes(config.llm.provider)) {
+      errors.push("LLM provider must be openai, anthropic or mock");
+    }
+
+    if (config.llm.baseUrl && !/^https?:\/\//.test(config.llm.baseUrl)) {
+      errors.push("LLM base URL must be an http(s) URL");
+    }
+
+    if (config.llm.provider !== "mock" && !config.llm.model) {
+      errors.push(
+        "LLM model must be set for the openai and anthropic providers",
+      );
+    }
+
+    if (config.llm.maxTokens < 1) {
+      errors.push("LLM max tokens must be at least 1");
+    }
+
+    if (config.llm.temperature < 0 || config.llm.temperature > 2) {
+      errors.push("LLM temperature must be between 0 and 2");
+    }
+
+    if (config.llm.contextMaxChars < 0) {
+      errors.push("LLM context budget must not be negative");
+    }
+  }
+
   // Validate sequence configuration
   if (config.sequence) {
     if (config.sequence.residuesPerRow && config.sequence.residuesPerRow < 10) {
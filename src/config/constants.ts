@@ -46,6 +46,35 @@ export const EXAMPLE_STRUCTURES = [
   },
 ] as const;
 
+// Predicted models available from AlphaFold DB (UniProt accessions)
+export const EXAMPLE_ALPHAFOLD_MODELS = [
+  {
+    id: "P69905",
+    name: "Hemoglobin subunit alpha",
+    description: "Human, AlphaFold prediction",
+  },
+  {
+    id: "P0DTC2",
+    name: "Spike glycoprotein",
+    description: "SARS-CoV-2, AlphaFold prediction",
+  },
+  {
+    id: "P04637",
+    name: "Cellular tumor antigen p53",
+    description: "Human, largely disordered termini",
+  },
+  {
+    id: "P42212",
+    name: "Green fluorescent protein",
+    description: "Aequorea victoria, AlphaFold prediction",
+  },
+  {
+    id: "P00698",
+    name: "Lysozyme C",
+    description: "Chicken, AlphaFold prediction",
+  },
+] as const;
+
 // Default structure to load on app start
 export const DEFAULT_STRUCTURE_ID = EXAMPLE_STRUCTURES[0].id;
 
@@ -2,12 +2,41 @@
 
 import React, { createContext, useContext, useState, useCallback } from "react";
 import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import type { molstarWrapper } from "@/lib/molstar/MolstarWrapper";
+import type { StructureSource } from "@/types/molstar";
+import type { SelectionRegion } from "@/types/sequence";
+import type { Conversation } from "@/types/chat";
+
+type GetConversation = () => Conversation | null;
+type OpenConversation = (conversation: Conversation) => void;
 
 interface MolstarContextValue {
   plugin: PluginUIContext | null;
   setPlugin: (plugin: PluginUIContext | null) => void;
   isReady: boolean;
   setIsReady: (ready: boolean) => void;
+  /** Wrapper of the structure workspace viewer, for use outside it (e.g. chat) */
+  wrapper: molstarWrapper | null;
+  setWrapper: (wrapper: molstarWrapper | null) => void;
+  /** Load a structure through the workspace, registered by StructureWorkspace */
+  loadStructure: ((source: StructureSource) => void) | null;
+  setLoadStructure: (
+    loadStructure: ((source: StructureSource) => void) | null,
+  ) => void;
+  /** Replace the workspace's sequence selection, registered by StructureWorkspace */
+  selectRegions: ((regions: SelectionRegion[]) => void) | null;
+  setSelectRegions: (
+    selectRegions: ((regions: SelectionRegion[]) => void) | null,
+  ) => void;
+  /** Current sequence selection of the workspace, mirrored by StructureWorkspace */
+  sequenceSelection: SelectionRegion[];
+  setSequenceSelection: (regions: SelectionRegion[]) => void;
+  /** Conversation open in the chat, registered by ChatContainer */
+  getConversation: GetConversation | null;
+  setGetConversation: (getConversation: GetConversation | null) => void;
+  /** Add a conversation to the chat and open it, registered by ChatContainer */
+  openConversation: OpenConversation | null;
+  setOpenConversation: (openConversation: OpenConversation | null) => void;
 }
 
 const MolstarContext = createContext<MolstarContextValue | null>(null);
@@ -19,17 +48,76 @@ interface MolstarProviderProps {
 export function MolstarProvider({ children }: MolstarProviderProps) {
   const [plugin, setPluginState] = useState<PluginUIContext | null>(null);
   const [isReady, setIsReady] = useState(false);
+  const [wrapper, setWrapperState] = useState<molstarWrapper | null>(null);
+  const [loadStructure, setLoadStructureState] = useState<
+    ((source: StructureSource) => void) | null
+  >(null);
+  const [selectRegions, setSelectRegionsState] = useState<
+    ((regions: SelectionRegion[]) => void) | null
+  >(null);
+  const [sequenceSelection, setSequenceSelection] = useState<SelectionRegion[]>(
+    [],
+  );
+  const [getConversation, setGetConversationState] =
+    useState<GetConversation | null>(null);
+  const [openConversation, setOpenConversationState] =
+    useState<OpenConversation | null>(null);
 
   const setPlugin = useCallback((newPlugin: PluginUIContext | null) => {
     setPluginState(newPlugin);
     setIsReady(!!newPlugin);
   }, []);
 
+  const setWrapper = useCallback(
+    (newWrapper: molstarWrapper | null) => {
+      setWrapperState(newWrapper);
+      setPlugin(newWrapper?.plugin ?? null);
+    },
+    [setPlugin],
+  );
+
+  const setLoadStructure = useCallback(
+    (newLoadStructure: ((source: StructureSource) => void) | null) =>
+      // Functions passed to setState would be called as updaters
+      setLoadStructureState(() => newLoadStructure),
+    [],
+  );
+
+  const setSelectRegions = useCallback(
+    (newSelectRegions: ((regions: SelectionRegion[]) => void) | null) =>
+      setSelectRegionsState(() => newSelectRegions),
+    [],
+  );
+
+  const setGetConversation = useCallback(
+    (newGetConversation: GetConversation | null) =>
+      setGetConversationState(() => newGetConversation),
+    [],
+  );
+
+  const setOpenConversation = useCallback(
+    (newOpenConversation: OpenConversation | null) =>
+      setOpenConversationState(() => newOpenConversation),
+    [],
+  );
+
   const value: MolstarContextValue = {
     plugin,
     setPlugin,
     isReady,
     setIsReady,
+    wrapper,
+    setWrapper,
+    loadStructure,
+    setLoadStructure,
+    selectRegions,
+    setSelectRegions,
+    sequenceSelection,
+    setSequenceSelection,
+    getConversation,
+    setGetConversation,
+    openConversation,
+    setOpenConversation,
   };
 
   return (
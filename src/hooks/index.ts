@@ -4,6 +4,11 @@ export { useKeyboardShortcuts } from "./useKeyboardShortcuts";
 
 // Chat Hooks
 export { useChatState } from "./useChatState";
+export { useAssistant, type AssistantReplyOptions } from "./useAssistant";
 
 // Protein & Structure Hooks
 export { usePDBSequence } from "./usePdbSequence";
+export { useMeasurements, type MeasurementsState } from "./useMeasurements";
+export { useViewHistory, type ViewHistory } from "./useViewHistory";
+export { useSession, type SessionState } from "./useSession";
+export { useViewLink, type ViewLinkState } from "./useViewLink";
@@ -0,0 +1,141 @@
+/**
+ * Hook answering chat messages about the viewer
+ *
+ * Messages that parse as viewer commands run locally; anything else goes to
+ * the chat model, whose text streams back and whose tool calls run as agent
+ * actions on the workspace viewer. Model requests can carry a description
+ * of what the viewer shows.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { getAppConfig } from "@/config/app";
+import { useMolstar } from "@/contexts/MolstarContext";
+import { agentExecutor, toolCallToAgentAction } from "@/lib/agent";
+import { streamChat } from "@/lib/llm/client";
+import {
+  captureViewerContext,
+  serializeViewerContext,
+} from "@/lib/llm/context";
+import { parseViewerCommand, runViewerCommand } from "@/lib/viewerCommands";
+import type { LlmMessage } from "@/types/llm";
+import { downloadFile } from "@/utils/download";
+
+/** Earlier messages sent to the model with each request */
+const MAX_HISTORY_MESSAGES = 20;
+
+export interface AssistantReplyOptions {
+  /** Earlier messages of the conversation, oldest first */
+  history?: LlmMessage[];
+  signal?: AbortSignal;
+  /** Called with the reply so far whenever it grows */
+  onText?: (text: string) => void;
+  /** Send the current viewer state with the request */
+  includeContext?: boolean;
+}
+
+export function useAssistant() {
+  const { wrapper, loadStructure, selectRegions, sequenceSelection } =
+    useMolstar();
+
+  // Re-render when the scene changes, so the context summary stays current
+  const [, setSceneVersion] = useState(0);
+  useEffect(
+    () => wrapper?.onStructuresChanged(() => setSceneVersion((v) => v + 1)),
+    [wrapper],
+  );
+
+  // Short description of the viewer state a request would carry
+  const activeRef = wrapper?.getActiveStructureRef();
+  const active = wrapper
+    ?.getStructures()
+    .find((structure) => structure.ref === activeRef);
+  const regionCount = sequenceSelection.length;
+  const contextSummary = active
+    ? `${active.label.toUpperCase()}${
+        regionCount
+          ? ` · ${regionCount} selected ${regionCount === 1 ? "region" : "regions"}`
+          : ""
+      }`
+    : null;
+
+  const respond = useCallback(
+    async (
+      content: string,
+      {
+        history = [],
+        signal,
+        onText,
+        includeContext = false,
+      }: AssistantReplyOptions = {},
+    ): Promise<string> => {
+      if ("command" in parseViewerCommand(content)) {
+        return (await runViewerCommand(content, { wrapper, loadStructure }))
+          .message;
+      }
+
+      const executor = new agentExecutor({
+        wrapper,
+        loadStructure,
+        selectRegions,
+      });
+      const messages: LlmMessage[] = [
+        ...history.slice(-MAX_HISTORY_MESSAGES),
+        { role: "user", content },
+      ];
+
+      const viewerContext = includeContext
+        ? await captureViewerContext(wrapper, sequenceSelection)
+        : null;
+      const context = viewerContext
+        ? serializeViewerContext(
+            viewerContext,
+            getAppConfig().llm.contextMaxChars,
+          )
+        : undefined;
+
+      let reply = "";
+      const append = (text: string, onNewLine = false) => {
+        if (onNewLine && reply && !reply.endsWith("\n")) reply += "\n";
+        reply += text;
+        onText?.(reply);
+      };
+
+      for await (const event of streamChat(messages, { context, signal })) {
+        switch (event.type) {
+          case "text":
+            append(event.text);
+            break;
+
+          case "tool-call": {
+            const result = await executor.execute(
+              toolCallToAgentAction(event.call),
+            );
+            if (!result.success) {
+              append(`✗ ${result.error?.message}\n`, true);
+              break;
+            }
+            append(`✓ ${result.data!.message}\n`, true);
+
+            // Exported files download instead of filling the reply and the
+            // history sent back to the model
+            const payload = result.data!.payload;
+            if (payload?.kind === "file") {
+              const { content, filename, mimeType } = payload.file;
+              downloadFile(content, filename, mimeType);
+            }
+            break;
+          }
+
+          case "error":
+            append(`✗ The model request failed: ${event.message}\n`, true);
+            break;
+        }
+      }
+
+      return reply.trim() || "The model didn't reply.";
+    },
+    [wrapper, loadStructure, selectRegions, sequenceSelection],
+  );
+
+  return { respond, contextSummary };
+}
@@ -9,19 +9,24 @@ import {
   createNewConversation,
   createMessage,
   updateConversationWithMessage,
+  upsertConversationMessage,
   filterConversations,
 } from "../utils/chat";
+import type { AssistantReplyOptions } from "./useAssistant";
 
 interface UseChatStateProps {
   initialConversations: Conversation[];
   initialTemplates: Template[];
   initialFolders: Folder[];
+  /** Produce the assistant's reply to a user message, streaming it via onText */
+  respond: (content: string, options: AssistantReplyOptions) => Promise<string>;
 }
 
 export function useChatState({
   initialConversations,
   initialTemplates,
   initialFolders,
+  respond,
 }: UseChatStateProps) {
   // Core state
   const [conversations, setConversations] =
@@ -32,6 +37,9 @@ export function useChatState({
   const [query, setQuery] = useState<string>("");
   const [isThinking, setIsThinking] = useState<boolean>(false);
   const [thinkingConvId, setThinkingConvId] = useState<string | null>(null);
+  // Whether model requests describe what the viewer shows
+  const [includeViewerContext, setIncludeViewerContext] =
+    useState<boolean>(true);
 
   // Persistent state - initialize with defaults to avoid hydration mismatch
   const [collapsed, setCollapsed] = useState<CollapsedState>({
@@ -48,6 +56,9 @@ export function useChatState({
       { pinned: true, recent: false, folders: true, templates: true },
     );
     setCollapsed(savedCollapsed);
+    setIncludeViewerContext(
+      getStorageItem<boolean>(STORAGE_KEYS.CHAT_VIEWER_CONTEXT, true),
+    );
   }, []);
 
   // Save to localStorage when collapsed state changes
@@ -55,12 +66,25 @@ export function useChatState({
     setStorageItem(STORAGE_KEYS.SIDEBAR_COLLAPSED, collapsed);
   }, [collapsed]);
 
+  const toggleViewerContext = useCallback(() => {
+    setIncludeViewerContext((prev) => {
+      setStorageItem(STORAGE_KEYS.CHAT_VIEWER_CONTEXT, !prev);
+      return !prev;
+    });
+  }, []);
+
   // Refs
+  const conversationsRef = useRef(conversations);
+  const replyAbortRef = useRef<AbortController | null>(null);
   const searchRef = useRef<HTMLInputElement | null>(null);
   const composerRef = useRef<{
     insertTemplate: (content: string) => void;
   } | null>(null);
 
+  useEffect(() => {
+    conversationsRef.current = conversations;
+  }, [conversations]);
+
   // Computed values
   const filtered = useMemo(
     () => filterConversations(conversations, query),
@@ -110,39 +134,88 @@ export function useChatState({
     setSelectedId(newConversation.id);
   }, []);
 
-  const sendMessage = useCallback((convId: string, content: string) => {
-    if (!content.trim()) return;
-
-    const userMessage = createMessage("user", content);
-
-    setConversations((prev) =>
-      prev.map((c) => {
-        if (c.id !== convId) return c;
-        return updateConversationWithMessage(c, userMessage);
-      }),
-    );
+  // Conversations from elsewhere, e.g. a session file, replace their copy
+  const importConversation = useCallback((conversation: Conversation) => {
+    const imported = {
+      ...conversation,
+      messages: conversation.messages.map((m) => ({ ...m, streaming: false })),
+    };
+    setConversations((prev) => [
+      imported,
+      ...prev.filter((c) => c.id !== imported.id),
+    ]);
+    setSelectedId(imported.id);
+  }, []);
 
-    setIsThinking(true);
-    setThinkingConvId(convId);
+  const sendMessage = useCallback(
+    (convId: string, content: string) => {
+      if (!content.trim()) return;
 
-    // Simulate AI response
-    setTimeout(() => {
-      const assistantMessage = createMessage(
-        "assistant",
-        "Got it — I'll help with that.",
-      );
+      const userMessage = createMessage("user", content);
+      const history = (
+        conversationsRef.current.find((c) => c.id === convId)?.messages ?? []
+      )
+        .filter((m) => m.content && !m.streaming)
+        .map(({ role, content }) => ({ role, content }));
 
       setConversations((prev) =>
         prev.map((c) => {
           if (c.id !== convId) return c;
-          return updateConversationWithMessage(c, assistantMessage);
+          return updateConversationWithMessage(c, userMessage);
         }),
       );
 
-      setIsThinking(false);
-      setThinkingConvId(null);
-    }, 2000);
-  }, []);
+      setIsThinking(true);
+      setThinkingConvId(convId);
+
+      replyAbortRef.current?.abort();
+      const controller = new AbortController();
+      replyAbortRef.current = controller;
+
+      // The reply keeps one id while it streams in and once it is complete
+      const assistantMessage = createMessage("assistant", "");
+      let partial = "";
+      const showReply = (reply: string, streaming: boolean) =>
+        setConversations((prev) =>
+          prev.map((c) => {
+            if (c.id !== convId) return c;
+            return upsertConversationMessage(c, {
+              ...assistantMessage,
+              content: reply,
+              streaming,
+            });
+          }),
+        );
+
+      respond(content, {
+        history,
+        signal: controller.signal,
+        includeContext: includeViewerContext,
+        onText: (reply) => {
+          partial = reply;
+          showReply(reply, true);
+        },
+      })
+        .catch((error: unknown) => {
+          if (controller.signal.aborted) {
+            return partial ? `${partial}\n\n(stopped)` : "(stopped)";
+          }
+          console.error("Failed to respond to message:", error);
+          const apology = "Sorry, something went wrong while handling that.";
+          return partial ? `${partial}\n\n${apology}` : apology;
+        })
+        .then((reply) => {
+          showReply(reply, false);
+
+          if (replyAbortRef.current === controller) {
+            replyAbortRef.current = null;
+            setIsThinking(false);
+            setThinkingConvId(null);
+          }
+        });
+    },
+    [respond, includeViewerContext],
+  );
 
   const editMessage = useCallback(
     (convId: string, messageId: string, newContent: string) => {
@@ -178,6 +251,8 @@ export function useChatState({
   );
 
   const pauseThinking = useCallback(() => {
+    replyAbortRef.current?.abort();
+    replyAbortRef.current = null;
     setIsThinking(false);
     setThinkingConvId(null);
   }, []);
@@ -197,6 +272,7 @@ export function useChatState({
     query,
     isThinking,
     thinkingConvId,
+    includeViewerContext,
     collapsed,
     selected,
 
@@ -216,10 +292,12 @@ export function useChatState({
     setCollapsed,
     togglePin,
     createNewChat,
+    importConversation,
     sendMessage,
     editMessage,
     resendMessage,
     pauseThinking,
+    toggleViewerContext,
     handleUseTemplate,
   };
 }
@@ -12,11 +12,14 @@ export function useKeyboardShortcuts(shortcuts: KeyboardShortcut[]) {
         const metaMatch = shortcut.metaKey
           ? event.metaKey || event.ctrlKey
           : !event.metaKey && !event.ctrlKey;
+        const shiftMatch =
+          shortcut.shiftKey === undefined ||
+          shortcut.shiftKey === event.shiftKey;
         const keyMatch = event.key.toLowerCase() === shortcut.key.toLowerCase();
 
-        if (metaMatch && keyMatch) {
-          // Special handling for search shortcut
-          if (shortcut.key === "/") {
+        if (metaMatch && shiftMatch && keyMatch) {
+          // Special handling for search shortcut and keys text fields use
+          if (shortcut.key === "/" || shortcut.ignoreInInputs) {
             const activeElement =
               document.activeElement?.tagName?.toLowerCase();
             if (activeElement === "input" || activeElement === "textarea") {
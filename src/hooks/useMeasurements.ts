@@ -0,0 +1,303 @@
+/**
+ * Hook for measurements in the Mol* scene: atom picking, the measurement
+ * list and its persistence. Measurements are saved per structure source and
+ * restored whenever that structure is in the scene again.
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { molstarWrapper } from "@/lib/molstar/MolstarWrapper";
+import { MEASUREMENT_POINT_COUNT } from "@/lib/molstar/measurements";
+import { makeId } from "@/components/data/utils";
+import { getStorageItem, setStorageItem, STORAGE_KEYS } from "../utils/storage";
+import type {
+  Measurement,
+  MeasurementKind,
+  MeasurementPoint,
+  SceneStructure,
+  StoredMeasurement,
+} from "@/types/molstar";
+import type { SelectionRegion } from "@/types/sequence";
+
+export type MeasurementsState = ReturnType<typeof useMeasurements>;
+
+export function useMeasurements(
+  wrapper: molstarWrapper | null,
+  structures: SceneStructure[],
+) {
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [kind, setKindState] = useState<MeasurementKind>("distance");
+  const [picks, setPicks] = useState<MeasurementPoint[]>([]);
+  const [isPicking, setIsPicking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Saved measurements, including those of structures not in the scene
+  const storedRef = useRef<StoredMeasurement[]>([]);
+  const [isStorageLoaded, setIsStorageLoaded] = useState(false);
+  // Ids drawn in the scene or being restored
+  const activeIds = useRef(new Set<string>());
+
+  // Load from localStorage after mount (client-side only)
+  useEffect(() => {
+    storedRef.current = getStorageItem<StoredMeasurement[]>(
+      STORAGE_KEYS.MEASUREMENTS,
+      [],
+    );
+    setIsStorageLoaded(true);
+  }, []);
+
+  const updateStored = useCallback(
+    (update: (stored: StoredMeasurement[]) => StoredMeasurement[]) => {
+      storedRef.current = update(storedRef.current);
+      setStorageItem(STORAGE_KEYS.MEASUREMENTS, storedRef.current);
+    },
+    [],
+  );
+
+  // Follow the scene: drop measurements of removed structures and restore
+  // saved ones whose structures are loaded
+  useEffect(() => {
+    if (!wrapper || !isStorageLoaded) return;
+
+    const sceneRefs = new Set(structures.map((s) => s.ref));
+    const refBySource = new Map(
+      structures
+        .filter((s) => s.sourceKey)
+        .map((s) => [s.sourceKey as string, s.ref]),
+    );
+
+    const gone = measurements.filter((m) =>
+      m.points.some((point) => !sceneRefs.has(point.structureRef)),
+    );
+    if (gone.length > 0) {
+      gone.forEach((m) => {
+        activeIds.current.delete(m.id);
+        wrapper.removeMeasurement(m.id).catch((err) => {
+          console.warn("Failed to remove measurement:", err);
+        });
+      });
+      setMeasurements((current) =>
+        current.filter((m) => !gone.some((g) => g.id === m.id)),
+      );
+    }
+
+    for (const stored of storedRef.current) {
+      const points = stored.points.map(({ sourceKey, ...point }) => {
+        const structureRef = refBySource.get(sourceKey);
+        return structureRef ? { ...point, structureRef } : null;
+      });
+      const isResolvable = points.every((point) => point !== null);
+
+      if (activeIds.current.has(stored.id)) {
+        // Failed restores are retried once their structure is reloaded
+        const isDrawn = measurements.some((m) => m.id === stored.id);
+        if (!isDrawn && !isResolvable) activeIds.current.delete(stored.id);
+        continue;
+      }
+      if (!isResolvable) continue;
+
+      activeIds.current.add(stored.id);
+      wrapper
+        .addMeasurement(
+          stored.id,
+          stored.kind,
+          points as MeasurementPoint[],
+          stored.label,
+        )
+        .then((measurement) =>
+          setMeasurements((current) => [...current, measurement]),
+        )
+        .catch((err) => {
+          console.warn("Failed to restore measurement:", err);
+        });
+    }
+  }, [wrapper, structures, measurements, isStorageLoaded]);
+
+  const toStored = useCallback(
+    (measurement: Measurement): StoredMeasurement | null => {
+      const points = measurement.points.map(({ structureRef, ...point }) => {
+        const sourceKey = structures.find(
+          (s) => s.ref === structureRef,
+        )?.sourceKey;
+        return sourceKey ? { ...point, sourceKey } : null;
+      });
+      if (points.some((point) => point === null)) return null;
+
+      return {
+        id: measurement.id,
+        kind: measurement.kind,
+        label: measurement.label,
+        points: points as StoredMeasurement["points"],
+      };
+    },
+    [structures],
+  );
+
+  /**
+   * Add picked atoms; once enough are picked for the current kind, the
+   * measurement is created and picking starts over
+   */
+  const addPicks = useCallback(
+    async (points: MeasurementPoint[]) => {
+      if (!wrapper || points.length === 0) return;
+
+      const needed = MEASUREMENT_POINT_COUNT[kind];
+      const next = [...picks, ...points].slice(0, needed);
+      setPicks(next.length < needed ? next : []);
+      if (next.length < needed) return;
+
+      try {
+        const measurement = await wrapper.addMeasurement(
+          makeId("measurement-"),
+          kind,
+          next,
+        );
+        activeIds.current.add(measurement.id);
+        setMeasurements((current) => [...current, measurement]);
+        const stored = toStored(measurement);
+        if (stored) updateStored((current) => [...current, stored]);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Measurement failed");
+      }
+    },
+    [wrapper, kind, picks, toStored, updateStored],
+  );
+
+  /**
+   * Pick residues of a region, measured at their Cα; regions with a label
+   * span are resolved by label_seq_id, so insertion codes are told apart
+   */
+  const addResiduePicks = useCallback(
+    async (structureRef: string, region: SelectionRegion) => {
+      if (!wrapper) return;
+
+      const { labelRange } = region;
+      const start = labelRange?.start ?? region.start;
+      const end = labelRange?.end ?? region.end;
+      const remaining = MEASUREMENT_POINT_COUNT[kind] - picks.length;
+      const points: MeasurementPoint[] = [];
+      for (let n = start; n <= end && points.length < remaining; n++) {
+        const point = labelRange
+          ? wrapper.getLabelResidueMeasurementPoint(
+              structureRef,
+              labelRange.chainId,
+              n,
+            )
+          : wrapper.getResidueMeasurementPoint(structureRef, region.chainId, n);
+        if (point) points.push(point);
+      }
+
+      if (points.length === 0) {
+        setError(
+          `No atoms found for ${region.label ?? `${region.chainId}:${region.start}-${region.end}`}`,
+        );
+        return;
+      }
+      await addPicks(points);
+    },
+    [wrapper, kind, picks, addPicks],
+  );
+
+  // Atoms clicked in 3D are picked while picking is on
+  useEffect(() => {
+    if (!wrapper || !isPicking) return;
+    return wrapper.onAtomClicked((point) => {
+      addPicks([point]);
+    });
+  }, [wrapper, isPicking, addPicks]);
+
+  const setKind = useCallback((nextKind: MeasurementKind) => {
+    setKindState(nextKind);
+    setPicks([]);
+  }, []);
+
+  const clearPicks = useCallback(() => {
+    setPicks([]);
+    setError(null);
+  }, []);
+
+  const renameMeasurement = useCallback(
+    async (id: string, label: string) => {
+      const measurement = measurements.find((m) => m.id === id);
+      if (!wrapper || !measurement) return;
+
+      const nextLabel = label.trim() || undefined;
+      try {
+        await wrapper.renameMeasurement(measurement, nextLabel);
+      } catch (err) {
+        console.error("Error renaming measurement:", err);
+      }
+      setMeasurements((current) =>
+        current.map((m) => (m.id === id ? { ...m, label: nextLabel } : m)),
+      );
+      updateStored((current) =>
+        current.map((s) => (s.id === id ? { ...s, label: nextLabel } : s)),
+      );
+    },
+    [wrapper, measurements, updateStored],
+  );
+
+  const removeMeasurement = useCallback(
+    async (id: string) => {
+      try {
+        await wrapper?.removeMeasurement(id);
+      } catch (err) {
+        console.error("Error removing measurement:", err);
+      }
+      activeIds.current.delete(id);
+      setMeasurements((current) => current.filter((m) => m.id !== id));
+      updateStored((current) => current.filter((s) => s.id !== id));
+    },
+    [wrapper, updateStored],
+  );
+
+  /**
+   * Saved measurements of structures loaded from the given sources, e.g.
+   * for a session file
+   */
+  const getStoredMeasurements = useCallback(
+    (sourceKeys: string[]) =>
+      storedRef.current.filter((stored) =>
+        stored.points.every((point) => sourceKeys.includes(point.sourceKey)),
+      ),
+    [],
+  );
+
+  /**
+   * Replace the saved measurements of the given sources, e.g. from a
+   * session file; they are drawn once their structures are in the scene
+   */
+  const replaceStoredMeasurements = useCallback(
+    (sourceKeys: string[], replacements: StoredMeasurement[]) => {
+      const ids = new Set(replacements.map((stored) => stored.id));
+      updateStored((current) => [
+        ...current.filter(
+          (stored) =>
+            !ids.has(stored.id) &&
+            !stored.points.some((point) =>
+              sourceKeys.includes(point.sourceKey),
+            ),
+        ),
+        ...replacements,
+      ]);
+    },
+    [updateStored],
+  );
+
+  return {
+    measurements,
+    kind,
+    setKind,
+    picks,
+    addPicks,
+    addResiduePicks,
+    clearPicks,
+    isPicking,
+    setIsPicking,
+    renameMeasurement,
+    removeMeasurement,
+    getStoredMeasurements,
+    replaceStoredMeasurements,
+    error,
+  };
+}
@@ -1,5 +1,6 @@
-import { useState, useEffect } from "react";
-import { getPDBSequenceData } from "@/lib/pdbSequenceApi";
+import { useState, useEffect, useCallback } from "react";
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import { getStructureSequenceData } from "@/lib/molstar/structureSequence";
 import type { SequenceData } from "@/types/sequence";
 
 interface UsePDBSequenceState {
@@ -9,14 +10,24 @@ interface UsePDBSequenceState {
 }
 
 interface UsePDBSequenceOptions {
+  /** Plugin holding the loaded structure the sequence is derived from */
+  plugin?: PluginUIContext | null;
+  /** Scene structure to read; defaults to the first loaded structure */
+  structureRef?: string | null;
   onDataLoaded?: (data: SequenceData) => void;
   onError?: (error: string) => void;
 }
+
+/**
+ * Sequence data for the structure loaded in Mol*.
+ * `structureId` should only be set once the structure has finished loading.
+ */
 export function usePDBSequence(
-  pdbId: string | null,
+  structureId: string | null,
   options: UsePDBSequenceOptions = {},
 ) {
-  const { onDataLoaded, onError } = options;
+  const { plugin, structureRef, onDataLoaded, onError } = options;
+  const [reloadCount, setReloadCount] = useState(0);
 
   const [state, setState] = useState<UsePDBSequenceState>({
     data: null,
@@ -25,7 +36,7 @@ export function usePDBSequence(
   });
 
   useEffect(() => {
-    if (!pdbId) {
+    if (!structureId || !plugin) {
       setState({ data: null, isLoading: false, error: null });
       return;
     }
@@ -36,7 +47,11 @@ export function usePDBSequence(
       setState((prev) => ({ ...prev, isLoading: true, error: null }));
 
       try {
-        const data = await getPDBSequenceData(pdbId);
+        const data = await getStructureSequenceData(
+          plugin,
+          structureId,
+          structureRef,
+        );
 
         if (!cancelled) {
           setState({ data, isLoading: false, error: null });
@@ -59,17 +74,11 @@ export function usePDBSequence(
     return () => {
       cancelled = true;
     };
-  }, [pdbId, onDataLoaded, onError]);
+  }, [structureId, plugin, structureRef, reloadCount, onDataLoaded, onError]);
 
-  const refetch = async () => {
-    if (pdbId) {
-      const { sequenceCache } = await import("@/lib/pdbSequenceApi");
-      if (sequenceCache?.delete) {
-        sequenceCache.delete(pdbId.toUpperCase());
-      }
-      setState((prev) => ({ ...prev, isLoading: true, error: null }));
-    }
-  };
+  const refetch = useCallback(() => {
+    setReloadCount((count) => count + 1);
+  }, []);
 
   return {
     ...state,
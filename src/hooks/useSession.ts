@@ -0,0 +1,222 @@
+/**
+ * Hook for saving the workspace to a session file and opening one again.
+ * Structures are loaded anew from their sources, then their view, the
+ * camera, measurements and chat conversation are put back; the workspace
+ * restores the active structure, selection and colour scheme.
+ */
+
+import { useState, useCallback } from "react";
+import type { molstarWrapper } from "@/lib/molstar/MolstarWrapper";
+import { getStructureSourceKey } from "@/lib/molstar/structureSource";
+import {
+  fromSessionSource,
+  getSessionFileName,
+  parseSession,
+  serializeSession,
+  SESSION_FORMAT,
+  SESSION_VERSION,
+  toSessionSource,
+} from "@/lib/session";
+import { useMolstar } from "@/contexts/MolstarContext";
+import { downloadFile } from "../utils/download";
+import type { MeasurementsState } from "./useMeasurements";
+import type { StructureSource } from "@/types/molstar";
+import type { AnalysisSession, SessionStructure } from "@/types/session";
+import type { SelectionRegion } from "@/types/sequence";
+
+export type SessionState = ReturnType<typeof useSession>;
+
+interface UseSessionOptions {
+  selectedRegions: SelectionRegion[];
+  sequenceColorScheme: string;
+  measurements: MeasurementsState;
+  /**
+   * Called once an opened session's structures are in the scene, with the
+   * source of the one to show in the sequence panel
+   */
+  onSessionOpened: (
+    session: AnalysisSession,
+    activeSource: StructureSource | null,
+  ) => void;
+}
+
+export function useSession(
+  wrapper: molstarWrapper | null,
+  {
+    selectedRegions,
+    sequenceColorScheme,
+    measurements,
+    onSessionOpened,
+  }: UseSessionOptions,
+) {
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { getConversation, openConversation } = useMolstar();
+  const { getStoredMeasurements, replaceStoredMeasurements } = measurements;
+
+  /**
+   * Download the workspace as a session file, optionally with the Mol*
+   * plugin state for exact representations
+   */
+  const saveSession = useCallback(
+    async (includeMolstarState: boolean) => {
+      if (!wrapper) return;
+
+      setIsBusy(true);
+      setError(null);
+      try {
+        const structures: SessionStructure[] = [];
+        const sourceKeys: string[] = [];
+        // Only structures loaded from a source can be loaded again
+        for (const structure of wrapper.getStructures()) {
+          const source = wrapper.getStructureSource(structure.ref);
+          const view = wrapper.getViewState(structure.ref);
+          if (!source || !view) continue;
+
+          structures.push({
+            ref: structure.ref,
+            label: structure.label,
+            source: await toSessionSource(source),
+            isVisible: structure.isVisible,
+            view: {
+              representation: view.representation,
+              hiddenChains: view.hiddenChains,
+              removedComponents: view.removedComponents,
+            },
+          });
+          sourceKeys.push(getStructureSourceKey(source));
+        }
+        if (structures.length === 0) {
+          throw new Error("No structures to save");
+        }
+
+        const activeRef = wrapper.getActiveStructureRef();
+        const activeStructure = structures.findIndex(
+          (s) => s.ref === activeRef,
+        );
+        const session: AnalysisSession = {
+          format: SESSION_FORMAT,
+          version: SESSION_VERSION,
+          savedAt: new Date().toISOString(),
+          structures,
+          activeStructure: activeStructure >= 0 ? activeStructure : null,
+          camera: wrapper.getCameraSnapshot() ?? undefined,
+          selection: activeStructure >= 0 ? selectedRegions : [],
+          measurements: getStoredMeasurements(sourceKeys),
+          sequenceColorScheme,
+          conversation: getConversation?.() ?? undefined,
+          molstar: includeMolstarState
+            ? (wrapper.getStateSnapshot() ?? undefined)
+            : undefined,
+        };
+
+        downloadFile(
+          serializeSession(session),
+          getSessionFileName(session),
+          "application/json",
+        );
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Saving failed");
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [
+      wrapper,
+      selectedRegions,
+      sequenceColorScheme,
+      getStoredMeasurements,
+      getConversation,
+    ],
+  );
+
+  /**
+   * Replace the workspace with a session file
+   */
+  const openSession = useCallback(
+    async (file: File) => {
+      if (!wrapper) return;
+
+      setIsBusy(true);
+      setError(null);
+      try {
+        const session = parseSession(await file.text());
+        const sources = session.structures.map((s) =>
+          fromSessionSource(s.source),
+        );
+
+        await wrapper.clear();
+        // Saved before loading, so they are drawn as their structures load
+        replaceStoredMeasurements(
+          sources.map(getStructureSourceKey),
+          session.measurements,
+        );
+
+        // Saved structure refs to the refs they are loaded under now
+        const structureRefs = new Map<string, string>();
+        const failed: string[] = [];
+        for (const [i, structure] of session.structures.entries()) {
+          try {
+            structureRefs.set(
+              structure.ref,
+              await wrapper.loadSource(sources[i]),
+            );
+          } catch (err) {
+            console.error(`Failed to load ${structure.label}:`, err);
+            failed.push(structure.label);
+          }
+        }
+
+        if (session.molstar) {
+          await wrapper.restoreStateSnapshot(session.molstar, structureRefs);
+        } else {
+          for (const structure of session.structures) {
+            const ref = structureRefs.get(structure.ref);
+            if (!ref) continue;
+            await wrapper.applyViewState(ref, structure.view);
+            if (!structure.isVisible) {
+              await wrapper.setStructureVisibility(ref, false);
+            }
+          }
+
+          // Representation changes apply to the whole scene
+          const active = session.structures[session.activeStructure ?? 0];
+          const representation = active?.view.representation;
+          const activeRef = active && structureRefs.get(active.ref);
+          if (
+            representation &&
+            activeRef &&
+            wrapper.getViewState(activeRef)?.representation !== representation
+          ) {
+            await wrapper.updateRepresentation(representation);
+          }
+        }
+        if (session.camera) wrapper.setCameraSnapshot(session.camera);
+        // Opening a session is not undoable
+        wrapper.clearHistory();
+
+        if (session.conversation) openConversation?.(session.conversation);
+
+        const activeIndex = [
+          session.activeStructure ?? 0,
+          ...session.structures.keys(),
+        ].find((i) => structureRefs.has(session.structures[i]?.ref));
+        onSessionOpened(
+          session,
+          activeIndex === undefined ? null : sources[activeIndex],
+        );
+
+        if (failed.length > 0) {
+          setError(`Could not load ${failed.join(", ")}`);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Opening failed");
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [wrapper, replaceStoredMeasurements, openConversation, onSessionOpened],
+  );
+
+  return { saveSession, openSession, isBusy, error };
+}
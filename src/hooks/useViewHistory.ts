@@ -0,0 +1,55 @@
+/**
+ * Hook for undo and redo of viewer operations. Follows what the wrapper can
+ * undo, records sequence selection changes with it and puts the selection
+ * of a restored state back into the sequence interface.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import type { molstarWrapper } from "@/lib/molstar/MolstarWrapper";
+import { isSameSelection } from "@/lib/molstar/history";
+import type { ViewHistoryState } from "@/types/molstar";
+import type { SelectionRegion } from "@/types/sequence";
+
+export type ViewHistory = ReturnType<typeof useViewHistory>;
+
+export function useViewHistory(
+  wrapper: molstarWrapper | null,
+  selectedRegions: SelectionRegion[],
+  onSelectionRestored: (regions: SelectionRegion[]) => void,
+) {
+  const [state, setState] = useState<ViewHistoryState>({
+    canUndo: false,
+    canRedo: false,
+  });
+
+  useEffect(() => {
+    if (!wrapper) return;
+
+    const update = () => setState(wrapper.getHistoryState());
+    update();
+    return wrapper.onHistoryChanged(update);
+  }, [wrapper]);
+
+  useEffect(() => {
+    wrapper?.recordSelection(selectedRegions);
+  }, [wrapper, selectedRegions]);
+
+  const restoreSelection = useCallback(
+    (regions: SelectionRegion[] | null | undefined) => {
+      if (regions && !isSameSelection(regions, selectedRegions)) {
+        onSelectionRestored(regions);
+      }
+    },
+    [selectedRegions, onSelectionRestored],
+  );
+
+  const undo = useCallback(async () => {
+    restoreSelection(await wrapper?.undo());
+  }, [wrapper, restoreSelection]);
+
+  const redo = useCallback(async () => {
+    restoreSelection(await wrapper?.redo());
+  }, [wrapper, restoreSelection]);
+
+  return { ...state, undo, redo };
+}
@@ -0,0 +1,236 @@
+/**
+ * Hook for shareable links. Reads the view state in the page URL on start,
+ * applies it once its structure has loaded, keeps the URL following the
+ * view and copies links, with the camera, to the clipboard.
+ */
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Vec3 } from "molstar/lib/mol-math/linear-algebra";
+import type { molstarWrapper } from "@/lib/molstar/MolstarWrapper";
+import { getStructureSequenceData } from "@/lib/molstar/structureSequence";
+import {
+  getStructureSourceKey,
+  getStructureSourceLabel,
+} from "@/lib/molstar/structureSource";
+import { resolveResidueReference } from "@/lib/residueReferences";
+import { buildViewLinkQuery, parseViewLink } from "@/lib/viewLink";
+import type { RepresentationType } from "@/types/molstar";
+import type { ViewLink } from "@/types/session";
+import type { SelectionRegion } from "@/types/sequence";
+
+export type ViewLinkState = ReturnType<typeof useViewLink>;
+
+interface UseViewLinkOptions {
+  activeStructureRef: string | null;
+  selectedRegions: SelectionRegion[];
+  sequenceColorScheme: string;
+  /**
+   * Called once with the view in the page URL, before any structure loads,
+   * so its structure is loaded instead of the default one
+   */
+  onLinkRead: (link: ViewLink | null) => void;
+  onSelectRegions: (regions: SelectionRegion[]) => void;
+}
+
+/** How long the copy button shows that the link was copied */
+const COPIED_DURATION_MS = 2000;
+
+export function useViewLink(
+  wrapper: molstarWrapper | null,
+  {
+    activeStructureRef,
+    selectedRegions,
+    sequenceColorScheme,
+    onLinkRead,
+    onSelectRegions,
+  }: UseViewLinkOptions,
+) {
+  const [isLinkRead, setIsLinkRead] = useState(false);
+  // Link view waiting for its structure to load
+  const [pendingLink, setPendingLink] = useState<ViewLink | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [canCopyLink, setCanCopyLink] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+  const onLinkReadRef = useRef(onLinkRead);
+
+  useEffect(() => {
+    onLinkReadRef.current = onLinkRead;
+  }, [onLinkRead]);
+
+  // The URL is only known in the browser, so it is read after hydration;
+  // it is read once, as later changes to the URL are our own
+  useEffect(() => {
+    const parsed = parseViewLink(window.location.search);
+    setPendingLink(parsed?.link ?? null);
+    setWarnings(parsed?.warnings ?? []);
+    onLinkReadRef.current(parsed?.link ?? null);
+    setIsLinkRead(true);
+  }, []);
+
+  /**
+   * The current view as a link; null for structures a link cannot load,
+   * such as local files
+   */
+  const getCurrentLink = useCallback(
+    (includeCamera: boolean): ViewLink | null => {
+      const structureRef =
+        activeStructureRef ?? wrapper?.getActiveStructureRef() ?? null;
+      if (!wrapper || !structureRef) return null;
+
+      const source = wrapper.getStructureSource(structureRef);
+      const view = wrapper.getViewState(structureRef);
+      if (!source || source.kind === "file" || !view) return null;
+
+      const camera = includeCamera ? wrapper.getCameraSnapshot() : null;
+      return {
+        source,
+        representation: view.representation as RepresentationType,
+        hiddenChains: view.hiddenChains,
+        regions: selectedRegions.map((region) => ({
+          text: region.label ?? region.id,
+          chainId: region.chainId,
+          start: region.start,
+          end: region.end,
+        })),
+        colorScheme: sequenceColorScheme,
+        camera: camera
+          ? {
+              position: [...camera.position] as [number, number, number],
+              target: [...camera.target] as [number, number, number],
+              up: [...camera.up] as [number, number, number],
+            }
+          : undefined,
+      };
+    },
+    [wrapper, activeStructureRef, selectedRegions, sequenceColorScheme],
+  );
+
+  // Apply the link view to the first structure that becomes active; if
+  // that is not the linked one, its load failed and the link is dropped
+  useEffect(() => {
+    if (!wrapper?.plugin || !pendingLink || !activeStructureRef) return;
+
+    setPendingLink(null);
+    const source = wrapper.getStructureSource(activeStructureRef);
+    if (
+      pendingLink.source &&
+      (!source ||
+        getStructureSourceKey(source) !==
+          getStructureSourceKey(pendingLink.source))
+    ) {
+      return;
+    }
+
+    const apply = async () => {
+      const label = source
+        ? getStructureSourceLabel(source)
+        : activeStructureRef;
+      const { chains } = await getStructureSequenceData(
+        wrapper.plugin!,
+        label,
+        activeStructureRef,
+      );
+      const view = wrapper.getViewState(activeStructureRef);
+      const chainIds = new Set([
+        ...(view?.visibleChains ?? []),
+        ...(view?.hiddenChains ?? []),
+      ]);
+      const problems: string[] = [];
+
+      if (
+        pendingLink.representation &&
+        pendingLink.representation !== view?.representation
+      ) {
+        await wrapper.updateRepresentation(pendingLink.representation);
+      }
+
+      // Chains the structure does not have are skipped, not fatal
+      const hiddenChains = pendingLink.hiddenChains.filter((chainId) => {
+        if (chainIds.has(chainId)) return true;
+        problems.push(`Chain ${chainId} is not in ${label}`);
+        return false;
+      });
+      await wrapper.applyViewState(activeStructureRef, {
+        hiddenChains,
+        removedComponents: [],
+      });
+
+      const regions = pendingLink.regions.flatMap((reference) => {
+        const resolved = resolveResidueReference(reference, chains);
+        if (resolved.length === 0) {
+          problems.push(`Selection ${reference.text} is not in ${label}`);
+        }
+        return resolved;
+      });
+      if (regions.length > 0) onSelectRegions(regions);
+
+      if (pendingLink.camera) {
+        const { position, target, up } = pendingLink.camera;
+        wrapper.setCameraSnapshot({
+          position: Vec3.create(...position),
+          target: Vec3.create(...target),
+          up: Vec3.create(...up),
+        });
+      }
+      // The opened view is the starting point, not an undoable change
+      wrapper.clearHistory();
+
+      if (problems.length > 0) {
+        setWarnings((current) => [...current, ...problems]);
+      }
+    };
+
+    apply().catch((err) => {
+      console.error("Failed to apply link view:", err);
+      setWarnings((current) => [...current, "Could not apply the linked view"]);
+    });
+  }, [wrapper, pendingLink, activeStructureRef, onSelectRegions]);
+
+  // Keep the URL following the view, without the camera, which moves too
+  // often; the link view must be applied first so it is not overwritten
+  useEffect(() => {
+    if (!wrapper || !isLinkRead || pendingLink) return;
+
+    const update = () => {
+      const link = getCurrentLink(false);
+      setCanCopyLink(link !== null);
+      const url =
+        window.location.pathname + (link ? buildViewLinkQuery(link) : "");
+      if (url !== window.location.pathname + window.location.search) {
+        window.history.replaceState(window.history.state, "", url);
+      }
+    };
+    update();
+    return wrapper.onStructuresChanged(update);
+  }, [wrapper, isLinkRead, pendingLink, getCurrentLink]);
+
+  /**
+   * Copy a link to the current view, with the camera, to the clipboard
+   */
+  const copyLink = useCallback(async () => {
+    const link = getCurrentLink(true);
+    if (!link) return;
+
+    const query = buildViewLinkQuery(link);
+    const url = `${window.location.origin}${window.location.pathname}${query}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      window.history.replaceState(window.history.state, "", url);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), COPIED_DURATION_MS);
+    } catch (err) {
+      console.error("Failed to copy link:", err);
+    }
+  }, [getCurrentLink]);
+
+  const dismissWarnings = useCallback(() => setWarnings([]), []);
+
+  return {
+    isLinkRead,
+    canCopyLink,
+    isCopied,
+    copyLink,
+    warnings,
+    dismissWarnings,
+  };
+}
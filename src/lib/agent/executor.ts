@@ -0,0 +1,592 @@
+/**
+ * Agent Action Executor
+ *
+ * Dispatches validated agent actions to the Mol* wrapper and the operation
+ * classes. Every action resolves to an OperationResult whose data carries a
+ * readable message and, for analyses, exports and comparisons, a payload.
+ */
+
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import type { molstarWrapper } from "../molstar/MolstarWrapper";
+import { buildResidueRangeLoci, selectOnly } from "../molstar/highlighting";
+import type { ResidueRange } from "../molstar/highlighting";
+import {
+  getStructureResidueLabel,
+  INTERACTION_KINDS,
+  structureResidueToResidueRange,
+} from "../molstar/interactions";
+import {
+  getResidueKey,
+  residueKeysToSelectionRegions,
+  selectionRegionsToResidueRanges,
+} from "../molstar/sequenceToMolstar";
+import { getStructureSequenceData } from "../molstar/structureSequence";
+import { getStructureSourceLabel } from "../molstar/structureSource";
+import { alignmentPercent, alignSequences } from "../sequenceAlignment";
+import { formatValidationErrors, validateAgentAction } from "./validation";
+import type {
+  AgentAction,
+  AgentActionOutput,
+  AgentActionTarget,
+  AnalyzeAction,
+  CompareAction,
+  ExportAction,
+  HighlightAction,
+  LoadAction,
+  SelectAction,
+} from "@/types/agent";
+import type {
+  InteractionKind,
+  MolstarError,
+  OperationResult,
+  SceneStructure,
+  StructureResidue,
+  StructureSource,
+} from "@/types/molstar";
+import type { SelectionRegion, SequenceChain } from "@/types/sequence";
+
+/** What the executor drives; the workspace callbacks are optional */
+export interface AgentContext {
+  wrapper: molstarWrapper | null;
+  /** Load through the structure workspace so its state follows */
+  loadStructure?: ((source: StructureSource) => void) | null;
+  /** Replace the sequence selection of the active structure */
+  selectRegions?: ((regions: SelectionRegion[]) => void) | null;
+}
+
+/** Scene structure an action targets */
+interface ResolvedStructure {
+  ref: string;
+  label: string;
+  chains: SequenceChain[];
+}
+
+/** Residues an action targets, in both the 3D and the sequence form */
+interface ResolvedResidues {
+  label: string;
+  ranges: ResidueRange[];
+  /** Polymer residues as sequence regions; empty for ligands */
+  regions: SelectionRegion[];
+  /** Chains covered, for exports and comparisons */
+  chains: SequenceChain[];
+}
+
+type Resolved<T> = { value: T } | { error: MolstarError };
+
+const FASTA_LINE_LENGTH = 60;
+
+/**
+ * Agent executor class
+ * Runs agent actions against the viewer
+ */
+export class agentExecutor {
+  constructor(private context: AgentContext) {}
+
+  /**
+   * Validate and run an action; malformed actions fail with a
+   * VALIDATION_ERROR whose details list every problem
+   */
+  async execute(input: unknown): Promise<OperationResult<AgentActionOutput>> {
+    const validation = validateAgentAction(input);
+    if (!validation.valid) {
+      return {
+        success: false,
+        error: this.createError(
+          `Invalid action:\n${formatValidationErrors(validation.errors)}`,
+          "VALIDATION_ERROR",
+          { errors: validation.errors },
+        ),
+      };
+    }
+
+    if (!this.context.wrapper?.plugin) {
+      return {
+        success: false,
+        error: this.createError(
+          "The 3D viewer isn't ready yet",
+          "INITIALIZATION_ERROR",
+        ),
+      };
+    }
+
+    try {
+      return await this.dispatch(validation.action);
+    } catch (error) {
+      return {
+        success: false,
+        error: this.createError(
+          `Failed to ${validation.action.type}: ${error instanceof Error ? error.message : error}`,
+          "OPERATION_ERROR",
+          { action: validation.action, originalError: error },
+        ),
+      };
+    }
+  }
+
+  private dispatch(
+    action: AgentAction,
+  ): Promise<OperationResult<AgentActionOutput>> {
+    switch (action.type) {
+      case "load":
+        return this.load(action);
+      case "select":
+        return this.select(action);
+      case "highlight":
+        return this.highlight(action);
+      case "analyze":
+        return this.analyze(action);
+      case "export":
+        return this.export(action);
+      case "compare":
+        return this.compare(action);
+    }
+  }
+
+  private async load(
+    action: LoadAction,
+  ): Promise<OperationResult<AgentActionOutput>> {
+    const { pdbId, accession } = action.target;
+    const source: StructureSource = pdbId
+      ? { kind: "pdb", id: pdbId }
+      : { kind: "alphafold", accession: accession! };
+
+    if (this.context.loadStructure) {
+      this.context.loadStructure(source);
+    } else {
+      await this.wrapper.loadSource(source);
+    }
+    return this.succeed(
+      `Loading ${getStructureSourceLabel(source).toUpperCase()}`,
+    );
+  }
+
+  private async select(
+    action: SelectAction,
+  ): Promise<OperationResult<AgentActionOutput>> {
+    const structure = await this.resolveStructure(action.target);
+    if ("error" in structure) return this.fail(structure.error);
+    const residues = this.resolveResidues(structure.value, action.target);
+    if ("error" in residues) return this.fail(residues.error);
+
+    let { ranges, regions, label } = residues.value;
+    let found: StructureResidue[] | undefined;
+
+    const radius = action.parameters?.radius;
+    if (radius !== undefined) {
+      found = this.wrapper.getResiduesWithinRadius(
+        structure.value.ref,
+        { kind: "residues", ranges },
+        { radius },
+      );
+      const keys = new Set(
+        found.map((residue: StructureResidue) =>
+          getResidueKey(
+            residue.chainId,
+            residue.residueNumber,
+            residue.insertionCode,
+          ),
+        ),
+      );
+      regions = residueKeysToSelectionRegions(keys, structure.value.chains);
+      ranges = selectionRegionsToResidueRanges(regions);
+      label = `${keys.size} residues within ${radius} Å of ${label}`;
+    }
+
+    // The sequence selection only shows the active structure
+    const isActive =
+      structure.value.ref === this.wrapper.getActiveStructureRef();
+    if (this.context.selectRegions && isActive && regions.length > 0) {
+      this.context.selectRegions(regions);
+    } else {
+      const loci = buildResidueRangeLoci(
+        this.plugin,
+        ranges,
+        structure.value.ref,
+      );
+      if (loci) await selectOnly(this.plugin, loci);
+    }
+
+    return this.succeed(
+      `Selected ${label} in ${structure.value.label}`,
+      found && { kind: "residues", residues: found },
+    );
+  }
+
+  private async highlight(
+    action: HighlightAction,
+  ): Promise<OperationResult<AgentActionOutput>> {
+    const structure = await this.resolveStructure(action.target);
+    if ("error" in structure) return this.fail(structure.error);
+    const residues = this.resolveResidues(structure.value, action.target);
+    if ("error" in residues) return this.fail(residues.error);
+
+    const { ranges, label } = residues.value;
+    const loci = buildResidueRangeLoci(
+      this.plugin,
+      ranges,
+      structure.value.ref,
+    );
+    if (!loci) {
+      return this.fail(
+        this.createError("No structure data available", "SELECTION_ERROR"),
+      );
+    }
+    this.plugin.managers.interactivity.lociHighlights.highlightOnly({ loci });
+
+    if (action.parameters?.focus) {
+      this.wrapper.focusResidues(structure.value.ref, ranges);
+    }
+    return this.succeed(`Highlighted ${label} in ${structure.value.label}`);
+  }
+
+  private async analyze(
+    action: AnalyzeAction,
+  ): Promise<OperationResult<AgentActionOutput>> {
+    const structure = await this.resolveStructure(action.target);
+    if ("error" in structure) return this.fail(structure.error);
+    const { ref, label: structureLabel, chains } = structure.value;
+
+    if (action.parameters.analysis === "summary") {
+      const ligands = this.wrapper.getLigands(ref);
+      const ligandCounts = new Map<string, number>();
+      ligands.forEach((ligand: StructureResidue) =>
+        ligandCounts.set(
+          ligand.compId,
+          (ligandCounts.get(ligand.compId) ?? 0) + 1,
+        ),
+      );
+      const chainSummary = chains.map((chain: SequenceChain) => ({
+        id: chain.id,
+        length: chain.residues.length,
+      }));
+
+      const chainText = chainSummary
+        .map(({ id, length }) => `${id} (${length})`)
+        .join(", ");
+      const ligandText = [...ligandCounts]
+        .map(([compId, count]) => (count > 1 ? `${compId} ×${count}` : compId))
+        .join(", ");
+      return this.succeed(
+        `${structureLabel}: ${chains.length} chains: ${chainText}` +
+          (ligandText ? `; ligands: ${ligandText}` : "; no ligands"),
+        {
+          kind: "summary",
+          summary: { label: structureLabel, chains: chainSummary, ligands },
+        },
+      );
+    }
+
+    const residues = this.resolveResidues(structure.value, action.target!);
+    if ("error" in residues) return this.fail(residues.error);
+    const { ranges, label } = residues.value;
+
+    if (action.parameters.analysis === "interactions") {
+      const interactions = await this.wrapper.showInteractions(ref, ranges);
+      const counts = new Map<InteractionKind, number>();
+      interactions.forEach(({ kind }) =>
+        counts.set(kind, (counts.get(kind) ?? 0) + 1),
+      );
+      const summary = [...counts]
+        .map(
+          ([kind, count]) =>
+            `${count} ${INTERACTION_KINDS[kind].label.toLowerCase()}`,
+        )
+        .join(", ");
+      return this.succeed(
+        `${interactions.length} interactions of ${label}` +
+          (summary ? ` (${summary})` : ""),
+        { kind: "interactions", interactions },
+      );
+    }
+
+    const radius = action.parameters.radius ?? 5;
+    const found = this.wrapper.getResiduesWithinRadius(
+      ref,
+      { kind: "residues", ranges },
+      { radius, includeSource: false },
+    );
+    return this.succeed(
+      `${found.length} residues within ${radius} Å of ${label}` +
+        (found.length > 0
+          ? `: ${found.slice(0, 20).map(getStructureResidueLabel).join(", ")}` +
+            (found.length > 20 ? ", …" : "")
+          : ""),
+      { kind: "residues", residues: found },
+    );
+  }
+
+  private async export(
+    action: ExportAction,
+  ): Promise<OperationResult<AgentActionOutput>> {
+    const structure = await this.resolveStructure(action.target);
+    if ("error" in structure) return this.fail(structure.error);
+
+    let chains = structure.value.chains;
+    let name = structure.value.label;
+    if (action.target?.ligand) {
+      return this.fail(
+        this.createError(
+          "FASTA export needs a chain, not a ligand",
+          "OPERATION_ERROR",
+        ),
+      );
+    }
+    if (action.target?.chainId) {
+      const residues = this.resolveResidues(structure.value, action.target);
+      if ("error" in residues) return this.fail(residues.error);
+      chains = residues.value.chains;
+      name = `${structure.value.label}_${residues.value.label.replace(/[^A-Za-z0-9-]+/g, "_")}`;
+    }
+    if (chains.length === 0) {
+      return this.fail(
+        this.createError("No sequences to export", "OPERATION_ERROR"),
+      );
+    }
+
+    const content = chains
+      .map((chain: SequenceChain) => {
+        const sequence = chain.residues.map((r) => r.code).join("");
+        const lines = sequence.match(
+          new RegExp(`.{1,${FASTA_LINE_LENGTH}}`, "g"),
+        );
+        return [`>${structure.value.label}_${chain.id}`, ...(lines ?? [])].join(
+          "\n",
+        );
+      })
+      .join("\n");
+
+    return this.succeed(
+      `Exported ${chains.length} sequence${chains.length === 1 ? "" : "s"} as FASTA`,
+      {
+        kind: "file",
+        file: {
+          filename: `${name}.fasta`,
+          mimeType: "text/x-fasta",
+          content: `${content}\n`,
+        },
+      },
+    );
+  }
+
+  private async compare(
+    action: CompareAction,
+  ): Promise<OperationResult<AgentActionOutput>> {
+    const sides = [];
+    for (const target of [action.target, action.parameters.reference]) {
+      const structure = await this.resolveStructure(target);
+      if ("error" in structure) return this.fail(structure.error);
+      const residues = this.resolveResidues(structure.value, target);
+      if ("error" in residues) return this.fail(residues.error);
+      sides.push({ structure: structure.value, residues: residues.value });
+    }
+    const [mobile, reference] = sides;
+
+    const sequenceOf = (chains: SequenceChain[]) =>
+      chains
+        .map((chain) => chain.residues.map((r) => r.code).join(""))
+        .join("");
+    const alignment = alignSequences(
+      sequenceOf(mobile.residues.chains),
+      sequenceOf(reference.residues.chains),
+    );
+    const identity = alignmentPercent(alignment.identical, alignment);
+    const similarity = alignmentPercent(alignment.similar, alignment);
+
+    let rmsd: number | undefined;
+    if (
+      action.parameters.superpose &&
+      mobile.structure.ref !== reference.structure.ref
+    ) {
+      const toTarget = (side: typeof mobile) => ({
+        structureRef: side.structure.ref,
+        chainId: side.residues.chains[0].id,
+        ranges: side.residues.regions.map(({ start, end }) => ({ start, end })),
+      });
+      const result = await this.wrapper.superpose(
+        toTarget(mobile),
+        toTarget(reference),
+      );
+      rmsd = result.rmsd;
+    }
+
+    const describe = (side: typeof mobile) =>
+      `${side.structure.label} ${side.residues.label}`;
+    return this.succeed(
+      `${describe(mobile)} vs ${describe(reference)}: ` +
+        `${identity.toFixed(1)}% identity, ${similarity.toFixed(1)}% similarity ` +
+        `over ${alignment.columns.length} aligned columns` +
+        (rmsd !== undefined ? `; Cα RMSD ${rmsd.toFixed(2)} Å` : ""),
+      {
+        kind: "comparison",
+        comparison: {
+          identity,
+          similarity,
+          alignedLength: alignment.columns.length,
+          rmsd,
+        },
+      },
+    );
+  }
+
+  /**
+   * The scene structure named by `target.pdbId`, or the active one
+   */
+  private async resolveStructure(
+    target?: AgentActionTarget,
+  ): Promise<Resolved<ResolvedStructure>> {
+    const structures = this.wrapper.getStructures();
+    const structure = target?.pdbId
+      ? structures.find(
+          (s: SceneStructure) => s.label.toLowerCase() === target.pdbId,
+        )
+      : structures.find(
+          (s: SceneStructure) => s.ref === this.wrapper.getActiveStructureRef(),
+        );
+
+    if (!structure) {
+      return {
+        error: this.createError(
+          target?.pdbId
+            ? `${target.pdbId.toUpperCase()} is not loaded`
+            : "No structure is loaded",
+          "SELECTION_ERROR",
+        ),
+      };
+    }
+
+    const sequenceData = await getStructureSequenceData(
+      this.plugin,
+      structure.label,
+      structure.ref,
+    );
+    return {
+      value: {
+        ref: structure.ref,
+        label: structure.label.toUpperCase(),
+        chains: sequenceData.chains,
+      },
+    };
+  }
+
+  /**
+   * Residues named by a target: a ligand, a chain or part of a chain
+   */
+  private resolveResidues(
+    structure: ResolvedStructure,
+    target: AgentActionTarget,
+  ): Resolved<ResolvedResidues> {
+    if (target.ligand) {
+      const ligands = this.wrapper
+        .getLigands(structure.ref)
+        .filter(
+          (ligand: StructureResidue) =>
+            ligand.compId === target.ligand &&
+            (!target.chainId || ligand.chainId === target.chainId),
+        );
+      if (ligands.length === 0) {
+        return {
+          error: this.createError(
+            `No ligand ${target.ligand}${target.chainId ? ` in chain ${target.chainId}` : ""} in ${structure.label}`,
+            "SELECTION_ERROR",
+          ),
+        };
+      }
+      return {
+        value: {
+          label: ligands.map(getStructureResidueLabel).join(", "),
+          ranges: ligands.map(structureResidueToResidueRange),
+          regions: [],
+          chains: [],
+        },
+      };
+    }
+
+    const chain =
+      structure.chains.find((c: SequenceChain) => c.id === target.chainId) ??
+      structure.chains.find(
+        (c: SequenceChain) =>
+          c.id.toLowerCase() === target.chainId?.toLowerCase(),
+      );
+    if (!chain) {
+      return {
+        error: this.createError(
+          `Chain ${target.chainId} is not in ${structure.label}; ` +
+            `chains: ${structure.chains.map((c) => c.id).join(", ")}`,
+          "SELECTION_ERROR",
+        ),
+      };
+    }
+
+    const [start, end] = target.residueRange ?? [-Infinity, Infinity];
+    const residues = chain.residues.filter(
+      (residue) => residue.position >= start && residue.position <= end,
+    );
+    if (residues.length === 0) {
+      return {
+        error: this.createError(
+          `No residues ${chain.id}:${start}-${end} in ${structure.label}`,
+          "SELECTION_ERROR",
+        ),
+      };
+    }
+
+    const regions = residueKeysToSelectionRegions(
+      new Set(
+        residues.map((residue) =>
+          getResidueKey(
+            residue.chainId,
+            residue.position,
+            residue.insertionCode,
+          ),
+        ),
+      ),
+      [chain],
+    );
+    return {
+      value: {
+        label: target.residueRange
+          ? `${chain.id}:${start}${end !== start ? `-${end}` : ""}`
+          : `chain ${chain.id}`,
+        ranges: selectionRegionsToResidueRanges(regions),
+        regions,
+        chains: [{ ...chain, residues }],
+      },
+    };
+  }
+
+  // Both are checked in execute() before any action runs
+  private get wrapper(): molstarWrapper {
+    return this.context.wrapper!;
+  }
+
+  private get plugin(): PluginUIContext {
+    return this.context.wrapper!.plugin!;
+  }
+
+  private succeed(
+    message: string,
+    payload?: AgentActionOutput["payload"],
+  ): OperationResult<AgentActionOutput> {
+    return { success: true, data: { message, ...(payload && { payload }) } };
+  }
+
+  private fail(error: MolstarError): OperationResult<AgentActionOutput> {
+    return { success: false, error };
+  }
+
+  /**
+   * Create a standardized error object
+   */
+  private createError(
+    message: string,
+    type: MolstarError["type"],
+    details?: Record<string, unknown>,
+  ): MolstarError {
+    return {
+      name: "MolstarError",
+      message,
+      type,
+      details,
+    };
+  }
+}
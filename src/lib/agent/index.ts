@@ -0,0 +1,18 @@
+/**
+ * Agent Module
+ *
+ * Typed actions (load, select, highlight, analyze, export, compare) that any
+ * chat front end can send to the viewer, with validation and execution, and
+ * their descriptions as model tools.
+ */
+
+export {
+  AGENT_ACTION_TYPES,
+  AGENT_ANALYSES,
+  AGENT_EXPORT_FORMATS,
+  formatValidationErrors,
+  MAX_AGENT_RADIUS,
+  validateAgentAction,
+} from "./validation";
+export { agentExecutor, type AgentContext } from "./executor";
+export { AGENT_TOOL_NAMES, AGENT_TOOLS, toolCallToAgentAction } from "./tools";
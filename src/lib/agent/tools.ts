@@ -0,0 +1,180 @@
+/**
+ * Agent Tools
+ *
+ * The agent actions described as model tools (function calls), and the
+ * mapping of a tool call back to an action. Arguments are not trusted here;
+ * the executor validates the resulting action.
+ */
+
+import {
+  AGENT_ANALYSES,
+  AGENT_EXPORT_FORMATS,
+  MAX_AGENT_RADIUS,
+} from "./validation";
+import type { AgentActionType } from "@/types/agent";
+import type { LlmToolCall, LlmToolDefinition } from "@/types/llm";
+
+const TARGET_SCHEMA = {
+  type: "object",
+  description:
+    "Residues or structure to act on. Chains and residue numbers are author (PDB) numbering; the active structure is used unless pdbId names another loaded one.",
+  properties: {
+    pdbId: { type: "string", description: "PDB ID, e.g. 4hhb" },
+    accession: {
+      type: "string",
+      description: "UniProt accession of an AlphaFold DB model, e.g. P69905",
+    },
+    chainId: { type: "string", description: "Chain id, e.g. A" },
+    residueRange: {
+      type: "array",
+      items: { type: "integer" },
+      minItems: 2,
+      maxItems: 2,
+      description: "Inclusive [start, end] residue numbers within chainId",
+    },
+    region: {
+      type: "string",
+      description:
+        'Residue region such as "A:15-40" (alternative to chainId and residueRange)',
+    },
+    ligand: { type: "string", description: "Ligand component id, e.g. HEM" },
+  },
+  additionalProperties: false,
+};
+
+const RADIUS_SCHEMA = {
+  type: "number",
+  exclusiveMinimum: 0,
+  maximum: MAX_AGENT_RADIUS,
+  description: "Radius in Å",
+};
+
+/** Tool name for each action type */
+export const AGENT_TOOL_NAMES: Record<AgentActionType, string> = {
+  load: "load_structure",
+  select: "select_residues",
+  highlight: "highlight_residues",
+  analyze: "analyze_structure",
+  export: "export_sequences",
+  compare: "compare_chains",
+};
+
+export const AGENT_TOOLS: LlmToolDefinition[] = [
+  {
+    name: AGENT_TOOL_NAMES.load,
+    description:
+      "Load a structure into the viewer from the PDB (pdbId) or AlphaFold DB (accession).",
+    parameters: {
+      type: "object",
+      properties: { target: TARGET_SCHEMA },
+      required: ["target"],
+    },
+  },
+  {
+    name: AGENT_TOOL_NAMES.select,
+    description:
+      "Select a chain, residue range or ligand, or with a radius the residues around it. The selection shows in the sequence panel and 3D view.",
+    parameters: {
+      type: "object",
+      properties: {
+        target: TARGET_SCHEMA,
+        parameters: {
+          type: "object",
+          properties: { radius: RADIUS_SCHEMA },
+        },
+      },
+      required: ["target"],
+    },
+  },
+  {
+    name: AGENT_TOOL_NAMES.highlight,
+    description:
+      "Highlight a chain, residue range or ligand in the 3D view, optionally moving the camera to it.",
+    parameters: {
+      type: "object",
+      properties: {
+        target: TARGET_SCHEMA,
+        parameters: {
+          type: "object",
+          properties: { focus: { type: "boolean" } },
+        },
+      },
+      required: ["target"],
+    },
+  },
+  {
+    name: AGENT_TOOL_NAMES.analyze,
+    description:
+      "Analyse the structure: a summary of chains and ligands, the non-covalent interactions of a target, or the residues within a radius of a target.",
+    parameters: {
+      type: "object",
+      properties: {
+        target: TARGET_SCHEMA,
+        parameters: {
+          type: "object",
+          properties: {
+            analysis: { type: "string", enum: AGENT_ANALYSES },
+            radius: RADIUS_SCHEMA,
+          },
+          required: ["analysis"],
+        },
+      },
+      required: ["parameters"],
+    },
+  },
+  {
+    name: AGENT_TOOL_NAMES.export,
+    description:
+      "Export the sequences of the structure, or of a chain or residue range, as a file.",
+    parameters: {
+      type: "object",
+      properties: {
+        target: TARGET_SCHEMA,
+        parameters: {
+          type: "object",
+          properties: {
+            format: { type: "string", enum: AGENT_EXPORT_FORMATS },
+          },
+          required: ["format"],
+        },
+      },
+      required: ["parameters"],
+    },
+  },
+  {
+    name: AGENT_TOOL_NAMES.compare,
+    description:
+      "Compare two chains by sequence alignment, optionally superposing them when they are in different structures.",
+    parameters: {
+      type: "object",
+      properties: {
+        target: TARGET_SCHEMA,
+        parameters: {
+          type: "object",
+          properties: {
+            reference: TARGET_SCHEMA,
+            superpose: { type: "boolean" },
+          },
+          required: ["reference"],
+        },
+      },
+      required: ["target", "parameters"],
+    },
+  },
+];
+
+/**
+ * Turn a tool call into an (unvalidated) agent action
+ */
+export function toolCallToAgentAction(call: LlmToolCall): unknown {
+  const type = (Object.keys(AGENT_TOOL_NAMES) as AgentActionType[]).find(
+    (actionType) => AGENT_TOOL_NAMES[actionType] === call.name,
+  );
+  const args =
+    typeof call.arguments === "object" && call.arguments !== null
+      ? call.arguments
+      : {};
+
+  // Unknown tools keep their name so validation reports it
+  return { ...args, type: type ?? call.name };
+}
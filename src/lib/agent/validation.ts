@@ -0,0 +1,398 @@
+/**
+ * Agent Action Validation
+ *
+ * Runtime checks for actions arriving as untyped JSON, e.g. from a language
+ * model's tool call. Every problem is reported with the path of the field,
+ * and valid actions are returned normalised (regions expanded to chain and
+ * residue range, ids in canonical case).
+ */
+
+import { normalizeUniProtAccession } from "../molstar/alphafold";
+import type {
+  AgentAction,
+  AgentActionTarget,
+  AgentActionType,
+  AgentAnalysis,
+  AgentExportFormat,
+  AgentValidationError,
+  AgentValidationResult,
+} from "@/types/agent";
+
+export const AGENT_ACTION_TYPES: readonly AgentActionType[] = [
+  "load",
+  "select",
+  "highlight",
+  "analyze",
+  "export",
+  "compare",
+];
+
+export const AGENT_ANALYSES: readonly AgentAnalysis[] = [
+  "summary",
+  "interactions",
+  "proximity",
+];
+
+export const AGENT_EXPORT_FORMATS: readonly AgentExportFormat[] = ["fasta"];
+
+/** Largest radius accepted for proximity selection and analysis, in Å */
+export const MAX_AGENT_RADIUS = 30;
+
+const PDB_ID_PATTERN = /^[0-9][a-z0-9]{3}$/i;
+const CHAIN_ID_PATTERN = /^[A-Za-z0-9]{1,4}$/;
+const LIGAND_PATTERN = /^[A-Za-z0-9]{1,5}$/;
+const REGION_PATTERN = /^([A-Za-z0-9]{1,4}):(-?\d+)(?:-(-?\d+))?$/;
+
+type Errors = AgentValidationError[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function validateRadius(
+  value: unknown,
+  path: string,
+  errors: Errors,
+): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    errors.push({ path, code: "invalid_type", message: "must be a number" });
+  } else if (value <= 0 || value > MAX_AGENT_RADIUS) {
+    errors.push({
+      path,
+      code: "invalid_value",
+      message: `must be between 0 and ${MAX_AGENT_RADIUS} Å`,
+    });
+  }
+  return value as number;
+}
+
+function validateTarget(
+  value: unknown,
+  path: string,
+  errors: Errors,
+): AgentActionTarget {
+  if (!isRecord(value)) {
+    errors.push({ path, code: "invalid_type", message: "must be an object" });
+    return {};
+  }
+
+  const target: AgentActionTarget = {};
+  const checkString = (
+    key: keyof AgentActionTarget,
+    pattern: RegExp,
+    description: string,
+  ): string | undefined => {
+    const field = value[key];
+    if (field === undefined) return undefined;
+    if (typeof field !== "string" || !pattern.test(field.trim())) {
+      errors.push({
+        path: `${path}.${key}`,
+        code: typeof field === "string" ? "invalid_value" : "invalid_type",
+        message: `must be ${description}`,
+      });
+      return undefined;
+    }
+    return field.trim();
+  };
+
+  const pdbId = checkString("pdbId", PDB_ID_PATTERN, "a PDB ID, e.g. 4hhb");
+  if (pdbId) target.pdbId = pdbId.toLowerCase();
+
+  if (value.accession !== undefined) {
+    const accession =
+      typeof value.accession === "string"
+        ? normalizeUniProtAccession(value.accession)
+        : null;
+    if (accession) {
+      target.accession = accession;
+    } else {
+      errors.push({
+        path: `${path}.accession`,
+        code: "invalid_value",
+        message: "must be a UniProt accession, e.g. P69905",
+      });
+    }
+  }
+
+  const chainId = checkString("chainId", CHAIN_ID_PATTERN, "a chain id");
+  if (chainId) target.chainId = chainId;
+
+  const ligand = checkString("ligand", LIGAND_PATTERN, "a component id");
+  if (ligand) target.ligand = ligand.toUpperCase();
+
+  if (value.residueRange !== undefined) {
+    const range = value.residueRange;
+    if (
+      !Array.isArray(range) ||
+      range.length !== 2 ||
+      !range.every((n) => Number.isInteger(n))
+    ) {
+      errors.push({
+        path: `${path}.residueRange`,
+        code: "invalid_type",
+        message: "must be [start, end] residue numbers",
+      });
+    } else if (range[0] > range[1]) {
+      errors.push({
+        path: `${path}.residueRange`,
+        code: "invalid_value",
+        message: "start must not be after end",
+      });
+    } else if (!target.chainId) {
+      errors.push({
+        path: `${path}.chainId`,
+        code: "required",
+        message: "is required with residueRange",
+      });
+    } else {
+      target.residueRange = [range[0], range[1]];
+    }
+  }
+
+  if (value.region !== undefined) {
+    const match =
+      typeof value.region === "string"
+        ? value.region.trim().match(REGION_PATTERN)
+        : null;
+    if (!match) {
+      errors.push({
+        path: `${path}.region`,
+        code: "invalid_value",
+        message: 'must look like "A:15-40" or "A:45"',
+      });
+    } else if (target.chainId && target.chainId !== match[1]) {
+      errors.push({
+        path: `${path}.region`,
+        code: "invalid_value",
+        message: `is in chain ${match[1]}, not chain ${target.chainId}`,
+      });
+    } else {
+      const start = Number(match[2]);
+      const end = match[3] ? Number(match[3]) : start;
+      target.chainId = match[1];
+      target.residueRange = [Math.min(start, end), Math.max(start, end)];
+    }
+  }
+
+  return target;
+}
+
+/** Targets naming residues: a chain (optionally a range of it) or a ligand */
+function requireResidues(
+  target: AgentActionTarget,
+  path: string,
+  errors: Errors,
+) {
+  if (!target.chainId && !target.ligand) {
+    errors.push({
+      path,
+      code: "required",
+      message: "needs a chainId, residueRange, region or ligand",
+    });
+  }
+}
+
+/**
+ * Check an untyped value against the agent action schemas
+ */
+export function validateAgentAction(input: unknown): AgentValidationResult {
+  const errors: Errors = [];
+
+  if (!isRecord(input)) {
+    return {
+      valid: false,
+      errors: [
+        { path: "", code: "invalid_type", message: "must be an object" },
+      ],
+    };
+  }
+
+  const type = input.type;
+  if (!AGENT_ACTION_TYPES.includes(type as AgentActionType)) {
+    return {
+      valid: false,
+      errors: [
+        {
+          path: "type",
+          code: typeof type === "string" ? "unknown_action" : "required",
+          message: `must be one of ${AGENT_ACTION_TYPES.join(", ")}`,
+        },
+      ],
+    };
+  }
+
+  const parameters = input.parameters;
+  if (parameters !== undefined && !isRecord(parameters)) {
+    errors.push({
+      path: "parameters",
+      code: "invalid_type",
+      message: "must be an object",
+    });
+  }
+  const params = isRecord(parameters) ? parameters : {};
+
+  const targetRequired = type !== "analyze" && type !== "export";
+  if (input.target === undefined && targetRequired) {
+    errors.push({ path: "target", code: "required", message: "is required" });
+  }
+  const target =
+    input.target === undefined
+      ? undefined
+      : validateTarget(input.target, "target", errors);
+
+  let action: AgentAction | null = null;
+  switch (type as AgentActionType) {
+    case "load": {
+      const loadTarget = target ?? {};
+      if (!loadTarget.pdbId === !loadTarget.accession && !errors.length) {
+        errors.push({
+          path: "target",
+          code: loadTarget.pdbId ? "invalid_value" : "required",
+          message: "needs exactly one of pdbId or accession",
+        });
+      }
+      action = { type: "load", target: loadTarget };
+      break;
+    }
+
+    case "select": {
+      const selectTarget = target ?? {};
+      if (target) requireResidues(selectTarget, "target", errors);
+      const radius = validateRadius(params.radius, "parameters.radius", errors);
+      action = {
+        type: "select",
+        target: selectTarget,
+        ...(radius !== undefined && { parameters: { radius } }),
+      };
+      break;
+    }
+
+    case "highlight": {
+      const highlightTarget = target ?? {};
+      if (target) requireResidues(highlightTarget, "target", errors);
+      if (params.focus !== undefined && typeof params.focus !== "boolean") {
+        errors.push({
+          path: "parameters.focus",
+          code: "invalid_type",
+          message: "must be a boolean",
+        });
+      }
+      action = {
+        type: "highlight",
+        target: highlightTarget,
+        parameters: { focus: params.focus === true },
+      };
+      break;
+    }
+
+    case "analyze": {
+      const analysis = params.analysis as AgentAnalysis;
+      if (!AGENT_ANALYSES.includes(analysis)) {
+        errors.push({
+          path: "parameters.analysis",
+          code: params.analysis === undefined ? "required" : "invalid_value",
+          message: `must be one of ${AGENT_ANALYSES.join(", ")}`,
+        });
+      } else if (analysis !== "summary") {
+        if (!target) {
+          errors.push({
+            path: "target",
+            code: "required",
+            message: `is required for ${analysis}`,
+          });
+        } else {
+          requireResidues(target, "target", errors);
+        }
+      }
+      const radius = validateRadius(params.radius, "parameters.radius", errors);
+      action = {
+        type: "analyze",
+        ...(target && { target }),
+        parameters: {
+          analysis,
+          ...(radius !== undefined && { radius }),
+        },
+      };
+      break;
+    }
+
+    case "export": {
+      const format = params.format as AgentExportFormat;
+      if (!AGENT_EXPORT_FORMATS.includes(format)) {
+        errors.push({
+          path: "parameters.format",
+          code: params.format === undefined ? "required" : "invalid_value",
+          message: `must be one of ${AGENT_EXPORT_FORMATS.join(", ")}`,
+        });
+      }
+      action = {
+        type: "export",
+        ...(target && { target }),
+        parameters: { format },
+      };
+      break;
+    }
+
+    case "compare": {
+      const compareTarget = target ?? {};
+      if (target && !target.chainId) {
+        errors.push({
+          path: "target.chainId",
+          code: "required",
+          message: "is required",
+        });
+      }
+
+      let reference: AgentActionTarget = {};
+      if (params.reference === undefined) {
+        errors.push({
+          path: "parameters.reference",
+          code: "required",
+          message: "is required",
+        });
+      } else {
+        reference = validateTarget(
+          params.reference,
+          "parameters.reference",
+          errors,
+        );
+        if (isRecord(params.reference) && !reference.chainId) {
+          errors.push({
+            path: "parameters.reference.chainId",
+            code: "required",
+            message: "is required",
+          });
+        }
+      }
+      if (
+        params.superpose !== undefined &&
+        typeof params.superpose !== "boolean"
+      ) {
+        errors.push({
+          path: "parameters.superpose",
+          code: "invalid_type",
+          message: "must be a boolean",
+        });
+      }
+      action = {
+        type: "compare",
+        target: compareTarget,
+        parameters: { reference, superpose: params.superpose === true },
+      };
+      break;
+    }
+  }
+
+  return errors.length > 0 || !action
+    ? { valid: false, errors }
+    : { valid: true, action };
+}
+
+/**
+ * One line per validation error, e.g. for a chat reply or a model retry
+ */
+export function formatValidationErrors(errors: AgentValidationError[]): string {
+  return errors
+    .map(({ path, message }) => (path ? `${path} ${message}` : message))
+    .join("\n");
+}
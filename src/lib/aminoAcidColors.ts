@@ -3,6 +3,8 @@
  * Based on chemical properties and visual clarity
  */
 
+import type { SecondaryStructureType } from "@/types/sequence";
+
 // Standard amino acid codes
 export const AMINO_ACIDS = [
   "A",
@@ -67,6 +69,18 @@ export const RESIDUE_NAMES: Record<string, string> = {
   "*": "Stop",
 };
 
+// Nucleotide names for DNA and RNA chains, whose one-letter codes overlap
+// with amino acids
+export const NUCLEOTIDE_NAMES: Record<string, string> = {
+  A: "Adenine",
+  C: "Cytosine",
+  G: "Guanine",
+  T: "Thymine",
+  U: "Uracil",
+  I: "Inosine",
+  N: "Unknown nucleotide",
+};
+
 // Color scheme definitions
 export interface ColorScheme {
   id: string;
@@ -75,6 +89,61 @@ export interface ColorScheme {
   colors: Record<string, string>;
   darkColors?: Record<string, string>; // Optional dark mode colors
   groups?: Record<string, string[]>;
+  /** Colour from a per-residue score instead of the residue type */
+  valueColor?: (value: number) => string;
+  /** Colour from the secondary structure instead of the residue type */
+  secondaryStructureColors?: Record<SecondaryStructureType, string>;
+  /** Colours for DNA and RNA chains; neutral grey when absent */
+  nucleotideColors?: Record<string, string>;
+}
+
+// Base colours for DNA and RNA chains
+export const NUCLEOTIDE_COLORS: Record<string, string> = {
+  A: "#3F9F5F",
+  C: "#3B76C4",
+  G: "#D99A22",
+  T: "#C8453D",
+  U: "#C8453D",
+};
+
+// Purines (A, G, I) and pyrimidines (C, T, U)
+export const PURINE_PYRIMIDINE_COLORS: Record<string, string> = {
+  A: "#5C8DC5",
+  G: "#5C8DC5",
+  I: "#5C8DC5",
+  C: "#AD9E90",
+  T: "#AD9E90",
+  U: "#AD9E90",
+};
+
+// Helix, strand and coil colours for the grid and the sequence track
+export const SECONDARY_STRUCTURE_COLORS: Record<
+  SecondaryStructureType,
+  string
+> = {
+  helix: "#A02560",
+  sheet: "#B7791F",
+  loop: "#BBBDBC",
+};
+
+// Conservation grades from variable (0) to conserved (1), ConSurf-like
+export const CONSERVATION_GRADES = [
+  "#0E7490",
+  "#0891B2",
+  "#3AA6B9",
+  "#86B4BA",
+  "#BBBDBC",
+  "#C597AC",
+  "#B8739A",
+  "#A94C80",
+  "#A02560",
+] as const;
+
+export function getConservationColor(score: number): string {
+  const grade = Math.floor(
+    Math.min(1, Math.max(0, score)) * CONSERVATION_GRADES.length,
+  );
+  return CONSERVATION_GRADES[Math.min(grade, CONSERVATION_GRADES.length - 1)];
 }
 
 // Enhanced color schemes with modern, neutral palette
@@ -312,6 +381,134 @@ export const COLOR_SCHEMES: Record<string, ColorScheme> = {
       "*": "#000000",
     },
   },
+
+  conservation: {
+    id: "conservation",
+    name: "Conservation",
+    description: "Per-residue conservation from an imported alignment",
+    // Residues without a score keep the neutral colours
+    colors: {
+      A: "#E4E4E7",
+      C: "#E4E4E7",
+      D: "#E4E4E7",
+      E: "#E4E4E7",
+      F: "#E4E4E7",
+      G: "#E4E4E7",
+      H: "#E4E4E7",
+      I: "#E4E4E7",
+      K: "#E4E4E7",
+      L: "#E4E4E7",
+      M: "#E4E4E7",
+      N: "#E4E4E7",
+      P: "#E4E4E7",
+      Q: "#E4E4E7",
+      R: "#E4E4E7",
+      S: "#E4E4E7",
+      T: "#E4E4E7",
+      V: "#E4E4E7",
+      W: "#E4E4E7",
+      Y: "#E4E4E7",
+      "-": "#F2F0EF",
+      "*": "#F2F0EF",
+    },
+    valueColor: getConservationColor,
+  },
+
+  "secondary-structure": {
+    id: "secondary-structure",
+    name: "Secondary Structure",
+    description: "Helix, strand and coil from the 3D model",
+    // Residues without coordinates have no assignment
+    colors: {
+      A: "#E4E4E7",
+      C: "#E4E4E7",
+      D: "#E4E4E7",
+      E: "#E4E4E7",
+      F: "#E4E4E7",
+      G: "#E4E4E7",
+      H: "#E4E4E7",
+      I: "#E4E4E7",
+      K: "#E4E4E7",
+      L: "#E4E4E7",
+      M: "#E4E4E7",
+      N: "#E4E4E7",
+      P: "#E4E4E7",
+      Q: "#E4E4E7",
+      R: "#E4E4E7",
+      S: "#E4E4E7",
+      T: "#E4E4E7",
+      V: "#E4E4E7",
+      W: "#E4E4E7",
+      Y: "#E4E4E7",
+      "-": "#F2F0EF",
+      "*": "#F2F0EF",
+    },
+    secondaryStructureColors: SECONDARY_STRUCTURE_COLORS,
+  },
+
+  nucleotide: {
+    id: "nucleotide",
+    name: "Nucleotide",
+    description: "A, C, G and T/U bases of DNA and RNA chains",
+    // Protein chains stay neutral
+    colors: {
+      A: "#E4E4E7",
+      C: "#E4E4E7",
+      D: "#E4E4E7",
+      E: "#E4E4E7",
+      F: "#E4E4E7",
+      G: "#E4E4E7",
+      H: "#E4E4E7",
+      I: "#E4E4E7",
+      K: "#E4E4E7",
+      L: "#E4E4E7",
+      M: "#E4E4E7",
+      N: "#E4E4E7",
+      P: "#E4E4E7",
+      Q: "#E4E4E7",
+      R: "#E4E4E7",
+      S: "#E4E4E7",
+      T: "#E4E4E7",
+      V: "#E4E4E7",
+      W: "#E4E4E7",
+      Y: "#E4E4E7",
+      "-": "#F2F0EF",
+      "*": "#F2F0EF",
+    },
+    nucleotideColors: NUCLEOTIDE_COLORS,
+  },
+
+  "purine-pyrimidine": {
+    id: "purine-pyrimidine",
+    name: "Purine / Pyrimidine",
+    description: "Purine and pyrimidine bases of DNA and RNA chains",
+    // Protein chains stay neutral
+    colors: {
+      A: "#E4E4E7",
+      C: "#E4E4E7",
+      D: "#E4E4E7",
+      E: "#E4E4E7",
+      F: "#E4E4E7",
+      G: "#E4E4E7",
+      H: "#E4E4E7",
+      I: "#E4E4E7",
+      K: "#E4E4E7",
+      L: "#E4E4E7",
+      M: "#E4E4E7",
+      N: "#E4E4E7",
+      P: "#E4E4E7",
+      Q: "#E4E4E7",
+      R: "#E4E4E7",
+      S: "#E4E4E7",
+      T: "#E4E4E7",
+      V: "#E4E4E7",
+      W: "#E4E4E7",
+      Y: "#E4E4E7",
+      "-": "#F2F0EF",
+      "*": "#F2F0EF",
+    },
+    nucleotideColors: PURINE_PYRIMIDINE_COLORS,
+  },
 };
 
 // Utility functions
@@ -328,10 +525,21 @@ export function getResidueColor(
   residue: string,
   schemeId: string = "default",
   isDarkMode: boolean = false,
+  value?: number,
+  secondaryStructure?: SecondaryStructureType,
 ): string {
   const scheme = COLOR_SCHEMES[schemeId];
   if (!scheme) return "#f3f4f6";
 
+  // Score-based schemes, e.g. conservation
+  if (scheme.valueColor && value !== undefined) {
+    return scheme.valueColor(value);
+  }
+
+  if (scheme.secondaryStructureColors && secondaryStructure) {
+    return scheme.secondaryStructureColors[secondaryStructure];
+  }
+
   // Use dark colors if available and in dark mode
   if (isDarkMode && scheme.darkColors) {
     return scheme.darkColors[residue] || scheme.colors[residue] || "#f3f4f6";
@@ -340,6 +548,22 @@ export function getResidueColor(
   return scheme.colors[residue] || "#f3f4f6";
 }
 
+/**
+ * Colour of a DNA or RNA residue; amino acid colours do not apply, as the
+ * one-letter codes mean different residues
+ */
+export function getNucleotideColor(
+  nucleotide: string,
+  schemeId: string = "default",
+  value?: number,
+): string {
+  const scheme = COLOR_SCHEMES[schemeId];
+  if (scheme?.valueColor && value !== undefined) {
+    return scheme.valueColor(value);
+  }
+  return scheme?.nucleotideColors?.[nucleotide] ?? "#BBBDBC";
+}
+
 export function getResidueInfo(residue: string) {
   return {
     code: residue,
@@ -348,6 +572,13 @@ export function getResidueInfo(residue: string) {
   };
 }
 
+export function getNucleotideInfo(nucleotide: string) {
+  return {
+    code: nucleotide,
+    name: NUCLEOTIDE_NAMES[nucleotide] || "Unknown",
+  };
+}
+
 // Export color scheme options for UI
 export const COLOR_SCHEME_OPTIONS = Object.values(COLOR_SCHEMES).map(
   (scheme) => ({
@@ -0,0 +1,36 @@
+/**
+ * Chat API Client
+ *
+ * Browser side of the chat API route: posts the conversation, with the
+ * serialised viewer state when given, and yields the streamed events as they
+ * arrive.
+ */
+
+import { readLines } from "./sse";
+import type { LlmMessage, LlmStreamEvent } from "@/types/llm";
+
+export const CHAT_API_ROUTE = "/api/chat";
+
+/**
+ * Stream the model's reply to a conversation
+ */
+export async function* streamChat(
+  messages: LlmMessage[],
+  { context, signal }: { context?: string; signal?: AbortSignal } = {},
+): AsyncGenerator<LlmStreamEvent> {
+  const response = await fetch(CHAT_API_ROUTE, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ messages, context }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const detail = await response.text().catch(() => "");
+    throw new Error(detail || `Chat request failed (${response.status})`);
+  }
+
+  for await (const line of readLines(response.body)) {
+    if (line.trim()) yield JSON.parse(line) as LlmStreamEvent;
+  }
+}
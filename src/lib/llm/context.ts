@@ -0,0 +1,134 @@
+/**
+ * Viewer Context
+ *
+ * Captures what the workspace viewer shows (the active structure and its
+ * entry metadata, representation, visible chains, removed components and the
+ * sequence selection) and writes it as a compact text block for the model,
+ * within a character budget.
+ */
+
+import { getStructureSequenceData } from "@/lib/molstar/structureSequence";
+import type { molstarWrapper } from "@/lib/molstar/MolstarWrapper";
+import type { SelectionRegion } from "@/types/sequence";
+import type { ViewerContext } from "@/types/llm";
+
+/** Residues of a selected region quoted before its sequence is cut short */
+const SEQUENCE_PREVIEW_LENGTH = 60;
+
+/** Room kept for the note on selection regions left out */
+const OMITTED_NOTE_LENGTH = 24;
+
+const metadataText = (value: unknown): string | undefined =>
+  (typeof value === "string" || typeof value === "number") && value !== ""
+    ? String(value)
+    : undefined;
+
+/**
+ * Snapshot of the active structure's view, or null when nothing is loaded
+ */
+export async function captureViewerContext(
+  wrapper: molstarWrapper | null,
+  selection: SelectionRegion[],
+): Promise<ViewerContext | null> {
+  const structureRef = wrapper?.getActiveStructureRef();
+  const viewState = structureRef ? wrapper!.getViewState(structureRef) : null;
+  if (!wrapper?.plugin || !structureRef || !viewState) return null;
+
+  const structures = wrapper.getStructures();
+  const label =
+    structures.find((structure) => structure.ref === structureRef)?.label ??
+    structureRef;
+
+  // Metadata is cached with the sequence data; without it only the label is sent
+  const sequenceData = await getStructureSequenceData(
+    wrapper.plugin,
+    label,
+    structureRef,
+  ).catch(() => null);
+  const metadata = sequenceData?.metadata ?? {};
+  const title =
+    sequenceData?.name && sequenceData.name !== sequenceData.id
+      ? sequenceData.name
+      : undefined;
+
+  return {
+    structure: label.toUpperCase(),
+    title,
+    method: metadataText(metadata.method),
+    resolution: metadataText(metadata.resolution),
+    organism: metadataText(metadata.organism),
+    otherStructures: structures
+      .filter((structure) => structure.ref !== structureRef)
+      .map((structure) => structure.label.toUpperCase()),
+    representation: viewState.representation,
+    visibleChains: viewState.visibleChains,
+    hiddenChains: viewState.hiddenChains,
+    removedComponents: viewState.removedComponents,
+    selection: selection.map(({ chainId, start, end, sequence }) => ({
+      chainId,
+      start,
+      end,
+      sequence,
+    })),
+  };
+}
+
+/**
+ * Text block describing the viewer for the model. Selection regions that do
+ * not fit the budget are left out from the end, and anything still over it
+ * is cut.
+ */
+export function serializeViewerContext(
+  context: ViewerContext,
+  maxChars: number,
+): string {
+  if (maxChars <= 0) return "";
+
+  const list = (items: string[]) => (items.length ? items.join(", ") : "none");
+  const details = [
+    context.method,
+    context.resolution && `${context.resolution} Å`,
+    context.organism,
+  ].filter(Boolean);
+
+  const lines = [
+    "Current viewer state:",
+    `Structure: ${context.structure}` +
+      (context.title ? ` — ${context.title}` : "") +
+      (details.length ? ` (${details.join(", ")})` : ""),
+  ];
+  if (context.otherStructures.length) {
+    lines.push(`Also in the scene: ${list(context.otherStructures)}`);
+  }
+  if (context.representation) {
+    lines.push(`Representation: ${context.representation}`);
+  }
+  lines.push(`Visible chains: ${list(context.visibleChains)}`);
+  if (context.hiddenChains.length) {
+    lines.push(`Hidden chains: ${list(context.hiddenChains)}`);
+  }
+  if (context.removedComponents.length) {
+    lines.push(`Removed: ${list(context.removedComponents)}`);
+  }
+  if (context.selection.length) {
+    lines.push(`Selected residues (${context.selection.length} regions):`);
+  }
+
+  let text = lines.join("\n");
+  let included = 0;
+  for (const { chainId, start, end, sequence } of context.selection) {
+    const preview =
+      sequence.length > SEQUENCE_PREVIEW_LENGTH
+        ? `${sequence.slice(0, SEQUENCE_PREVIEW_LENGTH)}…`
+        : sequence;
+    const line = `- ${chainId}:${start}-${end}${preview ? ` ${preview}` : ""}`;
+    if (text.length + line.length + 1 + OMITTED_NOTE_LENGTH > maxChars) break;
+    text += `\n${line}`;
+    included += 1;
+  }
+  if (included < context.selection.length) {
+    text += `\n- … ${context.selection.length - included} more`;
+  }
+
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+}
@@ -0,0 +1,34 @@
+/**
+ * LLM Module
+ *
+ * Chat model providers behind one streaming interface, used by the chat API
+ * route. Which provider is used, and where it points, comes from
+ * AppConfig.llm. Browser code talks to the route through ./client.
+ */
+
+import { createAnthropicProvider } from "./providers/anthropic";
+import { createMockProvider } from "./providers/mock";
+import { createOpenAIProvider } from "./providers/openai";
+import type { LlmConfig, LlmProvider } from "@/types/llm";
+
+/**
+ * Create the provider described by the config
+ */
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  if (config.provider !== "mock" && !config.model) {
+    throw new Error(`LLM model is not configured for ${config.provider}`);
+  }
+
+  switch (config.provider) {
+    case "openai":
+      return createOpenAIProvider(config);
+    case "anthropic":
+      return createAnthropicProvider(config);
+    case "mock":
+      return createMockProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${config.provider}`);
+  }
+}
+
+export { SYSTEM_PROMPT } from "./prompt";
@@ -0,0 +1,125 @@
+/**
+ * Anthropic-compatible Provider
+ *
+ * Streams the Messages API. Text arrives as text deltas; a tool use block
+ * streams its input as partial JSON and is emitted when the block stops.
+ */
+
+import { readServerSentEvents } from "../sse";
+import { parseToolArguments, throwForStatus } from "./http";
+import type {
+  LlmConfig,
+  LlmProvider,
+  LlmRequest,
+  LlmStreamEvent,
+} from "@/types/llm";
+
+const DEFAULT_BASE_URL = "https://api.anthropic.com/v1";
+const API_VERSION = "2023-06-01";
+
+type MessagesStreamEvent =
+  | {
+      type: "content_block_start";
+      index: number;
+      content_block: { type: string; id?: string; name?: string };
+    }
+  | {
+      type: "content_block_delta";
+      index: number;
+      delta:
+        | { type: "text_delta"; text: string }
+        | { type: "input_json_delta"; partial_json: string };
+    }
+  | { type: "content_block_stop"; index: number }
+  | { type: "error"; error: { type: string; message: string } }
+  | { type: "message_start" | "message_delta" | "message_stop" | "ping" };
+
+export function createAnthropicProvider(config: LlmConfig): LlmProvider {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+
+  return {
+    kind: "anthropic",
+
+    async *stream(request: LlmRequest): AsyncGenerator<LlmStreamEvent> {
+      const response = await fetch(`${baseUrl}/messages`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "anthropic-version": API_VERSION,
+          ...(config.apiKey && { "x-api-key": config.apiKey }),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          stream: true,
+          max_tokens: config.maxTokens,
+          temperature: config.temperature,
+          system: request.system,
+          messages: request.messages,
+          ...(request.tools.length > 0 && {
+            tools: request.tools.map(({ name, description, parameters }) => ({
+              name,
+              description,
+              input_schema: parameters,
+            })),
+          }),
+        }),
+        signal: request.signal,
+      });
+      await throwForStatus(response, "Anthropic-compatible API");
+
+      // Open tool use blocks by content index
+      const toolUses = new Map<
+        number,
+        { id: string; name: string; input: string }
+      >();
+
+      for await (const { data } of readServerSentEvents(response.body!)) {
+        const event = JSON.parse(data) as MessagesStreamEvent;
+
+        switch (event.type) {
+          case "content_block_start":
+            if (event.content_block.type === "tool_use") {
+              toolUses.set(event.index, {
+                id: event.content_block.id ?? "",
+                name: event.content_block.name ?? "",
+                input: "",
+              });
+            }
+            break;
+
+          case "content_block_delta":
+            if (event.delta.type === "text_delta") {
+              yield { type: "text", text: event.delta.text };
+            } else if (event.delta.type === "input_json_delta") {
+              const toolUse = toolUses.get(event.index);
+              if (toolUse) toolUse.input += event.delta.partial_json;
+            }
+            break;
+
+          case "content_block_stop": {
+            const toolUse = toolUses.get(event.index);
+            if (toolUse) {
+              toolUses.delete(event.index);
+              yield {
+                type: "tool-call",
+                call: {
+                  id: toolUse.id,
+                  name: toolUse.name,
+                  arguments: parseToolArguments(toolUse.input),
+                },
+              };
+            }
+            break;
+          }
+
+          case "error":
+            throw new Error(
+              `Anthropic-compatible API error: ${event.error.message}`,
+            );
+        }
+      }
+
+      yield { type: "done" };
+    },
+  };
+}
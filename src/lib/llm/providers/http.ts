@@ -0,0 +1,30 @@
+/**
+ * Shared HTTP helpers for the model API providers
+ */
+
+/**
+ * Throw with the status and the start of the body for a failed request
+ */
+export async function throwForStatus(
+  response: Response,
+  service: string,
+): Promise<void> {
+  if (response.ok && response.body) return;
+
+  const detail = await response.text().catch(() => "");
+  throw new Error(
+    `${service} request failed (${response.status})${detail ? `: ${detail.slice(0, 300)}` : ""}`,
+  );
+}
+
+/**
+ * Parse streamed tool call arguments, keeping the raw string if they are not JSON
+ */
+export function parseToolArguments(raw: string): unknown {
+  if (!raw.trim()) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
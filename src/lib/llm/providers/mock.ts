@@ -0,0 +1,103 @@
+/**
+ * Mock Provider
+ *
+ * Deterministic in-process stand-in for a model, for development without an
+ * API key and for tests. A few phrasings of the latest user message become
+ * tool calls; anything else gets a short text reply streamed word by word.
+ */
+
+import { AGENT_TOOL_NAMES } from "@/lib/agent/tools";
+import type {
+  LlmProvider,
+  LlmRequest,
+  LlmStreamEvent,
+  LlmToolCall,
+} from "@/types/llm";
+
+const FALLBACK_REPLY =
+  "I'm the offline mock model, so I only understand a few requests: " +
+  '"summarize the structure", "compare chain A with chain B", ' +
+  '"export chain A as FASTA" and "show interactions of HEM". ' +
+  "Set LLM_PROVIDER to openai or anthropic to chat with a real model.";
+
+/**
+ * The tool call a message maps to, if any
+ */
+function matchToolCall(text: string): Omit<LlmToolCall, "id"> | null {
+  const compare = text.match(
+    /compare chain\s+(\w+)\s+(?:with|to|and)\s+chain\s+(\w+)/i,
+  );
+  if (compare) {
+    return {
+      name: AGENT_TOOL_NAMES.compare,
+      arguments: {
+        target: { chainId: compare[1] },
+        parameters: { reference: { chainId: compare[2] } },
+      },
+    };
+  }
+
+  if (/\bfasta\b/i.test(text)) {
+    const chain = text.match(/chain\s+(\w+)/i);
+    return {
+      name: AGENT_TOOL_NAMES.export,
+      arguments: {
+        ...(chain && { target: { chainId: chain[1] } }),
+        parameters: { format: "fasta" },
+      },
+    };
+  }
+
+  const interactions = text.match(
+    /interactions?\s+(?:of|for|around)\s+(?:ligand\s+)?([A-Za-z0-9]{1,5})\b/i,
+  );
+  if (interactions) {
+    return {
+      name: AGENT_TOOL_NAMES.analyze,
+      arguments: {
+        target: { ligand: interactions[1] },
+        parameters: { analysis: "interactions" },
+      },
+    };
+  }
+
+  if (/\b(summar(y|ise|ize)|overview|describe)\b/i.test(text)) {
+    return {
+      name: AGENT_TOOL_NAMES.analyze,
+      arguments: { parameters: { analysis: "summary" } },
+    };
+  }
+
+  return null;
+}
+
+export function createMockProvider(): LlmProvider {
+  let callCount = 0;
+
+  return {
+    kind: "mock",
+
+    async *stream(request: LlmRequest): AsyncGenerator<LlmStreamEvent> {
+      const lastUser = [...request.messages]
+        .reverse()
+        .find((message) => message.role === "user");
+      const toolCall = lastUser ? matchToolCall(lastUser.content) : null;
+
+      if (toolCall) {
+        callCount += 1;
+        yield { type: "text", text: "On it.\n" };
+        yield {
+          type: "tool-call",
+          call: { id: `mock-call-${callCount}`, ...toolCall },
+        };
+      } else {
+        for (const word of FALLBACK_REPLY.split(/(?<= )/)) {
+          if (request.signal?.aborted) return;
+          yield { type: "text", text: word };
+        }
+      }
+
+      yield { type: "done" };
+    },
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * OpenAI-compatible Provider
+ *
+ * Streams the Chat Completions API, which self-hosted servers such as
+ * vLLM, llama.cpp and Ollama also implement. Tool call arguments arrive in
+ * fragments and are emitted once the model finishes.
+ */
+
+import { readServerSentEvents } from "../sse";
+import { parseToolArguments, throwForStatus } from "./http";
+import type {
+  LlmConfig,
+  LlmProvider,
+  LlmRequest,
+  LlmStreamEvent,
+  LlmToolCall,
+} from "@/types/llm";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+}
+
+interface PendingToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export function createOpenAIProvider(config: LlmConfig): LlmProvider {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+
+  return {
+    kind: "openai",
+
+    async *stream(request: LlmRequest): AsyncGenerator<LlmStreamEvent> {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: config.model,
+          stream: true,
+          max_tokens: config.maxTokens,
+          temperature: config.temperature,
+          messages: [
+            { role: "system", content: request.system },
+            ...request.messages,
+          ],
+          ...(request.tools.length > 0 && {
+            tools: request.tools.map((tool) => ({
+              type: "function",
+              function: tool,
+            })),
+          }),
+        }),
+        signal: request.signal,
+      });
+      await throwForStatus(response, "OpenAI-compatible API");
+
+      // Tool calls are keyed by index; only the first fragment has id and name
+      const pending = new Map<number, PendingToolCall>();
+      const flush = function* (): Generator<LlmStreamEvent> {
+        for (const call of pending.values()) {
+          const toolCall: LlmToolCall = {
+            id: call.id,
+            name: call.name,
+            arguments: parseToolArguments(call.arguments),
+          };
+          yield { type: "tool-call", call: toolCall };
+        }
+        pending.clear();
+      };
+
+      for await (const { data } of readServerSentEvents(response.body!)) {
+        if (data === "[DONE]") break;
+
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        for (const choice of chunk.choices ?? []) {
+          if (choice.delta?.content) {
+            yield { type: "text", text: choice.delta.content };
+          }
+
+          for (const fragment of choice.delta?.tool_calls ?? []) {
+            const call = pending.get(fragment.index) ?? {
+              id: "",
+              name: "",
+              arguments: "",
+            };
+            call.id = fragment.id ?? call.id;
+            call.name += fragment.function?.name ?? "";
+            call.arguments += fragment.function?.arguments ?? "";
+            pending.set(fragment.index, call);
+          }
+
+          if (choice.finish_reason) yield* flush();
+        }
+      }
+
+      yield* flush();
+      yield { type: "done" };
+    },
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Server-Sent Events
+ *
+ * Minimal reader for the `text/event-stream` bodies that streaming model
+ * APIs return. Yields each event's name and data; comments and retry
+ * fields are ignored.
+ */
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Split a stream body into lines, yielding the last line once it ends
+ */
+export async function* readLines(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline = buffer.indexOf("\n");
+      while (newline >= 0) {
+        yield buffer.slice(0, newline).replace(/\r$/, "");
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf("\n");
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parse a `text/event-stream` body into events
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<ServerSentEvent> {
+  let event: string | undefined;
+  let data: string[] = [];
+
+  for await (const line of readLines(body)) {
+    if (line === "") {
+      if (data.length) yield { event, data: data.join("\n") };
+      event = undefined;
+      data = [];
+      continue;
+    }
+
+    const colon = line.indexOf(":");
+    if (colon === 0) continue;
+    const field = colon < 0 ? line : line.slice(0, colon);
+    const value = colon < 0 ? "" : line.slice(colon + 1).replace(/^ /, "");
+
+    if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+  }
+
+  if (data.length) yield { event, data: data.join("\n") };
+}
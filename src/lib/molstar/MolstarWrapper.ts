@@ -1,18 +1,105 @@
 import { createPluginUI } from "molstar/lib/mol-plugin-ui";
 import { renderReact18 } from "molstar/lib/mol-plugin-ui/react18";
 import { DefaultPluginUISpec } from "molstar/lib/mol-plugin-ui/spec";
+import { PluginSpec } from "molstar/lib/mol-plugin/spec";
+import { MAQualityAssessment } from "molstar/lib/extensions/model-archive/quality-assessment/behavior";
 import { PluginCommands } from "molstar/lib/mol-plugin/commands";
 import { Color } from "molstar/lib/mol-util/color";
 import { Asset } from "molstar/lib/mol-util/assets";
 import { Script } from "molstar/lib/mol-script/script";
-import { StructureSelection } from "molstar/lib/mol-model/structure";
+import { MolScriptBuilder as MS } from "molstar/lib/mol-script/language/builder";
+import { Structure, StructureSelection } from "molstar/lib/mol-model/structure";
 import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import type { PluginState } from "molstar/lib/mol-plugin/state";
+import type { Camera } from "molstar/lib/mol-canvas3d/camera";
+import type { BuiltInTrajectoryFormat } from "molstar/lib/mol-plugin-state/formats/trajectory";
+import type { StructureRef } from "molstar/lib/mol-plugin-state/manager/structure/hierarchy-state";
+import type {
+  ComponentType,
+  Measurement,
+  MeasurementKind,
+  MeasurementPoint,
+  SceneStructure,
+  StructureInteraction,
+  StructureResidue,
+  StructureSource,
+  StructureViewState,
+  SuperpositionResult,
+  SuperpositionTarget,
+  ViewHistoryState,
+} from "@/types/molstar";
+import type { SelectionRegion } from "@/types/sequence";
+import {
+  detectStructureFormat,
+  getStructureFileBaseName,
+} from "./structureFormats";
+import { getAlphaFoldModelUrl, PLDDT_COLOR_THEME } from "./alphafold";
+import { getStructureSourceKey } from "./structureSource";
+import { findStructureRef } from "./sceneStructures";
+import {
+  getCalphaChainIds,
+  resetSuperposition,
+  superposeStructures,
+} from "./superposition";
+import {
+  applyConservationColoring,
+  clearConservationColoring,
+} from "./conservationTheme";
+import {
+  addMeasurement,
+  getLabelResidueMeasurementPoint,
+  getMeasurementPointFromLoci,
+  getResidueMeasurementPoint,
+  removeMeasurement,
+  setMeasurementLabel,
+  type MeasurementCells,
+} from "./measurements";
+import {
+  clearInteractions,
+  computeInteractions,
+  getInteractionLoci,
+  getLigandResidues,
+  isInteractionsComponent,
+  showInteractions,
+} from "./interactions";
+import {
+  getResiduesWithinRadius,
+  type ProximityOptions,
+  type ProximitySource,
+} from "./proximity";
+import { buildResidueRangeLoci, type ResidueRange } from "./highlighting";
+import { getStructureViewState } from "./viewState";
+import {
+  captureScene,
+  isSameScene,
+  isSameSelection,
+  remapScene,
+  restoreScene,
+  viewHistory,
+  type ViewHistoryEntry,
+} from "./history";
 
 export interface LoadParams {
-  url: string;
-  format?: string;
+  /** Remote URL to download from (ignored when `file` is given) */
+  url?: string;
+  /** Local file to read, e.g. from an upload or drag-and-drop */
+  file?: File;
+  format?: BuiltInTrajectoryFormat;
   isBinary?: boolean;
   assemblyId?: string;
+  /** Global colour theme for the default representations, e.g. pLDDT */
+  colorTheme?: string;
+  /** Name shown in the structure list */
+  label?: string;
+}
+
+interface LoadedStructure {
+  /** Root data node; removing it removes the whole structure subtree */
+  dataRef: string;
+  label: string;
+  source?: StructureSource;
+  sourceKey?: string;
+  params: LoadParams;
 }
 
 export interface ComponentInfo {
@@ -26,7 +113,19 @@ export interface ComponentInfo {
 
 export class molstarWrapper {
   plugin: PluginUIContext | null = null;
-  private currentPdbId?: string;
+  /** Structures added through `load`, keyed by structure ref */
+  private loadedStructures = new Map<string, LoadedStructure>();
+  /** Structure targeted by operations when no ref is passed */
+  private activeStructureRef: string | null = null;
+  /** Mol* cells of the measurements in the scene, keyed by measurement id */
+  private measurementCells = new Map<string, MeasurementCells>();
+  /** Undo and redo of scene operations and selection changes */
+  private history = new viewHistory();
+  /** Sequence selection as last recorded */
+  private selection: SelectionRegion[] = [];
+  /** Operations in progress; nested ones are recorded with the outermost */
+  private operationDepth = 0;
+  private isRestoringHistory = false;
 
   async init(target: string | HTMLElement): Promise<PluginUIContext> {
     this.plugin = await createPluginUI({
@@ -35,6 +134,11 @@ export class molstarWrapper {
       render: renderReact18,
       spec: {
         ...DefaultPluginUISpec(),
+        behaviors: [
+          ...DefaultPluginUISpec().behaviors,
+          // Registers the pLDDT confidence colour theme for predicted models
+          PluginSpec.Behavior(MAQualityAssessment),
+        ],
         layout: {
           initial: {
             isExpanded: false,
@@ -81,29 +185,45 @@ export class molstarWrapper {
     return this.plugin;
   }
 
+  /**
+   * Add a structure to the scene. Structures already loaded are kept; the new
+   * one becomes the active structure. Returns its structure ref.
+   */
   async load({
     url,
+    file,
     format = "mmcif",
     isBinary = false,
     assemblyId = "",
-  }: LoadParams): Promise<void> {
+    colorTheme,
+    label,
+  }: LoadParams): Promise<string> {
     if (!this.plugin) throw new Error("Plugin not initialized");
-
-    await this.plugin.clear();
-
-    const data = await this.plugin.builders.data.download(
-      {
-        url: Asset.Url(url),
-        isBinary,
-      },
-      { state: { isGhost: true } },
-    );
+    if (!url && !file) throw new Error("Either a url or a file is required");
+
+    const data = file
+      ? (
+          await this.plugin.builders.data.readFile(
+            {
+              file: Asset.File(file),
+              isBinary,
+            },
+            { state: { isGhost: true } },
+          )
+        ).data
+      : await this.plugin.builders.data.download(
+          {
+            url: Asset.Url(url!),
+            isBinary,
+          },
+          { state: { isGhost: true } },
+        );
 
     const trajectory = await this.plugin.builders.structure.parseTrajectory(
       data,
-      "mmcif",
+      format,
     );
-    await this.plugin.builders.structure.hierarchy.applyPreset(
+    const preset = await this.plugin.builders.structure.hierarchy.applyPreset(
       trajectory,
       "default",
       {
@@ -118,16 +238,682 @@ export class molstarWrapper {
             },
         showUnitcell: false,
         representationPreset: "auto",
+        representationPresetParams: colorTheme
+          ? { theme: { globalName: colorTheme, focus: { name: colorTheme } } }
+          : undefined,
       },
     );
 
+    const structureRef = preset?.structure?.ref;
+    if (!structureRef) {
+      throw new Error("Failed to create structure");
+    }
+
+    this.loadedStructures.set(structureRef, {
+      dataRef: data.ref,
+      label: label ?? file?.name ?? url!.split("/").pop() ?? structureRef,
+      params: {
+        url,
+        file,
+        format,
+        isBinary,
+        assemblyId,
+        colorTheme,
+        label,
+      },
+    });
+    this.activeStructureRef = structureRef;
     PluginCommands.Camera.Reset(this.plugin, {});
+
+    return structureRef;
   }
 
-  async loadPDB(pdbId: string, assemblyId: string = "1"): Promise<void> {
-    this.currentPdbId = pdbId;
+  async loadPDB(pdbId: string, assemblyId: string = "1"): Promise<string> {
     const url = `https://www.ebi.ac.uk/pdbe/static/entry/${pdbId}_updated.cif`;
-    await this.load({ url, format: "mmcif", isBinary: false, assemblyId });
+    return this.load({
+      url,
+      format: "mmcif",
+      isBinary: false,
+      assemblyId,
+      label: pdbId.toUpperCase(),
+    });
+  }
+
+  /**
+   * Load an AlphaFold DB prediction by UniProt accession, coloured by pLDDT
+   */
+  async loadAlphaFold(accession: string): Promise<string> {
+    return this.load({
+      url: getAlphaFoldModelUrl(accession),
+      format: "mmcif",
+      isBinary: false,
+      colorTheme: PLDDT_COLOR_THEME,
+      label: `AF-${accession}`,
+    });
+  }
+
+  /**
+   * Add a structure from any supported source to the scene
+   */
+  async loadSource(source: StructureSource): Promise<string> {
+    const structureRef = await (() => {
+      switch (source.kind) {
+        case "pdb":
+          return this.loadPDB(source.id, source.assemblyId);
+        case "file":
+          return this.loadFile(source.file);
+        case "alphafold":
+          return this.loadAlphaFold(source.accession);
+      }
+    })();
+
+    const loaded = this.loadedStructures.get(structureRef);
+    if (loaded) {
+      loaded.source = source;
+      loaded.sourceKey = getStructureSourceKey(source);
+    }
+    return structureRef;
+  }
+
+  /**
+   * Load a local structure file (.pdb, .cif, .bcif, optionally gzipped).
+   * The format is detected from the file name; the asymmetric unit is shown.
+   */
+  async loadFile(file: File): Promise<string> {
+    const detected = detectStructureFormat(file.name);
+    if (!detected) {
+      throw new Error(
+        `Unsupported file format: ${file.name}. Use .pdb, .cif or .bcif (optionally .gz)`,
+      );
+    }
+
+    return this.load({
+      file,
+      format: detected.format,
+      isBinary: detected.isBinary,
+      label: getStructureFileBaseName(file.name),
+    });
+  }
+
+  /**
+   * Structures in the scene, in load order
+   */
+  getStructures(): SceneStructure[] {
+    if (!this.plugin) return [];
+
+    return this.plugin.managers.structure.hierarchy.current.structures.map(
+      (structure) => {
+        const ref = structure.cell.transform.ref;
+        const loaded = this.loadedStructures.get(ref);
+        return {
+          ref,
+          label:
+            loaded?.label ??
+            structure.model?.cell.obj?.label ??
+            structure.cell.obj?.label ??
+            ref,
+          isVisible: !structure.cell.state.isHidden,
+          sourceKey: loaded?.sourceKey,
+        };
+      },
+    );
+  }
+
+  /**
+   * Source a scene structure was loaded from, if it came from one
+   */
+  getStructureSource(structureRef: string): StructureSource | null {
+    return this.loadedStructures.get(structureRef)?.source ?? null;
+  }
+
+  /**
+   * Ref of the structure loaded from a source, if it is still in the scene
+   */
+  findStructureBySource(sourceKey: string): string | null {
+    for (const [ref, loaded] of this.loadedStructures) {
+      if (loaded.sourceKey === sourceKey && this.getStructure(ref)) return ref;
+    }
+    return null;
+  }
+
+  getActiveStructureRef(): string | null {
+    return this.getStructure()?.cell.transform.ref ?? null;
+  }
+
+  /**
+   * Choose the structure targeted by operations called without a ref
+   */
+  setActiveStructure(structureRef: string): void {
+    if (this.getStructure(structureRef)) {
+      this.activeStructureRef = structureRef;
+    }
+  }
+
+  async setStructureVisibility(
+    structureRef: string,
+    isVisible: boolean,
+  ): Promise<void> {
+    const structure = this.getStructure(structureRef);
+    if (!this.plugin || !structure) return;
+
+    const label = this.getStructures().find(
+      (s) => s.ref === structure.cell.transform.ref,
+    )?.label;
+    await this.recordOperation(
+      `${isVisible ? "Show" : "Hide"} ${label?.toUpperCase() ?? "structure"}`,
+      async () =>
+        this.plugin?.managers.structure.hierarchy.toggleVisibility(
+          [structure],
+          isVisible ? "show" : "hide",
+        ),
+    );
+  }
+
+  /**
+   * Remove a structure (and the data it was parsed from) from the scene
+   */
+  async removeStructure(structureRef: string): Promise<void> {
+    const structure = this.getStructure(structureRef);
+    if (!this.plugin || !structure) return;
+
+    const loaded = this.loadedStructures.get(structureRef);
+    if (loaded) {
+      await PluginCommands.State.RemoveObject(this.plugin, {
+        state: this.plugin.state.data,
+        ref: loaded.dataRef,
+      });
+    } else {
+      await this.plugin.managers.structure.hierarchy.remove([structure]);
+    }
+
+    this.loadedStructures.delete(structureRef);
+    if (this.activeStructureRef === structureRef) {
+      this.activeStructureRef = null;
+    }
+  }
+
+  /**
+   * Remove every structure from the scene
+   */
+  async clear(): Promise<void> {
+    if (!this.plugin) return;
+
+    await this.plugin.clear();
+    this.loadedStructures.clear();
+    this.measurementCells.clear();
+    this.activeStructureRef = null;
+    this.history.clear();
+    this.selection = [];
+  }
+
+  /**
+   * Run an operation that changes what the scene shows, recording the state
+   * before it so it can be undone. Nothing is recorded if the scene did not
+   * change, and operations run from within another are part of that one.
+   */
+  async recordOperation<T>(
+    label: string,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    if (!this.plugin || this.operationDepth > 0) return operation();
+
+    const before = captureScene(this.plugin);
+    this.operationDepth++;
+    try {
+      return await operation();
+    } finally {
+      this.operationDepth--;
+      if (this.plugin && !isSameScene(before, captureScene(this.plugin))) {
+        this.history.push({ label, scene: before, selection: this.selection });
+      }
+    }
+  }
+
+  /**
+   * Record a change of the sequence selection so it can be undone
+   */
+  recordSelection(regions: SelectionRegion[]): void {
+    if (isSameSelection(regions, this.selection)) return;
+
+    if (this.plugin) {
+      this.history.push({
+        label: regions.length > 0 ? "Select residues" : "Clear selection",
+        scene: captureScene(this.plugin),
+        selection: this.selection,
+      });
+    }
+    this.selection = regions;
+  }
+
+  /**
+   * Revert the last recorded operation or selection change. Resolves to the
+   * selection to show, or null if there was nothing to undo.
+   */
+  async undo(): Promise<SelectionRegion[] | null> {
+    if (!this.plugin || this.isRestoringHistory) return null;
+
+    const entry = this.history.undo({
+      scene: captureScene(this.plugin),
+      selection: this.selection,
+    });
+    return entry ? this.restoreHistoryEntry(entry) : null;
+  }
+
+  /**
+   * Apply the last undone change again; resolves like `undo`
+   */
+  async redo(): Promise<SelectionRegion[] | null> {
+    if (!this.plugin || this.isRestoringHistory) return null;
+
+    const entry = this.history.redo({
+      scene: captureScene(this.plugin),
+      selection: this.selection,
+    });
+    return entry ? this.restoreHistoryEntry(entry) : null;
+  }
+
+  getHistoryState(): ViewHistoryState {
+    return this.history.getState();
+  }
+
+  /**
+   * Subscribe to changes of what can be undone or redone
+   */
+  onHistoryChanged(callback: () => void): () => void {
+    return this.history.subscribe(callback);
+  }
+
+  /**
+   * Forget everything that could be undone or redone, e.g. after opening a
+   * session
+   */
+  clearHistory(): void {
+    this.history.clear();
+  }
+
+  private async restoreHistoryEntry(
+    entry: ViewHistoryEntry,
+  ): Promise<SelectionRegion[]> {
+    this.isRestoringHistory = true;
+    try {
+      if (this.plugin) await restoreScene(this.plugin, entry.scene);
+    } catch (error) {
+      console.error("Error restoring view history:", error);
+    } finally {
+      this.isRestoringHistory = false;
+    }
+    this.selection = entry.selection;
+    return entry.selection;
+  }
+
+  getCameraSnapshot(): Camera.Snapshot | null {
+    return this.plugin?.canvas3d?.camera.getSnapshot() ?? null;
+  }
+
+  setCameraSnapshot(snapshot: Partial<Camera.Snapshot>): void {
+    if (!this.plugin) return;
+    PluginCommands.Camera.SetSnapshot(this.plugin, {
+      snapshot,
+      durationMs: 0,
+    });
+  }
+
+  /**
+   * Mol* plugin state: the state tree, camera and canvas settings
+   */
+  getStateSnapshot(): PluginState.Snapshot | null {
+    return (
+      this.plugin?.state.getSnapshot({
+        data: true,
+        camera: true,
+        canvas3d: true,
+        behavior: false,
+        animation: false,
+        startAnimation: false,
+        structureSelection: false,
+        componentManager: false,
+        interactivity: false,
+        image: false,
+      }) ?? null
+    );
+  }
+
+  /**
+   * Apply a Mol* plugin state saved in another scene to the structures now
+   * loaded from the same sources: their components and representations,
+   * the camera and canvas settings. `structureRefs` maps the saved
+   * structure refs to the current ones.
+   */
+  async restoreStateSnapshot(
+    snapshot: PluginState.Snapshot,
+    structureRefs: Map<string, string>,
+  ): Promise<void> {
+    if (!this.plugin) return;
+
+    if (snapshot.data) {
+      await restoreScene(
+        this.plugin,
+        remapScene(this.plugin, snapshot.data.tree, structureRefs),
+      );
+    }
+    if (snapshot.canvas3d?.props) {
+      await PluginCommands.Canvas3D.SetSettings(this.plugin, {
+        settings: snapshot.canvas3d.props,
+      });
+    }
+    if (snapshot.camera?.current) {
+      this.setCameraSnapshot(snapshot.camera.current);
+    }
+  }
+
+  /**
+   * Hide the chains and remove the component types a saved view state
+   * lists; the representation is left as it is
+   */
+  async applyViewState(
+    structureRef: string,
+    view: Pick<StructureViewState, "hiddenChains" | "removedComponents">,
+  ): Promise<void> {
+    const current = this.getViewState(structureRef);
+    if (!current) return;
+
+    for (const chainId of view.hiddenChains) {
+      if (current.visibleChains.includes(chainId)) {
+        await this.hideChain(chainId, structureRef);
+      }
+    }
+
+    const removers: Record<ComponentType, (ref: string) => Promise<void>> = {
+      water: (ref) => this.removeWater(ref),
+      ligands: (ref) => this.removeLigands(ref),
+      ions: (ref) => this.removeIons(ref),
+    };
+    for (const type of view.removedComponents) {
+      if (!current.removedComponents.includes(type)) {
+        await removers[type](structureRef);
+      }
+    }
+  }
+
+  focusStructure(structureRef: string): void {
+    const data = this.getStructure(structureRef)?.cell.obj?.data;
+    if (!this.plugin || !data) return;
+
+    this.plugin.managers.camera.focusLoci(
+      Structure.toStructureElementLoci(data),
+    );
+  }
+
+  /**
+   * Superpose a chain of one scene structure onto another; the mobile
+   * structure is moved in place
+   */
+  async superpose(
+    mobile: SuperpositionTarget,
+    reference: SuperpositionTarget,
+  ): Promise<SuperpositionResult> {
+    if (!this.plugin) throw new Error("Plugin not initialized");
+    return superposeStructures(this.plugin, mobile, reference);
+  }
+
+  async resetSuperposition(structureRef: string): Promise<void> {
+    if (!this.plugin) return;
+    await resetSuperposition(this.plugin, structureRef);
+  }
+
+  /**
+   * Chains that can take part in a superposition (polymers with Cα atoms)
+   */
+  getSuperposableChains(structureRef: string): string[] {
+    if (!this.plugin) return [];
+    return getCalphaChainIds(this.plugin, structureRef);
+  }
+
+  /**
+   * Colour a structure by per-residue conservation (scores keyed by residue key)
+   */
+  async setConservationColoring(
+    structureRef: string,
+    scores: Map<string, number> | null,
+  ): Promise<void> {
+    if (!this.plugin) return;
+
+    if (scores) {
+      await applyConservationColoring(this.plugin, structureRef, scores);
+    } else {
+      await clearConservationColoring(
+        this.plugin,
+        structureRef,
+        this.loadedStructures.get(structureRef)?.params.colorTheme,
+      );
+    }
+  }
+
+  /**
+   * Measure between picked atoms (2 for a distance, 3 for an angle, 4 for a
+   * dihedral); the id lets saved measurements be restored under their own id
+   */
+  async addMeasurement(
+    id: string,
+    kind: MeasurementKind,
+    points: MeasurementPoint[],
+    label?: string,
+  ): Promise<Measurement> {
+    if (!this.plugin) throw new Error("Plugin not initialized");
+
+    const { value, ...cells } = await addMeasurement(
+      this.plugin,
+      kind,
+      points,
+      label,
+    );
+    this.measurementCells.set(id, cells);
+    return { id, kind, points, value, label };
+  }
+
+  async renameMeasurement(
+    measurement: Measurement,
+    label?: string,
+  ): Promise<void> {
+    const cells = this.measurementCells.get(measurement.id);
+    if (!this.plugin || !cells) return;
+
+    await setMeasurementLabel(
+      this.plugin,
+      cells,
+      measurement.kind,
+      measurement.value,
+      label,
+    );
+  }
+
+  async removeMeasurement(id: string): Promise<void> {
+    const cells = this.measurementCells.get(id);
+    if (!this.plugin || !cells) return;
+
+    await removeMeasurement(this.plugin, cells);
+    this.measurementCells.delete(id);
+  }
+
+  /**
+   * Atom to measure for a residue: its Cα, or its first atom
+   */
+  getResidueMeasurementPoint(
+    structureRef: string,
+    chainId: string,
+    residueNumber: number,
+    insertionCode?: string,
+  ): MeasurementPoint | null {
+    if (!this.plugin) return null;
+    return getResidueMeasurementPoint(
+      this.plugin,
+      structureRef,
+      chainId,
+      residueNumber,
+      insertionCode,
+    );
+  }
+
+  /**
+   * Atom to measure for a residue by label_asym_id and label_seq_id
+   */
+  getLabelResidueMeasurementPoint(
+    structureRef: string,
+    labelAsymId: string,
+    labelSeqId: number,
+  ): MeasurementPoint | null {
+    if (!this.plugin) return null;
+    return getLabelResidueMeasurementPoint(
+      this.plugin,
+      structureRef,
+      labelAsymId,
+      labelSeqId,
+    );
+  }
+
+  /**
+   * Subscribe to atoms clicked in the 3D view
+   */
+  onAtomClicked(callback: (point: MeasurementPoint) => void): () => void {
+    if (!this.plugin) return () => {};
+
+    const plugin = this.plugin;
+    // The click behaviour replays the last click to new subscribers
+    let isReplay = true;
+    const subscription = plugin.behaviors.interaction.click.subscribe(
+      ({ current }) => {
+        if (isReplay) return;
+        const point = getMeasurementPointFromLoci(plugin, current.loci);
+        if (point) callback(point);
+      },
+    );
+    isReplay = false;
+    return () => subscription.unsubscribe();
+  }
+
+  /**
+   * Representation, visible chains and removed components of a structure
+   * (the active one if no ref is given)
+   */
+  getViewState(structureRef?: string): StructureViewState | null {
+    const structure = this.getStructure(structureRef);
+    if (!this.plugin || !structure) return null;
+    return getStructureViewState(this.plugin, structure.cell.transform.ref);
+  }
+
+  /**
+   * Ligands and ions of a structure, candidates for interaction analysis
+   */
+  getLigands(structureRef: string): StructureResidue[] {
+    if (!this.plugin) return [];
+    return getLigandResidues(this.plugin, structureRef);
+  }
+
+  /**
+   * Highlight residue ranges, e.g. a ligand, and move the camera to them
+   */
+  focusResidues(structureRef: string, ranges: ResidueRange[]): boolean {
+    if (!this.plugin) return false;
+
+    const loci = buildResidueRangeLoci(this.plugin, ranges, structureRef);
+    if (!loci) return false;
+    this.plugin.managers.interactivity.lociHighlights.highlightOnly({ loci });
+    this.plugin.managers.camera.focusLoci(loci);
+    return true;
+  }
+
+  /**
+   * Compute the non-covalent interactions of residue ranges with the rest of
+   * their structure and draw them as dashed lines
+   */
+  async showInteractions(
+    structureRef: string,
+    ranges: ResidueRange[],
+  ): Promise<StructureInteraction[]> {
+    if (!this.plugin) throw new Error("Plugin not initialized");
+
+    const interactions = await computeInteractions(
+      this.plugin,
+      structureRef,
+      ranges,
+    );
+    await showInteractions(this.plugin, structureRef, ranges, interactions);
+    return interactions;
+  }
+
+  async clearInteractions(structureRef?: string): Promise<void> {
+    if (!this.plugin) return;
+    await clearInteractions(this.plugin, structureRef);
+  }
+
+  /**
+   * Highlight the two residues of an interaction, optionally focusing them
+   */
+  highlightInteraction(
+    structureRef: string,
+    interaction: StructureInteraction,
+    focus = false,
+  ): void {
+    if (!this.plugin) return;
+
+    const loci = getInteractionLoci(this.plugin, structureRef, interaction);
+    if (!loci) return;
+    this.plugin.managers.interactivity.lociHighlights.highlightOnly({ loci });
+    if (focus) this.plugin.managers.camera.focusLoci(loci);
+  }
+
+  /**
+   * Polymer residues within a radius of a selection, ligand or chain
+   */
+  getResiduesWithinRadius(
+    structureRef: string,
+    source: ProximitySource,
+    options: ProximityOptions,
+  ): StructureResidue[] {
+    if (!this.plugin) return [];
+    return getResiduesWithinRadius(this.plugin, structureRef, source, options);
+  }
+
+  /**
+   * Subscribe to structures being added, removed, shown or hidden
+   */
+  onStructuresChanged(callback: () => void): () => void {
+    if (!this.plugin) return () => {};
+
+    const { events } = this.plugin.state.data;
+    const subscriptions = [
+      events.changed.subscribe(() => callback()),
+      events.cell.stateUpdated.subscribe(() => callback()),
+    ];
+    return () => subscriptions.forEach((sub) => sub.unsubscribe());
+  }
+
+  /**
+   * Chain and residue number properties of author or label numbering
+   */
+  private getResidueProperties(label?: boolean) {
+    const props = MS.struct.atomProperty.macromolecular;
+    return label
+      ? {
+          chainProperty: props.label_asym_id(),
+          seqProperty: props.label_seq_id(),
+        }
+      : {
+          chainProperty: props.auth_asym_id(),
+          seqProperty: props.auth_seq_id(),
+        };
+  }
+
+  /**
+   * Resolve a structure ref; without one, the active structure is used
+   */
+  private getStructure(structureRef?: string): StructureRef | undefined {
+    if (!this.plugin) return undefined;
+
+    return (
+      findStructureRef(this.plugin, structureRef ?? this.activeStructureRef) ??
+      (structureRef ? undefined : findStructureRef(this.plugin))
+    );
   }
 
   setBackground(color: number): void {
@@ -154,12 +940,14 @@ export class molstarWrapper {
     PluginCommands.Camera.Reset(this.plugin, {});
   }
 
-  highlightResidue(chainId: string, seqId: number): void {
+  highlightResidue(
+    chainId: string,
+    seqId: number,
+    structureRef?: string,
+  ): void {
     if (!this.plugin) return;
 
-    const data =
-      this.plugin.managers.structure.hierarchy.current.structures[0]?.cell.obj
-        ?.data;
+    const data = this.getStructure(structureRef)?.cell.obj?.data;
     if (!data) return;
 
     const sel = Script.getStructureSelection(
@@ -186,12 +974,11 @@ export class molstarWrapper {
     chainId: string,
     startSeq: number,
     endSeq: number,
+    structureRef?: string,
   ): void {
     if (!this.plugin) return;
 
-    const data =
-      this.plugin.managers.structure.hierarchy.current.structures[0]?.cell.obj
-        ?.data;
+    const data = this.getStructure(structureRef)?.cell.obj?.data;
     if (!data) return;
 
     const sel = Script.getStructureSelection(
@@ -228,12 +1015,10 @@ export class molstarWrapper {
     this.resetCamera();
   }
 
-  async getAvailableChains(): Promise<string[]> {
+  async getAvailableChains(structureRef?: string): Promise<string[]> {
     if (!this.plugin) return [];
 
-    const structureData =
-      this.plugin.managers.structure.hierarchy.current.structures[0]?.cell.obj
-        ?.data;
+    const structureData = this.getStructure(structureRef)?.cell.obj?.data;
     if (!structureData) return [];
 
     const chains = new Set<string>();
@@ -274,60 +1059,78 @@ export class molstarWrapper {
   }
 
   highlightResidues(
-    selections: Array<{ chainId: string; startSeq: number; endSeq: number }>,
+    selections: Array<{
+      chainId: string;
+      startSeq: number;
+      endSeq: number;
+      /** Insertion code for single residues; "" matches residues without one */
+      insertionCode?: string;
+      /** label_asym_id and label_seq_id instead of author numbering */
+      label?: boolean;
+    }>,
+    structureRef?: string,
+    /** Keep existing highlights, e.g. when highlighting several structures */
+    options: { append?: boolean } = {},
   ): void {
     if (!this.plugin) return;
 
-    const data =
-      this.plugin.managers.structure.hierarchy.current.structures[0]?.cell.obj
-        ?.data;
+    const data = this.getStructure(structureRef)?.cell.obj?.data;
     if (!data) return;
 
     if (selections.length === 0) {
-      this.clearHighlight();
+      if (!options.append) this.clearHighlight();
       return;
     }
 
     try {
       // Create selections for each range
-      const allSelections = selections.map(({ chainId, startSeq, endSeq }) => {
-        if (startSeq === endSeq) {
-          // Single residue
-          return Script.getStructureSelection(
-            (Q: any) =>
-              Q.struct.generator.atomGroups({
-                "chain-test": Q.core.rel.eq([
-                  Q.struct.atomProperty.macromolecular.auth_asym_id(),
-                  chainId,
-                ]),
-                "residue-test": Q.core.rel.eq([
-                  Q.struct.atomProperty.macromolecular.auth_seq_id(),
-                  startSeq,
-                ]),
-                "group-by": Q.struct.atomProperty.macromolecular.residueKey(),
-              }),
-            data,
-          );
-        } else {
-          // Residue range
-          return Script.getStructureSelection(
-            (Q: any) =>
-              Q.struct.generator.atomGroups({
-                "chain-test": Q.core.rel.eq([
-                  Q.struct.atomProperty.macromolecular.auth_asym_id(),
-                  chainId,
-                ]),
-                "residue-test": Q.core.rel.inRange([
-                  Q.struct.atomProperty.macromolecular.auth_seq_id(),
-                  startSeq,
-                  endSeq,
-                ]),
-                "group-by": Q.struct.atomProperty.macromolecular.residueKey(),
-              }),
-            data,
-          );
-        }
-      });
+      const allSelections = selections.map(
+        ({ chainId, startSeq, endSeq, insertionCode, label }) => {
+          const chainProperty = label
+            ? MS.struct.atomProperty.macromolecular.label_asym_id()
+            : MS.struct.atomProperty.macromolecular.auth_asym_id();
+          const seqProperty = label
+            ? MS.struct.atomProperty.macromolecular.label_seq_id()
+            : MS.struct.atomProperty.macromolecular.auth_seq_id();
+
+          if (startSeq === endSeq) {
+            // Single residue (optionally pinned to its insertion code)
+            return Script.getStructureSelection(
+              (Q: any) =>
+                Q.struct.generator.atomGroups({
+                  "chain-test": Q.core.rel.eq([chainProperty, chainId]),
+                  "residue-test":
+                    insertionCode === undefined
+                      ? Q.core.rel.eq([seqProperty, startSeq])
+                      : Q.core.logic.and([
+                          Q.core.rel.eq([seqProperty, startSeq]),
+                          Q.core.rel.eq([
+                            Q.struct.atomProperty.macromolecular.pdbx_PDB_ins_code(),
+                            insertionCode,
+                          ]),
+                        ]),
+                  "group-by": Q.struct.atomProperty.macromolecular.residueKey(),
+                }),
+              data,
+            );
+          } else {
+            // Residue range
+            return Script.getStructureSelection(
+              (Q: any) =>
+                Q.struct.generator.atomGroups({
+                  "chain-test": Q.core.rel.eq([chainProperty, chainId]),
+                  "residue-test": Q.core.rel.inRange([
+                    seqProperty,
+                    startSeq,
+                    endSeq,
+                  ]),
+                  "group-by": Q.struct.atomProperty.macromolecular.residueKey(),
+                }),
+              data,
+            );
+          }
+        },
+      );
 
       // Combine all selections into loci
       const allLoci = allSelections.map((sel) =>
@@ -336,7 +1139,9 @@ export class molstarWrapper {
 
       // Highlight all selections with persistent highlighting
       if (allLoci.length > 0) {
-        this.plugin.managers.interactivity.lociHighlights.clearHighlights();
+        if (!options.append) {
+          this.plugin.managers.interactivity.lociHighlights.clearHighlights();
+        }
 
         // Add persistent highlights that won't be cleared by mouse interactions
         allLoci.forEach((loci, index) => {
@@ -353,7 +1158,11 @@ export class molstarWrapper {
     }
   }
 
-  highlightSpecificResidues(chainId: string, residueNumbers: number[]): void {
+  highlightSpecificResidues(
+    chainId: string,
+    residueNumbers: number[],
+    structureRef?: string,
+  ): void {
     if (residueNumbers.length === 0) {
       this.clearHighlight();
       return;
@@ -381,89 +1190,94 @@ export class molstarWrapper {
 
     ranges.push({ chainId, startSeq: rangeStart, endSeq: rangeEnd });
 
-    this.highlightResidues(ranges);
+    this.highlightResidues(ranges, structureRef);
   }
 
   async updateRepresentation(representationType: string): Promise<void> {
-    if (!this.plugin) return;
-
-    try {
-      const hierarchy = this.plugin.managers.structure.hierarchy.current;
-      if (!hierarchy.structures.length) {
-        console.warn("No structures available");
-        return;
-      }
+    return this.recordOperation("Change representation", async () => {
+      if (!this.plugin) return;
 
-      // SAFE APPROACH: Update existing representations in place
-      const update = this.plugin.state.data.build();
-
-      for (const structure of hierarchy.structures) {
-        for (const component of structure.components) {
-          for (const representation of component.representations) {
-            // Determine coloring scheme based on representation type
-            const colorTheme =
-              representationType === "ball-and-stick" ||
-              representationType === "spacefill"
-                ? "element-symbol"
-                : "chain-id";
-
-            // Update the representation type in place
-            update.to(representation.cell.transform.ref).update({
-              type: { name: representationType, params: {} },
-              colorTheme: { name: colorTheme, params: {} },
-              sizeTheme: { name: "uniform", params: { value: 1 } },
-            });
-          }
+      try {
+        const hierarchy = this.plugin.managers.structure.hierarchy.current;
+        if (!hierarchy.structures.length) {
+          console.warn("No structures available");
+          return;
         }
-      }
 
-      await update.commit();
-    } catch (error) {
-      console.error("Error updating representation:", error);
+        // SAFE APPROACH: Update existing representations in place
+        const update = this.plugin.state.data.build();
 
-      // Fallback to full rebuild if update fails
-      try {
-        const hierarchy = this.plugin.managers.structure.hierarchy.current;
-        const update = this.plugin.state.data.build();
-
-        // Remove existing representations
         for (const structure of hierarchy.structures) {
           for (const component of structure.components) {
+            if (isInteractionsComponent(component)) continue;
             for (const representation of component.representations) {
-              update.delete(representation.cell.transform.ref);
+              // Determine coloring scheme based on representation type
+              const colorTheme =
+                representationType === "ball-and-stick" ||
+                representationType === "spacefill"
+                  ? "element-symbol"
+                  : "chain-id";
+
+              // Update the representation type in place
+              update.to(representation.cell.transform.ref).update({
+                type: { name: representationType, params: {} },
+                colorTheme: { name: colorTheme, params: {} },
+                sizeTheme: { name: "uniform", params: { value: 1 } },
+              });
             }
           }
         }
 
         await update.commit();
+      } catch (error) {
+        console.error("Error updating representation:", error);
+
+        // Fallback to full rebuild if update fails
+        try {
+          const hierarchy = this.plugin.managers.structure.hierarchy.current;
+          const update = this.plugin.state.data.build();
+
+          // Remove existing representations
+          for (const structure of hierarchy.structures) {
+            for (const component of structure.components) {
+              if (isInteractionsComponent(component)) continue;
+              for (const representation of component.representations) {
+                update.delete(representation.cell.transform.ref);
+              }
+            }
+          }
 
-        // Add new representation
-        const newUpdate = this.plugin.state.data.build();
-        for (const structure of hierarchy.structures) {
-          for (const component of structure.components) {
-            const colorTheme =
-              representationType === "ball-and-stick" ||
-              representationType === "spacefill"
-                ? "element-symbol"
-                : "chain-id";
-
-            newUpdate.to(component.cell).update((old: any) => ({
-              ...old,
-              type: { name: representationType, params: {} },
-              colorTheme: { name: colorTheme, params: {} },
-              sizeTheme: { name: "uniform", params: { value: 1 } },
-            }));
+          await update.commit();
+
+          // Add new representation
+          const newUpdate = this.plugin.state.data.build();
+          for (const structure of hierarchy.structures) {
+            for (const component of structure.components) {
+              if (isInteractionsComponent(component)) continue;
+              const colorTheme =
+                representationType === "ball-and-stick" ||
+                representationType === "spacefill"
+                  ? "element-symbol"
+                  : "chain-id";
+
+              newUpdate.to(component.cell).update((old: any) => ({
+                ...old,
+                type: { name: representationType, params: {} },
+                colorTheme: { name: colorTheme, params: {} },
+                sizeTheme: { name: "uniform", params: { value: 1 } },
+              }));
+            }
           }
-        }
 
-        await newUpdate.commit();
-      } catch (fallbackError) {
-        console.error(
-          "Both safe and fallback representation change failed:",
-          fallbackError,
-        );
+          await newUpdate.commit();
+        } catch (fallbackError) {
+          console.error(
+            "Both safe and fallback representation change failed:",
+            fallbackError,
+          );
+        }
       }
-    }
+    });
   }
 
   async setCartoon(): Promise<void> {
@@ -482,68 +1296,23 @@ export class molstarWrapper {
     return this.updateRepresentation("spacefill");
   }
 
-  async hideChain(chainId: string): Promise<void> {
-    if (!this.plugin) return;
-
-    try {
-      const hierarchy = this.plugin.managers.structure.hierarchy.current;
-      if (!hierarchy.structures.length) return;
-
-      const structure = hierarchy.structures[0];
-      const data = structure.cell?.obj?.data;
-      if (!data) return;
-
-      const hideSelection = Script.getStructureSelection(
-        (Q: any) =>
-          Q.struct.generator.atomGroups({
-            "chain-test": Q.core.rel.eq([
-              Q.struct.atomProperty.macromolecular.auth_asym_id(),
-              chainId,
-            ]),
-          }),
-        data,
-      );
-
-      const hideLoci = StructureSelection.toLociWithSourceUnits(hideSelection);
-      this.plugin.managers.structure.selection.fromLoci("set", hideLoci);
-
-      const allComponents = hierarchy.structures.flatMap((s) => s.components);
-      await this.plugin.managers.structure.component.modifyByCurrentSelection(
-        allComponents,
-        "subtract",
-      );
-
-      this.plugin.managers.structure.selection.clear();
-    } catch (error) {
-      console.error("Error hiding chain:", error);
-    }
-  }
-
-  async isolateChain(chainId: string): Promise<void> {
-    if (!this.plugin) return;
-
-    try {
-      const hierarchy = this.plugin.managers.structure.hierarchy.current;
-      if (!hierarchy.structures.length) return;
+  async hideChain(chainId: string, structureRef?: string): Promise<void> {
+    return this.recordOperation(`Hide chain ${chainId}`, async () => {
+      if (!this.plugin) return;
 
-      const structure = hierarchy.structures[0];
-      const data = structure.cell?.obj?.data;
-      if (!data) return;
+      try {
+        const structure = this.getStructure(structureRef);
+        if (!structure) return;
 
-      const allChains = await this.getAvailableChains();
-      const chainsToHide = allChains.filter((id) => id !== chainId);
+        const data = structure.cell?.obj?.data;
+        if (!data) return;
 
-      if (chainsToHide.length === 0) {
-        return;
-      }
-
-      for (const hideChainId of chainsToHide) {
         const hideSelection = Script.getStructureSelection(
           (Q: any) =>
             Q.struct.generator.atomGroups({
               "chain-test": Q.core.rel.eq([
                 Q.struct.atomProperty.macromolecular.auth_asym_id(),
-                hideChainId,
+                chainId,
               ]),
             }),
           data,
@@ -551,251 +1320,310 @@ export class molstarWrapper {
 
         const hideLoci =
           StructureSelection.toLociWithSourceUnits(hideSelection);
+        this.plugin.managers.structure.selection.fromLoci("set", hideLoci);
 
-        if (hideLoci && hideLoci.elements && hideLoci.elements.length > 0) {
-          this.plugin.managers.structure.selection.fromLoci("set", hideLoci);
-          const allComponents = hierarchy.structures.flatMap(
-            (s) => s.components,
-          );
-          await this.plugin.managers.structure.component.modifyByCurrentSelection(
-            allComponents,
-            "subtract",
-          );
-          this.plugin.managers.structure.selection.clear();
-        }
-      }
-
-      // Auto-focus on the remaining visible chain for optimal viewing
-      await this.focusOnVisibleStructure();
-    } catch (error) {
-      console.error("Error isolating chain:", error);
-    }
-  }
-
-  async showAllChains(): Promise<void> {
-    if (!this.plugin) return;
+        await this.plugin.managers.structure.component.modifyByCurrentSelection(
+          structure.components,
+          "subtract",
+        );
 
-    try {
-      if (this.currentPdbId) {
-        await this.loadPDB(this.currentPdbId);
+        this.plugin.managers.structure.selection.clear();
+      } catch (error) {
+        console.error("Error hiding chain:", error);
       }
-    } catch (error) {
-      console.error("Error showing all chains:", error);
-    }
+    });
   }
 
-  async hideResidueRange(
-    chainId: string,
-    startSeq: number,
-    endSeq: number,
-  ): Promise<void> {
-    if (!this.plugin) return;
-
-    try {
-      const hierarchy = this.plugin.managers.structure.hierarchy.current;
-      if (!hierarchy.structures.length) return;
-
-      const structure = hierarchy.structures[0];
-      const data = structure.cell?.obj?.data;
-      if (!data) return;
-
-      // Create selection for the residue range to hide
-      const hideSelection = Script.getStructureSelection(
-        (Q: any) =>
-          Q.struct.generator.atomGroups({
-            "chain-test": Q.core.rel.eq([
-              Q.struct.atomProperty.macromolecular.auth_asym_id(),
-              chainId,
-            ]),
-            "residue-test": Q.core.rel.inRange([
-              Q.struct.atomProperty.macromolecular.auth_seq_id(),
-              startSeq,
-              endSeq,
-            ]),
-          }),
-        data,
-      );
+  async isolateChain(chainId: string, structureRef?: string): Promise<void> {
+    return this.recordOperation(`Isolate chain ${chainId}`, async () => {
+      if (!this.plugin) return;
 
-      const hideLoci = StructureSelection.toLociWithSourceUnits(hideSelection);
-
-      if (!hideLoci || hideLoci.elements.length === 0) return;
-
-      // Set selection and hide using modifyByCurrentSelection
-      this.plugin.managers.structure.selection.fromLoci("set", hideLoci);
-      const allComponents = hierarchy.structures.flatMap((s) => s.components);
-      await this.plugin.managers.structure.component.modifyByCurrentSelection(
-        allComponents,
-        "subtract",
-      );
-      this.plugin.managers.structure.selection.clear();
-    } catch (error) {
-      console.error("Error hiding residue range:", error);
-    }
-  }
-
-  async isolateResidueRange(
-    chainId: string,
-    startSeq: number,
-    endSeq: number,
-  ): Promise<void> {
-    if (!this.plugin) return;
+      try {
+        const structure = this.getStructure(structureRef);
+        if (!structure) return;
 
-    try {
-      const hierarchy = this.plugin.managers.structure.hierarchy.current;
-      if (!hierarchy.structures.length) return;
+        const data = structure.cell?.obj?.data;
+        if (!data) return;
 
-      const structure = hierarchy.structures[0];
-      const data = structure.cell?.obj?.data;
-      if (!data) return;
+        const allChains = await this.getAvailableChains(structureRef);
+        const chainsToHide = allChains.filter((id) => id !== chainId);
 
-      // Get all available chains
-      const allChains = await this.getAvailableChains();
+        if (chainsToHide.length === 0) {
+          return;
+        }
 
-      // Hide everything EXCEPT the target residue range
-      for (const currentChain of allChains) {
-        if (currentChain !== chainId) {
-          // Hide entire other chains
-          const hideChainSelection = Script.getStructureSelection(
+        for (const hideChainId of chainsToHide) {
+          const hideSelection = Script.getStructureSelection(
             (Q: any) =>
               Q.struct.generator.atomGroups({
                 "chain-test": Q.core.rel.eq([
                   Q.struct.atomProperty.macromolecular.auth_asym_id(),
-                  currentChain,
+                  hideChainId,
                 ]),
               }),
             data,
           );
 
-          const hideChainLoci =
-            StructureSelection.toLociWithSourceUnits(hideChainSelection);
+          const hideLoci =
+            StructureSelection.toLociWithSourceUnits(hideSelection);
 
-          if (hideChainLoci && hideChainLoci.elements.length > 0) {
-            this.plugin.managers.structure.selection.fromLoci(
-              "set",
-              hideChainLoci,
-            );
-            const allComponents = hierarchy.structures.flatMap(
-              (s) => s.components,
-            );
+          if (hideLoci && hideLoci.elements && hideLoci.elements.length > 0) {
+            this.plugin.managers.structure.selection.fromLoci("set", hideLoci);
             await this.plugin.managers.structure.component.modifyByCurrentSelection(
-              allComponents,
+              structure.components,
               "subtract",
             );
             this.plugin.managers.structure.selection.clear();
           }
-        } else {
-          // For the target chain, hide residues before startSeq
-          if (startSeq > 1) {
-            const hideBeforeSelection = Script.getStructureSelection(
-              (Q: any) =>
-                Q.struct.generator.atomGroups({
-                  "chain-test": Q.core.rel.eq([
-                    Q.struct.atomProperty.macromolecular.auth_asym_id(),
-                    chainId,
-                  ]),
-                  "residue-test": Q.core.rel.inRange([
-                    Q.struct.atomProperty.macromolecular.auth_seq_id(),
-                    1,
-                    startSeq - 1,
-                  ]),
-                }),
-              data,
-            );
+        }
 
-            const hideBeforeLoci =
-              StructureSelection.toLociWithSourceUnits(hideBeforeSelection);
+        // Auto-focus on the remaining visible chain for optimal viewing
+        await this.focusOnVisibleStructure();
+      } catch (error) {
+        console.error("Error isolating chain:", error);
+      }
+    });
+  }
 
-            if (hideBeforeLoci && hideBeforeLoci.elements.length > 0) {
-              this.plugin.managers.structure.selection.fromLoci(
-                "set",
-                hideBeforeLoci,
-              );
-              const allComponents = hierarchy.structures.flatMap(
-                (s) => s.components,
-              );
-              await this.plugin.managers.structure.component.modifyByCurrentSelection(
-                allComponents,
-                "subtract",
-              );
-              this.plugin.managers.structure.selection.clear();
-            }
-          }
+  /**
+   * Restore everything hidden in a structure by rebuilding its default
+   * representations; other structures in the scene are left untouched
+   */
+  async showAllChains(structureRef?: string): Promise<void> {
+    return this.recordOperation("Show all chains", async () => {
+      if (!this.plugin) return;
 
-          // For the target chain, hide residues after endSeq
-          // Use a reasonable upper bound (most proteins don't exceed 10000 residues)
-          const maxResidue = 10000;
+      try {
+        const structure = this.getStructure(structureRef);
+        if (!structure) return;
+
+        const colorTheme = this.loadedStructures.get(
+          structure.cell.transform.ref,
+        )?.params.colorTheme;
+
+        await this.plugin.managers.structure.component.clear([structure]);
+        // Build below the superposition transform, if any, to keep the fit
+        await this.plugin.builders.structure.representation.applyPreset(
+          structure.transform?.cell ?? structure.cell,
+          "auto",
+          colorTheme
+            ? { theme: { globalName: colorTheme, focus: { name: colorTheme } } }
+            : undefined,
+        );
+      } catch (error) {
+        console.error("Error showing all chains:", error);
+      }
+    });
+  }
 
-          if (endSeq < maxResidue) {
-            const hideAfterSelection = Script.getStructureSelection(
-              (Q: any) =>
-                Q.struct.generator.atomGroups({
-                  "chain-test": Q.core.rel.eq([
-                    Q.struct.atomProperty.macromolecular.auth_asym_id(),
-                    chainId,
-                  ]),
-                  "residue-test": Q.core.rel.inRange([
-                    Q.struct.atomProperty.macromolecular.auth_seq_id(),
-                    endSeq + 1,
-                    maxResidue,
-                  ]),
-                }),
-              data,
-            );
+  async hideResidueRange(
+    chainId: string,
+    startSeq: number,
+    endSeq: number,
+    structureRef?: string,
+    /** label_asym_id and label_seq_id instead of author numbering */
+    options: { label?: boolean } = {},
+  ): Promise<void> {
+    return this.recordOperation(
+      `Hide ${chainId}:${startSeq}-${endSeq}`,
+      async () => {
+        if (!this.plugin) return;
+
+        try {
+          const structure = this.getStructure(structureRef);
+          if (!structure) return;
+
+          const data = structure.cell?.obj?.data;
+          if (!data) return;
+          const { chainProperty, seqProperty } = this.getResidueProperties(
+            options.label,
+          );
 
-            const hideAfterLoci =
-              StructureSelection.toLociWithSourceUnits(hideAfterSelection);
+          // Create selection for the residue range to hide
+          const hideSelection = Script.getStructureSelection(
+            (Q: any) =>
+              Q.struct.generator.atomGroups({
+                "chain-test": Q.core.rel.eq([chainProperty, chainId]),
+                "residue-test": Q.core.rel.inRange([
+                  seqProperty,
+                  startSeq,
+                  endSeq,
+                ]),
+              }),
+            data,
+          );
 
-            if (hideAfterLoci && hideAfterLoci.elements.length > 0) {
-              this.plugin.managers.structure.selection.fromLoci(
-                "set",
-                hideAfterLoci,
-              );
-              const allComponents = hierarchy.structures.flatMap(
-                (s) => s.components,
-              );
-              await this.plugin.managers.structure.component.modifyByCurrentSelection(
-                allComponents,
-                "subtract",
+          const hideLoci =
+            StructureSelection.toLociWithSourceUnits(hideSelection);
+
+          if (!hideLoci || hideLoci.elements.length === 0) return;
+
+          // Set selection and hide using modifyByCurrentSelection
+          this.plugin.managers.structure.selection.fromLoci("set", hideLoci);
+          await this.plugin.managers.structure.component.modifyByCurrentSelection(
+            structure.components,
+            "subtract",
+          );
+          this.plugin.managers.structure.selection.clear();
+        } catch (error) {
+          console.error("Error hiding residue range:", error);
+        }
+      },
+    );
+  }
+
+  async isolateResidueRange(
+    chainId: string,
+    startSeq: number,
+    endSeq: number,
+    structureRef?: string,
+    /** label_asym_id and label_seq_id instead of author numbering */
+    options: { label?: boolean } = {},
+  ): Promise<void> {
+    return this.recordOperation(
+      `Isolate ${chainId}:${startSeq}-${endSeq}`,
+      async () => {
+        if (!this.plugin) return;
+
+        try {
+          const structure = this.getStructure(structureRef);
+          if (!structure) return;
+
+          const data = structure.cell?.obj?.data;
+          if (!data) return;
+          const { chainProperty, seqProperty } = this.getResidueProperties(
+            options.label,
+          );
+
+          // Get all available chains
+          const allChains = await this.getAvailableChains(structureRef);
+
+          // Hide everything EXCEPT the target residue range
+          for (const currentChain of allChains) {
+            if (currentChain !== chainId) {
+              // Hide entire other chains
+              const hideChainSelection = Script.getStructureSelection(
+                (Q: any) =>
+                  Q.struct.generator.atomGroups({
+                    "chain-test": Q.core.rel.eq([chainProperty, currentChain]),
+                  }),
+                data,
               );
-              this.plugin.managers.structure.selection.clear();
+
+              const hideChainLoci =
+                StructureSelection.toLociWithSourceUnits(hideChainSelection);
+
+              if (hideChainLoci && hideChainLoci.elements.length > 0) {
+                this.plugin.managers.structure.selection.fromLoci(
+                  "set",
+                  hideChainLoci,
+                );
+                await this.plugin.managers.structure.component.modifyByCurrentSelection(
+                  structure.components,
+                  "subtract",
+                );
+                this.plugin.managers.structure.selection.clear();
+              }
+            } else {
+              // For the target chain, hide residues before startSeq
+              if (startSeq > 1) {
+                const hideBeforeSelection = Script.getStructureSelection(
+                  (Q: any) =>
+                    Q.struct.generator.atomGroups({
+                      "chain-test": Q.core.rel.eq([chainProperty, chainId]),
+                      "residue-test": Q.core.rel.inRange([
+                        seqProperty,
+                        1,
+                        startSeq - 1,
+                      ]),
+                    }),
+                  data,
+                );
+
+                const hideBeforeLoci =
+                  StructureSelection.toLociWithSourceUnits(hideBeforeSelection);
+
+                if (hideBeforeLoci && hideBeforeLoci.elements.length > 0) {
+                  this.plugin.managers.structure.selection.fromLoci(
+                    "set",
+                    hideBeforeLoci,
+                  );
+                  await this.plugin.managers.structure.component.modifyByCurrentSelection(
+                    structure.components,
+                    "subtract",
+                  );
+                  this.plugin.managers.structure.selection.clear();
+                }
+              }
+
+              // For the target chain, hide residues after endSeq
+              // Use a reasonable upper bound (most proteins don't exceed 10000 residues)
+              const maxResidue = 10000;
+
+              if (endSeq < maxResidue) {
+                const hideAfterSelection = Script.getStructureSelection(
+                  (Q: any) =>
+                    Q.struct.generator.atomGroups({
+                      "chain-test": Q.core.rel.eq([chainProperty, chainId]),
+                      "residue-test": Q.core.rel.inRange([
+                        seqProperty,
+                        endSeq + 1,
+                        maxResidue,
+                      ]),
+                    }),
+                  data,
+                );
+
+                const hideAfterLoci =
+                  StructureSelection.toLociWithSourceUnits(hideAfterSelection);
+
+                if (hideAfterLoci && hideAfterLoci.elements.length > 0) {
+                  this.plugin.managers.structure.selection.fromLoci(
+                    "set",
+                    hideAfterLoci,
+                  );
+                  await this.plugin.managers.structure.component.modifyByCurrentSelection(
+                    structure.components,
+                    "subtract",
+                  );
+                  this.plugin.managers.structure.selection.clear();
+                }
+              }
             }
           }
-        }
-      }
 
-      // Auto-focus on the remaining visible residue range for optimal viewing
-      await this.focusOnVisibleStructure();
-    } catch (error) {
-      console.error("Error isolating residue range:", error);
-    }
+          // Auto-focus on the remaining visible residue range for optimal viewing
+          await this.focusOnVisibleStructure();
+        } catch (error) {
+          console.error("Error isolating residue range:", error);
+        }
+      },
+    );
   }
 
   async showResidueRange(
     chainId: string,
     startSeq: number,
     endSeq: number,
+    structureRef?: string,
+    /** label_asym_id and label_seq_id instead of author numbering */
+    options: { label?: boolean } = {},
   ): Promise<void> {
     if (!this.plugin) return;
 
     try {
-      const data =
-        this.plugin.managers.structure.hierarchy.current.structures[0]?.cell.obj
-          ?.data;
+      const data = this.getStructure(structureRef)?.cell.obj?.data;
       if (!data) return;
+      const { chainProperty, seqProperty } = this.getResidueProperties(
+        options.label,
+      );
 
       // Create selection for the residue range to highlight
       const selection = Script.getStructureSelection(
         (Q: any) =>
           Q.struct.generator.atomGroups({
-            "chain-test": Q.core.rel.eq([
-              Q.struct.atomProperty.macromolecular.auth_asym_id(),
-              chainId,
-            ]),
-            "residue-test": Q.core.rel.inRange([
-              Q.struct.atomProperty.macromolecular.auth_seq_id(),
-              startSeq,
-              endSeq,
-            ]),
+            "chain-test": Q.core.rel.eq([chainProperty, chainId]),
+            "residue-test": Q.core.rel.inRange([seqProperty, startSeq, endSeq]),
             "group-by": Q.struct.atomProperty.macromolecular.residueKey(),
           }),
         data,
@@ -810,188 +1638,188 @@ export class molstarWrapper {
     }
   }
 
-  async removeWater(): Promise<void> {
-    if (!this.plugin) return;
+  async removeWater(structureRef?: string): Promise<void> {
+    return this.recordOperation("Remove water", async () => {
+      if (!this.plugin) return;
 
-    try {
-      const hierarchy = this.plugin.managers.structure.hierarchy.current;
-      if (!hierarchy.structures.length) return;
+      try {
+        const structure = this.getStructure(structureRef);
+        if (!structure) return;
 
-      const structure = hierarchy.structures[0];
-      if (!structure.cell?.obj?.data) return;
+        if (!structure.cell?.obj?.data) return;
 
-      const data = structure.cell.obj.data;
+        const data = structure.cell.obj.data;
 
-      // Create selection for water molecules (HOH, WAT, etc.)
-      const waterSelection = Script.getStructureSelection(
-        (Q: any) =>
-          Q.struct.generator.atomGroups({
-            "residue-test": Q.core.logic.or([
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "HOH",
-              ]),
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "WAT",
-              ]),
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "H2O",
+        // Create selection for water molecules (HOH, WAT, etc.)
+        const waterSelection = Script.getStructureSelection(
+          (Q: any) =>
+            Q.struct.generator.atomGroups({
+              "residue-test": Q.core.logic.or([
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "HOH",
+                ]),
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "WAT",
+                ]),
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "H2O",
+                ]),
               ]),
-            ]),
-          }),
-        data,
-      );
+            }),
+          data,
+        );
 
-      const waterLoci =
-        StructureSelection.toLociWithSourceUnits(waterSelection);
+        const waterLoci =
+          StructureSelection.toLociWithSourceUnits(waterSelection);
 
-      if (waterLoci && waterLoci.elements.length > 0) {
-        this.plugin.managers.structure.selection.fromLoci("set", waterLoci);
-        const allComponents = hierarchy.structures.flatMap((s) => s.components);
-        await this.plugin.managers.structure.component.modifyByCurrentSelection(
-          allComponents,
-          "subtract",
-        );
-        this.plugin.managers.structure.selection.clear();
+        if (waterLoci && waterLoci.elements.length > 0) {
+          this.plugin.managers.structure.selection.fromLoci("set", waterLoci);
+          await this.plugin.managers.structure.component.modifyByCurrentSelection(
+            structure.components,
+            "subtract",
+          );
+          this.plugin.managers.structure.selection.clear();
+        }
+      } catch (error) {
+        console.error("Error removing water:", error);
       }
-    } catch (error) {
-      console.error("Error removing water:", error);
-    }
+    });
   }
 
-  async removeLigands(): Promise<void> {
-    if (!this.plugin) return;
+  async removeLigands(structureRef?: string): Promise<void> {
+    return this.recordOperation("Remove ligands", async () => {
+      if (!this.plugin) return;
 
-    try {
-      const hierarchy = this.plugin.managers.structure.hierarchy.current;
-      if (!hierarchy.structures.length) return;
+      try {
+        const structure = this.getStructure(structureRef);
+        if (!structure) return;
 
-      const structure = hierarchy.structures[0];
-      if (!structure.cell?.obj?.data) return;
+        if (!structure.cell?.obj?.data) return;
 
-      const data = structure.cell.obj.data;
+        const data = structure.cell.obj.data;
 
-      // Create selection for common ligands
-      const ligandSelection = Script.getStructureSelection(
-        (Q: any) =>
-          Q.struct.generator.atomGroups({
-            "residue-test": Q.core.logic.or([
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "HEM",
-              ]),
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "ATP",
-              ]),
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "ADP",
-              ]),
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "GTP",
-              ]),
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "GDP",
-              ]),
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "NAD",
-              ]),
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "FAD",
+        // Create selection for common ligands
+        const ligandSelection = Script.getStructureSelection(
+          (Q: any) =>
+            Q.struct.generator.atomGroups({
+              "residue-test": Q.core.logic.or([
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "HEM",
+                ]),
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "ATP",
+                ]),
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "ADP",
+                ]),
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "GTP",
+                ]),
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "GDP",
+                ]),
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "NAD",
+                ]),
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "FAD",
+                ]),
               ]),
-            ]),
-          }),
-        data,
-      );
+            }),
+          data,
+        );
 
-      const ligandLoci =
-        StructureSelection.toLociWithSourceUnits(ligandSelection);
+        const ligandLoci =
+          StructureSelection.toLociWithSourceUnits(ligandSelection);
 
-      if (ligandLoci && ligandLoci.elements.length > 0) {
-        this.plugin.managers.structure.selection.fromLoci("set", ligandLoci);
-        const allComponents = hierarchy.structures.flatMap((s) => s.components);
-        await this.plugin.managers.structure.component.modifyByCurrentSelection(
-          allComponents,
-          "subtract",
-        );
-        this.plugin.managers.structure.selection.clear();
+        if (ligandLoci && ligandLoci.elements.length > 0) {
+          this.plugin.managers.structure.selection.fromLoci("set", ligandLoci);
+          await this.plugin.managers.structure.component.modifyByCurrentSelection(
+            structure.components,
+            "subtract",
+          );
+          this.plugin.managers.structure.selection.clear();
+        }
+      } catch (error) {
+        console.error("Error removing ligands:", error);
       }
-    } catch (error) {
-      console.error("Error removing ligands:", error);
-    }
+    });
   }
 
-  async removeIons(): Promise<void> {
-    if (!this.plugin) return;
+  async removeIons(structureRef?: string): Promise<void> {
+    return this.recordOperation("Remove ions", async () => {
+      if (!this.plugin) return;
 
-    try {
-      const hierarchy = this.plugin.managers.structure.hierarchy.current;
-      if (!hierarchy.structures.length) return;
+      try {
+        const structure = this.getStructure(structureRef);
+        if (!structure) return;
 
-      const structure = hierarchy.structures[0];
-      if (!structure.cell?.obj?.data) return;
+        if (!structure.cell?.obj?.data) return;
 
-      const data = structure.cell.obj.data;
+        const data = structure.cell.obj.data;
 
-      // Create selection for common ions
-      const ionSelection = Script.getStructureSelection(
-        (Q: any) =>
-          Q.struct.generator.atomGroups({
-            "residue-test": Q.core.logic.or([
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "CA",
-              ]),
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "MG",
-              ]),
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "ZN",
-              ]),
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "FE",
-              ]),
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "NA",
-              ]),
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "CL",
-              ]),
-              Q.core.rel.eq([
-                Q.struct.atomProperty.macromolecular.label_comp_id(),
-                "K",
+        // Create selection for common ions
+        const ionSelection = Script.getStructureSelection(
+          (Q: any) =>
+            Q.struct.generator.atomGroups({
+              "residue-test": Q.core.logic.or([
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "CA",
+                ]),
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "MG",
+                ]),
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "ZN",
+                ]),
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "FE",
+                ]),
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "NA",
+                ]),
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "CL",
+                ]),
+                Q.core.rel.eq([
+                  Q.struct.atomProperty.macromolecular.label_comp_id(),
+                  "K",
+                ]),
               ]),
-            ]),
-          }),
-        data,
-      );
+            }),
+          data,
+        );
 
-      const ionLoci = StructureSelection.toLociWithSourceUnits(ionSelection);
+        const ionLoci = StructureSelection.toLociWithSourceUnits(ionSelection);
 
-      if (ionLoci && ionLoci.elements.length > 0) {
-        this.plugin.managers.structure.selection.fromLoci("set", ionLoci);
-        const allComponents = hierarchy.structures.flatMap((s) => s.components);
-        await this.plugin.managers.structure.component.modifyByCurrentSelection(
-          allComponents,
-          "subtract",
-        );
-        this.plugin.managers.structure.selection.clear();
+        if (ionLoci && ionLoci.elements.length > 0) {
+          this.plugin.managers.structure.selection.fromLoci("set", ionLoci);
+          await this.plugin.managers.structure.component.modifyByCurrentSelection(
+            structure.components,
+            "subtract",
+          );
+          this.plugin.managers.structure.selection.clear();
+        }
+      } catch (error) {
+        console.error("Error removing ions:", error);
       }
-    } catch (error) {
-      console.error("Error removing ions:", error);
-    }
+    });
   }
 
   destroy(): void {
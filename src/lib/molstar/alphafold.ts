@@ -0,0 +1,78 @@
+/**
+ * AlphaFold DB Utilities
+ *
+ * UniProt accession handling, model URL construction and the standard
+ * pLDDT confidence bands used for both the 3D colouring and the sequence track.
+ * The base URL comes from AppConfig so a local mirror can be used offline.
+ */
+
+import { getAppConfig } from "@/config/app";
+
+/** Official UniProt accession format (6 or 10 characters) */
+const UNIPROT_ACCESSION_PATTERN =
+  /^([OPQ][0-9][A-Z0-9]{3}[0-9]|[A-NR-Z][0-9]([A-Z][A-Z0-9]{2}[0-9]){1,2})$/;
+
+/** Name of the Mol* colour theme registered by the model-archive extension */
+export const PLDDT_COLOR_THEME = "plddt-confidence";
+
+export interface PLDDTBand {
+  id: "very-high" | "confident" | "low" | "very-low";
+  label: string;
+  /** Scores strictly above this value fall in the band */
+  min: number;
+  color: string;
+}
+
+/**
+ * Standard AlphaFold confidence bands, highest first
+ */
+export const PLDDT_BANDS: readonly PLDDTBand[] = [
+  { id: "very-high", label: "Very high (>90)", min: 90, color: "#0053D6" },
+  { id: "confident", label: "Confident (70-90)", min: 70, color: "#65CBF3" },
+  { id: "low", label: "Low (50-70)", min: 50, color: "#FFDB13" },
+  { id: "very-low", label: "Very low (<50)", min: -Infinity, color: "#FF7D45" },
+];
+
+/**
+ * Normalize user input to a UniProt accession, or null if invalid.
+ * Accepts "AF-P69905-F1" style AlphaFold ids as well.
+ */
+export function normalizeUniProtAccession(input: string): string | null {
+  const cleaned = input
+    .trim()
+    .toUpperCase()
+    .replace(/^AF-/, "")
+    .replace(/-F\d+(-MODEL_V\d+)?$/, "");
+
+  return UNIPROT_ACCESSION_PATTERN.test(cleaned) ? cleaned : null;
+}
+
+/**
+ * Build the mmCIF URL of an AlphaFold DB model
+ */
+export function getAlphaFoldModelUrl(
+  accession: string,
+  options: { baseUrl?: string; version?: number } = {},
+): string {
+  const { molstar } = getAppConfig();
+  const {
+    baseUrl = molstar.alphafoldProvider,
+    version = molstar.alphafoldModelVersion,
+  } = options;
+
+  if (!baseUrl || !version) {
+    throw new Error("AlphaFold DB provider is not configured");
+  }
+
+  return `${baseUrl.replace(/\/+$/, "")}/AF-${accession}-F1-model_v${version}.cif`;
+}
+
+/**
+ * Confidence band for a pLDDT score
+ */
+export function getPLDDTBand(score: number): PLDDTBand {
+  return (
+    PLDDT_BANDS.find((band) => score > band.min) ??
+    PLDDT_BANDS[PLDDT_BANDS.length - 1]
+  );
+}
@@ -6,7 +6,10 @@ export const HIGHLIGHTING_CONFIG = {
   /** Default debounce delay for hover highlighting (ms) */
   HOVER_DEBOUNCE_MS: 150,
 
-  /** Whether to use auth numbering (author) vs label numbering by default */
+  /**
+   * Whether to use auth numbering (author) vs label numbering for regions
+   * without a label_seq_id span (SelectionRegion.labelRange)
+   */
   USE_AUTH_NUMBERING: true,
 
   /** Default highlight color themes */
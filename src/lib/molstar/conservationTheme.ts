@@ -0,0 +1,164 @@
+/**
+ * Conservation Colour Theme
+ *
+ * Mol* colour theme for per-residue conservation scores imported from an
+ * MSA. Scores are registered per model, keyed like the sequence grid
+ * (author chain, number and insertion code), so the 3D colours match the
+ * "conservation" sequence colour scheme.
+ */
+
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import type { StructureRef } from "molstar/lib/mol-plugin-state/manager/structure/hierarchy-state";
+import { createStructureColorThemeParams } from "molstar/lib/mol-plugin-state/helpers/structure-representation-params";
+import type { ColorTheme } from "molstar/lib/mol-theme/color";
+import type { ThemeDataContext } from "molstar/lib/mol-theme/theme";
+import type { Location } from "molstar/lib/mol-model/location";
+import {
+  StructureElement,
+  StructureProperties,
+} from "molstar/lib/mol-model/structure";
+import { ColorThemeCategory } from "molstar/lib/mol-theme/color/categories";
+import { ParamDefinition as PD } from "molstar/lib/mol-util/param-definition";
+import { Color } from "molstar/lib/mol-util/color";
+import { CONSERVATION_GRADES, getConservationColor } from "../aminoAcidColors";
+import { isInteractionsComponent } from "./interactions";
+import { findStructureRef } from "./sceneStructures";
+import { getResidueKey } from "./sequenceToMolstar";
+
+export const CONSERVATION_COLOR_THEME = "structure-viewer-conservation";
+
+/** Colour of residues without a score */
+const NO_SCORE_COLOR = Color(0xd4d4d8);
+
+const ConservationColorThemeParams = {
+  /** Bumped on every update so Mol* recomputes the colours */
+  version: PD.Numeric(0, {}, { isHidden: true }),
+};
+type ConservationColorThemeParams = typeof ConservationColorThemeParams;
+
+/** Scores by model id, then residue key */
+const scoresByModel = new Map<string, Map<string, number>>();
+let version = 0;
+
+function ConservationColorTheme(
+  ctx: ThemeDataContext,
+  props: PD.Values<ConservationColorThemeParams>,
+): ColorTheme<ConservationColorThemeParams> {
+  const scores = ctx.structure
+    ? scoresByModel.get(ctx.structure.model.id)
+    : undefined;
+
+  const color = (location: Location): Color => {
+    if (!scores || !StructureElement.Location.is(location)) {
+      return NO_SCORE_COLOR;
+    }
+    const key = getResidueKey(
+      StructureProperties.chain.auth_asym_id(location),
+      StructureProperties.residue.auth_seq_id(location),
+      StructureProperties.residue.pdbx_PDB_ins_code(location) || undefined,
+    );
+    const score = scores.get(key);
+    return score === undefined
+      ? NO_SCORE_COLOR
+      : Color.fromHexStyle(getConservationColor(score));
+  };
+
+  return {
+    factory: ConservationColorTheme,
+    granularity: "group",
+    color,
+    props,
+    description: "Conservation from an imported multiple sequence alignment",
+    legend: {
+      kind: "scale-legend",
+      minLabel: "Variable",
+      maxLabel: "Conserved",
+      colors: CONSERVATION_GRADES.map((hex) => Color.fromHexStyle(hex)),
+    },
+  };
+}
+
+const ConservationColorThemeProvider: ColorTheme.Provider<
+  ConservationColorThemeParams,
+  typeof CONSERVATION_COLOR_THEME
+> = {
+  name: CONSERVATION_COLOR_THEME,
+  label: "Conservation (MSA)",
+  category: ColorThemeCategory.Residue,
+  factory: ConservationColorTheme,
+  getParams: () => ConservationColorThemeParams,
+  defaultValues: PD.getDefaultValues(ConservationColorThemeParams),
+  isApplicable: (ctx) => !!ctx.structure,
+};
+
+/**
+ * Set the colour theme of a structure's representations, leaving the
+ * interaction lines alone; no theme name restores each representation's
+ * default
+ */
+async function setStructureColorTheme(
+  plugin: PluginUIContext,
+  structure: StructureRef,
+  themeName?: string,
+  params?: PD.Values<ConservationColorThemeParams>,
+): Promise<void> {
+  const update = plugin.state.data.build();
+  for (const component of structure.components) {
+    if (isInteractionsComponent(component)) continue;
+    for (const representation of component.representations) {
+      const colorTheme = createStructureColorThemeParams(
+        plugin,
+        structure.cell.obj?.data,
+        representation.cell.transform.params?.type.name,
+        themeName,
+        params,
+      );
+      update.to(representation.cell).update((old) => {
+        old.colorTheme = colorTheme;
+      });
+    }
+  }
+  await update.commit();
+}
+
+/**
+ * Colour a scene structure by conservation scores (keyed by residue key)
+ */
+export async function applyConservationColoring(
+  plugin: PluginUIContext,
+  structureRef: string,
+  scores: Map<string, number>,
+): Promise<void> {
+  const structure = findStructureRef(plugin, structureRef);
+  const data = structure?.cell.obj?.data;
+  if (!structure || !data) throw new Error("Structure not found");
+
+  const registry = plugin.representation.structure.themes.colorThemeRegistry;
+  if (!registry.has(ConservationColorThemeProvider)) {
+    registry.add(ConservationColorThemeProvider);
+  }
+
+  scoresByModel.set(data.model.id, scores);
+  version++;
+
+  await setStructureColorTheme(plugin, structure, CONSERVATION_COLOR_THEME, {
+    version,
+  });
+}
+
+/**
+ * Drop the conservation scores of a structure and restore a colour theme
+ */
+export async function clearConservationColoring(
+  plugin: PluginUIContext,
+  structureRef: string,
+  colorTheme?: string,
+): Promise<void> {
+  const structure = findStructureRef(plugin, structureRef);
+  const data = structure?.cell.obj?.data;
+  if (!structure || !data) return;
+
+  scoresByModel.delete(data.model.id);
+
+  await setStructureColorTheme(plugin, structure, colorTheme);
+}
@@ -0,0 +1,297 @@
+/**
+ * Coordinate Export
+ *
+ * Writes part of a scene structure to a PDB or mmCIF file: the selected
+ * residues, the whole chains they belong to, or everything still displayed
+ * after hide, isolate and remove operations. Ligands and ions near the
+ * exported atoms can be added as whole residues. Chain ids, author numbering
+ * and ATOM/HETATM records are kept, and coordinates are written where the
+ * atoms sit in the scene, i.e. after superposition.
+ */
+
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import {
+  type ElementIndex,
+  Structure,
+  StructureElement,
+  StructureProperties,
+  StructureSelection,
+  Unit,
+} from "molstar/lib/mol-model/structure";
+import { to_mmCIF } from "molstar/lib/mol-model/structure/export/mmcif";
+import { MolScriptBuilder as MS } from "molstar/lib/mol-script/language/builder";
+import { Script } from "molstar/lib/mol-script/script";
+import { OrderedSet, SortedArray } from "molstar/lib/mol-data/int";
+import { Vec3 } from "molstar/lib/mol-math/linear-algebra";
+import { buildResidueRangeLoci } from "./highlighting";
+import { findStructureRef } from "./sceneStructures";
+import { HIGHLIGHTING_CONFIG } from "./config";
+import type {
+  CoordinateExportOptions,
+  CoordinateFormat,
+} from "@/types/molstar";
+
+export const COORDINATE_FORMATS: {
+  value: CoordinateFormat;
+  label: string;
+  extension: string;
+}[] = [
+  { value: "pdb", label: "PDB", extension: "pdb" },
+  { value: "mmcif", label: "mmCIF", extension: "cif" },
+];
+
+/** Largest atom serial number the PDB format has room for */
+const MAX_PDB_ATOMS = 99999;
+
+/**
+ * Exported atoms as a loci on `data`, the structure as placed in the scene
+ */
+function getScopeLoci(
+  plugin: PluginUIContext,
+  structureRef: string,
+  data: Structure,
+  { scope, ranges }: CoordinateExportOptions,
+): StructureElement.Loci | null {
+  const structure = findStructureRef(plugin, structureRef);
+  if (!structure) return null;
+
+  if (scope === "visible") {
+    let loci: StructureElement.Loci | null = null;
+    for (const component of structure.components) {
+      const componentData = component.cell.obj?.data;
+      if (!componentData || component.cell.state.isHidden) continue;
+
+      const componentLoci = StructureElement.Loci.remap(
+        Structure.toStructureElementLoci(componentData),
+        data,
+      );
+      loci = loci
+        ? StructureElement.Loci.union(loci, componentLoci)
+        : componentLoci;
+    }
+    return loci;
+  }
+
+  if (scope === "chains") {
+    const chainIds = [...new Set(ranges.map((range) => range.chainId))];
+    const query = MS.struct.generator.atomGroups({
+      "chain-test": MS.core.set.has([
+        MS.set(...chainIds),
+        MS.struct.atomProperty.macromolecular.auth_asym_id(),
+      ]),
+    });
+    return StructureSelection.toLociWithSourceUnits(
+      Script.getStructureSelection(query, data),
+    );
+  }
+
+  const loci = buildResidueRangeLoci(
+    plugin,
+    ranges.map(({ chainId, start, end, labelRange }) =>
+      labelRange
+        ? {
+            chain: labelRange.chainId,
+            start: labelRange.start,
+            end: labelRange.end,
+            auth: false,
+          }
+        : {
+            chain: chainId,
+            start,
+            end,
+            auth: HIGHLIGHTING_CONFIG.USE_AUTH_NUMBERING,
+          },
+    ),
+    structureRef,
+  );
+  return loci && StructureElement.Loci.is(loci)
+    ? StructureElement.Loci.remap(loci, data)
+    : null;
+}
+
+/**
+ * Whole ligand and ion residues with an atom within `radius` of the loci
+ */
+function getNearbyLigands(
+  data: Structure,
+  loci: StructureElement.Loci,
+  radius: number,
+): StructureElement.Loci {
+  const found = new Map<
+    number,
+    { unit: Unit; indices: Set<StructureElement.UnitIndex> }
+  >();
+  const location = StructureElement.Location.create(data);
+  const position = Vec3();
+
+  for (const { unit, indices } of loci.elements) {
+    OrderedSet.forEach(indices, (index) => {
+      unit.conformation.position(unit.elements[index], position);
+      const nearby = data.lookup3d.find(
+        position[0],
+        position[1],
+        position[2],
+        radius,
+      );
+      for (let i = 0; i < nearby.count; i++) {
+        const nearbyUnit = nearby.units[i];
+        location.unit = nearbyUnit;
+        location.element = nearbyUnit.elements[nearby.indices[i]];
+        // Non-polymer entities are ligands and ions; water is left out
+        if (StructureProperties.entity.type(location) !== "non-polymer") {
+          continue;
+        }
+
+        let entry = found.get(nearbyUnit.id);
+        if (!entry) {
+          entry = { unit: nearbyUnit, indices: new Set() };
+          found.set(nearbyUnit.id, entry);
+        }
+        entry.indices.add(nearby.indices[i]);
+      }
+    });
+  }
+
+  const ligands = StructureElement.Loci(
+    data,
+    [...found.values()].map(({ unit, indices }) => ({
+      unit,
+      indices: SortedArray.ofUnsortedArray([...indices]),
+    })),
+  );
+  return StructureElement.Loci.extendToWholeResidues(ligands);
+}
+
+/**
+ * Atom name in columns 13-16: names shorter than four characters of
+ * one-letter elements start in column 14, so the element lines up
+ */
+function formatAtomName(name: string, element: string): string {
+  return name.length < 4 && element.length === 1
+    ? ` ${name}`.padEnd(4)
+    : name.slice(0, 4).padEnd(4);
+}
+
+function formatCharge(charge: number): string {
+  if (!charge) return "  ";
+  return `${Math.abs(charge)}${charge > 0 ? "+" : "-"}`;
+}
+
+/**
+ * PDB format text of a structure; throws if it does not fit the format
+ */
+export function toPdb(structure: Structure): string {
+  const lines: string[] = [];
+  const location = StructureElement.Location.create(structure);
+  const position = Vec3();
+  const { atom, residue, chain } = StructureProperties;
+  let serial = 0;
+  // Chain of the last ATOM record, closed with a TER record repeating its
+  // residue columns when the chain ends
+  let openChain: string | null = null;
+  let lastResidueColumns = "";
+
+  const terminate = () => {
+    if (openChain === null) return;
+    lines.push(
+      `TER   ${String(++serial).padStart(5)}      ${lastResidueColumns}`,
+    );
+    openChain = null;
+  };
+
+  for (const unit of structure.units) {
+    if (!Unit.isAtomic(unit)) continue;
+    location.unit = unit;
+
+    for (let i = 0; i < unit.elements.length; i++) {
+      const element: ElementIndex = unit.elements[i];
+      location.element = element;
+
+      const chainId = chain.auth_asym_id(location);
+      if (chainId.length > 1) {
+        throw new Error(
+          `Chain ID "${chainId}" does not fit the PDB format; export as mmCIF`,
+        );
+      }
+      const record =
+        residue.group_PDB(location) === "HETATM" ? "HETATM" : "ATOM";
+      if (openChain !== null && (record !== "ATOM" || chainId !== openChain)) {
+        terminate();
+      }
+      if (++serial > MAX_PDB_ATOMS) {
+        throw new Error(
+          `More than ${MAX_PDB_ATOMS} atoms do not fit the PDB format; export as mmCIF`,
+        );
+      }
+
+      unit.conformation.position(element, position);
+      const symbol = String(atom.type_symbol(location));
+      const residueColumns =
+        atom.auth_comp_id(location).slice(0, 3).padStart(3) +
+        " " +
+        chainId.padStart(1) +
+        String(residue.auth_seq_id(location)).padStart(4) +
+        (residue.pdbx_PDB_ins_code(location) || " ").slice(0, 1);
+      lines.push(
+        record.padEnd(6) +
+          String(serial).padStart(5) +
+          " " +
+          formatAtomName(atom.auth_atom_id(location), symbol) +
+          (atom.label_alt_id(location) || " ").slice(0, 1) +
+          residueColumns +
+          "   " +
+          position[0].toFixed(3).padStart(8) +
+          position[1].toFixed(3).padStart(8) +
+          position[2].toFixed(3).padStart(8) +
+          atom.occupancy(location).toFixed(2).padStart(6) +
+          atom.B_iso_or_equiv(location).toFixed(2).padStart(6) +
+          " ".repeat(10) +
+          symbol.toUpperCase().padStart(2) +
+          formatCharge(atom.pdbx_formal_charge(location)),
+      );
+      if (record === "ATOM") {
+        openChain = chainId;
+        lastResidueColumns = residueColumns;
+      }
+    }
+    terminate();
+  }
+
+  lines.push("END");
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Write part of a scene structure as PDB or mmCIF text
+ */
+export function exportCoordinates(
+  plugin: PluginUIContext,
+  structureRef: string,
+  name: string,
+  options: CoordinateExportOptions,
+): string {
+  const structure = findStructureRef(plugin, structureRef);
+  // Superposed structures are exported where they are shown
+  const data =
+    structure?.transform?.cell.obj?.data ?? structure?.cell.obj?.data;
+  if (!data) throw new Error("Structure not found in the scene");
+  if (options.scope !== "visible" && options.ranges.length === 0) {
+    throw new Error("Select residues to export");
+  }
+
+  let loci = getScopeLoci(plugin, structureRef, data, options);
+  if (!loci || StructureElement.Loci.isEmpty(loci)) {
+    throw new Error("No atoms to export");
+  }
+  if (options.ligandRadius && options.ligandRadius > 0) {
+    loci = StructureElement.Loci.union(
+      loci,
+      getNearbyLigands(data, loci, options.ligandRadius),
+    );
+  }
+
+  const subset = StructureElement.Loci.toStructure(loci);
+  return options.format === "pdb"
+    ? toPdb(subset)
+    : (to_mmCIF(name, subset) as string);
+}
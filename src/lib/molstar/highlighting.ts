@@ -3,31 +3,29 @@ import { MolScriptBuilder as MS } from "molstar/lib/mol-script/language/builder"
 import { Script } from "molstar/lib/mol-script/script";
 import { StructureSelection } from "molstar/lib/mol-model/structure/query";
 import type { Loci } from "molstar/lib/mol-model/loci";
+import { StructureElement } from "molstar/lib/mol-model/structure";
 import { setStructureOverpaint } from "molstar/lib/mol-plugin-state/helpers/structure-overpaint";
 import { Color } from "molstar/lib/mol-util/color";
+import { findStructureData } from "./sceneStructures";
 
 export type ResidueRange = {
   chain: string;
   start: number;
   end: number;
   auth?: boolean;
+  /** Insertion code of a single residue (start === end); "" means none */
+  insCode?: string;
 };
 
-function getCurrentStructureData(plugin: PluginUIContext) {
-  return (
-    plugin.managers.structure.hierarchy.current.structures[0]?.cell.obj?.data ??
-    null
-  );
-}
-
 export function buildResidueRangeLoci(
   plugin: PluginUIContext,
   ranges: ResidueRange[],
+  structureRef?: string | null,
 ): Loci | null {
-  const data = getCurrentStructureData(plugin);
+  const data = findStructureData(plugin, structureRef);
   if (!data || ranges.length === 0) return null;
 
-  const groups = ranges.map(({ chain, start, end, auth }) => {
+  const groups = ranges.map(({ chain, start, end, auth, insCode }) => {
     const chainProp = auth
       ? MS.struct.atomProperty.macromolecular.auth_asym_id()
       : MS.struct.atomProperty.macromolecular.label_asym_id();
@@ -35,9 +33,20 @@ export function buildResidueRangeLoci(
       ? MS.struct.atomProperty.macromolecular.auth_seq_id()
       : MS.struct.atomProperty.macromolecular.label_seq_id();
 
+    const residueTest =
+      insCode !== undefined && start === end
+        ? MS.core.logic.and([
+            MS.core.rel.eq([seqProp, start]),
+            MS.core.rel.eq([
+              MS.struct.atomProperty.macromolecular.pdbx_PDB_ins_code(),
+              insCode,
+            ]),
+          ])
+        : MS.core.rel.inRange([seqProp, start, end]);
+
     return MS.struct.generator.atomGroups({
       "chain-test": MS.core.rel.eq([chainProp, chain]),
-      "residue-test": MS.core.rel.inRange([seqProp, start, end]),
+      "residue-test": residueTest,
     });
   });
 
@@ -60,24 +69,19 @@ export async function selectOnly(plugin: PluginUIContext, loci: Loci) {
   plugin.managers.interactivity.lociSelects.select({ loci });
 
   try {
-    const hierarchy = plugin.managers.structure.hierarchy.current;
-    if (hierarchy.structures.length > 0) {
-      const struct = hierarchy.structures[0];
-      if (struct.cell.obj?.data) {
-        const structRef = plugin.managers.structure.hierarchy.findStructure(
-          struct.cell.obj.data,
-        );
-
-        if (structRef) {
-          const color = Color(0xff0000);
-          await setStructureOverpaint(
-            plugin,
-            structRef.components,
-            color,
-            async () => loci as any,
-          );
-        }
-      }
+    // Overpaint the structure the loci belongs to
+    const structRef = StructureElement.Loci.is(loci)
+      ? plugin.managers.structure.hierarchy.findStructure(loci.structure)
+      : undefined;
+
+    if (structRef) {
+      const color = Color(0xff0000);
+      await setStructureOverpaint(
+        plugin,
+        structRef.components,
+        color,
+        async () => loci as any,
+      );
     }
   } catch (error) {
     console.error("Overpaint highlighting failed:", error);
@@ -95,22 +99,13 @@ export async function clearAllSelections(plugin: PluginUIContext) {
 
   try {
     const hierarchy = plugin.managers.structure.hierarchy.current;
-    if (hierarchy.structures.length > 0) {
-      const struct = hierarchy.structures[0];
-      if (struct.cell.obj?.data) {
-        const structRef = plugin.managers.structure.hierarchy.findStructure(
-          struct.cell.obj.data,
-        );
-
-        if (structRef) {
-          await setStructureOverpaint(
-            plugin,
-            structRef.components,
-            Color(-1),
-            async () => ({ kind: "empty-loci" }) as any,
-          );
-        }
-      }
+    for (const structRef of hierarchy.structures) {
+      await setStructureOverpaint(
+        plugin,
+        structRef.components,
+        Color(-1),
+        async () => ({ kind: "empty-loci" }) as any,
+      );
     }
   } catch (error) {
     console.warn("Clear overpaint failed:", error);
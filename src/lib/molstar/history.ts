@@ -0,0 +1,313 @@
+/**
+ * View History
+ *
+ * Undo and redo for what the viewer shows. Each entry keeps the Mol* state
+ * tree from before an operation, serialized with its transform versions,
+ * and the sequence selection at that time. Restoring an entry replaces the
+ * components and representations of each structure still in the scene;
+ * Mol* only rebuilds the cells whose versions differ, so nothing is
+ * downloaded or parsed again. Measurements, interactions and superposition
+ * transforms are left as they are.
+ */
+
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import { StateTransform, StateTree } from "molstar/lib/mol-state";
+import { StateTransforms } from "molstar/lib/mol-plugin-state/transforms";
+import type { ViewHistoryState } from "@/types/molstar";
+import type { SelectionRegion } from "@/types/sequence";
+import { INTERACTIONS_TAG } from "./interactions";
+
+/** Oldest entries are dropped beyond this */
+const MAX_HISTORY_ENTRIES = 50;
+
+export type SceneSnapshot = StateTree.Serialized;
+
+export interface ViewHistoryEntry {
+  /** Operation the entry reverts, e.g. "Hide chain A" */
+  label: string;
+  scene: SceneSnapshot;
+  selection: SelectionRegion[];
+}
+
+/**
+ * Undo and redo stacks of view history entries
+ */
+export class viewHistory {
+  private past: ViewHistoryEntry[] = [];
+  private future: ViewHistoryEntry[] = [];
+  private listeners = new Set<() => void>();
+
+  constructor(private capacity: number = MAX_HISTORY_ENTRIES) {}
+
+  /**
+   * Record the state from before an operation; redo is no longer possible
+   */
+  push(entry: ViewHistoryEntry): void {
+    this.past.push(entry);
+    if (this.past.length > this.capacity) this.past.shift();
+    this.future = [];
+    this.notify();
+  }
+
+  /**
+   * Take the entry to restore for undo. The current state becomes
+   * redoable under the same label.
+   */
+  undo(current: Omit<ViewHistoryEntry, "label">): ViewHistoryEntry | null {
+    const entry = this.past.pop();
+    if (!entry) return null;
+
+    this.future.push({ ...current, label: entry.label });
+    this.notify();
+    return entry;
+  }
+
+  /**
+   * Take the entry to restore for redo. The current state becomes
+   * undoable again.
+   */
+  redo(current: Omit<ViewHistoryEntry, "label">): ViewHistoryEntry | null {
+    const entry = this.future.pop();
+    if (!entry) return null;
+
+    this.past.push({ ...current, label: entry.label });
+    this.notify();
+    return entry;
+  }
+
+  clear(): void {
+    if (this.past.length === 0 && this.future.length === 0) return;
+    this.past = [];
+    this.future = [];
+    this.notify();
+  }
+
+  getState(): ViewHistoryState {
+    return {
+      canUndo: this.past.length > 0,
+      canRedo: this.future.length > 0,
+      undoLabel: this.past[this.past.length - 1]?.label,
+      redoLabel: this.future[this.future.length - 1]?.label,
+    };
+  }
+
+  subscribe(callback: () => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  private notify(): void {
+    this.listeners.forEach((callback) => callback());
+  }
+}
+
+/**
+ * Serialize the current Mol* state tree
+ */
+export function captureScene(plugin: PluginUIContext): SceneSnapshot {
+  return StateTree.toJSON(plugin.state.data.tree);
+}
+
+/**
+ * Whether two snapshots show the same thing: same cells, versions and
+ * visibility
+ */
+export function isSameScene(a: SceneSnapshot, b: SceneSnapshot): boolean {
+  return (
+    a.transforms.length === b.transforms.length &&
+    a.transforms.every((transform, index) => {
+      const other = b.transforms[index];
+      return (
+        transform.ref === other.ref &&
+        transform.version === other.version &&
+        !!transform.state?.isHidden === !!other.state?.isHidden
+      );
+    })
+  );
+}
+
+const STRUCTURE_COMPONENT = StateTransforms.Model.StructureComponent.id;
+
+/**
+ * Components restored from history: the structure's own components, not
+ * the interactions drawn on it
+ */
+function isRestorableComponent(transformer: string, tags?: string[]) {
+  return (
+    transformer === STRUCTURE_COMPONENT && !tags?.includes(INTERACTIONS_TAG)
+  );
+}
+
+interface StructureSubtree {
+  /** Cells between the structure and its components, the structure included */
+  containers: string[];
+  /** Restorable components, without their representations */
+  components: string[];
+}
+
+/**
+ * Walk a structure's subtree down to its components. Components sit below
+ * the structure, its custom properties or its superposition transform.
+ */
+function getStructureSubtree(
+  structureRef: string,
+  getChildren: (ref: string) => string[],
+  getTransform: (ref: string) => { transformer: string; tags?: string[] },
+): StructureSubtree {
+  const subtree: StructureSubtree = { containers: [], components: [] };
+  const visit = (ref: string) => {
+    const { transformer, tags } = getTransform(ref);
+    if (transformer === STRUCTURE_COMPONENT) {
+      if (isRestorableComponent(transformer, tags)) {
+        subtree.components.push(ref);
+      }
+      return;
+    }
+    subtree.containers.push(ref);
+    getChildren(ref).forEach(visit);
+  };
+  visit(structureRef);
+  return subtree;
+}
+
+/**
+ * Child refs of each cell in a snapshot
+ */
+function getSceneChildren(scene: SceneSnapshot): Map<string, string[]> {
+  const children = new Map<string, string[]>();
+  for (const transform of scene.transforms) {
+    if (transform.ref === transform.parent) continue;
+    const siblings = children.get(transform.parent) ?? [];
+    siblings.push(transform.ref);
+    children.set(transform.parent, siblings);
+  }
+  return children;
+}
+
+/**
+ * Rewrite a snapshot taken in another scene, e.g. one saved with a session,
+ * onto the structures now loaded from the same sources. `structureRefs` maps
+ * saved structure refs to current ones; the cells between each structure and
+ * its components are matched in order, so `restoreScene` can put the saved
+ * components back. Structures whose cells differ are left unmatched.
+ */
+export function remapScene(
+  plugin: PluginUIContext,
+  scene: SceneSnapshot,
+  structureRefs: Map<string, string>,
+): SceneSnapshot {
+  const tree = plugin.state.data.tree;
+  const saved = new Map(scene.transforms.map((t) => [t.ref, t]));
+  const savedChildren = getSceneChildren(scene);
+  const refs = new Map<string, string>();
+
+  for (const [savedRef, currentRef] of structureRefs) {
+    if (!saved.has(savedRef) || !tree.transforms.has(currentRef)) continue;
+
+    const before = getStructureSubtree(
+      savedRef,
+      (ref) => savedChildren.get(ref) ?? [],
+      (ref) => saved.get(ref)!,
+    );
+    const current = getStructureSubtree(
+      currentRef,
+      (ref) => tree.children.get(ref).toArray(),
+      (ref) => {
+        const transform = tree.transforms.get(ref);
+        return { transformer: transform.transformer.id, tags: transform.tags };
+      },
+    );
+    const isSameLayout =
+      before.containers.length === current.containers.length &&
+      before.containers.every(
+        (ref, i) =>
+          saved.get(ref)!.transformer ===
+          tree.transforms.get(current.containers[i]).transformer.id,
+      );
+    if (!isSameLayout) continue;
+
+    before.containers.forEach((ref, i) => refs.set(ref, current.containers[i]));
+  }
+
+  const rename = (ref: string) => refs.get(ref) ?? ref;
+  return {
+    ...scene,
+    transforms: scene.transforms.map((transform) => ({
+      ...transform,
+      ref: rename(transform.ref),
+      parent: rename(transform.parent),
+    })),
+  };
+}
+
+/**
+ * Put the components, representations and visibility of the structures in
+ * a snapshot back in place. Structures loaded since the snapshot, or whose
+ * components now sit below different cells, e.g. after a superposition,
+ * are left as they are.
+ */
+export async function restoreScene(
+  plugin: PluginUIContext,
+  scene: SceneSnapshot,
+): Promise<void> {
+  const state = plugin.state.data;
+  // A copy, so the live tree is not changed before the update runs
+  const tree = StateTree.fromJSON(StateTree.toJSON(state.tree)).asTransient();
+
+  const saved = new Map(scene.transforms.map((t) => [t.ref, t]));
+  const savedChildren = getSceneChildren(scene);
+
+  const addSubtree = (ref: string) => {
+    tree.add(StateTransform.fromJSON(saved.get(ref)!));
+    savedChildren.get(ref)?.forEach(addSubtree);
+  };
+
+  for (const structure of plugin.managers.structure.hierarchy.current
+    .structures) {
+    const structureRef = structure.cell.transform.ref;
+    if (!saved.has(structureRef)) continue;
+
+    const before = getStructureSubtree(
+      structureRef,
+      (ref) => savedChildren.get(ref) ?? [],
+      (ref) => saved.get(ref)!,
+    );
+    const current = getStructureSubtree(
+      structureRef,
+      (ref) => tree.children.get(ref).toArray(),
+      (ref) => {
+        const transform = tree.transforms.get(ref);
+        return { transformer: transform.transformer.id, tags: transform.tags };
+      },
+    );
+    const canRestore =
+      before.components.length > 0 &&
+      before.components.every((ref) =>
+        current.containers.includes(saved.get(ref)!.parent),
+      );
+    if (!canRestore) continue;
+
+    current.components.forEach((ref) => tree.remove(ref));
+    before.components.forEach(addSubtree);
+
+    // Hiding a structure hides its whole subtree
+    for (const ref of current.containers) {
+      const transform = saved.get(ref);
+      if (transform) {
+        tree.assignState(ref, { isHidden: !!transform.state?.isHidden });
+      }
+    }
+  }
+
+  await plugin.runTask(state.updateTree(tree.asImmutable()));
+}
+
+/**
+ * Whether two selections cover the same regions
+ */
+export function isSameSelection(
+  a: SelectionRegion[],
+  b: SelectionRegion[],
+): boolean {
+  return a.length === b.length && a.every((region, i) => region.id === b[i].id);
+}
@@ -0,0 +1,238 @@
+/**
+ * Image Export
+ *
+ * Renders the Mol* scene to a PNG of any size through the plugin's
+ * screenshot helper, which keeps selection and highlight marking, then
+ * burns in an optional title and scale bar and writes the print resolution
+ * into the PNG (pHYs chunk) so figures place at the right size.
+ */
+
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import { Vec3 } from "molstar/lib/mol-math/linear-algebra";
+import { Color } from "molstar/lib/mol-util/color";
+import type { ImageExportOptions } from "@/types/molstar";
+
+/** Largest image side; bigger render buffers fail on most GPUs */
+export const MAX_IMAGE_SIZE = 8192;
+
+export const IMAGE_DPI_OPTIONS = [72, 150, 300, 600];
+
+/** Preset widths; the height follows the viewport's aspect ratio */
+export const IMAGE_SIZE_PRESETS = [
+  { id: "viewport", label: "Viewport", width: null },
+  { id: "full-hd", label: "Full HD (1920 px)", width: 1920 },
+  { id: "4k", label: "4K (3840 px)", width: 3840 },
+  { id: "8k", label: "8K (7680 px)", width: 7680 },
+] as const;
+
+const PNG_SIGNATURE_LENGTH = 8;
+const INCHES_PER_METRE = 39.3701;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * PNG with its pHYs chunk set to the given DPI; an existing one is replaced
+ */
+export function setPngDpi(
+  png: Uint8Array,
+  dpi: number,
+): Uint8Array<ArrayBuffer> {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const pixelsPerMetre = Math.round(dpi * INCHES_PER_METRE);
+
+  // Type and data of the new chunk, followed by its CRC
+  const phys = new Uint8Array(4 + 9);
+  phys.set([0x70, 0x48, 0x59, 0x73]); // "pHYs"
+  const physView = new DataView(phys.buffer);
+  physView.setUint32(4, pixelsPerMetre);
+  physView.setUint32(8, pixelsPerMetre);
+  phys[12] = 1; // unit: metre
+  const physChunk = new Uint8Array(4 + phys.length + 4);
+  const physChunkView = new DataView(physChunk.buffer);
+  physChunkView.setUint32(0, 9);
+  physChunk.set(phys, 4);
+  physChunkView.setUint32(4 + phys.length, crc32(phys));
+
+  const chunks: Uint8Array[] = [png.subarray(0, PNG_SIGNATURE_LENGTH)];
+  let offset = PNG_SIGNATURE_LENGTH;
+  while (offset + 8 <= png.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (type !== "pHYs") chunks.push(png.subarray(offset, end));
+    // Placed right after the header, as it must come before the image data
+    if (type === "IHDR") chunks.push(physChunk);
+    offset = end;
+  }
+
+  const result = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Size of the 3D viewport in pixels, or null before the viewer is ready
+ */
+export function getViewportSize(
+  plugin: PluginUIContext,
+): { width: number; height: number } | null {
+  const viewport = plugin.canvas3d?.camera.viewport;
+  if (!viewport || viewport.width <= 0 || viewport.height <= 0) return null;
+  return { width: viewport.width, height: viewport.height };
+}
+
+/**
+ * Image pixels per Ångström at the camera target, for an image of the given
+ * height; the vertical field of view spans the image height
+ */
+function getPixelsPerAngstrom(
+  plugin: PluginUIContext,
+  imageHeight: number,
+): number | null {
+  const camera = plugin.canvas3d?.camera.getSnapshot();
+  if (!camera) return null;
+
+  const distance = Vec3.distance(camera.position, camera.target);
+  const visibleHeight = 2 * distance * Math.tan(camera.fov / 2);
+  return visibleHeight > 0 ? imageHeight / visibleHeight : null;
+}
+
+/**
+ * Round length no longer than the given one: 1, 2 or 5 times a power of ten
+ */
+function getScaleBarLength(maxAngstroms: number): number {
+  const magnitude = 10 ** Math.floor(Math.log10(maxAngstroms));
+  const step = [5, 2, 1].find((s) => s * magnitude <= maxAngstroms) ?? 1;
+  return step * magnitude;
+}
+
+/**
+ * Colour for text and the scale bar that reads against the background;
+ * dark on transparent images, which usually go on white pages
+ */
+function getOverlayColor(plugin: PluginUIContext, transparent: boolean) {
+  const background = plugin.canvas3d?.props.renderer.backgroundColor;
+  if (transparent || background === undefined) return "#000000";
+
+  const [r, g, b] = Color.toRgb(background);
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  return luminance > 0.5 ? "#000000" : "#ffffff";
+}
+
+/**
+ * Render the current scene, with its selection and highlights, to a PNG
+ */
+export async function renderImage(
+  plugin: PluginUIContext,
+  options: ImageExportOptions,
+): Promise<Blob> {
+  const helper = plugin.helpers.viewportScreenshot;
+  if (!helper) throw new Error("The 3D viewer is not ready");
+
+  const width = Math.round(options.width);
+  const height = Math.round(options.height);
+  if (
+    !(width > 0 && height > 0) ||
+    width > MAX_IMAGE_SIZE ||
+    height > MAX_IMAGE_SIZE
+  ) {
+    throw new Error(
+      `Image size must be between 1 and ${MAX_IMAGE_SIZE} pixels per side`,
+    );
+  }
+
+  // The helper's settings are shared with the Mol* screenshot UI
+  const previousValues = helper.values;
+  const previousCrop = helper.relativeCrop;
+  let dataUri: string;
+  try {
+    helper.behaviors.values.next({
+      ...previousValues,
+      resolution: { name: "custom", params: { width, height } },
+      format: { name: "png", params: {} },
+      transparent: options.transparentBackground,
+      axes: { name: "off", params: {} },
+    });
+    helper.resetCrop();
+    dataUri = await helper.getImageDataUri();
+  } finally {
+    helper.behaviors.values.next(previousValues);
+    helper.behaviors.relativeCrop.next(previousCrop);
+  }
+
+  const image = await createImageBitmap(await (await fetch(dataUri)).blob());
+  const canvas = document.createElement("canvas");
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Could not draw the image");
+  context.drawImage(image, 0, 0);
+  image.close();
+
+  const color = getOverlayColor(plugin, options.transparentBackground);
+  const margin = Math.round(Math.min(width, height) * 0.03);
+  context.fillStyle = color;
+  context.textBaseline = "top";
+
+  const title = options.title?.trim();
+  if (title) {
+    const fontSize = Math.max(12, Math.round(height * 0.035));
+    context.font = `600 ${fontSize}px ui-sans-serif, system-ui, sans-serif`;
+    context.textAlign = "left";
+    context.fillText(title, margin, margin, width - 2 * margin);
+  }
+
+  const pixelsPerAngstrom = options.scaleBar
+    ? getPixelsPerAngstrom(plugin, height)
+    : null;
+  if (pixelsPerAngstrom) {
+    // At most a fifth of the image wide
+    const length = getScaleBarLength((width * 0.2) / pixelsPerAngstrom);
+    const barWidth = length * pixelsPerAngstrom;
+    const barHeight = Math.max(2, Math.round(height * 0.006));
+    const fontSize = Math.max(10, Math.round(height * 0.025));
+    const x = width - margin - barWidth;
+    const y = height - margin - barHeight;
+
+    context.fillRect(x, y, barWidth, barHeight);
+    context.font = `${fontSize}px ui-sans-serif, system-ui, sans-serif`;
+    context.textAlign = "center";
+    context.textBaseline = "bottom";
+    context.fillText(
+      `${length} Å`,
+      x + barWidth / 2,
+      y - Math.round(fontSize * 0.3),
+    );
+  }
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/png"),
+  );
+  if (!blob) throw new Error("Could not encode the image");
+
+  const png = setPngDpi(new Uint8Array(await blob.arrayBuffer()), options.dpi);
+  return new Blob([png], { type: "image/png" });
+}
@@ -11,6 +11,8 @@ export {
 
 // Type conversion utilities
 export {
+  getResidueKey,
+  residueKeysToSelectionRegions,
   selectionRegionsToResidueRanges,
   sequenceResiduesToResidueRanges,
   sequenceResidueToResidueRange,
@@ -36,5 +38,119 @@ export {
 // Representation types
 export type { RepresentationType } from "@/types/molstar";
 
+// Structure files and model-derived sequences
+export {
+  detectStructureFormat,
+  getStructureFileBaseName,
+  STRUCTURE_FILE_ACCEPT,
+  STRUCTURE_FILE_EXTENSIONS,
+  type DetectedStructureFormat,
+  type StructureFileFormat,
+} from "./structureFormats";
+export {
+  getLoadedStructure,
+  getStructureSequenceData,
+  modelToSequenceData,
+} from "./structureSequence";
+export {
+  getStructureSourceKey,
+  getStructureSourceLabel,
+} from "./structureSource";
+
+// Multi-structure scene lookup
+export { findStructureData, findStructureRef } from "./sceneStructures";
+
+// Structural superposition
+export {
+  DEVIATION_BANDS,
+  getCalphaChainIds,
+  getDeviationColor,
+  resetSuperposition,
+  superposeStructures,
+} from "./superposition";
+
+// MSA conservation colouring
+export {
+  applyConservationColoring,
+  clearConservationColoring,
+  CONSERVATION_COLOR_THEME,
+} from "./conservationTheme";
+
+// Distance, angle and dihedral measurements
+export {
+  addMeasurement,
+  formatMeasurementValue,
+  getMeasurementPointFromLoci,
+  getLabelResidueMeasurementPoint,
+  getMeasurementPointLabel,
+  getResidueMeasurementPoint,
+  MEASUREMENT_KIND_LABELS,
+  MEASUREMENT_POINT_COUNT,
+  removeMeasurement,
+  setMeasurementLabel,
+  type MeasurementCells,
+} from "./measurements";
+
+// Non-covalent interactions
+export {
+  clearInteractions,
+  computeInteractions,
+  getInteractionLoci,
+  getLigandResidues,
+  getStructureResidueLabel,
+  INTERACTION_KINDS,
+  showInteractions,
+  structureResidueToResidueRange,
+} from "./interactions";
+
+// Proximity selection
+export {
+  getResiduesWithinRadius,
+  type ProximityOptions,
+  type ProximitySource,
+} from "./proximity";
+
+// PNG export of the rendered scene
+export {
+  getViewportSize,
+  IMAGE_DPI_OPTIONS,
+  IMAGE_SIZE_PRESETS,
+  MAX_IMAGE_SIZE,
+  renderImage,
+  setPngDpi,
+} from "./imageExport";
+
+// PDB and mmCIF export of selected or visible atoms
+export {
+  COORDINATE_FORMATS,
+  exportCoordinates,
+  toPdb,
+} from "./coordinateExport";
+
+// Displayed representation, chains and components
+export { getStructureViewState } from "./viewState";
+
+// Undo and redo of scene changes
+export {
+  captureScene,
+  isSameScene,
+  isSameSelection,
+  remapScene,
+  restoreScene,
+  viewHistory,
+  type SceneSnapshot,
+  type ViewHistoryEntry,
+} from "./history";
+
+// AlphaFold DB models and pLDDT confidence
+export {
+  getAlphaFoldModelUrl,
+  getPLDDTBand,
+  normalizeUniProtAccession,
+  PLDDT_BANDS,
+  PLDDT_COLOR_THEME,
+  type PLDDTBand,
+} from "./alphafold";
+
 // Main wrapper class
 export { molstarWrapper } from "./MolstarWrapper";
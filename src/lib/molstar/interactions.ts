@@ -0,0 +1,450 @@
+/**
+ * Non-covalent Interactions
+ *
+ * Hydrogen bonds, salt bridges, hydrophobic contacts, π-stacking and metal
+ * coordination between a target (a sequence selection or a ligand) and the
+ * rest of its structure, computed with the Mol* interactions property.
+ * Interactions are computed and drawn on the displayed coordinates, so they
+ * follow superposition transforms of their structures.
+ */
+
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import type { Loci } from "molstar/lib/mol-model/loci";
+import type { StructureComponentRef } from "molstar/lib/mol-plugin-state/manager/structure/hierarchy-state";
+import {
+  Structure,
+  StructureElement,
+  StructureProperties,
+  Unit,
+} from "molstar/lib/mol-model/structure";
+import { OrderedSet } from "molstar/lib/mol-data/int";
+import { Vec3 } from "molstar/lib/mol-math/linear-algebra";
+import { Task } from "molstar/lib/mol-task";
+import { ParamDefinition as PD } from "molstar/lib/mol-util/param-definition";
+import {
+  InteractionsParams,
+  InteractionsProvider,
+} from "molstar/lib/mol-model-props/computed/interactions";
+import {
+  InteractionFlag,
+  InteractionType,
+} from "molstar/lib/mol-model-props/computed/interactions/common";
+import { Features } from "molstar/lib/mol-model-props/computed/interactions/features";
+import { IonicProvider } from "molstar/lib/mol-model-props/computed/interactions/charged";
+import { HydrophobicProvider } from "molstar/lib/mol-model-props/computed/interactions/hydrophobic";
+import { InteractionsRepresentationProvider } from "molstar/lib/mol-model-props/computed/representations/interactions";
+import { InteractionTypeColorThemeProvider } from "molstar/lib/mol-model-props/computed/themes/interaction-type";
+import { buildResidueRangeLoci, type ResidueRange } from "./highlighting";
+import { findStructureData, findStructureRef } from "./sceneStructures";
+import { getResidueKey } from "./sequenceToMolstar";
+import type {
+  InteractionKind,
+  InteractionParticipant,
+  StructureInteraction,
+  StructureResidue,
+} from "@/types/molstar";
+
+/** Labels and colours (as drawn by the Mol* interaction-type theme) */
+export const INTERACTION_KINDS: Record<
+  InteractionKind,
+  { label: string; color: string }
+> = {
+  "hydrogen-bond": { label: "Hydrogen bond", color: "#2B83BA" },
+  "salt-bridge": { label: "Salt bridge", color: "#F0C814" },
+  hydrophobic: { label: "Hydrophobic", color: "#808080" },
+  "pi-stacking": { label: "π-stacking", color: "#8CB366" },
+  "metal-coordination": { label: "Metal coordination", color: "#8C4099" },
+};
+
+const KIND_BY_TYPE: Partial<Record<InteractionType, InteractionKind>> = {
+  [InteractionType.HydrogenBond]: "hydrogen-bond",
+  [InteractionType.Ionic]: "salt-bridge",
+  [InteractionType.Hydrophobic]: "hydrophobic",
+  [InteractionType.PiStacking]: "pi-stacking",
+  [InteractionType.MetalCoordination]: "metal-coordination",
+};
+
+/** Tag of the components drawing interactions */
+export const INTERACTIONS_TAG = "structure-viewer-interactions";
+
+/**
+ * Whether a component draws interactions; representation and colour theme
+ * changes for the structure leave these components alone
+ */
+export function isInteractionsComponent(
+  component: StructureComponentRef,
+): boolean {
+  return component.cell.transform.tags?.includes(INTERACTIONS_TAG) ?? false;
+}
+
+/**
+ * Interactions property params: ionic and hydrophobic contacts are off in
+ * Mol* by default, kinds not listed in the table are turned off so the
+ * dashed lines match it
+ */
+function getInteractionsProps(): PD.Values<typeof InteractionsParams> {
+  type Providers = PD.Values<typeof InteractionsParams>["providers"];
+  const defaults = PD.getDefaultValues(InteractionsParams);
+  return {
+    ...defaults,
+    // Mol* types the "on" params as definitions rather than values
+    providers: {
+      ...defaults.providers,
+      ionic: {
+        name: "on",
+        params: PD.getDefaultValues(IonicProvider.params),
+      },
+      hydrophobic: {
+        name: "on",
+        params: PD.getDefaultValues(HydrophobicProvider.params),
+      },
+      "cation-pi": { name: "off", params: {} },
+      "halogen-bonds": { name: "off", params: {} },
+    } as unknown as Providers,
+  };
+}
+
+/**
+ * Structure as drawn, after any superposition transform
+ */
+function getDisplayedStructure(
+  plugin: PluginUIContext,
+  structureRef: string,
+): Structure | null {
+  const structure = findStructureRef(plugin, structureRef);
+  return (
+    structure?.transform?.cell.obj?.data ?? structure?.cell.obj?.data ?? null
+  );
+}
+
+/**
+ * Loci of residue ranges on the displayed structure
+ */
+function getDisplayedLoci(
+  plugin: PluginUIContext,
+  structureRef: string,
+  ranges: ResidueRange[],
+): StructureElement.Loci | null {
+  const data = getDisplayedStructure(plugin, structureRef);
+  const loci = buildResidueRangeLoci(plugin, ranges, structureRef);
+  if (!data || !loci || !StructureElement.Loci.is(loci)) return null;
+  if (StructureElement.Loci.isEmpty(loci)) return null;
+
+  return StructureElement.Loci.remap(loci, data);
+}
+
+/**
+ * Residue range selecting a single residue
+ */
+export function structureResidueToResidueRange(
+  residue: StructureResidue,
+): ResidueRange {
+  return {
+    chain: residue.chainId,
+    start: residue.residueNumber,
+    end: residue.residueNumber,
+    auth: true,
+    insCode: residue.insertionCode ?? "",
+  };
+}
+
+/**
+ * Non-polymer residues (ligands and ions, but not water) of a structure
+ */
+export function getLigandResidues(
+  plugin: PluginUIContext,
+  structureRef: string,
+): StructureResidue[] {
+  const data = findStructureData(plugin, structureRef);
+  if (!data) return [];
+
+  const ligands = new Map<string, StructureResidue>();
+  const location = StructureElement.Location.create(data);
+  for (const unit of data.units) {
+    if (!Unit.isAtomic(unit)) continue;
+    location.unit = unit;
+
+    for (let i = 0; i < unit.elements.length; i++) {
+      location.element = unit.elements[i];
+      if (StructureProperties.entity.type(location) !== "non-polymer") {
+        continue;
+      }
+
+      const residue = getLocationResidue(location);
+      const key = getResidueKey(
+        residue.chainId,
+        residue.residueNumber,
+        residue.insertionCode,
+      );
+      if (!ligands.has(key)) ligands.set(key, residue);
+    }
+  }
+
+  return [...ligands.values()];
+}
+
+function getLocationResidue(
+  location: StructureElement.Location,
+): StructureResidue {
+  return {
+    chainId: StructureProperties.chain.auth_asym_id(location),
+    residueNumber: StructureProperties.residue.auth_seq_id(location),
+    insertionCode:
+      StructureProperties.residue.pdbx_PDB_ins_code(location) || undefined,
+    compId: StructureProperties.atom.label_comp_id(location),
+  };
+}
+
+/**
+ * Interactions between residue ranges (author numbering) of a structure and
+ * the rest of it. Contacts within the target are left out.
+ */
+export async function computeInteractions(
+  plugin: PluginUIContext,
+  structureRef: string,
+  ranges: ResidueRange[],
+): Promise<StructureInteraction[]> {
+  const data = getDisplayedStructure(plugin, structureRef);
+  if (!data) throw new Error("Structure not found");
+
+  const targetLoci = getDisplayedLoci(plugin, structureRef, ranges);
+  if (!targetLoci) throw new Error("No atoms found for the target residues");
+
+  // Elements of the target, by unit id
+  const targetElements = new Map<number, Set<number>>();
+  for (const { unit, indices } of targetLoci.elements) {
+    const elements = new Set<number>();
+    OrderedSet.forEach(indices, (index) => elements.add(unit.elements[index]));
+    targetElements.set(unit.id, elements);
+  }
+
+  await plugin.runTask(
+    Task.create("Compute interactions", async (runtime) => {
+      await InteractionsProvider.attach(
+        {
+          runtime,
+          assetManager: plugin.managers.asset,
+          errorContext: plugin.errorContext,
+        },
+        data,
+        getInteractionsProps(),
+        true,
+      );
+    }),
+  );
+  const interactions = InteractionsProvider.get(data).value;
+  if (!interactions) throw new Error("Interactions could not be computed");
+
+  const location = StructureElement.Location.create(data);
+  const position = Vec3();
+
+  const getFeature = (unit: Unit, index: Features.FeatureIndex) => {
+    const features = interactions.unitsFeatures.get(unit.id);
+    const targets = targetElements.get(unit.id);
+    const atoms: string[] = [];
+    let isTarget = false;
+
+    location.unit = unit;
+    for (
+      let i = features.offsets[index];
+      i < features.offsets[index + 1];
+      i++
+    ) {
+      location.element = unit.elements[features.members[i]];
+      atoms.push(StructureProperties.atom.label_atom_id(location));
+      if (targets?.has(location.element)) isTarget = true;
+    }
+
+    const participant: InteractionParticipant = {
+      ...getLocationResidue(location),
+      atoms,
+    };
+    Features.setPosition(position, unit, index, features);
+    return { participant, isTarget, position: Vec3.clone(position) };
+  };
+
+  const results = new Map<string, StructureInteraction>();
+  const addContact = (
+    type: InteractionType,
+    flag: InteractionFlag,
+    unitA: Unit,
+    indexA: Features.FeatureIndex,
+    unitB: Unit,
+    indexB: Features.FeatureIndex,
+  ) => {
+    const kind = KIND_BY_TYPE[type];
+    if (!kind || flag === InteractionFlag.Filtered) return;
+    if (!targetElements.has(unitA.id) && !targetElements.has(unitB.id)) {
+      return;
+    }
+
+    const a = getFeature(unitA, indexA);
+    const b = getFeature(unitB, indexB);
+    if (a.isTarget === b.isTarget) return;
+
+    const [target, partner] = a.isTarget ? [a, b] : [b, a];
+    const id = [
+      kind,
+      getParticipantKey(target.participant),
+      getParticipantKey(partner.participant),
+    ].join("|");
+    // Both directions and symmetry copies of a contact share an id
+    if (results.has(id)) return;
+
+    results.set(id, {
+      id,
+      kind,
+      target: target.participant,
+      partner: partner.participant,
+      distance: Vec3.distance(a.position, b.position),
+    });
+  };
+
+  for (const unit of data.units) {
+    const contacts = interactions.unitsContacts.get(unit.id);
+    if (!contacts) continue;
+
+    const { a, b, edgeProps } = contacts;
+    for (let i = 0; i < contacts.edgeCount * 2; i++) {
+      // Each edge is stored in both directions
+      if (a[i] > b[i]) continue;
+      addContact(edgeProps.type[i], edgeProps.flag[i], unit, a[i], unit, b[i]);
+    }
+  }
+
+  for (const edge of interactions.contacts.edges) {
+    addContact(
+      edge.props.type,
+      edge.props.flag,
+      data.unitMap.get(edge.unitA),
+      edge.indexA,
+      data.unitMap.get(edge.unitB),
+      edge.indexB,
+    );
+  }
+
+  const kinds = Object.keys(INTERACTION_KINDS);
+  return [...results.values()].sort(
+    (x, y) =>
+      kinds.indexOf(x.kind) - kinds.indexOf(y.kind) || x.distance - y.distance,
+  );
+}
+
+function getParticipantKey(participant: InteractionParticipant): string {
+  const residue = getResidueKey(
+    participant.chainId,
+    participant.residueNumber,
+    participant.insertionCode,
+  );
+  return `${residue}:${participant.atoms.join(",")}`;
+}
+
+/**
+ * Draw interactions of a target as dashed lines, with the target and its
+ * partner residues as ball-and-stick; replaces earlier interactions of the
+ * structure
+ */
+export async function showInteractions(
+  plugin: PluginUIContext,
+  structureRef: string,
+  ranges: ResidueRange[],
+  interactions: StructureInteraction[],
+): Promise<void> {
+  await clearInteractions(plugin, structureRef);
+
+  const structure = findStructureRef(plugin, structureRef);
+  const targetLoci = getDisplayedLoci(plugin, structureRef, ranges);
+  if (!structure || !targetLoci) return;
+
+  // Components go below the superposition transform, if any
+  const parent = structure.transform?.cell ?? structure.cell;
+  const { builders } = plugin;
+
+  const partnerLoci = getDisplayedLoci(
+    plugin,
+    structureRef,
+    interactions.map((interaction) =>
+      structureResidueToResidueRange(interaction.partner),
+    ),
+  );
+  const residuesLoci = partnerLoci
+    ? StructureElement.Loci.union(targetLoci, partnerLoci)
+    : targetLoci;
+
+  const residues = await builders.structure.tryCreateComponentFromExpression(
+    parent,
+    StructureElement.Bundle.toExpression(
+      StructureElement.Bundle.fromLoci(residuesLoci),
+    ),
+    "interaction-residues",
+    { label: "Interacting residues", tags: [INTERACTIONS_TAG] },
+  );
+  if (residues) {
+    await builders.structure.representation.addRepresentation(residues, {
+      type: "ball-and-stick",
+      color: "element-symbol",
+    });
+  }
+
+  const target = await builders.structure.tryCreateComponentFromExpression(
+    parent,
+    StructureElement.Bundle.toExpression(
+      StructureElement.Bundle.fromLoci(targetLoci),
+    ),
+    "interactions",
+    { label: "Interactions", tags: [INTERACTIONS_TAG] },
+  );
+  if (target) {
+    // Lines between the target and the rest of the structure only
+    await builders.structure.representation.addRepresentation(target, {
+      type: InteractionsRepresentationProvider,
+      typeParams: { includeParent: true, parentDisplay: "between" },
+      color: InteractionTypeColorThemeProvider,
+    });
+  }
+}
+
+/**
+ * Remove drawn interactions, of one structure or of all
+ */
+export async function clearInteractions(
+  plugin: PluginUIContext,
+  structureRef?: string,
+): Promise<void> {
+  const state = plugin.state.data;
+  const cells = state.selectQ((q) =>
+    (structureRef ? q.byRef(structureRef) : q.root)
+      .subtree()
+      .withTag(INTERACTIONS_TAG),
+  );
+  if (cells.length === 0) return;
+
+  const update = state.build();
+  cells.forEach((cell) => update.delete(cell.transform.ref));
+  await update.commit();
+}
+
+/**
+ * Loci of the two residues taking part in an interaction
+ */
+export function getInteractionLoci(
+  plugin: PluginUIContext,
+  structureRef: string,
+  interaction: StructureInteraction,
+): Loci | null {
+  return buildResidueRangeLoci(
+    plugin,
+    [
+      structureResidueToResidueRange(interaction.target),
+      structureResidueToResidueRange(interaction.partner),
+    ],
+    structureRef,
+  );
+}
+
+/**
+ * Short residue label, e.g. "A:HIS45"
+ */
+export function getStructureResidueLabel(residue: StructureResidue): string {
+  return `${residue.chainId}:${residue.compId}${residue.residueNumber}${residue.insertionCode ?? ""}`;
+}
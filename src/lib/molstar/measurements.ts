@@ -0,0 +1,304 @@
+/**
+ * Measurements
+ *
+ * Distances, angles and dihedrals between atoms picked in the 3D view or
+ * from the sequence grid. Residue picks are measured at their Cα (or first
+ * atom when there is none). Measurements are drawn with the Mol* measurement
+ * manager, so they follow superposition transforms of their structures.
+ */
+
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import type { Loci } from "molstar/lib/mol-model/loci";
+import {
+  StructureElement,
+  StructureProperties,
+  StructureSelection,
+} from "molstar/lib/mol-model/structure";
+import { MolScriptBuilder as MS } from "molstar/lib/mol-script/language/builder";
+import { Script } from "molstar/lib/mol-script/script";
+import { Vec3 } from "molstar/lib/mol-math/linear-algebra";
+import { radToDeg } from "molstar/lib/mol-math/misc";
+import { PluginStateObject } from "molstar/lib/mol-plugin-state/objects";
+import { PluginCommands } from "molstar/lib/mol-plugin/commands";
+import { findStructureRef } from "./sceneStructures";
+import type { MeasurementKind, MeasurementPoint } from "@/types/molstar";
+
+/** Number of atoms each kind of measurement needs */
+export const MEASUREMENT_POINT_COUNT: Record<MeasurementKind, number> = {
+  distance: 2,
+  angle: 3,
+  dihedral: 4,
+};
+
+export const MEASUREMENT_KIND_LABELS: Record<MeasurementKind, string> = {
+  distance: "Distance",
+  angle: "Angle",
+  dihedral: "Dihedral",
+};
+
+/** State refs of the Mol* cells drawing a measurement */
+export interface MeasurementCells {
+  selectionRef: string;
+  representationRef: string;
+}
+
+/**
+ * Value with unit, e.g. "3.42 Å" or "109.5°"
+ */
+export function formatMeasurementValue(
+  kind: MeasurementKind,
+  value: number,
+): string {
+  return kind === "distance" ? `${value.toFixed(2)} Å` : `${value.toFixed(1)}°`;
+}
+
+/**
+ * Short atom label, e.g. "A:HIS45 CA"
+ */
+export function getMeasurementPointLabel(point: MeasurementPoint): string {
+  return `${point.chainId}:${point.compId ?? ""}${point.residueNumber}${point.insertionCode ?? ""} ${point.atomName}`;
+}
+
+/**
+ * Picked atom for the first element of a loci (e.g. a 3D click)
+ */
+export function getMeasurementPointFromLoci(
+  plugin: PluginUIContext,
+  loci: Loci,
+): MeasurementPoint | null {
+  if (!StructureElement.Loci.is(loci) || StructureElement.Loci.isEmpty(loci)) {
+    return null;
+  }
+
+  // Clicks hit the displayed (possibly transformed) structure; resolve the
+  // scene structure it belongs to
+  const parent = plugin.helpers.substructureParent.get(loci.structure);
+  if (!parent) return null;
+  const root = plugin.state.data.selectQ((q) =>
+    q.byValue(parent).rootOfType(PluginStateObject.Molecule.Structure),
+  )[0];
+  const structureRef = root?.transform.ref;
+  if (!structureRef || !findStructureRef(plugin, structureRef)) return null;
+
+  const location = StructureElement.Loci.getFirstLocation(loci);
+  if (!location) return null;
+
+  return getLocationPoint(structureRef, location);
+}
+
+function getLocationPoint(
+  structureRef: string,
+  location: StructureElement.Location,
+): MeasurementPoint {
+  return {
+    structureRef,
+    chainId: StructureProperties.chain.auth_asym_id(location),
+    residueNumber: StructureProperties.residue.auth_seq_id(location),
+    insertionCode:
+      StructureProperties.residue.pdbx_PDB_ins_code(location) || undefined,
+    atomName: StructureProperties.atom.label_atom_id(location),
+    compId: StructureProperties.atom.label_comp_id(location),
+  };
+}
+
+/**
+ * Picked atom for a residue: its Cα, or its first atom when it has none
+ */
+export function getResidueMeasurementPoint(
+  plugin: PluginUIContext,
+  structureRef: string,
+  chainId: string,
+  residueNumber: number,
+  insertionCode?: string,
+): MeasurementPoint | null {
+  const base = { structureRef, chainId, residueNumber, insertionCode };
+  const loci =
+    buildPointLoci(plugin, { ...base, atomName: "CA" }) ??
+    buildPointLoci(plugin, { ...base, atomName: "" });
+  const location = loci && StructureElement.Loci.getFirstLocation(loci);
+  if (!location) return null;
+
+  return {
+    ...base,
+    atomName: StructureProperties.atom.label_atom_id(location),
+    compId: StructureProperties.atom.label_comp_id(location),
+  };
+}
+
+/**
+ * Picked atom for a residue given by label_asym_id and label_seq_id, which
+ * tell apart residues sharing an author number (insertion codes)
+ */
+export function getLabelResidueMeasurementPoint(
+  plugin: PluginUIContext,
+  structureRef: string,
+  labelAsymId: string,
+  labelSeqId: number,
+): MeasurementPoint | null {
+  const structure = findStructureRef(plugin, structureRef);
+  const data =
+    structure?.transform?.cell.obj?.data ?? structure?.cell.obj?.data;
+  if (!data) return null;
+
+  const props = MS.struct.atomProperty.macromolecular;
+  // Its Cα, or its first atom when it has none
+  for (const atomName of ["CA", ""]) {
+    const query = MS.struct.generator.atomGroups({
+      "chain-test": MS.core.rel.eq([props.label_asym_id(), labelAsymId]),
+      "residue-test": MS.core.rel.eq([props.label_seq_id(), labelSeqId]),
+      ...(atomName && {
+        "atom-test": MS.core.rel.eq([props.label_atom_id(), atomName]),
+      }),
+    });
+    const loci = StructureSelection.toLociWithSourceUnits(
+      Script.getStructureSelection(query, data),
+    );
+    const location = StructureElement.Loci.getFirstLocation(loci);
+    if (location) return getLocationPoint(structureRef, location);
+  }
+  return null;
+}
+
+/**
+ * Loci of a single picked atom; an empty atom name matches any atom of the
+ * residue
+ */
+function buildPointLoci(
+  plugin: PluginUIContext,
+  point: MeasurementPoint,
+): StructureElement.Loci | null {
+  const structure = findStructureRef(plugin, point.structureRef);
+  // Measure on the displayed coordinates, after any superposition
+  const data =
+    structure?.transform?.cell.obj?.data ?? structure?.cell.obj?.data;
+  if (!data) return null;
+
+  const props = MS.struct.atomProperty.macromolecular;
+  const residueTest = MS.core.logic.and([
+    MS.core.rel.eq([props.auth_seq_id(), point.residueNumber]),
+    MS.core.rel.eq([props.pdbx_PDB_ins_code(), point.insertionCode ?? ""]),
+  ]);
+  const query = MS.struct.generator.atomGroups({
+    "chain-test": MS.core.rel.eq([props.auth_asym_id(), point.chainId]),
+    "residue-test": residueTest,
+    ...(point.atomName && {
+      "atom-test": MS.core.rel.eq([props.label_atom_id(), point.atomName]),
+    }),
+  });
+
+  const selection = Script.getStructureSelection(query, data);
+  const loci = StructureSelection.toLociWithSourceUnits(selection);
+  if (StructureElement.Loci.isEmpty(loci)) return null;
+
+  return StructureElement.Loci.firstElement(loci);
+}
+
+function getLociPosition(loci: StructureElement.Loci): Vec3 {
+  const location = StructureElement.Loci.getFirstLocation(loci)!;
+  return location.unit.conformation.position(location.element, Vec3());
+}
+
+/**
+ * Measured value: Å for distances, degrees for angles and dihedrals
+ */
+function computeMeasurementValue(
+  kind: MeasurementKind,
+  loci: StructureElement.Loci[],
+): number {
+  const [a, b, c, d] = loci.map(getLociPosition);
+  switch (kind) {
+    case "distance":
+      return Vec3.distance(a, b);
+    case "angle":
+      return radToDeg(
+        Vec3.angle(Vec3.sub(Vec3(), a, b), Vec3.sub(Vec3(), c, b)),
+      );
+    case "dihedral":
+      return radToDeg(Vec3.dihedralAngle(a, b, c, d));
+  }
+}
+
+/**
+ * Draw a measurement between picked atoms. `label` replaces the default
+ * value text in the 3D view. Throws if an atom cannot be found.
+ */
+export async function addMeasurement(
+  plugin: PluginUIContext,
+  kind: MeasurementKind,
+  points: MeasurementPoint[],
+  label?: string,
+): Promise<MeasurementCells & { value: number }> {
+  if (points.length !== MEASUREMENT_POINT_COUNT[kind]) {
+    throw new Error(
+      `A ${kind} measurement needs ${MEASUREMENT_POINT_COUNT[kind]} atoms`,
+    );
+  }
+
+  const loci = points.map((point) => {
+    const pointLoci = buildPointLoci(plugin, point);
+    if (!pointLoci) {
+      throw new Error(`Atom ${getMeasurementPointLabel(point)} not found`);
+    }
+    return pointLoci;
+  });
+
+  const value = computeMeasurementValue(kind, loci);
+  const options = { customText: getMeasurementText(kind, value, label) };
+  const { measurement } = plugin.managers.structure;
+  const [a, b, c, d] = loci;
+  const cells =
+    kind === "distance"
+      ? await measurement.addDistance(a, b, options)
+      : kind === "angle"
+        ? await measurement.addAngle(a, b, c, options)
+        : await measurement.addDihedral(a, b, c, d, options);
+  if (!cells) throw new Error("Could not create the measurement");
+
+  return {
+    selectionRef: cells.selection.ref,
+    representationRef: cells.representation.ref,
+    value,
+  };
+}
+
+/**
+ * Change the 3D text of a measurement; without a label the value is shown
+ */
+export async function setMeasurementLabel(
+  plugin: PluginUIContext,
+  cells: MeasurementCells,
+  kind: MeasurementKind,
+  value: number,
+  label?: string,
+): Promise<void> {
+  if (!plugin.state.data.cells.has(cells.representationRef)) return;
+
+  const customText = getMeasurementText(kind, value, label);
+  await plugin
+    .build()
+    .to(cells.representationRef)
+    .update((old) => ({ ...old, customText }))
+    .commit();
+}
+
+export async function removeMeasurement(
+  plugin: PluginUIContext,
+  cells: MeasurementCells,
+): Promise<void> {
+  // The cells may already be gone, e.g. after the scene was cleared
+  if (!plugin.state.data.cells.has(cells.selectionRef)) return;
+
+  await PluginCommands.State.RemoveObject(plugin, {
+    state: plugin.state.data,
+    ref: cells.selectionRef,
+  });
+}
+
+function getMeasurementText(
+  kind: MeasurementKind,
+  value: number,
+  label?: string,
+): string {
+  // An empty custom text makes Mol* show the value
+  return label ? `${label}: ${formatMeasurementValue(kind, value)}` : "";
+}
@@ -6,7 +6,9 @@
 import { Script } from "molstar/lib/mol-script/script";
 import { StructureSelection } from "molstar/lib/mol-model/structure";
 import { Color } from "molstar/lib/mol-util/color";
+import type { StructureRef } from "molstar/lib/mol-plugin-state/manager/structure/hierarchy-state";
 
+import { findStructureRef } from "../sceneStructures";
 import type {
   MolstarPlugin,
   ResidueRange,
@@ -29,6 +31,7 @@ export class selectionOperations {
   async highlightResidues(
     ranges: ResidueRange[],
     options: HighlightOptions = {},
+    structureRef?: string,
   ): Promise<OperationResult> {
     try {
       const hierarchy = this.plugin.managers.structure.hierarchy.current;
@@ -39,7 +42,17 @@ export class selectionOperations {
         };
       }
 
-      const structure = hierarchy.structures[0];
+      const structure = findStructureRef(this.plugin, structureRef);
+      if (!structure) {
+        return {
+          success: false,
+          error: this.createError(
+            `Structure not found: ${structureRef}`,
+            "SELECTION_ERROR",
+          ),
+        };
+      }
+
       const data = structure.cell?.obj?.data;
       if (!data) {
         return {
@@ -119,10 +132,12 @@ export class selectionOperations {
     chainId: string,
     startSeq: number,
     endSeq: number,
+    structureRef?: string,
   ): Promise<OperationResult> {
     return this.performResidueOperation(
       { chainId, start: startSeq, end: endSeq },
       "hide",
+      structureRef,
     );
   }
 
@@ -133,10 +148,12 @@ export class selectionOperations {
     chainId: string,
     startSeq: number,
     endSeq: number,
+    structureRef?: string,
   ): Promise<OperationResult> {
     return this.performResidueOperation(
       { chainId, start: startSeq, end: endSeq },
       "isolate",
+      structureRef,
     );
   }
 
@@ -147,8 +164,13 @@ export class selectionOperations {
     chainId: string,
     startSeq: number,
     endSeq: number,
+    structureRef?: string,
   ): Promise<OperationResult> {
-    return this.highlightResidues([{ chainId, start: startSeq, end: endSeq }]);
+    return this.highlightResidues(
+      [{ chainId, start: startSeq, end: endSeq }],
+      {},
+      structureRef,
+    );
   }
 
   /**
@@ -157,6 +179,7 @@ export class selectionOperations {
   private async performResidueOperation(
     range: ResidueRange,
     operation: ResidueOperation,
+    structureRef?: string,
   ): Promise<OperationResult> {
     try {
       const hierarchy = this.plugin.managers.structure.hierarchy.current;
@@ -167,7 +190,17 @@ export class selectionOperations {
         };
       }
 
-      const structure = hierarchy.structures[0];
+      const structure = findStructureRef(this.plugin, structureRef);
+      if (!structure) {
+        return {
+          success: false,
+          error: this.createError(
+            `Structure not found: ${structureRef}`,
+            "SELECTION_ERROR",
+          ),
+        };
+      }
+
       const data = structure.cell?.obj?.data;
       if (!data) {
         return {
@@ -181,13 +214,13 @@ export class selectionOperations {
 
       switch (operation) {
         case "hide":
-          return this.hideResidueRangeInternal(range, data, hierarchy);
+          return this.hideResidueRangeInternal(range, data, structure);
 
         case "isolate":
-          return this.isolateResidueRangeInternal(range, data, hierarchy);
+          return this.isolateResidueRangeInternal(range, data, structure);
 
         case "highlight":
-          return this.highlightResidues([range]);
+          return this.highlightResidues([range], {}, structureRef);
 
         default:
           return {
@@ -216,7 +249,7 @@ export class selectionOperations {
   private async hideResidueRangeInternal(
     range: ResidueRange,
     data: any,
-    hierarchy: any,
+    structure: StructureRef,
   ): Promise<OperationResult> {
     try {
       const selection = Script.getStructureSelection(
@@ -239,11 +272,8 @@ export class selectionOperations {
 
       if (!loci.isEmpty) {
         this.plugin.managers.structure.selection.fromLoci("set", loci);
-        const allComponents = hierarchy.structures.flatMap(
-          (s: any) => s.components,
-        );
         await this.plugin.managers.structure.component.modifyByCurrentSelection(
-          allComponents,
+          structure.components,
           "subtract",
         );
         this.plugin.managers.structure.selection.clear();
@@ -268,7 +298,7 @@ export class selectionOperations {
   private async isolateResidueRangeInternal(
     range: ResidueRange,
     data: any,
-    hierarchy: any,
+    structure: StructureRef,
   ): Promise<OperationResult> {
     try {
       // Get all available chains
@@ -306,11 +336,8 @@ export class selectionOperations {
               "set",
               hideChainLoci,
             );
-            const allComponents = hierarchy.structures.flatMap(
-              (s: any) => s.components,
-            );
             await this.plugin.managers.structure.component.modifyByCurrentSelection(
-              allComponents,
+              structure.components,
               "subtract",
             );
             this.plugin.managers.structure.selection.clear();
@@ -342,11 +369,8 @@ export class selectionOperations {
                 "set",
                 hideBeforeLoci,
               );
-              const allComponents = hierarchy.structures.flatMap(
-                (s: any) => s.components,
-              );
               await this.plugin.managers.structure.component.modifyByCurrentSelection(
-                allComponents,
+                structure.components,
                 "subtract",
               );
               this.plugin.managers.structure.selection.clear();
@@ -382,11 +406,8 @@ export class selectionOperations {
                 "set",
                 hideAfterLoci,
               );
-              const allComponents = hierarchy.structures.flatMap(
-                (s: any) => s.components,
-              );
               await this.plugin.managers.structure.component.modifyByCurrentSelection(
-                allComponents,
+                structure.components,
                 "subtract",
               );
               this.plugin.managers.structure.selection.clear();
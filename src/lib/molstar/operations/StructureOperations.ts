@@ -5,7 +5,9 @@
 
 import { Script } from "molstar/lib/mol-script/script";
 import { StructureSelection } from "molstar/lib/mol-model/structure";
+import type { StructureRef } from "molstar/lib/mol-plugin-state/manager/structure/hierarchy-state";
 
+import { findStructureRef } from "../sceneStructures";
 import type {
   MolstarPlugin,
   RepresentationType,
@@ -27,6 +29,7 @@ export class structureOperations {
    */
   async updateRepresentation(
     representation: RepresentationType,
+    structureRef?: string,
   ): Promise<OperationResult> {
     try {
       const hierarchy = this.plugin.managers.structure.hierarchy.current;
@@ -37,7 +40,17 @@ export class structureOperations {
         };
       }
 
-      const structure = hierarchy.structures[0];
+      const structure = findStructureRef(this.plugin, structureRef);
+      if (!structure) {
+        return {
+          success: false,
+          error: this.createError(
+            `Structure not found: ${structureRef}`,
+            "OPERATION_ERROR",
+          ),
+        };
+      }
+
       const representations = structure.components.filter((c) =>
         c.cell.obj?.label.includes("Representation"),
       );
@@ -97,42 +110,54 @@ export class structureOperations {
   /**
    * Set cartoon representation
    */
-  async setCartoon(): Promise<OperationResult> {
-    return this.updateRepresentation("cartoon");
+  async setCartoon(structureRef?: string): Promise<OperationResult> {
+    return this.updateRepresentation("cartoon", structureRef);
   }
 
   /**
    * Set surface representation
    */
-  async setSurface(): Promise<OperationResult> {
-    return this.updateRepresentation("surface");
+  async setSurface(structureRef?: string): Promise<OperationResult> {
+    return this.updateRepresentation("surface", structureRef);
   }
 
   /**
    * Set ball-and-stick representation
    */
-  async setBallAndStick(): Promise<OperationResult> {
-    return this.updateRepresentation("ball-stick");
+  async setBallAndStick(structureRef?: string): Promise<OperationResult> {
+    return this.updateRepresentation("ball-stick", structureRef);
   }
 
   /**
    * Set spacefill representation
    */
-  async setSpacefill(): Promise<OperationResult> {
-    return this.updateRepresentation("spacefill");
+  async setSpacefill(structureRef?: string): Promise<OperationResult> {
+    return this.updateRepresentation("spacefill", structureRef);
   }
 
   /**
-   * Get available chains in the current structure
+   * Get available chains in a structure (the first one by default)
    */
-  async getAvailableChains(): Promise<OperationResult<string[]>> {
+  async getAvailableChains(
+    structureRef?: string,
+  ): Promise<OperationResult<string[]>> {
     try {
       const hierarchy = this.plugin.managers.structure.hierarchy.current;
       if (!hierarchy.structures.length) {
         return { success: true, data: [] };
       }
 
-      const structure = hierarchy.structures[0];
+      const structure = findStructureRef(this.plugin, structureRef);
+      if (!structure) {
+        return {
+          success: false,
+          error: this.createError(
+            `Structure not found: ${structureRef}`,
+            "OPERATION_ERROR",
+          ),
+        };
+      }
+
       const data = structure.cell?.obj?.data;
       if (!data) {
         return { success: true, data: [] };
@@ -164,21 +189,27 @@ export class structureOperations {
   /**
    * Hide a specific chain
    */
-  async hideChain(chainId: string): Promise<OperationResult> {
-    return this.performChainOperation(chainId, "hide");
+  async hideChain(
+    chainId: string,
+    structureRef?: string,
+  ): Promise<OperationResult> {
+    return this.performChainOperation(chainId, "hide", structureRef);
   }
 
   /**
    * Isolate a specific chain (hide all others)
    */
-  async isolateChain(chainId: string): Promise<OperationResult> {
-    return this.performChainOperation(chainId, "isolate");
+  async isolateChain(
+    chainId: string,
+    structureRef?: string,
+  ): Promise<OperationResult> {
+    return this.performChainOperation(chainId, "isolate", structureRef);
   }
 
   /**
    * Show all chains (reload structure)
    */
-  async showAllChains(): Promise<OperationResult> {
+  async showAllChains(structureRef?: string): Promise<OperationResult> {
     try {
       const hierarchy = this.plugin.managers.structure.hierarchy.current;
       if (!hierarchy.structures.length) {
@@ -189,7 +220,17 @@ export class structureOperations {
       }
 
       // Get current PDB ID and reload
-      const structure = hierarchy.structures[0];
+      const structure = findStructureRef(this.plugin, structureRef);
+      if (!structure) {
+        return {
+          success: false,
+          error: this.createError(
+            `Structure not found: ${structureRef}`,
+            "OPERATION_ERROR",
+          ),
+        };
+      }
+
       const data = structure.cell?.obj?.data;
       if (!data) {
         return {
@@ -223,22 +264,22 @@ export class structureOperations {
   /**
    * Remove water molecules
    */
-  async removeWater(): Promise<OperationResult> {
-    return this.removeComponent("water");
+  async removeWater(structureRef?: string): Promise<OperationResult> {
+    return this.removeComponent("water", structureRef);
   }
 
   /**
    * Remove ligands
    */
-  async removeLigands(): Promise<OperationResult> {
-    return this.removeComponent("ligands");
+  async removeLigands(structureRef?: string): Promise<OperationResult> {
+    return this.removeComponent("ligands", structureRef);
   }
 
   /**
    * Remove ions
    */
-  async removeIons(): Promise<OperationResult> {
-    return this.removeComponent("ions");
+  async removeIons(structureRef?: string): Promise<OperationResult> {
+    return this.removeComponent("ions", structureRef);
   }
 
   /**
@@ -247,6 +288,7 @@ export class structureOperations {
   private async performChainOperation(
     chainId: string,
     operation: ChainOperation,
+    structureRef?: string,
   ): Promise<OperationResult> {
     try {
       const hierarchy = this.plugin.managers.structure.hierarchy.current;
@@ -257,7 +299,17 @@ export class structureOperations {
         };
       }
 
-      const structure = hierarchy.structures[0];
+      const structure = findStructureRef(this.plugin, structureRef);
+      if (!structure) {
+        return {
+          success: false,
+          error: this.createError(
+            `Structure not found: ${structureRef}`,
+            "OPERATION_ERROR",
+          ),
+        };
+      }
+
       const data = structure.cell?.obj?.data;
       if (!data) {
         return {
@@ -271,7 +323,7 @@ export class structureOperations {
 
       if (operation === "isolate") {
         // Hide all other chains
-        const availableResult = await this.getAvailableChains();
+        const availableResult = await this.getAvailableChains(structureRef);
         if (!availableResult.success || !availableResult.data) {
           return availableResult;
         }
@@ -281,7 +333,7 @@ export class structureOperations {
             const hideResult = await this.hideChainInternal(
               currentChain,
               data,
-              hierarchy,
+              structure,
             );
             if (!hideResult.success) {
               return hideResult;
@@ -289,7 +341,7 @@ export class structureOperations {
           }
         }
       } else if (operation === "hide") {
-        return this.hideChainInternal(chainId, data, hierarchy);
+        return this.hideChainInternal(chainId, data, structure);
       }
 
       return { success: true };
@@ -311,7 +363,7 @@ export class structureOperations {
   private async hideChainInternal(
     chainId: string,
     data: any,
-    hierarchy: any,
+    structure: StructureRef,
   ): Promise<OperationResult> {
     try {
       const selection = Script.getStructureSelection(
@@ -329,11 +381,8 @@ export class structureOperations {
 
       if (!loci.isEmpty) {
         this.plugin.managers.structure.selection.fromLoci("set", loci);
-        const allComponents = hierarchy.structures.flatMap(
-          (s: any) => s.components,
-        );
         await this.plugin.managers.structure.component.modifyByCurrentSelection(
-          allComponents,
+          structure.components,
           "subtract",
         );
         this.plugin.managers.structure.selection.clear();
@@ -357,6 +406,7 @@ export class structureOperations {
    */
   private async removeComponent(
     componentType: ComponentType,
+    structureRef?: string,
   ): Promise<OperationResult> {
     try {
       const hierarchy = this.plugin.managers.structure.hierarchy.current;
@@ -367,7 +417,17 @@ export class structureOperations {
         };
       }
 
-      const structure = hierarchy.structures[0];
+      const structure = findStructureRef(this.plugin, structureRef);
+      if (!structure) {
+        return {
+          success: false,
+          error: this.createError(
+            `Structure not found: ${structureRef}`,
+            "OPERATION_ERROR",
+          ),
+        };
+      }
+
       const data = structure.cell?.obj?.data;
       if (!data) {
         return {
@@ -434,11 +494,8 @@ export class structureOperations {
 
       if (!loci.isEmpty) {
         this.plugin.managers.structure.selection.fromLoci("set", loci);
-        const allComponents = hierarchy.structures.flatMap(
-          (s: any) => s.components,
-        );
         await this.plugin.managers.structure.component.modifyByCurrentSelection(
-          allComponents,
+          structure.components,
           "subtract",
         );
         this.plugin.managers.structure.selection.clear();
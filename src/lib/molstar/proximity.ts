@@ -0,0 +1,155 @@
+/**
+ * Proximity Selection
+ *
+ * Residues within a radius of a source: the sequence selection, a ligand or
+ * a whole chain. Only polymer residues are returned so the result can be
+ * shown as selection regions in the sequence grid.
+ */
+
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import {
+  type ElementIndex,
+  StructureElement,
+  StructureProperties,
+  StructureSelection,
+  Unit,
+} from "molstar/lib/mol-model/structure";
+import { MolScriptBuilder as MS } from "molstar/lib/mol-script/language/builder";
+import { Script } from "molstar/lib/mol-script/script";
+import { OrderedSet } from "molstar/lib/mol-data/int";
+import { Vec3 } from "molstar/lib/mol-math/linear-algebra";
+import { buildResidueRangeLoci, type ResidueRange } from "./highlighting";
+import { findStructureData } from "./sceneStructures";
+import { getResidueKey } from "./sequenceToMolstar";
+import type { StructureResidue } from "@/types/molstar";
+
+/** What to measure the radius from */
+export type ProximitySource =
+  | { kind: "residues"; ranges: ResidueRange[] }
+  | { kind: "chain"; chainId: string };
+
+export interface ProximityOptions {
+  /** Radius in Å */
+  radius: number;
+  /** Only residues with every atom within the radius */
+  wholeResidues?: boolean;
+  /** Keep the source residues in the result */
+  includeSource?: boolean;
+}
+
+function getSourceLoci(
+  plugin: PluginUIContext,
+  structureRef: string,
+  source: ProximitySource,
+): StructureElement.Loci | null {
+  if (source.kind === "residues") {
+    const loci = buildResidueRangeLoci(plugin, source.ranges, structureRef);
+    return loci && StructureElement.Loci.is(loci) ? loci : null;
+  }
+
+  const data = findStructureData(plugin, structureRef);
+  if (!data) return null;
+  const query = MS.struct.generator.atomGroups({
+    "chain-test": MS.core.rel.eq([
+      MS.struct.atomProperty.macromolecular.auth_asym_id(),
+      source.chainId,
+    ]),
+  });
+  return StructureSelection.toLociWithSourceUnits(
+    Script.getStructureSelection(query, data),
+  );
+}
+
+/**
+ * Polymer residues with an atom (or, with `wholeResidues`, every atom)
+ * within the radius of any source atom
+ */
+export function getResiduesWithinRadius(
+  plugin: PluginUIContext,
+  structureRef: string,
+  source: ProximitySource,
+  { radius, wholeResidues = false, includeSource = true }: ProximityOptions,
+): StructureResidue[] {
+  const data = findStructureData(plugin, structureRef);
+  const sourceLoci = getSourceLoci(plugin, structureRef, source);
+  if (!data || !sourceLoci || StructureElement.Loci.isEmpty(sourceLoci)) {
+    throw new Error("No atoms found for the source");
+  }
+
+  // Elements in range, grouped by residue of each unit
+  const inRange = new Map<
+    string,
+    { unit: Unit.Atomic; element: ElementIndex; elements: Set<ElementIndex> }
+  >();
+  const sourceResidues = new Set<string>();
+  const position = Vec3();
+
+  for (const { unit, indices } of sourceLoci.elements) {
+    if (!Unit.isAtomic(unit)) continue;
+    OrderedSet.forEach(indices, (index) => {
+      const element = unit.elements[index];
+      sourceResidues.add(`${unit.id}:${unit.residueIndex[element]}`);
+
+      unit.conformation.position(element, position);
+      const found = data.lookup3d.find(
+        position[0],
+        position[1],
+        position[2],
+        radius,
+      );
+      for (let i = 0; i < found.count; i++) {
+        const foundUnit = found.units[i];
+        if (!Unit.isAtomic(foundUnit)) continue;
+
+        const foundElement = foundUnit.elements[found.indices[i]];
+        const key = `${foundUnit.id}:${foundUnit.residueIndex[foundElement]}`;
+        let entry = inRange.get(key);
+        if (!entry) {
+          entry = {
+            unit: foundUnit,
+            element: foundElement,
+            elements: new Set(),
+          };
+          inRange.set(key, entry);
+        }
+        entry.elements.add(foundElement);
+      }
+    });
+  }
+
+  const residues = new Map<string, StructureResidue>();
+  const location = StructureElement.Location.create(data);
+  for (const [key, { unit, element, elements }] of inRange) {
+    if (!includeSource && sourceResidues.has(key)) continue;
+
+    location.unit = unit;
+    location.element = element;
+    if (StructureProperties.entity.type(location) !== "polymer") continue;
+
+    if (wholeResidues && !sourceResidues.has(key)) {
+      const { offsets } = unit.model.atomicHierarchy.residueAtomSegments;
+      const residueIndex = unit.residueIndex[element];
+      const atomCount = offsets[residueIndex + 1] - offsets[residueIndex];
+      if (elements.size < atomCount) continue;
+    }
+
+    const residue: StructureResidue = {
+      chainId: StructureProperties.chain.auth_asym_id(location),
+      residueNumber: StructureProperties.residue.auth_seq_id(location),
+      insertionCode:
+        StructureProperties.residue.pdbx_PDB_ins_code(location) || undefined,
+      compId: StructureProperties.atom.label_comp_id(location),
+    };
+    // Symmetry copies of a residue count once
+    residues.set(
+      getResidueKey(
+        residue.chainId,
+        residue.residueNumber,
+        residue.insertionCode,
+      ),
+      residue,
+    );
+  }
+
+  return [...residues.values()];
+}
@@ -0,0 +1,34 @@
+/**
+ * Scene Structure Lookup
+ *
+ * Several structures can share the Mol* scene. Structures are addressed by
+ * the state ref of their structure node; operations that take an optional
+ * ref fall back to the first structure so single-structure callers work as
+ * before.
+ */
+
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import type { StructureRef } from "molstar/lib/mol-plugin-state/manager/structure/hierarchy-state";
+
+/**
+ * Find a structure in the scene by ref, or the first structure if no ref is
+ * given. Returns undefined for unknown (e.g. removed) refs.
+ */
+export function findStructureRef(
+  plugin: PluginUIContext,
+  structureRef?: string | null,
+): StructureRef | undefined {
+  const { structures } = plugin.managers.structure.hierarchy.current;
+  if (!structureRef) return structures[0];
+  return structures.find((s) => s.cell.transform.ref === structureRef);
+}
+
+/**
+ * Structure data for a scene structure (see `findStructureRef`)
+ */
+export function findStructureData(
+  plugin: PluginUIContext,
+  structureRef?: string | null,
+) {
+  return findStructureRef(plugin, structureRef)?.cell.obj?.data ?? null;
+}
@@ -3,22 +3,86 @@
  * This bridges our existing SelectionRegion/SequenceResidue types with the working Mol* API
  */
 
-import type { SelectionRegion, SequenceResidue } from "@/types/sequence";
+import type {
+  SelectionRegion,
+  SequenceChain,
+  SequenceResidue,
+} from "@/types/sequence";
 import type { ResidueRange } from "./highlighting";
 import { HIGHLIGHTING_CONFIG } from "./config";
+import { createResidueRegion } from "@/lib/residueNumbering";
 
 /**
- * Convert SelectionRegion objects to ResidueRange objects for Mol* highlighting
+ * Stable key for a residue, shared by the sequence grid and Mol*-derived data
+ * (author chain, author number, insertion code)
+ */
+export function getResidueKey(
+  chainId: string,
+  position: number,
+  insertionCode?: string,
+): string {
+  return `${chainId}:${position}${insertionCode ?? ""}`;
+}
+
+/**
+ * Convert SelectionRegion objects to ResidueRange objects for Mol* highlighting;
+ * the label_seq_id span is used where a region has one
  */
 export function selectionRegionsToResidueRanges(
   regions: SelectionRegion[],
 ): ResidueRange[] {
-  return regions.map((region) => ({
-    chain: region.chainId,
-    start: region.start,
-    end: region.end,
-    auth: HIGHLIGHTING_CONFIG.USE_AUTH_NUMBERING,
-  }));
+  return regions.map((region) =>
+    region.labelRange
+      ? {
+          chain: region.labelRange.chainId,
+          start: region.labelRange.start,
+          end: region.labelRange.end,
+          auth: false,
+        }
+      : {
+          chain: region.chainId,
+          start: region.start,
+          end: region.end,
+          auth: HIGHLIGHTING_CONFIG.USE_AUTH_NUMBERING,
+        },
+  );
+}
+
+/**
+ * Convert a set of residue keys (see `getResidueKey`) to selection regions,
+ * one per run of consecutive chain residues
+ */
+export function residueKeysToSelectionRegions(
+  keys: Set<string>,
+  chains: SequenceChain[],
+): SelectionRegion[] {
+  const regions: SelectionRegion[] = [];
+
+  for (const chain of chains) {
+    let run: SequenceResidue[] = [];
+    const flush = () => {
+      if (run.length === 0) return;
+      const region = createResidueRegion(chain, run);
+      if (region) regions.push(region);
+      run = [];
+    };
+
+    for (const residue of chain.residues) {
+      const key = getResidueKey(
+        residue.chainId,
+        residue.position,
+        residue.insertionCode,
+      );
+      if (keys.has(key)) {
+        run.push(residue);
+      } else {
+        flush();
+      }
+    }
+    flush();
+  }
+
+  return regions;
 }
 
 /**
@@ -101,6 +165,9 @@ export function sequenceResidueToResidueRange(
     start: residue.position,
     end: residue.position,
     auth: HIGHLIGHTING_CONFIG.USE_AUTH_NUMBERING,
+    insCode: HIGHLIGHTING_CONFIG.USE_AUTH_NUMBERING
+      ? (residue.insertionCode ?? "")
+      : undefined,
   };
 }
 
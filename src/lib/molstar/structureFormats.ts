@@ -0,0 +1,73 @@
+/**
+ * Structure File Format Detection
+ *
+ * Maps local structure file names to the Mol* trajectory format and
+ * binary flag needed by `molstarWrapper.load()`.
+ * - .pdb / .ent        → PDB (text)
+ * - .cif / .mmcif      → mmCIF (text)
+ * - .bcif              → BinaryCIF (mmCIF parser, binary data)
+ * - any of the above + .gz (decompressed by Mol* when reading the file)
+ */
+
+export type StructureFileFormat = "mmcif" | "pdb";
+
+export interface DetectedStructureFormat {
+  format: StructureFileFormat;
+  isBinary: boolean;
+  compressed: boolean;
+}
+
+/** File extensions accepted by the structure upload input */
+export const STRUCTURE_FILE_EXTENSIONS = [
+  ".pdb",
+  ".ent",
+  ".cif",
+  ".mmcif",
+  ".bcif",
+  ".pdb.gz",
+  ".ent.gz",
+  ".cif.gz",
+  ".mmcif.gz",
+  ".bcif.gz",
+] as const;
+
+/** Value for the `accept` attribute of a file input */
+export const STRUCTURE_FILE_ACCEPT = STRUCTURE_FILE_EXTENSIONS.join(",");
+
+const EXTENSION_FORMATS: Record<
+  string,
+  Omit<DetectedStructureFormat, "compressed">
+> = {
+  pdb: { format: "pdb", isBinary: false },
+  ent: { format: "pdb", isBinary: false },
+  cif: { format: "mmcif", isBinary: false },
+  mmcif: { format: "mmcif", isBinary: false },
+  bcif: { format: "mmcif", isBinary: true },
+};
+
+/**
+ * Detect the structure format from a file name, or null if unsupported
+ */
+export function detectStructureFormat(
+  fileName: string,
+): DetectedStructureFormat | null {
+  const parts = fileName.toLowerCase().trim().split(".");
+  if (parts.length < 2) return null;
+
+  const compressed = parts[parts.length - 1] === "gz";
+  if (compressed && parts.length < 3) return null;
+
+  const extension = compressed
+    ? parts[parts.length - 2]
+    : parts[parts.length - 1];
+  const detected = EXTENSION_FORMATS[extension];
+
+  return detected ? { ...detected, compressed } : null;
+}
+
+/**
+ * Strip format and compression extensions to get a display name
+ */
+export function getStructureFileBaseName(fileName: string): string {
+  return fileName.replace(/\.(pdb|ent|cif|mmcif|bcif)(\.gz)?$/i, "");
+}
@@ -0,0 +1,559 @@
+/**
+ * Structure-derived Sequence Data
+ *
+ * Builds SequenceData directly from the structure loaded in Mol*, so the
+ * sequence grid and 3D selections always agree:
+ * - `position` is the author residue number (auth_seq_id), the same numbering
+ *   used by SelectionOperations and `highlightResidues`
+ * - insertion codes and label numbering (label_seq_id) are kept per residue
+ * - residues from the deposited sequence without coordinates are included
+ *   and marked `observed: false`
+ * - secondary structure comes from the Mol* secondary structure property
+ *   (DSSP unless the file provides its own annotation)
+ * - predicted models (AlphaFold, ModelArchive) carry per-residue pLDDT from
+ *   ma_qa_metric_local, or from the B-factor column as AlphaFold PDB files do
+ * - protein, DNA and RNA chains are kept; ligands, ions and carbohydrates
+ *   are listed per residue, without water
+ * - UniProt positions come from the SIFTS columns of PDBe updated mmCIF
+ *   files; unobserved residues between two mapped ones are filled in
+ */
+
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import { Model, Unit } from "molstar/lib/mol-model/structure";
+import type { Structure } from "molstar/lib/mol-model/structure";
+import type {
+  ChainIndex,
+  ResidueIndex,
+} from "molstar/lib/mol-model/structure/model/indexing";
+import {
+  getDnaOneLetterCode,
+  getProteinOneLetterCode,
+  getRnaOneLetterCode,
+} from "molstar/lib/mol-model/sequence/constants";
+import { MmcifFormat } from "molstar/lib/mol-model-formats/structure/mmcif";
+import { SecondaryStructureProvider } from "molstar/lib/mol-model-props/computed/secondary-structure";
+import { QualityAssessmentProvider } from "molstar/lib/extensions/model-archive/quality-assessment/prop";
+import { Task } from "molstar/lib/mol-task";
+import { findStructureData } from "./sceneStructures";
+import type {
+  PolymerType,
+  SequenceChain,
+  SequenceData,
+  SequenceLigand,
+  SequenceResidue,
+} from "@/types/sequence";
+
+const POLYMER_TYPES: Record<string, PolymerType> = {
+  "polypeptide(L)": "protein",
+  "polypeptide(D)": "protein",
+  polydeoxyribonucleotide: "dna",
+  polyribonucleotide: "rna",
+  "polydeoxyribonucleotide/polyribonucleotide hybrid": "dna",
+};
+
+const ONE_LETTER_CODES: Record<PolymerType, (compId: string) => string> = {
+  protein: getProteinOneLetterCode,
+  dna: getDnaOneLetterCode,
+  rna: getRnaOneLetterCode,
+};
+
+/** Entity types listed as ligands; water is left out */
+const LIGAND_ENTITY_TYPES = new Set(["non-polymer", "branched"]);
+
+// SecondaryStructureType.Flag is a const enum, so mirror the bits we need
+const SECONDARY_STRUCTURE_HELIX = 0x2;
+const SECONDARY_STRUCTURE_BETA = 0x4;
+
+type SecondaryStructureLabel = NonNullable<
+  SequenceResidue["secondaryStructure"]
+>;
+
+/**
+ * Cache keyed by structure so repeated lookups for the same load are free
+ */
+const sequenceCache = new WeakMap<Structure, Promise<SequenceData>>();
+
+/**
+ * Get a structure loaded in the plugin (the first one if no ref is given)
+ */
+export function getLoadedStructure(
+  plugin: PluginUIContext,
+  structureRef?: string | null,
+): Structure | null {
+  return findStructureData(plugin, structureRef);
+}
+
+/**
+ * Get sequence data for a structure loaded in the plugin
+ */
+export async function getStructureSequenceData(
+  plugin: PluginUIContext,
+  structureId: string,
+  structureRef?: string | null,
+): Promise<SequenceData> {
+  const structure = getLoadedStructure(plugin, structureRef);
+  if (!structure) {
+    throw new Error(`No structure loaded for ${structureId}`);
+  }
+
+  if (!sequenceCache.has(structure)) {
+    sequenceCache.set(
+      structure,
+      Promise.all([
+        getResidueSecondaryStructure(plugin, structure),
+        getResiduePLDDT(plugin, structure.model),
+      ]).then(([ss, plddt]) =>
+        modelToSequenceData(structure.model, structureId, ss, plddt),
+      ),
+    );
+  }
+
+  return sequenceCache.get(structure)!;
+}
+
+/**
+ * Compute (or reuse) the secondary structure property and map it per residue
+ */
+async function getResidueSecondaryStructure(
+  plugin: PluginUIContext,
+  structure: Structure,
+): Promise<Map<ResidueIndex, SecondaryStructureLabel>> {
+  const byResidue = new Map<ResidueIndex, SecondaryStructureLabel>();
+
+  try {
+    await plugin.runTask(
+      Task.create("Secondary Structure", async (runtime) => {
+        await SecondaryStructureProvider.attach(
+          {
+            runtime,
+            assetManager: plugin.managers.asset,
+            errorContext: plugin.errorContext,
+          },
+          structure,
+          undefined,
+          true,
+        );
+      }),
+    );
+
+    const value = SecondaryStructureProvider.get(structure).value;
+    if (!value) return byResidue;
+
+    for (const unit of structure.units) {
+      if (!Unit.isAtomic(unit) || unit.model !== structure.model) continue;
+      const secondaryStructure = value.get(unit.id);
+      if (!secondaryStructure) continue;
+
+      const { elements, residueIndex } = unit;
+      for (let i = 0; i < elements.length; i++) {
+        const rI = residueIndex[elements[i]];
+        if (byResidue.has(rI)) continue;
+
+        const flags =
+          secondaryStructure.type[secondaryStructure.getIndex(rI)] ?? 0;
+        byResidue.set(
+          rI,
+          flags & SECONDARY_STRUCTURE_HELIX
+            ? "helix"
+            : flags & SECONDARY_STRUCTURE_BETA
+              ? "sheet"
+              : "loop",
+        );
+      }
+    }
+  } catch (error) {
+    console.error("Failed to compute secondary structure:", error);
+  }
+
+  return byResidue;
+}
+
+/**
+ * Per-residue pLDDT of a predicted model; empty for experimental structures
+ */
+async function getResiduePLDDT(
+  plugin: PluginUIContext,
+  model: Model,
+): Promise<Map<ResidueIndex, number>> {
+  try {
+    await plugin.runTask(
+      Task.create("Quality Assessment", async (runtime) => {
+        await QualityAssessmentProvider.attach(
+          {
+            runtime,
+            assetManager: plugin.managers.asset,
+            errorContext: plugin.errorContext,
+          },
+          model,
+          undefined,
+          true,
+        );
+      }),
+    );
+
+    const pLDDT = QualityAssessmentProvider.get(model).value?.pLDDT;
+    if (pLDDT) return pLDDT;
+  } catch (error) {
+    console.error("Failed to read quality assessment:", error);
+  }
+
+  // Predicted models without ma_qa_metric store pLDDT as the B-factor
+  const byResidue = new Map<ResidueIndex, number>();
+  const { B_iso_or_equiv } = model.atomicConformation;
+  if (Model.isExperimental(model) || !B_iso_or_equiv.isDefined) {
+    return byResidue;
+  }
+
+  const { residueAtomSegments } = model.atomicHierarchy;
+  for (let i = 0; i < residueAtomSegments.count; i++) {
+    byResidue.set(
+      i as ResidueIndex,
+      B_iso_or_equiv.value(residueAtomSegments.offsets[i]),
+    );
+  }
+  return byResidue;
+}
+
+/**
+ * Convert the polymer chains of a Mol* model to our SequenceData format
+ */
+export function modelToSequenceData(
+  model: Model,
+  structureId: string,
+  secondaryStructure: ReadonlyMap<
+    ResidueIndex,
+    SecondaryStructureLabel
+  > = new Map(),
+  plddt: ReadonlyMap<ResidueIndex, number> = new Map(),
+): SequenceData {
+  const { atomicHierarchy: hierarchy, entities } = model;
+  const { chainAtomSegments, residueAtomSegments } = hierarchy;
+  const chainsById = new Map<string, SequenceChain>();
+  const ligands: SequenceLigand[] = [];
+  const db = MmcifFormat.is(model.sourceData) ? model.sourceData.data.db : null;
+  const seqScheme = getPolySeqScheme(model);
+  const uniprot = getResidueUniprot(model);
+
+  for (let i = 0; i < hierarchy.chains._rowCount; i++) {
+    const chainIndex = i as ChainIndex;
+    const entityIndex = hierarchy.index.getEntityFromChain(chainIndex);
+    const entityType = entities.data.type.value(entityIndex);
+    const chainId = hierarchy.chains.auth_asym_id.value(chainIndex);
+    const residueStart =
+      residueAtomSegments.index[chainAtomSegments.offsets[chainIndex]];
+    const residueEnd =
+      residueAtomSegments.index[chainAtomSegments.offsets[chainIndex + 1] - 1] +
+      1;
+
+    if (LIGAND_ENTITY_TYPES.has(entityType)) {
+      const name =
+        entities.data.pdbx_description.value(entityIndex).join(", ") ||
+        undefined;
+      for (let rI = residueStart; rI < residueEnd; rI++) {
+        ligands.push({
+          chainId,
+          position: hierarchy.residues.auth_seq_id.value(rI),
+          insertionCode:
+            hierarchy.residues.pdbx_PDB_ins_code.value(rI) || undefined,
+          compId: hierarchy.atoms.label_comp_id.value(
+            residueAtomSegments.offsets[rI],
+          ),
+          name,
+        });
+      }
+      continue;
+    }
+
+    if (entityType !== "polymer") continue;
+    const polymerType = POLYMER_TYPES[entities.subtype.value(entityIndex)];
+    if (!polymerType) continue;
+
+    const labelAsymId = hierarchy.chains.label_asym_id.value(chainIndex);
+    const entityId = entities.data.id.value(entityIndex);
+
+    let chain = chainsById.get(chainId);
+    if (!chain) {
+      const description =
+        entities.data.pdbx_description.value(entityIndex).join(", ") ||
+        `Entity ${entityId}`;
+      chain = {
+        id: chainId,
+        labelId: labelAsymId,
+        entityId,
+        name: `Chain ${chainId}: ${description}`,
+        polymerType,
+        residues: [],
+        organism: db ? getEntityOrganism(db, entityId) : undefined,
+      };
+      chainsById.set(chainId, chain);
+    }
+
+    // Observed residues of this chain, keyed by label_seq_id
+    const observed = new Map<number, ResidueIndex>();
+    for (let rI = residueStart; rI < residueEnd; rI++) {
+      observed.set(hierarchy.residues.label_seq_id.value(rI), rI);
+    }
+
+    const toObservedResidue = (
+      rI: ResidueIndex,
+      code?: string,
+    ): SequenceResidue => {
+      const compId = hierarchy.atoms.label_comp_id.value(
+        residueAtomSegments.offsets[rI],
+      );
+      return {
+        position: hierarchy.residues.auth_seq_id.value(rI),
+        code: code ?? ONE_LETTER_CODES[polymerType](compId),
+        chainId,
+        secondaryStructure: secondaryStructure.get(rI) ?? "loop",
+        insertionCode:
+          hierarchy.residues.pdbx_PDB_ins_code.value(rI) || undefined,
+        labelSeqId: hierarchy.residues.label_seq_id.value(rI),
+        compId,
+        observed: true,
+        plddt: plddt.get(rI),
+        uniprot: uniprot.get(rI),
+      };
+    };
+
+    const entitySequence = model.sequence.byEntityKey[entityIndex]?.sequence;
+    if (!entitySequence) {
+      for (const rI of observed.values()) {
+        chain.residues.push(toObservedResidue(rI));
+      }
+      continue;
+    }
+
+    // Walk the full entity sequence so unobserved residues are kept in place
+    const chainResidues: SequenceResidue[] = [];
+    const seenSeqIds = new Set<number>();
+    for (let s = 0; s < entitySequence.length; s++) {
+      const seqId = entitySequence.seqId.value(s);
+      if (seenSeqIds.has(seqId)) continue;
+      seenSeqIds.add(seqId);
+
+      const code = entitySequence.code.value(s);
+      const rI = observed.get(seqId);
+      if (rI !== undefined) {
+        chainResidues.push(toObservedResidue(rI, code));
+        continue;
+      }
+
+      const schemeEntry = seqScheme.get(`${labelAsymId}:${seqId}`);
+      chainResidues.push({
+        position: schemeEntry?.authSeqId ?? Number.NaN,
+        code,
+        chainId,
+        insertionCode: schemeEntry?.insertionCode,
+        labelSeqId: seqId,
+        compId: entitySequence.compId.value(s),
+        observed: false,
+      });
+    }
+
+    fillUnobservedPositions(chainResidues);
+    fillUnobservedUniprot(chainResidues);
+    chain.residues.push(...chainResidues);
+  }
+
+  const chains = Array.from(chainsById.values()).filter(
+    (chain) => chain.residues.length > 0,
+  );
+
+  return {
+    id: model.entryId || structureId,
+    name: db?.struct.title.value(0) || model.entryId || structureId,
+    chains,
+    ligands,
+    metadata: db ? getEntryMetadata(model, db) : undefined,
+  };
+}
+
+/**
+ * Author numbering for every (label_asym_id, label_seq_id) from
+ * pdbx_poly_seq_scheme, which also covers unobserved residues
+ */
+function getPolySeqScheme(
+  model: Model,
+): Map<string, { authSeqId: number; insertionCode?: string }> {
+  const scheme = new Map<
+    string,
+    { authSeqId: number; insertionCode?: string }
+  >();
+  if (!MmcifFormat.is(model.sourceData)) return scheme;
+
+  const category =
+    model.sourceData.data.frame.categories["pdbx_poly_seq_scheme"];
+  const asymId = category?.getField("asym_id");
+  const seqId = category?.getField("seq_id");
+  const pdbSeqNum = category?.getField("pdb_seq_num");
+  const pdbInsCode = category?.getField("pdb_ins_code");
+  if (!category || !asymId || !seqId || !pdbSeqNum) return scheme;
+
+  for (let row = 0; row < category.rowCount; row++) {
+    const insertionCode = pdbInsCode?.str(row);
+    scheme.set(`${asymId.str(row)}:${seqId.int(row)}`, {
+      authSeqId: pdbSeqNum.int(row),
+      insertionCode:
+        insertionCode && insertionCode !== "." && insertionCode !== "?"
+          ? insertionCode
+          : undefined,
+    });
+  }
+  return scheme;
+}
+
+/**
+ * Number unobserved residues lacking a scheme entry by offset from the
+ * nearest observed residue, so gaps keep a continuous author numbering
+ */
+function fillUnobservedPositions(residues: SequenceResidue[]): void {
+  let anchor: SequenceResidue | undefined;
+
+  for (const residue of residues) {
+    if (!Number.isNaN(residue.position)) {
+      anchor = residue;
+    } else if (anchor) {
+      residue.position =
+        anchor.position + (residue.labelSeqId! - anchor.labelSeqId!);
+    }
+  }
+
+  anchor = undefined;
+  for (let i = residues.length - 1; i >= 0; i--) {
+    const residue = residues[i];
+    if (!Number.isNaN(residue.position)) {
+      anchor = residue;
+    } else {
+      residue.position = anchor
+        ? anchor.position - (anchor.labelSeqId! - residue.labelSeqId!)
+        : residue.labelSeqId!;
+    }
+  }
+}
+
+/**
+ * UniProt accession and position of each observed residue, from the
+ * pdbx_sifts_xref_db_* columns of atom_site; empty for other files
+ */
+function getResidueUniprot(
+  model: Model,
+): Map<ResidueIndex, NonNullable<SequenceResidue["uniprot"]>> {
+  const byResidue = new Map<
+    ResidueIndex,
+    NonNullable<SequenceResidue["uniprot"]>
+  >();
+  if (!MmcifFormat.is(model.sourceData)) return byResidue;
+
+  const {
+    pdbx_sifts_xref_db_name: dbName,
+    pdbx_sifts_xref_db_acc: dbAcc,
+    pdbx_sifts_xref_db_num: dbNum,
+  } = model.sourceData.data.db.atom_site;
+  if (!dbName.isDefined || !dbAcc.isDefined || !dbNum.isDefined) {
+    return byResidue;
+  }
+
+  const { atomSourceIndex, residueAtomSegments } = model.atomicHierarchy;
+  for (let i = 0; i < residueAtomSegments.count; i++) {
+    const row = atomSourceIndex.value(residueAtomSegments.offsets[i]);
+    if (dbName.value(row) !== "UNP") continue;
+    const position = parseInt(dbNum.value(row), 10);
+    if (Number.isNaN(position)) continue;
+    byResidue.set(i as ResidueIndex, {
+      accession: dbAcc.value(row),
+      position,
+    });
+  }
+  return byResidue;
+}
+
+/**
+ * Map unobserved residues between two mapped residues of the same UniProt
+ * entry, when the gap is as long in both sequences
+ */
+function fillUnobservedUniprot(residues: SequenceResidue[]): void {
+  let anchor = -1;
+
+  residues.forEach((residue, index) => {
+    if (!residue.uniprot) return;
+    const previous = residues[anchor]?.uniprot;
+    if (
+      previous &&
+      previous.accession === residue.uniprot.accession &&
+      residue.uniprot.position - previous.position ===
+        residue.labelSeqId! - residues[anchor].labelSeqId!
+    ) {
+      for (let i = anchor + 1; i < index; i++) {
+        residues[i].uniprot = {
+          accession: previous.accession,
+          position:
+            previous.position +
+            (residues[i].labelSeqId! - residues[anchor].labelSeqId!),
+        };
+      }
+    }
+    anchor = index;
+  });
+}
+
+type MmcifDatabase = MmcifFormat["data"]["db"];
+
+/**
+ * Look up the source organism of an entity from the mmCIF source categories
+ */
+function getEntityOrganism(
+  db: MmcifDatabase,
+  entityId: string,
+): string | undefined {
+  const sources = [
+    [
+      db.entity_src_gen.entity_id,
+      db.entity_src_gen.pdbx_gene_src_scientific_name,
+    ],
+    [db.entity_src_nat.entity_id, db.entity_src_nat.pdbx_organism_scientific],
+    [
+      db.pdbx_entity_src_syn.entity_id,
+      db.pdbx_entity_src_syn.organism_scientific,
+    ],
+  ] as const;
+
+  for (const [ids, names] of sources) {
+    for (let row = 0; row < ids.rowCount; row++) {
+      if (ids.value(row) === entityId && names.value(row)) {
+        return names.value(row);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Extract entry-level metadata (organism, method, resolution)
+ */
+function getEntryMetadata(
+  model: Model,
+  db: MmcifDatabase,
+): Record<string, unknown> {
+  const { id, type } = model.entities.data;
+  let firstPolymer: string | undefined;
+  for (let row = 0; row < id.rowCount; row++) {
+    if (type.value(row) === "polymer") {
+      firstPolymer = id.value(row);
+      break;
+    }
+  }
+
+  const frame = MmcifFormat.is(model.sourceData)
+    ? model.sourceData.data.frame
+    : null;
+  const resolution =
+    frame?.categories["refine"]?.getField("ls_d_res_high")?.float(0) ||
+    frame?.categories["em_3d_reconstruction"]?.getField("resolution")?.float(0);
+
+  return {
+    organism: firstPolymer ? getEntityOrganism(db, firstPolymer) : undefined,
+    method: db.exptl.method.value(0) || undefined,
+    resolution: resolution ? resolution.toFixed(2) : undefined,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Structure Source Helpers
+ *
+ * Stable keys and display labels for the places a structure can come from
+ * (PDB entry, local file, AlphaFold DB prediction).
+ */
+
+import type { StructureSource } from "@/types/molstar";
+import { getStructureFileBaseName } from "./structureFormats";
+
+/**
+ * Key that changes whenever a different structure should be loaded
+ */
+export function getStructureSourceKey(source: StructureSource): string {
+  switch (source.kind) {
+    case "pdb":
+      return source.assemblyId
+        ? `pdb:${source.id.toLowerCase()}:${source.assemblyId}`
+        : `pdb:${source.id.toLowerCase()}`;
+    case "file":
+      return `file:${source.file.name}:${source.file.size}:${source.file.lastModified}`;
+    case "alphafold":
+      return `alphafold:${source.accession}`;
+  }
+}
+
+/**
+ * Short human-readable label, e.g. "1crn", "my_model", "AF-P69905"
+ */
+export function getStructureSourceLabel(source: StructureSource): string {
+  switch (source.kind) {
+    case "pdb":
+      return source.id;
+    case "file":
+      return getStructureFileBaseName(source.file.name);
+    case "alphafold":
+      return `AF-${source.accession}`;
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Structural Superposition
+ *
+ * Superposes a chain (or residue ranges of it) of one scene structure onto a
+ * chain of another using Cα atoms:
+ * - residues are paired by author numbering (auth_seq_id + insertion code),
+ *   which holds for apo/holo and mutant/wild-type pairs of the same protein
+ * - the least-squares transform is applied in the Mol* scene as a structure
+ *   conformation transform, so re-running replaces the previous one
+ * - RMSD, aligned residue count and per-residue deviations are reported
+ */
+
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import { Unit } from "molstar/lib/mol-model/structure";
+import type { Structure } from "molstar/lib/mol-model/structure";
+import type { ElementIndex } from "molstar/lib/mol-model/structure/model/indexing";
+import { Mat4, Vec3 } from "molstar/lib/mol-math/linear-algebra";
+import { MinimizeRmsd } from "molstar/lib/mol-math/linear-algebra/3d/minimize-rmsd";
+import { StateTransforms } from "molstar/lib/mol-plugin-state/transforms";
+import { findStructureRef } from "./sceneStructures";
+import { getResidueKey } from "./sequenceToMolstar";
+import type {
+  AlignedResidue,
+  ResidueDeviation,
+  SuperpositionResult,
+  SuperpositionTarget,
+} from "@/types/molstar";
+
+const SUPERPOSITION_TAG = "structure-viewer-superposition";
+
+/** Minimum number of paired Cα atoms for a meaningful superposition */
+const MIN_ALIGNED_RESIDUES = 3;
+
+/** Colour bands for the per-residue deviation track, lowest first */
+export const DEVIATION_BANDS = [
+  { label: "<0.5 Å", max: 0.5, color: "#1D4ED8" },
+  { label: "0.5-1 Å", max: 1, color: "#60A5FA" },
+  { label: "1-2 Å", max: 2, color: "#FACC15" },
+  { label: "2-3 Å", max: 3, color: "#F97316" },
+  { label: ">3 Å", max: Infinity, color: "#DC2626" },
+] as const;
+
+interface CalphaAtom {
+  residue: AlignedResidue;
+  position: Vec3;
+}
+
+/**
+ * Colour for a Cα deviation in Å
+ */
+export function getDeviationColor(deviation: number): string {
+  return (
+    DEVIATION_BANDS.find((band) => deviation < band.max) ??
+    DEVIATION_BANDS[DEVIATION_BANDS.length - 1]
+  ).color;
+}
+
+/**
+ * Author ids of the polymer chains with Cα atoms in a scene structure
+ */
+export function getCalphaChainIds(
+  plugin: PluginUIContext,
+  structureRef: string,
+): string[] {
+  const data = findStructureRef(plugin, structureRef)?.cell.obj?.data;
+  if (!data) return [];
+
+  const chainIds = new Set<string>();
+  for (const atom of collectCalphaAtoms(data).values()) {
+    chainIds.add(atom.residue.chainId);
+  }
+  return Array.from(chainIds).sort();
+}
+
+/**
+ * Superpose `mobile` onto `reference` and move the mobile structure in the
+ * scene. Throws if the structures cannot be found or too few residues pair.
+ */
+export async function superposeStructures(
+  plugin: PluginUIContext,
+  mobile: SuperpositionTarget,
+  reference: SuperpositionTarget,
+): Promise<SuperpositionResult> {
+  if (mobile.structureRef === reference.structureRef) {
+    throw new Error("Choose two different structures to superpose");
+  }
+
+  const mobileStructure = findStructureRef(plugin, mobile.structureRef);
+  const referenceStructure = findStructureRef(plugin, reference.structureRef);
+  // The mobile transform is recomputed from its original coordinates, while
+  // the reference is matched where it currently sits in the scene
+  const mobileData = mobileStructure?.cell.obj?.data;
+  const referenceData =
+    referenceStructure?.transform?.cell.obj?.data ??
+    referenceStructure?.cell.obj?.data;
+  if (!mobileData || !referenceData) {
+    throw new Error("Structure not found in the scene");
+  }
+
+  const mobileAtoms = collectCalphaAtoms(mobileData, mobile);
+  const referenceAtoms = collectCalphaAtoms(referenceData, reference);
+
+  // Pair residues by author numbering, in reference order
+  const pairs: Array<[CalphaAtom, CalphaAtom]> = [];
+  for (const [key, referenceAtom] of referenceAtoms) {
+    const mobileAtom = mobileAtoms.get(key);
+    if (mobileAtom) pairs.push([referenceAtom, mobileAtom]);
+  }
+
+  if (pairs.length < MIN_ALIGNED_RESIDUES) {
+    throw new Error(
+      `Only ${pairs.length} residues pair between chain ${mobile.chainId} and chain ${reference.chainId}; at least ${MIN_ALIGNED_RESIDUES} are needed`,
+    );
+  }
+
+  const a = MinimizeRmsd.Positions.empty(pairs.length);
+  const b = MinimizeRmsd.Positions.empty(pairs.length);
+  pairs.forEach(([referenceAtom, mobileAtom], i) => {
+    a.x[i] = referenceAtom.position[0];
+    a.y[i] = referenceAtom.position[1];
+    a.z[i] = referenceAtom.position[2];
+    b.x[i] = mobileAtom.position[0];
+    b.y[i] = mobileAtom.position[1];
+    b.z[i] = mobileAtom.position[2];
+  });
+
+  const { bTransform, rmsd } = MinimizeRmsd.compute({ a, b });
+
+  const moved = Vec3();
+  const deviations: ResidueDeviation[] = pairs.map(
+    ([referenceAtom, mobileAtom]) => {
+      Vec3.transformMat4(moved, mobileAtom.position, bTransform);
+      return {
+        reference: referenceAtom.residue,
+        mobile: mobileAtom.residue,
+        deviation: Vec3.distance(moved, referenceAtom.position),
+      };
+    },
+  );
+
+  await setStructureTransform(plugin, mobile.structureRef, bTransform);
+
+  return {
+    mobile,
+    reference,
+    rmsd,
+    alignedCount: pairs.length,
+    deviations,
+  };
+}
+
+/**
+ * Move a structure back to its deposited coordinates
+ */
+export async function resetSuperposition(
+  plugin: PluginUIContext,
+  structureRef: string,
+): Promise<void> {
+  await setStructureTransform(plugin, structureRef, Mat4.identity());
+}
+
+/**
+ * Create or update the conformation transform below a structure node
+ */
+async function setStructureTransform(
+  plugin: PluginUIContext,
+  structureRef: string,
+  matrix: Mat4,
+): Promise<void> {
+  const state = plugin.state.data;
+  const existing = state.selectQ((q) =>
+    q
+      .byRef(structureRef)
+      .subtree()
+      .withTransformer(StateTransforms.Model.TransformStructureConformation),
+  )[0];
+
+  const params = {
+    transform: {
+      name: "matrix" as const,
+      params: { data: matrix, transpose: false },
+    },
+  };
+
+  const update = existing
+    ? state.build().to(existing).update(params)
+    : state
+        .build()
+        .to(structureRef)
+        .insert(StateTransforms.Model.TransformStructureConformation, params, {
+          tags: SUPERPOSITION_TAG,
+        });
+
+  await plugin.runTask(state.updateTree(update));
+}
+
+/**
+ * Cα atoms of polymer residues keyed by residue key, optionally limited to
+ * one chain and residue ranges. The first copy of each residue wins
+ * (alternate locations, symmetry mates).
+ */
+function collectCalphaAtoms(
+  structure: Structure,
+  target?: SuperpositionTarget,
+): Map<string, CalphaAtom> {
+  const atoms = new Map<string, CalphaAtom>();
+
+  for (const unit of structure.units) {
+    if (!Unit.isAtomic(unit)) continue;
+
+    const { elements, model } = unit;
+    const { atoms: atomTable, residues, chains } = model.atomicHierarchy;
+    const { residueAtomSegments, chainAtomSegments, index } =
+      model.atomicHierarchy;
+
+    for (let i = 0; i < elements.length; i++) {
+      const element = elements[i] as ElementIndex;
+      if (atomTable.label_atom_id.value(element) !== "CA") continue;
+
+      const chainIndex = chainAtomSegments.index[element];
+      const entityIndex = index.getEntityFromChain(chainIndex);
+      if (model.entities.data.type.value(entityIndex) !== "polymer") continue;
+
+      const chainId = chains.auth_asym_id.value(chainIndex);
+      if (target && chainId !== target.chainId) continue;
+
+      const residueIndex = residueAtomSegments.index[element];
+      const position = residues.auth_seq_id.value(residueIndex);
+      if (
+        target?.ranges?.length &&
+        !target.ranges.some(
+          (range) => position >= range.start && position <= range.end,
+        )
+      ) {
+        continue;
+      }
+
+      const insertionCode =
+        residues.pdbx_PDB_ins_code.value(residueIndex) || undefined;
+      // Chain is fixed by the target, so pair on number + insertion code
+      const key = target
+        ? `${position}${insertionCode ?? ""}`
+        : getResidueKey(chainId, position, insertionCode);
+      if (atoms.has(key)) continue;
+
+      atoms.set(key, {
+        residue: { chainId, position, insertionCode },
+        position: unit.conformation.position(element, Vec3()),
+      });
+    }
+  }
+
+  return atoms;
+}
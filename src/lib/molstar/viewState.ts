@@ -0,0 +1,100 @@
+/**
+ * Structure View State
+ *
+ * What a scene structure currently shows: its representation, which polymer
+ * chains are visible and which component types (water, ligands, ions) have
+ * been removed. The state is read back from the Mol* components rather than
+ * tracked per operation, so it is right whichever code path changed them.
+ */
+
+import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
+import {
+  Structure,
+  StructureElement,
+  StructureProperties,
+} from "molstar/lib/mol-model/structure";
+import type { ComponentType, StructureViewState } from "@/types/molstar";
+import { findStructureRef } from "./sceneStructures";
+
+interface StructureContents {
+  /** Author ids of polymer chains */
+  chains: Set<string>;
+  components: Set<ComponentType>;
+}
+
+/**
+ * Polymer chains and component types present in a structure
+ */
+function getStructureContents(
+  structure: Structure,
+  contents: StructureContents = { chains: new Set(), components: new Set() },
+): StructureContents {
+  const location = StructureElement.Location.create(structure);
+
+  for (const unit of structure.units) {
+    location.unit = unit;
+    location.element = unit.elements[0];
+
+    const entityType = StructureProperties.entity.type(location);
+    if (entityType === "polymer") {
+      // Polymer units hold a single chain
+      contents.chains.add(StructureProperties.chain.auth_asym_id(location));
+    } else if (entityType === "water") {
+      contents.components.add("water");
+    } else if (entityType === "non-polymer") {
+      // Units may group several small chains; ions are single-atom residues
+      // named after their element, e.g. ZN
+      for (let i = 0; i < unit.elements.length; i++) {
+        location.element = unit.elements[i];
+        const isIon =
+          StructureProperties.atom.label_comp_id(location).toUpperCase() ===
+          StructureProperties.atom.type_symbol(location).toUpperCase();
+        contents.components.add(isIon ? "ions" : "ligands");
+        if (
+          contents.components.has("ions") &&
+          contents.components.has("ligands")
+        ) {
+          break;
+        }
+      }
+    }
+  }
+
+  return contents;
+}
+
+/**
+ * Current view state of a scene structure (the first one if no ref is given)
+ */
+export function getStructureViewState(
+  plugin: PluginUIContext,
+  structureRef?: string | null,
+): StructureViewState | null {
+  const structure = findStructureRef(plugin, structureRef);
+  const data = structure?.cell.obj?.data;
+  if (!structure || !data) return null;
+
+  const all = getStructureContents(data);
+  const shown: StructureContents = { chains: new Set(), components: new Set() };
+  let representation: string | undefined;
+
+  for (const component of structure.components) {
+    const componentData = component.cell.obj?.data;
+    if (!componentData || component.cell.state.isHidden) continue;
+
+    getStructureContents(componentData, shown);
+    representation ??=
+      component.representations[0]?.cell.transform.params?.type?.name;
+  }
+
+  const chains = [...all.chains];
+  return {
+    structureRef: structure.cell.transform.ref,
+    representation,
+    visibleChains: chains.filter((chainId) => shown.chains.has(chainId)),
+    hiddenChains: chains.filter((chainId) => !shown.chains.has(chainId)),
+    removedComponents: [...all.components].filter(
+      (type) => !shown.components.has(type),
+    ),
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Motif Search
+ *
+ * Finds peptides, regular expressions and PROSITE patterns in chain
+ * sequences and returns every match, overlapping ones included, as a
+ * selection region in author numbering with its label_seq_id span. PROSITE
+ * patterns are translated to regular expressions: "x" is any residue, [ST]
+ * any of, {P} none of, (2,4) a repeat count, and "<" or ">" anchor to the
+ * N- or C-terminus.
+ */
+
+import { createResidueRegion } from "./residueNumbering";
+import type {
+  MotifSearchMode,
+  MotifSearchResult,
+  SelectionRegion,
+  SequenceChain,
+} from "@/types/sequence";
+
+/** Searches stop here, as thousands of regions slow down the 3D selection */
+export const MAX_MOTIF_MATCHES = 500;
+
+export const MOTIF_SEARCH_MODES: {
+  value: MotifSearchMode;
+  label: string;
+  placeholder: string;
+}[] = [
+  { value: "text", label: "Peptide", placeholder: "e.g. GKT" },
+  { value: "regex", label: "Regex", placeholder: "e.g. N[^P][ST]" },
+  { value: "prosite", label: "PROSITE", placeholder: "e.g. N-{P}-[ST]-{P}" },
+];
+
+const PROSITE_ELEMENT = /^(<)?(X|[A-Z]|\[[A-Z]+>?\]|\{[A-Z]+\})(>)?$/;
+const PROSITE_REPEAT = /\((\d+)(?:,(\d+))?\)$/;
+
+/**
+ * Regular expression source for a PROSITE pattern; throws on invalid syntax
+ */
+export function prositeToRegExp(pattern: string): string {
+  const elements = pattern.trim().replace(/\.$/, "").split("-");
+  if (elements.length === 0 || elements.some((e) => !e.trim())) {
+    throw new Error("Empty element in PROSITE pattern");
+  }
+
+  return elements
+    .map((raw, index) => {
+      const token = raw.trim();
+      const repeat = token.match(PROSITE_REPEAT);
+      const body = (
+        repeat ? token.slice(0, repeat.index) : token
+      ).toUpperCase();
+      const match = body.match(PROSITE_ELEMENT);
+      if (!match) throw new Error(`Invalid PROSITE element "${token}"`);
+
+      const [, nTerminal, residues, cTerminal] = match;
+      if (nTerminal && index !== 0) {
+        throw new Error('"<" can only start a PROSITE pattern');
+      }
+      if (
+        (cTerminal || residues.includes(">")) &&
+        index !== elements.length - 1
+      ) {
+        throw new Error('">" can only end a PROSITE pattern');
+      }
+
+      let source: string;
+      if (residues === "X") {
+        source = ".";
+      } else if (residues.startsWith("{")) {
+        source = `[^${residues.slice(1, -1)}]`;
+      } else if (residues.includes(">")) {
+        // e.g. [G>]: G, or the C-terminus
+        source = `(?:[${residues.slice(1, -2)}]|$)`;
+      } else {
+        source = residues;
+      }
+
+      if (repeat) {
+        const [, min, max] = repeat;
+        if (max !== undefined && Number(max) < Number(min)) {
+          throw new Error(`Invalid repeat in PROSITE element "${token}"`);
+        }
+        source += max === undefined ? `{${min}}` : `{${min},${max}}`;
+      }
+      return `${nTerminal ? "^" : ""}${source}${cTerminal ? "$" : ""}`;
+    })
+    .join("");
+}
+
+function toRegExp(query: string, mode: MotifSearchMode): RegExp {
+  if (mode === "prosite") return new RegExp(prositeToRegExp(query), "g");
+  if (mode === "regex") return new RegExp(query, "gi");
+  // Peptides ignore spaces, so pasted sequences in blocks still match
+  const peptide = query.replace(/\s+/g, "").toUpperCase();
+  return new RegExp(peptide.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "g");
+}
+
+/**
+ * Every match of a query in the given chains, as selection regions; throws
+ * if the regular expression or PROSITE pattern does not parse
+ */
+export function findMotifs(
+  chains: SequenceChain[],
+  query: string,
+  mode: MotifSearchMode,
+): MotifSearchResult {
+  const regions: SelectionRegion[] = [];
+  if (!query.trim()) return { regions, truncated: false };
+  const regex = toRegExp(query.trim(), mode);
+
+  for (const chain of chains) {
+    // One character per residue, so string and residue indices agree
+    const sequence = chain.residues
+      .map((residue) => (residue.code.length === 1 ? residue.code : "X"))
+      .join("");
+
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(sequence)) !== null) {
+      // Restart one residue on, so overlapping sites are all found
+      regex.lastIndex = match.index + 1;
+      if (match[0].length === 0) continue;
+
+      const residues = chain.residues.slice(
+        match.index,
+        match.index + match[0].length,
+      );
+      const region = createResidueRegion(chain, residues);
+      if (!region) continue;
+      regions.push({
+        ...region,
+        id: `motif-${region.id}`,
+        sequence: match[0].toUpperCase(),
+      });
+      if (regions.length >= MAX_MOTIF_MATCHES) {
+        return { regions, truncated: true };
+      }
+    }
+  }
+  return { regions, truncated: false };
+}
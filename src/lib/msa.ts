@@ -0,0 +1,244 @@
+/**
+ * Multiple sequence alignments
+ *
+ * Parsing of FASTA, Clustal and Stockholm alignments, per-column
+ * conservation (Shannon entropy or Jensen-Shannon divergence, Capra & Singh
+ * 2007, without sequence weighting) and mapping of an alignment row onto the
+ * residues of a chain through a pairwise alignment.
+ */
+
+import { alignSequences } from "./sequenceAlignment";
+import type {
+  ConservationMethod,
+  MsaFormat,
+  MsaSequence,
+  MultipleSequenceAlignment,
+} from "@/types/sequence";
+
+export const MSA_FILE_ACCEPT =
+  ".fasta,.fa,.faa,.afa,.aln,.clustal,.sto,.stk,.txt";
+
+const STANDARD_AMINO_ACIDS = "ARNDCQEGHILKMFPSTWYV";
+
+/** BLOSUM62 background frequencies, in STANDARD_AMINO_ACIDS order */
+// prettier-ignore
+const BACKGROUND_FREQUENCIES = [
+  0.078, 0.051, 0.041, 0.052, 0.024, 0.034, 0.059, 0.083, 0.025, 0.062,
+  0.092, 0.056, 0.024, 0.044, 0.043, 0.059, 0.055, 0.014, 0.034, 0.072,
+];
+
+const PSEUDOCOUNT = 1e-6;
+
+/**
+ * Detect the format of an alignment from its content
+ */
+export function detectMsaFormat(text: string): MsaFormat | null {
+  const firstLine = text.trimStart().split(/\r?\n/, 1)[0] ?? "";
+  if (firstLine.startsWith("# STOCKHOLM")) return "stockholm";
+  if (/^(CLUSTAL|MUSCLE|PROBCONS)/.test(firstLine)) return "clustal";
+  if (firstLine.startsWith(">")) return "fasta";
+  return null;
+}
+
+/**
+ * Parse an alignment file; throws if the format is unknown or the rows
+ * differ in length
+ */
+export function parseMsa(text: string): MultipleSequenceAlignment {
+  const format = detectMsaFormat(text);
+  if (!format) {
+    throw new Error(
+      "Unrecognised alignment format (expected FASTA, Clustal or Stockholm)",
+    );
+  }
+
+  const rows =
+    format === "fasta" ? parseFasta(text) : parseBlocks(text, format);
+  const sequences = Array.from(rows, ([name, sequence]) => ({
+    name,
+    sequence: sequence.toUpperCase().replace(/\./g, "-"),
+  }));
+
+  if (sequences.length < 2) {
+    throw new Error("The alignment needs at least two sequences");
+  }
+  const length = sequences[0].sequence.length;
+  if (sequences.some((s) => s.sequence.length !== length)) {
+    throw new Error("Sequences in the alignment have different lengths");
+  }
+
+  return { format, sequences, length };
+}
+
+function parseFasta(text: string): Map<string, string> {
+  const rows = new Map<string, string>();
+  let name: string | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (line.startsWith(">")) {
+      name = uniqueName(rows, line.slice(1).split(/\s+/)[0] || "sequence");
+      rows.set(name, "");
+    } else if (name) {
+      rows.set(name, rows.get(name) + line.replace(/\s+/g, ""));
+    }
+  }
+  return rows;
+}
+
+/**
+ * Clustal and Stockholm: interleaved "name sequence" lines, where blocks
+ * append to earlier rows of the same name
+ */
+function parseBlocks(text: string, format: MsaFormat): Map<string, string> {
+  const rows = new Map<string, string>();
+  const lines = text.trimStart().split(/\r?\n/);
+
+  // Skip the header line
+  for (const line of lines.slice(1)) {
+    if (!line.trim() || line.startsWith("//")) continue;
+    if (format === "stockholm" && line.startsWith("#")) continue;
+    // Clustal consensus lines start with whitespace
+    if (format === "clustal" && /^\s/.test(line)) continue;
+
+    const [name, sequence] = line.trim().split(/\s+/);
+    if (!name || !sequence) continue;
+    rows.set(name, (rows.get(name) ?? "") + sequence);
+  }
+  return rows;
+}
+
+function uniqueName(rows: Map<string, string>, name: string): string {
+  let candidate = name;
+  for (let i = 2; rows.has(candidate); i++) candidate = `${name}_${i}`;
+  return candidate;
+}
+
+/**
+ * Conservation per column from 0 (variable) to 1 (conserved). Scores are
+ * scaled by the fraction of non-gap residues, so gappy columns score low.
+ */
+export function computeConservation(
+  msa: MultipleSequenceAlignment,
+  method: ConservationMethod = "jensen-shannon",
+): number[] {
+  const scores: number[] = [];
+  const counts = new Array<number>(STANDARD_AMINO_ACIDS.length);
+
+  for (let column = 0; column < msa.length; column++) {
+    counts.fill(0);
+    let residues = 0;
+    let gaps = 0;
+    for (const { sequence } of msa.sequences) {
+      const code = sequence[column];
+      if (code === "-") {
+        gaps++;
+        continue;
+      }
+      const index = STANDARD_AMINO_ACIDS.indexOf(code);
+      if (index >= 0) {
+        counts[index]++;
+        residues++;
+      }
+    }
+
+    if (residues === 0) {
+      scores.push(0);
+      continue;
+    }
+
+    const nonGapFraction = 1 - gaps / msa.sequences.length;
+    const score =
+      method === "shannon"
+        ? shannonConservation(counts, residues)
+        : jensenShannonDivergence(counts, residues);
+    scores.push(score * nonGapFraction);
+  }
+
+  return scores;
+}
+
+/** 1 - normalised Shannon entropy of the residue distribution */
+function shannonConservation(counts: number[], total: number): number {
+  let entropy = 0;
+  for (const count of counts) {
+    if (count === 0) continue;
+    const p = count / total;
+    entropy -= p * Math.log2(p);
+  }
+  return 1 - entropy / Math.log2(STANDARD_AMINO_ACIDS.length);
+}
+
+/** Jensen-Shannon divergence from the BLOSUM62 background (base 2, 0-1) */
+function jensenShannonDivergence(counts: number[], total: number): number {
+  const denominator = total + counts.length * PSEUDOCOUNT;
+  let divergence = 0;
+  counts.forEach((count, i) => {
+    const p = (count + PSEUDOCOUNT) / denominator;
+    const q = BACKGROUND_FREQUENCIES[i];
+    const r = (p + q) / 2;
+    divergence += 0.5 * p * Math.log2(p / r) + 0.5 * q * Math.log2(q / r);
+  });
+  return Math.min(1, Math.max(0, divergence));
+}
+
+/**
+ * Index of the row most likely to correspond to a chain sequence, ranked by
+ * shared 3-mers so large alignments do not need a full alignment per row
+ */
+export function findMatchingRow(
+  msa: MultipleSequenceAlignment,
+  chainSequence: string,
+): number {
+  const kmers = (sequence: string) => {
+    const set = new Set<string>();
+    for (let i = 0; i + 3 <= sequence.length; i++) {
+      set.add(sequence.slice(i, i + 3));
+    }
+    return set;
+  };
+
+  const target = kmers(chainSequence.toUpperCase());
+  let bestIndex = 0;
+  let bestShared = -1;
+  msa.sequences.forEach((row, index) => {
+    let shared = 0;
+    for (const kmer of kmers(ungapped(row))) {
+      if (target.has(kmer)) shared++;
+    }
+    if (shared > bestShared) {
+      bestShared = shared;
+      bestIndex = index;
+    }
+  });
+  return bestIndex;
+}
+
+/**
+ * Map per-column values of an alignment row onto chain residue indices.
+ * Returns the value for each chain residue aligned to a row residue.
+ */
+export function mapRowToChain(
+  row: MsaSequence,
+  columnValues: number[],
+  chainSequence: string,
+): Map<number, number> {
+  // Alignment column of each residue of the row
+  const rowColumns: number[] = [];
+  for (let column = 0; column < row.sequence.length; column++) {
+    if (row.sequence[column] !== "-") rowColumns.push(column);
+  }
+
+  const alignment = alignSequences(ungapped(row), chainSequence);
+  const mapped = new Map<number, number>();
+  for (const { a, b } of alignment.columns) {
+    if (a === null || b === null) continue;
+    mapped.set(b, columnValues[rowColumns[a]]);
+  }
+  return mapped;
+}
+
+function ungapped(row: MsaSequence): string {
+  return row.sequence.replace(/-/g, "");
+}
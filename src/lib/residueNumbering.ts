@@ -0,0 +1,201 @@
+/**
+ * Residue Numbering
+ *
+ * Shows residues in author (auth_seq_id plus insertion code), sequential
+ * (label_seq_id) or UniProt numbering. Selection regions keep author
+ * start/end numbers for the rest of the app, and regions made from grid
+ * residues also carry their label_seq_id span, which stays exact where
+ * author numbers repeat with insertion codes or jump across gaps.
+ */
+
+import type {
+  NumberingScheme,
+  SelectionRegion,
+  SequenceChain,
+  SequenceResidue,
+} from "@/types/sequence";
+
+export const NUMBERING_SCHEMES: {
+  value: NumberingScheme;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "auth",
+    label: "Author",
+    description: "Numbering of the deposited file, with insertion codes",
+  },
+  {
+    value: "label",
+    label: "Sequential",
+    description: "Entity sequence numbering from 1 (label_seq_id)",
+  },
+  {
+    value: "uniprot",
+    label: "UniProt",
+    description: "Positions in the UniProt entry, from the SIFTS mapping",
+  },
+];
+
+/**
+ * Number of a residue in a scheme, e.g. "52A" in author numbering;
+ * undefined if the residue has none, e.g. an expression tag in UniProt
+ */
+export function getResidueNumber(
+  residue: SequenceResidue,
+  scheme: NumberingScheme,
+): string | undefined {
+  if (scheme === "label") return residue.labelSeqId?.toString();
+  if (scheme === "uniprot") return residue.uniprot?.position.toString();
+  return `${residue.position}${residue.insertionCode ?? ""}`;
+}
+
+/**
+ * Numeric part of a residue number, without the insertion code
+ */
+export function getResidueSeqNumber(
+  residue: SequenceResidue,
+  scheme: NumberingScheme,
+): number | undefined {
+  if (scheme === "label") return residue.labelSeqId;
+  if (scheme === "uniprot") return residue.uniprot?.position;
+  return residue.position;
+}
+
+/**
+ * Whether any residue of the chains can be shown in a scheme
+ */
+export function hasNumbering(
+  chains: SequenceChain[],
+  scheme: NumberingScheme,
+): boolean {
+  if (scheme === "auth") return true;
+  return chains.some((chain) =>
+    chain.residues.some(
+      (residue) => getResidueSeqNumber(residue, scheme) !== undefined,
+    ),
+  );
+}
+
+export function isResidueInRegion(
+  residue: SequenceResidue,
+  region: SelectionRegion,
+): boolean {
+  if (residue.chainId !== region.chainId) return false;
+  if (region.labelRange && residue.labelSeqId !== undefined) {
+    return (
+      residue.labelSeqId >= region.labelRange.start &&
+      residue.labelSeqId <= region.labelRange.end
+    );
+  }
+  return residue.position >= region.start && residue.position <= region.end;
+}
+
+/**
+ * Residues of a chain covered by a region, in chain order
+ */
+export function getRegionResidues(
+  chain: SequenceChain,
+  region: SelectionRegion,
+): SequenceResidue[] {
+  return chain.residues.filter((residue) => isResidueInRegion(residue, region));
+}
+
+/**
+ * Region covering a run of consecutive residues of one chain; start and end
+ * are author numbers, as Mol* selections and chat references use, or the
+ * label_seq_id span where no residue of the run has an author number. Runs
+ * with neither give no region.
+ */
+export function createResidueRegion(
+  chain: SequenceChain,
+  residues: SequenceResidue[],
+  id?: string,
+): SelectionRegion | null {
+  const positions = residues
+    .map((residue) => residue.position)
+    .filter((position) => Number.isFinite(position));
+  const labelSeqIds = residues.map((residue) => residue.labelSeqId);
+  const labelRange =
+    chain.labelId && labelSeqIds.every((seqId) => seqId !== undefined)
+      ? {
+          chainId: chain.labelId,
+          start: Math.min(...(labelSeqIds as number[])),
+          end: Math.max(...(labelSeqIds as number[])),
+        }
+      : undefined;
+
+  const span =
+    positions.length > 0
+      ? { start: Math.min(...positions), end: Math.max(...positions) }
+      : labelRange;
+  if (!span) return null;
+  const { start, end } = span;
+
+  return {
+    id: id ?? `${chain.id}-${start}-${end}`,
+    chainId: chain.id,
+    start,
+    end,
+    sequence: residues.map((residue) => residue.code).join(""),
+    label:
+      start === end ? `${chain.id}:${start}` : `${chain.id}:${start}-${end}`,
+    labelRange,
+  };
+}
+
+/**
+ * Range of residues in a scheme, e.g. "15-40" or "52A"; the ends are the
+ * first and last residues with a number, and undefined if none has one
+ */
+export function formatResidueRange(
+  residues: SequenceResidue[],
+  scheme: NumberingScheme,
+): string | undefined {
+  const numbered = residues.filter(
+    (residue) => getResidueNumber(residue, scheme) !== undefined,
+  );
+  if (numbered.length === 0) return undefined;
+
+  const first = getResidueNumber(numbered[0], scheme)!;
+  const last = getResidueNumber(numbered[numbered.length - 1], scheme)!;
+  return first === last ? first : `${first}-${last}`;
+}
+
+/**
+ * Region label in a scheme, e.g. "A:15-40"; regions without residues in the
+ * chains, such as ligands, keep their own label
+ */
+export function formatRegion(
+  region: SelectionRegion,
+  chains: SequenceChain[],
+  scheme: NumberingScheme,
+): string {
+  const fallback =
+    region.label ?? `${region.chainId}:${region.start}-${region.end}`;
+  const chain = chains.find((c) => c.id === region.chainId);
+  if (!chain) return fallback;
+
+  const residues = getRegionResidues(chain, region);
+  if (residues.length === 0) return fallback;
+
+  const range = formatResidueRange(residues, scheme);
+  if (!range) {
+    const label = NUMBERING_SCHEMES.find((s) => s.value === scheme)?.label;
+    return `${region.chainId} (no ${label} numbering)`;
+  }
+  return `${region.chainId}:${range}`;
+}
+
+/**
+ * Number of residues in a region; the author range length for regions
+ * without residues in the chains
+ */
+export function countRegionResidues(
+  region: SelectionRegion,
+  chains: SequenceChain[],
+): number {
+  const chain = chains.find((c) => c.id === region.chainId);
+  const residues = chain ? getRegionResidues(chain, region) : [];
+  return residues.length || region.end - region.start + 1;
+}
@@ -0,0 +1,130 @@
+/**
+ * Residue References
+ *
+ * Finds chains and residues mentioned in chat text ("His64 in chain A",
+ * "A:15-23", "residues 15-40 of chain B", "chain C") so answers can link
+ * them to the viewer. Numbers are author numbering, as everywhere in chat.
+ */
+
+import {
+  getResidueKey,
+  residueKeysToSelectionRegions,
+} from "./molstar/sequenceToMolstar";
+import type { MessageSegment, ResidueReference } from "@/types/chat";
+import type { SelectionRegion, SequenceChain } from "@/types/sequence";
+
+/** Three-letter codes recognised in "His64"-style mentions */
+const RESIDUE_NAMES = new Set([
+  "ALA",
+  "ARG",
+  "ASN",
+  "ASP",
+  "CYS",
+  "GLN",
+  "GLU",
+  "GLY",
+  "HIS",
+  "ILE",
+  "LEU",
+  "LYS",
+  "MET",
+  "PHE",
+  "PRO",
+  "SER",
+  "THR",
+  "TRP",
+  "TYR",
+  "VAL",
+  "SEC",
+  "PYL",
+]);
+
+/** "His" or "HIS" for each residue name */
+const RESIDUE_NAME = [...RESIDUE_NAMES]
+  .flatMap((name) => [name, name[0] + name.slice(1).toLowerCase()])
+  .join("|");
+
+/**
+ * Alternatives are tried left to right, so longer forms come first. Chain
+ * ids must be upper case or digits, so that prose such as "chain of" or
+ * "Note:5" is not taken for a reference.
+ */
+const REFERENCE_PATTERN = new RegExp(
+  [
+    // His64 in chain A, HIS-64 of chain A, His64 (chain A)
+    `\\b(${RESIDUE_NAME})-?(-?\\d+)\\s*(?:\\([Cc]hain\\s+([A-Z0-9]{1,4})\\)|(?:in|of|on)\\s+[Cc]hain\\s+([A-Z0-9]{1,4})\\b)`,
+    // residues 15-40 of chain A, residue 15 in chain A
+    `\\b[Rr]esidues?\\s+(-?\\d+)(?:\\s*(?:-|–|to)\\s*(-?\\d+))?\\s+(?:in|of|on)\\s+[Cc]hain\\s+([A-Z0-9]{1,4})\\b`,
+    // A:15-23, A:64
+    `\\b([A-Z][A-Z0-9]{0,3}):(-?\\d+)(?:-(-?\\d+))?\\b`,
+    // chain A
+    `\\b[Cc]hain\\s+([A-Z0-9]{1,4})\\b`,
+  ].join("|"),
+  "g",
+);
+
+function toReference(match: RegExpExecArray): ResidueReference {
+  const text = match[0];
+  const range = (chainId: string, start: string, end?: string) => {
+    const from = Number(start);
+    const to = end === undefined ? from : Number(end);
+    return {
+      text,
+      chainId,
+      start: Math.min(from, to),
+      end: Math.max(from, to),
+    };
+  };
+
+  if (match[1] !== undefined) return range(match[3] ?? match[4], match[2]);
+  if (match[5] !== undefined) return range(match[7], match[5], match[6]);
+  if (match[8] !== undefined) return range(match[8], match[9], match[10]);
+  return { text, chainId: match[11] };
+}
+
+/**
+ * Split text into plain strings and the references found in it
+ */
+export function parseResidueReferences(text: string): MessageSegment[] {
+  const segments: MessageSegment[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(REFERENCE_PATTERN)) {
+    if (match.index > last) segments.push(text.slice(last, match.index));
+    segments.push(toReference(match));
+    last = match.index + match[0].length;
+  }
+
+  if (last < text.length) segments.push(text.slice(last));
+  return segments;
+}
+
+/**
+ * Selection regions for a reference, limited to observed residues of the
+ * chain; empty if the chain or residues are not in the structure
+ */
+export function resolveResidueReference(
+  reference: ResidueReference,
+  chains: SequenceChain[],
+): SelectionRegion[] {
+  const chain =
+    chains.find((c) => c.id === reference.chainId) ??
+    chains.find((c) => c.id.toLowerCase() === reference.chainId.toLowerCase());
+  if (!chain) return [];
+
+  const { start = -Infinity, end = Infinity } = reference;
+  const keys = new Set(
+    chain.residues
+      .filter(
+        (residue) =>
+          Number.isFinite(residue.position) &&
+          residue.position >= start &&
+          residue.position <= end,
+      )
+      .map((residue) =>
+        getResidueKey(chain.id, residue.position, residue.insertionCode),
+      ),
+  );
+
+  return residueKeysToSelectionRegions(keys, [chain]);
+}
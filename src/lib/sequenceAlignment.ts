@@ -0,0 +1,260 @@
+/**
+ * Pairwise sequence alignment
+ *
+ * Needleman–Wunsch (global) and Smith–Waterman (local) alignment of protein
+ * sequences with BLOSUM62 and affine gap penalties (Gotoh). Identity and
+ * similarity follow the EMBOSS convention: counts over all alignment columns.
+ */
+
+import type {
+  AlignmentColumn,
+  AlignmentParams,
+  PairwiseAlignment,
+} from "@/types/sequence";
+
+export const DEFAULT_ALIGNMENT_PARAMS: AlignmentParams = {
+  mode: "global",
+  gapOpen: 10,
+  gapExtend: 0.5,
+};
+
+/** Guard against quadratic memory use on very long chains */
+const MAX_ALIGNMENT_CELLS = 25_000_000;
+
+const BLOSUM62_ALPHABET = "ARNDCQEGHILKMFPSTWYVBZX*";
+
+// prettier-ignore
+const BLOSUM62_ROWS = [
+  [ 4, -1, -2, -2,  0, -1, -1,  0, -2, -1, -1, -1, -1, -2, -1,  1,  0, -3, -2,  0, -2, -1,  0, -4],
+  [-1,  5,  0, -2, -3,  1,  0, -2,  0, -3, -2,  2, -1, -3, -2, -1, -1, -3, -2, -3, -1,  0, -1, -4],
+  [-2,  0,  6,  1, -3,  0,  0,  0,  1, -3, -3,  0, -2, -3, -2,  1,  0, -4, -2, -3,  3,  0, -1, -4],
+  [-2, -2,  1,  6, -3,  0,  2, -1, -1, -3, -4, -1, -3, -3, -1,  0, -1, -4, -3, -3,  4,  1, -1, -4],
+  [ 0, -3, -3, -3,  9, -3, -4, -3, -3, -1, -1, -3, -1, -2, -3, -1, -1, -2, -2, -1, -3, -3, -2, -4],
+  [-1,  1,  0,  0, -3,  5,  2, -2,  0, -3, -2,  1,  0, -3, -1,  0, -1, -2, -1, -2,  0,  3, -1, -4],
+  [-1,  0,  0,  2, -4,  2,  5, -2,  0, -3, -3,  1, -2, -3, -1,  0, -1, -3, -2, -2,  1,  4, -1, -4],
+  [ 0, -2,  0, -1, -3, -2, -2,  6, -2, -4, -4, -2, -3, -3, -2,  0, -2, -2, -3, -3, -1, -2, -1, -4],
+  [-2,  0,  1, -1, -3,  0,  0, -2,  8, -3, -3, -1, -2, -1, -2, -1, -2, -2,  2, -3,  0,  0, -1, -4],
+  [-1, -3, -3, -3, -1, -3, -3, -4, -3,  4,  2, -3,  1,  0, -3, -2, -1, -3, -1,  3, -3, -3, -1, -4],
+  [-1, -2, -3, -4, -1, -2, -3, -4, -3,  2,  4, -2,  2,  0, -3, -2, -1, -2, -1,  1, -4, -3, -1, -4],
+  [-1,  2,  0, -1, -3,  1,  1, -2, -1, -3, -2,  5, -1, -3, -1,  0, -1, -3, -2, -2,  0,  1, -1, -4],
+  [-1, -1, -2, -3, -1,  0, -2, -3, -2,  1,  2, -1,  5,  0, -2, -1, -1, -1, -1,  1, -3, -1, -1, -4],
+  [-2, -3, -3, -3, -2, -3, -3, -3, -1,  0,  0, -3,  0,  6, -4, -2, -2,  1,  3, -1, -3, -3, -1, -4],
+  [-1, -2, -2, -1, -3, -1, -1, -2, -2, -3, -3, -1, -2, -4,  7, -1, -1, -4, -3, -2, -2, -1, -2, -4],
+  [ 1, -1,  1,  0, -1,  0,  0,  0, -1, -2, -2,  0, -1, -2, -1,  4,  1, -3, -2, -2,  0,  0,  0, -4],
+  [ 0, -1,  0, -1, -1, -1, -1, -2, -2, -1, -1, -1, -1, -2, -1,  1,  5, -2, -2,  0, -1, -1,  0, -4],
+  [-3, -3, -4, -4, -2, -2, -3, -2, -2, -3, -2, -3, -1,  1, -4, -3, -2, 11,  2, -3, -4, -3, -2, -4],
+  [-2, -2, -2, -3, -2, -1, -2, -3,  2, -1, -1, -2, -1,  3, -3, -2, -2,  2,  7, -1, -3, -2, -1, -4],
+  [ 0, -3, -3, -3, -1, -2, -2, -3, -3,  3,  1, -2,  1, -1, -2, -2,  0, -3, -1,  4, -3, -2, -1, -4],
+  [-2, -1,  3,  4, -3,  0,  1, -1,  0, -3, -4,  0, -3, -3, -2,  0, -1, -4, -3, -3,  4,  1, -1, -4],
+  [-1,  0,  0,  1, -3,  3,  4, -2,  0, -3, -3,  1, -1, -3, -1,  0, -1, -3, -2, -2,  1,  4, -1, -4],
+  [ 0, -1, -1, -1, -2, -1, -1, -1, -1, -1, -1, -1, -1, -1, -2,  0,  0, -2, -1, -1, -1, -1, -1, -4],
+  [-4, -4, -4, -4, -4, -4, -4, -4, -4, -4, -4, -4, -4, -4, -4, -4, -4, -4, -4, -4, -4, -4, -4,  1],
+];
+
+const UNKNOWN_INDEX = BLOSUM62_ALPHABET.indexOf("X");
+
+// Traceback states
+const FROM_MATCH = 0;
+const FROM_GAP_A = 1; // residue of `a` against a gap
+const FROM_GAP_B = 2; // residue of `b` against a gap
+const FROM_START = 3; // local alignment start
+
+function residueIndex(code: string): number {
+  const index = BLOSUM62_ALPHABET.indexOf(code.toUpperCase());
+  return index < 0 ? UNKNOWN_INDEX : index;
+}
+
+/**
+ * BLOSUM62 score of a residue pair; unknown residues score as X
+ */
+export function blosum62Score(a: string, b: string): number {
+  return BLOSUM62_ROWS[residueIndex(a)][residueIndex(b)];
+}
+
+/**
+ * Align two one-letter sequences. Local alignments only contain the
+ * best-scoring region; residues outside it do not appear in `columns`.
+ */
+export function alignSequences(
+  a: string,
+  b: string,
+  params: Partial<AlignmentParams> = {},
+): PairwiseAlignment {
+  const settings = { ...DEFAULT_ALIGNMENT_PARAMS, ...params };
+  const { mode, gapOpen, gapExtend } = settings;
+  const local = mode === "local";
+  const n = a.length;
+  const m = b.length;
+
+  if (n === 0 || m === 0) {
+    throw new Error("Cannot align an empty sequence");
+  }
+  if ((n + 1) * (m + 1) > MAX_ALIGNMENT_CELLS) {
+    throw new Error(`Sequences too long to align (${n} × ${m} residues)`);
+  }
+
+  const codesA = Array.from(a, residueIndex);
+  const codesB = Array.from(b, residueIndex);
+  const width = m + 1;
+
+  // Traceback pointers for the three Gotoh matrices
+  const traceMatch = new Uint8Array((n + 1) * width);
+  const traceGapA = new Uint8Array((n + 1) * width);
+  const traceGapB = new Uint8Array((n + 1) * width);
+
+  // Scores are only needed for the previous and current row
+  let prevMatch = new Float64Array(width);
+  let prevGapA = new Float64Array(width);
+  let prevGapB = new Float64Array(width);
+  let currMatch = new Float64Array(width);
+  let currGapA = new Float64Array(width);
+  let currGapB = new Float64Array(width);
+
+  const gapCost = (length: number) => gapOpen + (length - 1) * gapExtend;
+
+  prevMatch.fill(-Infinity);
+  prevGapA.fill(-Infinity);
+  prevMatch[0] = 0;
+  for (let j = 1; j <= m; j++) {
+    prevGapB[j] = local ? -Infinity : -gapCost(j);
+    traceGapB[j] = FROM_GAP_B;
+  }
+  prevGapB[0] = -Infinity;
+
+  let best = { score: -Infinity, i: n, j: m };
+
+  for (let i = 1; i <= n; i++) {
+    currMatch[0] = -Infinity;
+    currGapA[0] = local ? -Infinity : -gapCost(i);
+    currGapB[0] = -Infinity;
+    traceGapA[i * width] = FROM_GAP_A;
+
+    for (let j = 1; j <= m; j++) {
+      const cell = i * width + j;
+
+      // Match/mismatch: extend the best alignment of the diagonal cell
+      let diagonal = prevMatch[j - 1];
+      let diagonalFrom = FROM_MATCH;
+      if (prevGapA[j - 1] > diagonal) {
+        diagonal = prevGapA[j - 1];
+        diagonalFrom = FROM_GAP_A;
+      }
+      if (prevGapB[j - 1] > diagonal) {
+        diagonal = prevGapB[j - 1];
+        diagonalFrom = FROM_GAP_B;
+      }
+      if (local && diagonal < 0) {
+        diagonal = 0;
+        diagonalFrom = FROM_START;
+      }
+      currMatch[j] = diagonal + BLOSUM62_ROWS[codesA[i - 1]][codesB[j - 1]];
+      traceMatch[cell] = diagonalFrom;
+
+      // a[i] against a gap: open from match/other gap, or extend
+      let gapA = prevMatch[j] - gapOpen;
+      let gapAFrom = FROM_MATCH;
+      if (prevGapA[j] - gapExtend > gapA) {
+        gapA = prevGapA[j] - gapExtend;
+        gapAFrom = FROM_GAP_A;
+      }
+      if (prevGapB[j] - gapOpen > gapA) {
+        gapA = prevGapB[j] - gapOpen;
+        gapAFrom = FROM_GAP_B;
+      }
+      currGapA[j] = gapA;
+      traceGapA[cell] = gapAFrom;
+
+      // b[j] against a gap
+      let gapB = currMatch[j - 1] - gapOpen;
+      let gapBFrom = FROM_MATCH;
+      if (currGapB[j - 1] - gapExtend > gapB) {
+        gapB = currGapB[j - 1] - gapExtend;
+        gapBFrom = FROM_GAP_B;
+      }
+      if (currGapA[j - 1] - gapOpen > gapB) {
+        gapB = currGapA[j - 1] - gapOpen;
+        gapBFrom = FROM_GAP_A;
+      }
+      currGapB[j] = gapB;
+      traceGapB[cell] = gapBFrom;
+
+      if (local && currMatch[j] > best.score) {
+        best = { score: currMatch[j], i, j };
+      }
+    }
+
+    [prevMatch, currMatch] = [currMatch, prevMatch];
+    [prevGapA, currGapA] = [currGapA, prevGapA];
+    [prevGapB, currGapB] = [currGapB, prevGapB];
+  }
+
+  // Global alignments end in the last cell, in whichever state scores best
+  let state = FROM_MATCH;
+  if (!local) {
+    best = { score: prevMatch[m], i: n, j: m };
+    if (prevGapA[m] > best.score) {
+      best.score = prevGapA[m];
+      state = FROM_GAP_A;
+    }
+    if (prevGapB[m] > best.score) {
+      best.score = prevGapB[m];
+      state = FROM_GAP_B;
+    }
+  }
+
+  const columns: AlignmentColumn[] = [];
+  let { i, j } = best;
+  while (local ? state !== FROM_START : i > 0 || j > 0) {
+    const cell = i * width + j;
+    if (state === FROM_MATCH) {
+      state = traceMatch[cell];
+      columns.push({ a: i - 1, b: j - 1 });
+      i--;
+      j--;
+    } else if (state === FROM_GAP_A) {
+      state = traceGapA[cell];
+      columns.push({ a: i - 1, b: null });
+      i--;
+    } else {
+      state = traceGapB[cell];
+      columns.push({ a: null, b: j - 1 });
+      j--;
+    }
+  }
+  columns.reverse();
+
+  let identical = 0;
+  let similar = 0;
+  let gaps = 0;
+  for (const column of columns) {
+    if (column.a === null || column.b === null) {
+      gaps++;
+      continue;
+    }
+    const codeA = codesA[column.a];
+    const codeB = codesB[column.b];
+    if (codeA === codeB) identical++;
+    if (BLOSUM62_ROWS[codeA][codeB] > 0) similar++;
+  }
+
+  return {
+    params: settings,
+    columns,
+    score: best.score,
+    identical,
+    similar,
+    gaps,
+  };
+}
+
+/**
+ * Percentage of alignment columns, e.g. for identity and similarity
+ */
+export function alignmentPercent(
+  count: number,
+  alignment: PairwiseAlignment,
+): number {
+  return alignment.columns.length
+    ? (100 * count) / alignment.columns.length
+    : 0;
+}
@@ -0,0 +1,286 @@
+/**
+ * Sequence Export
+ *
+ * Writes selected regions, the chains they belong to or every chain of an
+ * entry as FASTA, PIR (NBRF) or GenBank-style (GenPept) flat files. Record
+ * names combine the entry ID, chain and residue range in the chosen
+ * numbering, e.g. "1ABC_A_15-40", and headers carry the entity description
+ * and organism.
+ * GenBank records of DNA and RNA chains are written as nucleotide entries.
+ */
+
+import { formatResidueRange, getRegionResidues } from "./residueNumbering";
+import type {
+  NumberingScheme,
+  PolymerType,
+  SelectionRegion,
+  SequenceChain,
+  SequenceData,
+  SequenceExportFormat,
+  SequenceExportScope,
+} from "@/types/sequence";
+
+export const SEQUENCE_EXPORT_FORMATS: {
+  value: SequenceExportFormat;
+  label: string;
+  extension: string;
+}[] = [
+  { value: "fasta", label: "FASTA", extension: "fasta" },
+  { value: "pir", label: "PIR", extension: "pir" },
+  { value: "genbank", label: "GenBank", extension: "gb" },
+];
+
+export const SEQUENCE_EXPORT_SCOPES: {
+  value: SequenceExportScope;
+  label: string;
+}[] = [
+  { value: "regions", label: "Selected regions" },
+  { value: "chains", label: "Selected chains" },
+  { value: "entry", label: "Whole entry" },
+];
+
+/** Residues per sequence line */
+const LINE_WIDTH = 60;
+/** GenBank sequence lines are split into blocks of this many residues */
+const GENBANK_BLOCK = 10;
+/** Width of GenBank header lines, and indent of their continuation */
+const GENBANK_WIDTH = 80;
+const GENBANK_INDENT = 12;
+
+const MONTHS = [
+  "JAN",
+  "FEB",
+  "MAR",
+  "APR",
+  "MAY",
+  "JUN",
+  "JUL",
+  "AUG",
+  "SEP",
+  "OCT",
+  "NOV",
+  "DEC",
+];
+
+interface SequenceRecord {
+  /** Record name without spaces, e.g. "1ABC_A_15-40" */
+  name: string;
+  /** Entry and chain, e.g. "1ABC_A" */
+  accession: string;
+  chainId: string;
+  description: string;
+  organism?: string;
+  polymerType?: PolymerType;
+  sequence: string;
+  /** Residue range of a region, e.g. "15-40"; absent for whole chains */
+  range?: string;
+}
+
+/**
+ * Entity description of a chain; chain names read "Chain A: description"
+ */
+function getChainDescription(chain: SequenceChain | undefined): string {
+  const description = chain?.name?.replace(/^Chain \S+:\s*/, "").trim();
+  return description || `Chain ${chain?.id ?? ""}`.trim();
+}
+
+const getChainSequence = (chain: SequenceChain) =>
+  chain.residues.map((residue) => residue.code).join("");
+
+/**
+ * Records to export for a scope, in chain and residue order
+ */
+function getRecords(
+  entry: SequenceData,
+  regions: SelectionRegion[],
+  scope: SequenceExportScope,
+  numbering: NumberingScheme,
+): SequenceRecord[] {
+  const entryId = entry.id || "sequence";
+  const chainsById = new Map(entry.chains.map((chain) => [chain.id, chain]));
+  const organism =
+    typeof entry.metadata?.organism === "string"
+      ? entry.metadata.organism
+      : undefined;
+
+  const chainRecord = (chain: SequenceChain): SequenceRecord => ({
+    name: `${entryId}_${chain.id}`,
+    accession: `${entryId}_${chain.id}`,
+    chainId: chain.id,
+    description: getChainDescription(chain),
+    organism: chain.organism ?? organism,
+    polymerType: chain.polymerType,
+    sequence: getChainSequence(chain),
+  });
+
+  if (scope === "entry") return entry.chains.map(chainRecord);
+
+  if (scope === "chains") {
+    const chainIds = [...new Set(regions.map((region) => region.chainId))];
+    return chainIds
+      .sort((a, b) => a.localeCompare(b))
+      .map((chainId) => chainsById.get(chainId))
+      .filter((chain): chain is SequenceChain => chain !== undefined)
+      .map(chainRecord);
+  }
+
+  return [...regions]
+    .sort((a, b) =>
+      a.chainId === b.chainId
+        ? a.start - b.start
+        : a.chainId.localeCompare(b.chainId),
+    )
+    .map((region) => {
+      const chain = chainsById.get(region.chainId);
+      const residues = chain ? getRegionResidues(chain, region) : [];
+      const range =
+        formatResidueRange(residues, numbering) ??
+        `${region.start}-${region.end}`;
+      const accession = residues.find((residue) => residue.uniprot)?.uniprot
+        ?.accession;
+      const scheme =
+        numbering === "label"
+          ? " (sequential numbering)"
+          : numbering === "uniprot" && accession
+            ? ` (UniProt ${accession})`
+            : "";
+      return {
+        name: `${entryId}_${region.chainId}_${range}`,
+        accession: `${entryId}_${region.chainId}`,
+        chainId: region.chainId,
+        description: `${getChainDescription(chain)}, residues ${range}${scheme}`,
+        organism: chain?.organism ?? organism,
+        polymerType: chain?.polymerType,
+        sequence: region.sequence,
+        range,
+      };
+    });
+}
+
+const wrapSequence = (sequence: string) =>
+  sequence.match(new RegExp(`.{1,${LINE_WIDTH}}`, "g")) ?? [];
+
+function toFasta(records: SequenceRecord[]): string {
+  return records
+    .map((record) => {
+      const organism = record.organism ? ` OS=${record.organism}` : "";
+      return [
+        `>${record.name} ${record.description}${organism}`,
+        ...wrapSequence(record.sequence),
+      ].join("\n");
+    })
+    .join("\n");
+}
+
+function toPir(records: SequenceRecord[]): string {
+  return records
+    .map((record) => {
+      const organism = record.organism ? ` - ${record.organism}` : "";
+      // The sequence ends with "*", on the last line if it has room
+      const lines = wrapSequence(record.sequence + "*");
+      return [
+        `>P1;${record.name}`,
+        `${record.description}${organism}`,
+        ...lines,
+      ].join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * GenBank header field: keyword in the first 12 columns, text wrapped at
+ * 80 columns with continuation lines indented to the text
+ */
+function genbankField(keyword: string, text: string): string {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (
+      line &&
+      GENBANK_INDENT + line.length + 1 + word.length > GENBANK_WIDTH
+    ) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  lines.push(line);
+  return lines
+    .map((text, i) => (i === 0 ? keyword : "").padEnd(GENBANK_INDENT) + text)
+    .join("\n");
+}
+
+/** Date in the GenBank LOCUS line, e.g. "19-OCT-2026" */
+function formatGenbankDate(date: Date): string {
+  return `${String(date.getDate()).padStart(2, "0")}-${MONTHS[date.getMonth()]}-${date.getFullYear()}`;
+}
+
+function toGenbank(records: SequenceRecord[], date: Date): string {
+  return records
+    .map((record) => {
+      const length = record.sequence.length;
+      // Units and molecule type columns of the LOCUS line
+      const molecule =
+        record.polymerType === "dna" || record.polymerType === "rna"
+          ? `bp    ${record.polymerType.toUpperCase()}   `
+          : "aa          ";
+      const organism = record.organism ?? "unknown";
+      const note = record.range
+        ? `chain ${record.chainId}, residues ${record.range}`
+        : `chain ${record.chainId}`;
+
+      const origin: string[] = [];
+      const sequence = record.sequence.toLowerCase();
+      for (let i = 0; i < length; i += LINE_WIDTH) {
+        const blocks =
+          sequence
+            .slice(i, i + LINE_WIDTH)
+            .match(new RegExp(`.{1,${GENBANK_BLOCK}}`, "g")) ?? [];
+        origin.push(`${String(i + 1).padStart(9)} ${blocks.join(" ")}`);
+      }
+
+      return [
+        `LOCUS       ${record.name.padEnd(16)} ${String(length).padStart(11)} ${molecule}  linear   UNK ${formatGenbankDate(date)}`,
+        genbankField("DEFINITION", `${record.description}.`),
+        genbankField("ACCESSION", record.accession),
+        genbankField("SOURCE", organism),
+        genbankField("  ORGANISM", organism),
+        "FEATURES             Location/Qualifiers",
+        `     source          1..${length}`,
+        `                     /organism="${organism}"`,
+        `                     /note="${note}"`,
+        "ORIGIN",
+        ...origin,
+        "//",
+      ].join("\n");
+    })
+    .join("\n");
+}
+
+/**
+ * Sequence file text for the selected regions, their chains or the whole
+ * entry, with region ranges in the given numbering; throws if there is
+ * nothing to export
+ */
+export function exportSequences(
+  entry: SequenceData,
+  regions: SelectionRegion[],
+  scope: SequenceExportScope,
+  format: SequenceExportFormat,
+  numbering: NumberingScheme = "auth",
+  date: Date = new Date(),
+): string {
+  const records = getRecords(entry, regions, scope, numbering).filter(
+    (record) => record.sequence.length > 0,
+  );
+  if (records.length === 0) throw new Error("No sequences to export");
+
+  const text =
+    format === "fasta"
+      ? toFasta(records)
+      : format === "pir"
+        ? toPir(records)
+        : toGenbank(records, date);
+  return text + "\n";
+}
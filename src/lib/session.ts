@@ -0,0 +1,274 @@
+/**
+ * Analysis Sessions
+ *
+ * The session file format: loaded structures (local files embedded), what
+ * each one shows, the camera, sequence selection, measurements, sequence
+ * colour scheme and the chat conversation, optionally with the Mol* plugin
+ * state. Files carry a format version; older versions are migrated step by
+ * step when read, and files from newer versions are refused.
+ */
+
+import type { StructureSource } from "@/types/molstar";
+import type {
+  AnalysisSession,
+  SessionStructure,
+  SessionStructureSource,
+} from "@/types/session";
+
+export const SESSION_FORMAT = "structure-viewer-session";
+export const SESSION_VERSION = 1;
+export const SESSION_FILE_ACCEPT = ".json";
+
+type SessionData = Record<string, unknown>;
+
+/**
+ * Upgrades of a session from each version to the next. Add one whenever
+ * SESSION_VERSION is bumped, so files saved before keep opening.
+ */
+const MIGRATIONS: Record<number, (session: SessionData) => SessionData> = {};
+
+const COMPONENT_TYPES = ["water", "ligands", "ions"];
+const MEASUREMENT_KINDS = ["distance", "angle", "dihedral"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) =>
+  value === undefined || check(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(isString);
+
+const isVec3 = (value: unknown) =>
+  Array.isArray(value) && value.length === 3 && value.every(isNumber);
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked, as spreading a large array overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Session form of a structure source; local files are read and embedded
+ */
+export async function toSessionSource(
+  source: StructureSource,
+): Promise<SessionStructureSource> {
+  if (source.kind !== "file") return source;
+
+  const { file } = source;
+  return {
+    kind: "file",
+    name: file.name,
+    lastModified: file.lastModified,
+    data: bytesToBase64(new Uint8Array(await file.arrayBuffer())),
+  };
+}
+
+/**
+ * Structure source of a saved structure. Embedded files come back with
+ * their name and modification time, so they match their saved measurements.
+ */
+export function fromSessionSource(
+  source: SessionStructureSource,
+): StructureSource {
+  if (source.kind !== "file") return source;
+
+  return {
+    kind: "file",
+    file: new File([base64ToBytes(source.data)], source.name, {
+      lastModified: source.lastModified,
+    }),
+  };
+}
+
+/**
+ * Name to download a session under, e.g. "1crn-session.json"
+ */
+export function getSessionFileName(session: AnalysisSession): string {
+  const structure =
+    session.structures[session.activeStructure ?? 0] ?? session.structures[0];
+  const name = structure?.label.replace(/[^\w.-]+/g, "_") || "structure";
+  return `${name.toLowerCase()}-session.json`;
+}
+
+export function serializeSession(session: AnalysisSession): string {
+  return JSON.stringify(session);
+}
+
+/**
+ * Bring a session from an older version up to the current one
+ */
+function migrateSession(session: SessionData, version: number): SessionData {
+  let migrated = session;
+  for (let from = version; from < SESSION_VERSION; from++) {
+    const migrate = MIGRATIONS[from];
+    if (!migrate) {
+      throw new Error(`Session files of version ${from} can no longer be read`);
+    }
+    migrated = { ...migrate(migrated), version: from + 1 };
+  }
+  return migrated;
+}
+
+function isValidSource(value: unknown): value is SessionStructureSource {
+  if (!isRecord(value)) return false;
+  switch (value.kind) {
+    case "pdb":
+      return isString(value.id) && isOptional(value.assemblyId, isString);
+    case "alphafold":
+      return isString(value.accession);
+    case "file":
+      return (
+        isString(value.name) &&
+        isNumber(value.lastModified) &&
+        isString(value.data)
+      );
+    default:
+      return false;
+  }
+}
+
+function isValidStructure(value: unknown): value is SessionStructure {
+  return (
+    isRecord(value) &&
+    isString(value.ref) &&
+    isString(value.label) &&
+    typeof value.isVisible === "boolean" &&
+    isValidSource(value.source) &&
+    isRecord(value.view) &&
+    isOptional(value.view.representation, isString) &&
+    isStringArray(value.view.hiddenChains) &&
+    isStringArray(value.view.removedComponents) &&
+    value.view.removedComponents.every((c) => COMPONENT_TYPES.includes(c))
+  );
+}
+
+const isValidRegion = (value: unknown) =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.chainId) &&
+  isNumber(value.start) &&
+  isNumber(value.end) &&
+  isString(value.sequence) &&
+  isOptional(value.label, isString) &&
+  isOptional(value.color, isString);
+
+const isValidMeasurement = (value: unknown) =>
+  isRecord(value) &&
+  isString(value.id) &&
+  MEASUREMENT_KINDS.includes(value.kind as string) &&
+  isOptional(value.label, isString) &&
+  Array.isArray(value.points) &&
+  value.points.every(
+    (point) =>
+      isRecord(point) &&
+      isString(point.sourceKey) &&
+      isString(point.chainId) &&
+      isNumber(point.residueNumber) &&
+      isString(point.atomName),
+  );
+
+const isValidConversation = (value: unknown) =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.title) &&
+  isString(value.updatedAt) &&
+  isNumber(value.messageCount) &&
+  isString(value.preview) &&
+  typeof value.pinned === "boolean" &&
+  isString(value.folder) &&
+  Array.isArray(value.messages) &&
+  value.messages.every(
+    (message) =>
+      isRecord(message) &&
+      isString(message.id) &&
+      (message.role === "user" || message.role === "assistant") &&
+      isString(message.content) &&
+      isString(message.createdAt),
+  );
+
+const isValidCamera = (value: unknown) =>
+  isRecord(value) &&
+  isVec3(value.position) &&
+  isVec3(value.up) &&
+  isVec3(value.target);
+
+/**
+ * Read a session file, migrating older versions; throws with the reason
+ * if the file is not a session this version can open
+ */
+export function parseSession(text: string): AnalysisSession {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Not a session file: the file is not valid JSON");
+  }
+  if (!isRecord(data) || data.format !== SESSION_FORMAT) {
+    throw new Error("Not a session file");
+  }
+
+  const { version } = data;
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    throw new Error("Session file has no valid format version");
+  }
+  if ((version as number) > SESSION_VERSION) {
+    throw new Error(
+      `Session file is from a newer version (format ${version}); update the viewer to open it`,
+    );
+  }
+
+  const session = migrateSession(data, version as number);
+  const problems: string[] = [];
+  const check = (isValid: boolean, field: string) => {
+    if (!isValid) problems.push(field);
+  };
+
+  const { structures, activeStructure } = session;
+  check(
+    Array.isArray(structures) && structures.every(isValidStructure),
+    "structures",
+  );
+  check(
+    activeStructure === null ||
+      (Number.isInteger(activeStructure) &&
+        Array.isArray(structures) &&
+        (activeStructure as number) >= 0 &&
+        (activeStructure as number) < structures.length),
+    "activeStructure",
+  );
+  check(isOptional(session.camera, isValidCamera), "camera");
+  check(
+    Array.isArray(session.selection) && session.selection.every(isValidRegion),
+    "selection",
+  );
+  check(
+    Array.isArray(session.measurements) &&
+      session.measurements.every(isValidMeasurement),
+    "measurements",
+  );
+  check(isString(session.sequenceColorScheme), "sequenceColorScheme");
+  check(isOptional(session.conversation, isValidConversation), "conversation");
+  check(isOptional(session.molstar, isRecord), "molstar");
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid session file: bad ${problems.join(", ")}`);
+  }
+  return session as unknown as AnalysisSession;
+}
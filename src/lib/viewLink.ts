@@ -0,0 +1,245 @@
+/**
+ * View Links
+ *
+ * Reads and writes the viewer state carried in the query string of a
+ * shareable link: structure (PDB entry with assembly, or AlphaFold DB
+ * model), representation, hidden chains, selected regions ("A:15-40,B:3"),
+ * sequence colour scheme and camera. Values that do not parse are dropped
+ * with a warning, so a damaged link still opens what it can.
+ */
+
+import { normalizeUniProtAccession } from "./molstar/alphafold";
+import { REPRESENTATIONS } from "@/config/constants";
+import { COLOR_SCHEMES } from "./aminoAcidColors";
+import type { ResidueReference } from "@/types/chat";
+import type { RepresentationType } from "@/types/molstar";
+import type { ViewLink } from "@/types/session";
+
+export interface ParsedViewLink {
+  link: ViewLink;
+  /** Values that were ignored, and why */
+  warnings: string[];
+}
+
+/** Query parameter names, kept short for pasting */
+const PARAMS = {
+  pdb: "pdb",
+  assembly: "assembly",
+  alphafold: "af",
+  representation: "rep",
+  hiddenChains: "hide",
+  regions: "sel",
+  colorScheme: "scheme",
+  camera: "cam",
+} as const;
+
+const PDB_ID_PATTERN = /^[0-9][a-z0-9]{3}$/i;
+const ASSEMBLY_PATTERN = /^[A-Za-z0-9]{1,8}$/;
+const CHAIN_PATTERN = /^[A-Za-z0-9]{1,4}$/;
+const REGION_PATTERN = /^([A-Za-z0-9]{1,4})(?::(-?\d+)(?:-(-?\d+))?)?$/;
+
+/** Assembly loaded when a link names none */
+const DEFAULT_ASSEMBLY = "1";
+const DEFAULT_REPRESENTATION: RepresentationType = "cartoon";
+const DEFAULT_COLOR_SCHEME = "default";
+
+/** Decimals kept for camera coordinates, in Å */
+const CAMERA_PRECISION = 2;
+
+// Conservation colours need an alignment, which a link does not carry
+const isLinkableColorScheme = (id: string) =>
+  Object.hasOwn(COLOR_SCHEMES, id) && id !== "conservation";
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Read a region such as "A:15-40", "B:3" or "C" (whole chain)
+ */
+function parseRegion(token: string): ResidueReference | null {
+  const match = token.match(REGION_PATTERN);
+  if (!match) return null;
+
+  const [, chainId, start, end] = match;
+  if (start === undefined) return { text: token, chainId };
+
+  const from = Number(start);
+  const to = end === undefined ? from : Number(end);
+  return {
+    text: token,
+    chainId,
+    start: Math.min(from, to),
+    end: Math.max(from, to),
+  };
+}
+
+/**
+ * Query string form of a region, the inverse of parseRegion
+ */
+function formatRegion(region: ResidueReference): string {
+  const { chainId, start, end } = region;
+  if (start === undefined) return chainId;
+  return end === undefined || end === start
+    ? `${chainId}:${start}`
+    : `${chainId}:${start}-${end}`;
+}
+
+function parseCamera(value: string): ViewLink["camera"] | null {
+  const numbers = value.split(",").map(Number);
+  if (numbers.length !== 9 || !numbers.every(Number.isFinite)) return null;
+
+  const [px, py, pz, tx, ty, tz, ux, uy, uz] = numbers;
+  // A camera looking from its target, or without an up direction, is unusable
+  if (px === tx && py === ty && pz === tz) return null;
+  if (ux === 0 && uy === 0 && uz === 0) return null;
+
+  return {
+    position: [px, py, pz],
+    target: [tx, ty, tz],
+    up: [ux, uy, uz],
+  };
+}
+
+/**
+ * Read the view state from a query string, or null if it has none
+ */
+export function parseViewLink(search: string): ParsedViewLink | null {
+  const params = new URLSearchParams(search);
+  if (!Object.values(PARAMS).some((name) => params.has(name))) return null;
+
+  const warnings: string[] = [];
+  const link: ViewLink = { hiddenChains: [], regions: [] };
+  const get = (name: string) => params.get(name)?.trim() || null;
+
+  const pdbId = get(PARAMS.pdb);
+  const accession = get(PARAMS.alphafold);
+  const assemblyId = get(PARAMS.assembly);
+  if (pdbId) {
+    if (PDB_ID_PATTERN.test(pdbId)) {
+      link.source = { kind: "pdb", id: pdbId.toLowerCase() };
+      if (assemblyId && !ASSEMBLY_PATTERN.test(assemblyId)) {
+        warnings.push(`Ignored assembly "${assemblyId}"`);
+      } else if (assemblyId && assemblyId !== DEFAULT_ASSEMBLY) {
+        link.source.assemblyId = assemblyId;
+      }
+    } else {
+      warnings.push(`"${pdbId}" is not a PDB ID`);
+    }
+  }
+  if (accession && !link.source) {
+    const normalized = normalizeUniProtAccession(accession);
+    if (normalized) {
+      link.source = { kind: "alphafold", accession: normalized };
+    } else {
+      warnings.push(`"${accession}" is not a UniProt accession`);
+    }
+  }
+
+  const representation = get(PARAMS.representation);
+  if (representation) {
+    const known = REPRESENTATIONS.find((r) => r.value === representation);
+    if (known) {
+      link.representation = known.value;
+    } else {
+      warnings.push(`Unknown representation "${representation}"`);
+    }
+  }
+
+  const hiddenChains = get(PARAMS.hiddenChains);
+  if (hiddenChains) {
+    for (const chainId of splitList(hiddenChains)) {
+      if (CHAIN_PATTERN.test(chainId)) {
+        if (!link.hiddenChains.includes(chainId)) {
+          link.hiddenChains.push(chainId);
+        }
+      } else {
+        warnings.push(`Ignored hidden chain "${chainId}"`);
+      }
+    }
+  }
+
+  const regions = get(PARAMS.regions);
+  if (regions) {
+    for (const token of splitList(regions)) {
+      const region = parseRegion(token);
+      if (region) {
+        link.regions.push(region);
+      } else {
+        warnings.push(`Ignored selection "${token}"`);
+      }
+    }
+  }
+
+  const colorScheme = get(PARAMS.colorScheme);
+  if (colorScheme) {
+    if (isLinkableColorScheme(colorScheme)) {
+      link.colorScheme = colorScheme;
+    } else {
+      warnings.push(`Unknown colour scheme "${colorScheme}"`);
+    }
+  }
+
+  const camera = get(PARAMS.camera);
+  if (camera) {
+    const parsed = parseCamera(camera);
+    if (parsed) {
+      link.camera = parsed;
+    } else {
+      warnings.push("Ignored invalid camera orientation");
+    }
+  }
+
+  return { link, warnings };
+}
+
+/**
+ * Query string for a view, starting with "?"; defaults are left out so
+ * links stay short
+ */
+export function buildViewLinkQuery(link: ViewLink): string {
+  const params: [string, string][] = [];
+  const { source } = link;
+
+  if (source?.kind === "pdb") {
+    params.push([PARAMS.pdb, source.id]);
+    if (source.assemblyId && source.assemblyId !== DEFAULT_ASSEMBLY) {
+      params.push([PARAMS.assembly, source.assemblyId]);
+    }
+  } else if (source?.kind === "alphafold") {
+    params.push([PARAMS.alphafold, source.accession]);
+  }
+  if (link.representation && link.representation !== DEFAULT_REPRESENTATION) {
+    params.push([PARAMS.representation, link.representation]);
+  }
+  if (link.hiddenChains.length > 0) {
+    params.push([PARAMS.hiddenChains, link.hiddenChains.join(",")]);
+  }
+  if (link.regions.length > 0) {
+    params.push([PARAMS.regions, link.regions.map(formatRegion).join(",")]);
+  }
+  if (
+    link.colorScheme &&
+    link.colorScheme !== DEFAULT_COLOR_SCHEME &&
+    isLinkableColorScheme(link.colorScheme)
+  ) {
+    params.push([PARAMS.colorScheme, link.colorScheme]);
+  }
+  if (link.camera) {
+    const { position, target, up } = link.camera;
+    params.push([
+      PARAMS.camera,
+      [...position, ...target, ...up]
+        .map((n) => Number(n.toFixed(CAMERA_PRECISION)))
+        .join(","),
+    ]);
+  }
+
+  if (params.length === 0) return "";
+  // Commas and colons are left readable; they are valid in a query string
+  const encode = (value: string) =>
+    encodeURIComponent(value).replace(/%2C/g, ",").replace(/%3A/g, ":");
+  return `?${params.map(([name, value]) => `${name}=${encode(value)}`).join("&")}`;
+}
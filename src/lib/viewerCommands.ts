@@ -0,0 +1,537 @@
+/**
+ * Viewer Commands
+ *
+ * Deterministic parsing of chat messages such as "load 4hhb", "hide chain B"
+ * or "isolate A:15-40" into typed viewer commands, and their execution through
+ * the Mol* wrapper and operation classes. Works offline, without a language
+ * model; anything unrecognised gets a reply listing what is understood.
+ */
+
+import type { molstarWrapper } from "./molstar/MolstarWrapper";
+import { structureOperations } from "./molstar/operations/StructureOperations";
+import { selectionOperations } from "./molstar/operations/SelectionOperations";
+import { normalizeUniProtAccession } from "./molstar/alphafold";
+import {
+  getStructureResidueLabel,
+  structureResidueToResidueRange,
+} from "./molstar/interactions";
+import { getStructureSourceLabel } from "./molstar/structureSource";
+import type {
+  ComponentType,
+  OperationResult,
+  RepresentationType,
+  SceneStructure,
+  StructureResidue,
+  StructureSource,
+  ViewerCommand,
+  ViewerCommandResult,
+} from "@/types/molstar";
+
+export interface ViewerCommandContext {
+  wrapper: molstarWrapper | null;
+  /** Load through the structure workspace so its state follows the new structure */
+  loadStructure?: ((source: StructureSource) => void) | null;
+}
+
+export type ParsedViewerCommand =
+  | { command: ViewerCommand }
+  | { error: string };
+
+const PDB_ID_PATTERN = /^[0-9][a-z0-9]{3}$/i;
+
+const REPRESENTATION_NAMES: Record<string, RepresentationType> = {
+  cartoon: "cartoon",
+  ribbon: "cartoon",
+  ribbons: "cartoon",
+  surface: "molecular-surface",
+  "molecular surface": "molecular-surface",
+  "ball and stick": "ball-and-stick",
+  "ball-and-stick": "ball-and-stick",
+  "balls and sticks": "ball-and-stick",
+  stick: "ball-and-stick",
+  sticks: "ball-and-stick",
+  spacefill: "spacefill",
+  "space fill": "spacefill",
+  "space-filling": "spacefill",
+  spheres: "spacefill",
+  cpk: "spacefill",
+  backbone: "backbone",
+  trace: "backbone",
+  point: "point",
+  points: "point",
+};
+
+const REPRESENTATION_LABELS: Record<RepresentationType, string> = {
+  cartoon: "cartoon",
+  "molecular-surface": "surface",
+  "ball-and-stick": "ball-and-stick",
+  spacefill: "spacefill",
+  point: "points",
+  backbone: "backbone",
+};
+
+const COMPONENT_NAMES: Record<string, ComponentType> = {
+  water: "water",
+  waters: "water",
+  solvent: "water",
+  ligand: "ligands",
+  ligands: "ligands",
+  ion: "ions",
+  ions: "ions",
+};
+
+const COMPONENT_LABELS: Record<ComponentType, string> = {
+  water: "waters",
+  ligands: "ligands",
+  ions: "ions",
+};
+
+export const VIEWER_COMMAND_EXAMPLES = [
+  "load 4hhb",
+  "load alphafold P69905",
+  "show as surface",
+  "hide chain B",
+  "isolate chain A",
+  "show all chains",
+  "isolate A:15-40",
+  "highlight residues 20-30 of chain A",
+  "remove waters",
+  "focus on ligand HEM",
+  "reset view",
+];
+
+const HELP_MESSAGE = [
+  "I can drive the 3D viewer with commands like:",
+  ...VIEWER_COMMAND_EXAMPLES.map((example) => `• ${example}`),
+].join("\n");
+
+// Residue ranges: "A:15-40", "A:45", "residues 15-40 of chain A", "chain A residues 15 to 40"
+const RANGE = String.raw`(-?\d+)(?:\s*(?:-|to)\s*(-?\d+))?`;
+const RESIDUE_PATTERNS: Array<{
+  pattern: RegExp;
+  groups: { chain: number; start: number; end: number };
+}> = [
+  {
+    pattern: new RegExp(
+      String.raw`^(?:residues?\s+)?([a-z0-9]+):(-?\d+)(?:\s*-\s*(-?\d+))?$`,
+      "i",
+    ),
+    groups: { chain: 1, start: 2, end: 3 },
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^residues?\s+${RANGE}\s+(?:of|in|on)\s+chain\s+([a-z0-9]+)$`,
+      "i",
+    ),
+    groups: { chain: 3, start: 1, end: 2 },
+  },
+  {
+    pattern: new RegExp(
+      String.raw`^chain\s+([a-z0-9]+)\s+residues?\s+${RANGE}$`,
+      "i",
+    ),
+    groups: { chain: 1, start: 2, end: 3 },
+  },
+];
+
+function parseResidueTarget(
+  target: string,
+): { chainId: string; start: number; end: number } | null {
+  for (const { pattern, groups } of RESIDUE_PATTERNS) {
+    const match = target.match(pattern);
+    if (!match) continue;
+
+    const start = Number(match[groups.start]);
+    const end = match[groups.end] ? Number(match[groups.end]) : start;
+    return {
+      chainId: match[groups.chain],
+      start: Math.min(start, end),
+      end: Math.max(start, end),
+    };
+  }
+  return null;
+}
+
+function parseLoadTarget(target: string): ParsedViewerCommand {
+  const alphafold = target.match(
+    /^(?:alphafold|af)\s+(?:model\s+)?(?:(?:of|for)\s+)?(\S+)$/i,
+  );
+  if (alphafold) {
+    const accession = normalizeUniProtAccession(alphafold[1]);
+    return accession
+      ? { command: { type: "load", source: { kind: "alphafold", accession } } }
+      : { error: `"${alphafold[1]}" is not a valid UniProt accession.` };
+  }
+
+  const id = target.replace(/^(?:pdb\s+)?(?:entry\s+|structure\s+)?/i, "");
+  if (PDB_ID_PATTERN.test(id)) {
+    return {
+      command: { type: "load", source: { kind: "pdb", id: id.toLowerCase() } },
+    };
+  }
+
+  const accession = normalizeUniProtAccession(id);
+  if (accession) {
+    return {
+      command: { type: "load", source: { kind: "alphafold", accession } },
+    };
+  }
+
+  return {
+    error: `"${target}" is not a PDB ID (e.g. 4hhb) or UniProt accession (e.g. P69905).`,
+  };
+}
+
+/**
+ * Turn a chat message into a viewer command, or explain why it is not one
+ */
+export function parseViewerCommand(text: string): ParsedViewerCommand {
+  const input = text
+    .trim()
+    .replace(/[.!?]+$/, "")
+    .replace(/^(?:please\s+|(?:can|could|would)\s+you\s+)+/i, "")
+    .replace(/\s+please$/i, "")
+    .replace(/\s+/g, " ");
+  const lower = input.toLowerCase();
+
+  if (/^(?:help|commands|what can you do)$/.test(lower)) {
+    return { command: { type: "help" } };
+  }
+
+  const load = input.match(/^(?:load|open|fetch)\s+(.+)$/i);
+  if (load) return parseLoadTarget(load[1]);
+
+  const representation =
+    lower.match(
+      /^(?:show|display|render|draw|view)(?:\s+(?:it|everything|the structure))?\s+(?:as|in)\s+(?:an?\s+)?(.+?)(?:\s+(?:representation|mode|style))?$/,
+    ) ??
+    lower.match(
+      /^(?:switch|change)(?:\s+(?:the\s+)?(?:representation|style))?\s+to\s+(.+?)(?:\s+(?:representation|mode|style))?$/,
+    ) ??
+    lower.match(/^(.+?)(?:\s+(?:representation|mode|style))?$/);
+  if (representation && REPRESENTATION_NAMES[representation[1]]) {
+    return {
+      command: {
+        type: "representation",
+        representation: REPRESENTATION_NAMES[representation[1]],
+      },
+    };
+  }
+
+  if (
+    /^(?:show|display)\s+(?:all(?:\s+chains)?|everything)$/.test(lower) ||
+    /^(?:reset|restore)\s+chains$/.test(lower)
+  ) {
+    return { command: { type: "chain", operation: "show" } };
+  }
+
+  const remove = lower.match(
+    /^(?:remove|hide|delete|strip)\s+(?:the\s+|all\s+)?(waters?|solvent|ligands?|ions?)$/,
+  );
+  if (remove) {
+    return {
+      command: { type: "remove", component: COMPONENT_NAMES[remove[1]] },
+    };
+  }
+
+  const residues = input.match(/^(hide|isolate|highlight|show)\s+(.+)$/i);
+  const range = residues && parseResidueTarget(residues[2]);
+  if (residues && range) {
+    const verb = residues[1].toLowerCase();
+    return {
+      command: {
+        type: "residues",
+        operation:
+          verb === "show"
+            ? "highlight"
+            : (verb as "hide" | "isolate" | "highlight"),
+        range,
+      },
+    };
+  }
+
+  const chain = input.match(
+    /^(hide|isolate|(?:show|display)\s+only|only\s+show)\s+chain\s+([a-z0-9]+)$/i,
+  );
+  if (chain) {
+    return {
+      command: {
+        type: "chain",
+        operation: chain[1].toLowerCase() === "hide" ? "hide" : "isolate",
+        chainId: chain[2],
+      },
+    };
+  }
+
+  const ligand = input.match(
+    /^(?:focus|zoom|cent(?:er|re))(?:\s+in)?(?:\s+(?:on|to))?\s+(?:the\s+)?ligand(?:\s+([a-z0-9]{1,3}))?(?:\s+(?:of|in|on)\s+chain\s+([a-z0-9]+))?$/i,
+  );
+  if (ligand) {
+    return {
+      command: {
+        type: "focus-ligand",
+        compId: ligand[1]?.toUpperCase(),
+        chainId: ligand[2],
+      },
+    };
+  }
+
+  if (
+    /^(?:reset|recent(?:er|re))(?:\s+(?:the\s+)?(?:view|camera|zoom))?$/.test(
+      lower,
+    )
+  ) {
+    return { command: { type: "reset-camera" } };
+  }
+
+  return {
+    error: `I didn't recognise "${text.trim()}" as a viewer command.\n\n${HELP_MESSAGE}`,
+  };
+}
+
+const success = (message: string): ViewerCommandResult => ({
+  success: true,
+  message,
+});
+const failure = (message: string): ViewerCommandResult => ({
+  success: false,
+  message,
+});
+
+const fromOperationResult = (
+  result: OperationResult<unknown>,
+  message: string,
+): ViewerCommandResult =>
+  result.success
+    ? success(message)
+    : failure(result.error?.message ?? "The operation failed.");
+
+/**
+ * Resolve a chain typed by the user against the chains of a structure,
+ * falling back to a case-insensitive match
+ */
+async function resolveChain(
+  operations: structureOperations,
+  chainId: string,
+  structureRef: string,
+  structureLabel: string,
+): Promise<{ chainId: string } | { error: string }> {
+  const result = await operations.getAvailableChains(structureRef);
+  const chains = result.data ?? [];
+  if (chains.includes(chainId)) return { chainId };
+
+  const matches = chains.filter(
+    (chain: string) => chain.toLowerCase() === chainId.toLowerCase(),
+  );
+  if (matches.length === 1) return { chainId: matches[0] };
+
+  return {
+    error:
+      chains.length > 0
+        ? `Chain ${chainId} is not in ${structureLabel}. Available chains: ${chains.join(", ")}.`
+        : `${structureLabel} has no chains.`,
+  };
+}
+
+function describeLigands(ligands: StructureResidue[]): string {
+  const shown = ligands.slice(0, 8).map(getStructureResidueLabel);
+  return `${shown.join(", ")}${ligands.length > shown.length ? ", …" : ""}`;
+}
+
+/**
+ * Run a parsed command against the viewer
+ */
+export async function executeViewerCommand(
+  command: ViewerCommand,
+  { wrapper, loadStructure }: ViewerCommandContext,
+): Promise<ViewerCommandResult> {
+  if (command.type === "help") return success(HELP_MESSAGE);
+
+  if (!wrapper?.plugin) {
+    return failure(
+      "The 3D viewer isn't ready yet — wait for it to finish loading and try again.",
+    );
+  }
+
+  if (command.type === "load") {
+    const label = getStructureSourceLabel(command.source);
+    if (loadStructure) {
+      loadStructure(command.source);
+    } else {
+      await wrapper.loadSource(command.source);
+    }
+    return success(`Loading ${label.toUpperCase()}…`);
+  }
+
+  const structureRef = wrapper.getActiveStructureRef();
+  if (!structureRef) {
+    return failure('No structure is loaded. Try "load 4hhb" first.');
+  }
+  const structureLabel =
+    wrapper
+      .getStructures()
+      .find((s: SceneStructure) => s.ref === structureRef)
+      ?.label.toUpperCase() ?? "the structure";
+
+  const structure = new structureOperations(wrapper.plugin);
+  const selection = new selectionOperations(wrapper.plugin);
+
+  switch (command.type) {
+    case "representation":
+      await wrapper.updateRepresentation(command.representation);
+      return success(
+        `Showing ${structureLabel} as ${REPRESENTATION_LABELS[command.representation]}.`,
+      );
+
+    case "chain": {
+      if (command.operation === "show" || !command.chainId) {
+        await wrapper.showAllChains(structureRef);
+        return success(`Showing all chains of ${structureLabel}.`);
+      }
+
+      const chain = await resolveChain(
+        structure,
+        command.chainId,
+        structureRef,
+        structureLabel,
+      );
+      if ("error" in chain) return failure(chain.error);
+
+      return command.operation === "hide"
+        ? fromOperationResult(
+            await structure.hideChain(chain.chainId, structureRef),
+            `Hid chain ${chain.chainId} of ${structureLabel}.`,
+          )
+        : fromOperationResult(
+            await structure.isolateChain(chain.chainId, structureRef),
+            `Isolated chain ${chain.chainId} of ${structureLabel}.`,
+          );
+    }
+
+    case "residues": {
+      const chain = await resolveChain(
+        structure,
+        command.range.chainId,
+        structureRef,
+        structureLabel,
+      );
+      if ("error" in chain) return failure(chain.error);
+
+      const { start, end } = command.range;
+      const label = `${chain.chainId}:${start}${end !== start ? `-${end}` : ""}`;
+      if (command.operation === "hide") {
+        return fromOperationResult(
+          await selection.hideResidueRange(
+            chain.chainId,
+            start,
+            end,
+            structureRef,
+          ),
+          `Hid ${label} in ${structureLabel}.`,
+        );
+      }
+      if (command.operation === "isolate") {
+        return fromOperationResult(
+          await selection.isolateResidueRange(
+            chain.chainId,
+            start,
+            end,
+            structureRef,
+          ),
+          `Isolated ${label} in ${structureLabel}.`,
+        );
+      }
+      return fromOperationResult(
+        await selection.showResidueRange(
+          chain.chainId,
+          start,
+          end,
+          structureRef,
+        ),
+        `Highlighted ${label} in ${structureLabel}.`,
+      );
+    }
+
+    case "remove": {
+      const removals = {
+        water: () => structure.removeWater(structureRef),
+        ligands: () => structure.removeLigands(structureRef),
+        ions: () => structure.removeIons(structureRef),
+      };
+      return fromOperationResult(
+        await removals[command.component](),
+        `Removed ${COMPONENT_LABELS[command.component]} from ${structureLabel}.`,
+      );
+    }
+
+    case "focus-ligand": {
+      const ligands = wrapper.getLigands(structureRef);
+      if (ligands.length === 0) {
+        return failure(`${structureLabel} has no ligands.`);
+      }
+
+      const matches = ligands.filter(
+        (ligand: StructureResidue) =>
+          (!command.compId || ligand.compId === command.compId) &&
+          (!command.chainId ||
+            ligand.chainId.toLowerCase() === command.chainId.toLowerCase()),
+      );
+      const kinds = new Set(matches.map((ligand) => ligand.compId));
+      if (matches.length === 0 || kinds.size > 1) {
+        const wanted = [
+          "No ligand",
+          command.compId,
+          command.chainId && `in chain ${command.chainId}`,
+        ].filter(Boolean);
+        const problem =
+          matches.length > 0 ? "Which ligand?" : `${wanted.join(" ")}.`;
+        return failure(
+          `${problem} Ligands in ${structureLabel}: ${describeLigands(ligands)}.`,
+        );
+      }
+
+      // Several copies (e.g. one heme per chain) are focused together
+      wrapper.focusResidues(
+        structureRef,
+        matches.map(structureResidueToResidueRange),
+      );
+      return success(
+        `Focused on ${matches.length > 1 ? `${matches.length} × ` : ""}${describeLigands(matches)}.`,
+      );
+    }
+
+    case "reset-camera":
+      wrapper.resetCamera();
+      return success("Reset the view.");
+  }
+
+  return failure("That command isn't supported yet.");
+}
+
+/**
+ * Parse and run a chat message; the reply is always a message to post back
+ */
+export async function runViewerCommand(
+  text: string,
+  context: ViewerCommandContext,
+): Promise<ViewerCommandResult> {
+  const parsed = parseViewerCommand(text);
+  if ("error" in parsed) return failure(parsed.error);
+
+  const { command } = parsed;
+  const { wrapper } = context;
+  try {
+    // Scene changes can be undone like those made from the controls
+    if (wrapper && command.type !== "load") {
+      return await wrapper.recordOperation(text.trim(), () =>
+        executeViewerCommand(command, context),
+      );
+    }
+    return await executeViewerCommand(command, context);
+  } catch (error) {
+    console.error("Viewer command failed:", error);
+    return failure(
+      `That didn't work: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
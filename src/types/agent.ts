@@ -0,0 +1,142 @@
+import type { StructureInteraction, StructureResidue } from "./molstar";
+
+export type AgentActionType =
+  | "load"
+  | "select"
+  | "highlight"
+  | "analyze"
+  | "export"
+  | "compare";
+
+/**
+ * What an action applies to. Chains and residues use author numbering and
+ * refer to the active structure unless `pdbId` names another scene structure.
+ */
+export interface AgentActionTarget {
+  pdbId?: string;
+  /** UniProt accession of an AlphaFold DB model */
+  accession?: string;
+  /** Author chain id (auth_asym_id) */
+  chainId?: string;
+  /** Inclusive author-numbered residue range within `chainId` */
+  residueRange?: [number, number];
+  /** Residue region such as "A:15-40"; normalised to chainId/residueRange */
+  region?: string;
+  /** Ligand component id, e.g. "HEM" */
+  ligand?: string;
+}
+
+export type AgentAnalysis = "summary" | "interactions" | "proximity";
+export type AgentExportFormat = "fasta";
+
+export interface LoadAction {
+  type: "load";
+  target: AgentActionTarget;
+}
+
+export interface SelectAction {
+  type: "select";
+  target: AgentActionTarget;
+  parameters?: {
+    /** Select residues within this many Å of the target instead */
+    radius?: number;
+  };
+}
+
+export interface HighlightAction {
+  type: "highlight";
+  target: AgentActionTarget;
+  parameters?: {
+    /** Move the camera to the highlighted residues */
+    focus?: boolean;
+  };
+}
+
+export interface AnalyzeAction {
+  type: "analyze";
+  target?: AgentActionTarget;
+  parameters: {
+    analysis: AgentAnalysis;
+    /** Å, for proximity */
+    radius?: number;
+  };
+}
+
+export interface ExportAction {
+  type: "export";
+  target?: AgentActionTarget;
+  parameters: {
+    format: AgentExportFormat;
+  };
+}
+
+export interface CompareAction {
+  type: "compare";
+  target: AgentActionTarget;
+  parameters: {
+    /** Chain to compare the target chain with */
+    reference: AgentActionTarget;
+    /** Also superpose the structures when the chains are in different ones */
+    superpose?: boolean;
+  };
+}
+
+export type AgentAction =
+  | LoadAction
+  | SelectAction
+  | HighlightAction
+  | AnalyzeAction
+  | ExportAction
+  | CompareAction;
+
+export type AgentValidationErrorCode =
+  | "required"
+  | "invalid_type"
+  | "invalid_value"
+  | "unknown_action";
+
+export interface AgentValidationError {
+  /** Dotted path of the offending field, e.g. "target.residueRange" */
+  path: string;
+  code: AgentValidationErrorCode;
+  message: string;
+}
+
+export type AgentValidationResult =
+  | { valid: true; action: AgentAction }
+  | { valid: false; errors: AgentValidationError[] };
+
+// Results of executed actions
+export interface StructureSummary {
+  label: string;
+  chains: Array<{ id: string; length: number }>;
+  ligands: StructureResidue[];
+}
+
+export interface ExportedFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+export interface ChainComparison {
+  /** Percent identity over the aligned columns */
+  identity: number;
+  similarity: number;
+  alignedLength: number;
+  /** Cα RMSD in Å, when the structures were superposed */
+  rmsd?: number;
+}
+
+export type AgentActionPayload =
+  | { kind: "summary"; summary: StructureSummary }
+  | { kind: "interactions"; interactions: StructureInteraction[] }
+  | { kind: "residues"; residues: StructureResidue[] }
+  | { kind: "file"; file: ExportedFile }
+  | { kind: "comparison"; comparison: ChainComparison };
+
+export interface AgentActionOutput {
+  /** Human-readable outcome, e.g. for a chat reply */
+  message: string;
+  payload?: AgentActionPayload;
+}
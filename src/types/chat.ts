@@ -4,8 +4,23 @@ export interface Message {
   content: string;
   createdAt: string;
   editedAt?: string;
+  /** Still receiving text from the model */
+  streaming?: boolean;
 }
 
+/** A chain, or residues of it, mentioned in a message; author numbering */
+export interface ResidueReference {
+  /** Text of the mention, e.g. "His64 in chain A" */
+  text: string;
+  chainId: string;
+  /** Inclusive residue range; the whole chain when absent */
+  start?: number;
+  end?: number;
+}
+
+/** Message text split into plain strings and residue references */
+export type MessageSegment = string | ResidueReference;
+
 export interface Conversation {
   id: string;
   title: string;
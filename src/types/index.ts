@@ -55,6 +55,7 @@ export interface AppConfig {
   molstar: import("./molstar").MolstarConfig;
   sequence: import("./sequence").SequenceConfig;
   performance: import("./sequence").SequencePerformanceConfig;
+  llm: import("./llm").LlmConfig;
   api: {
     baseUrl: string;
     timeout: number;
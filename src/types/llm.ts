@@ -0,0 +1,82 @@
+import type { ComponentType } from "./molstar";
+
+export type LlmProviderKind = "openai" | "anthropic" | "mock";
+
+export interface LlmConfig {
+  /** API flavour; "mock" answers in-process without a model */
+  provider: LlmProviderKind;
+  /** API base URL, e.g. a self-hosted OpenAI-compatible server; provider default when empty */
+  baseUrl: string;
+  model: string;
+  /** Server-side only; never exposed to the browser */
+  apiKey?: string;
+  maxTokens: number;
+  temperature: number;
+  /** Size budget, in characters, of the viewer state sent with each request */
+  contextMaxChars: number;
+}
+
+export interface LlmMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/** A function the model may call, described by a JSON schema */
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  /** Parsed JSON arguments; left as the raw string when they do not parse */
+  arguments: unknown;
+}
+
+/** Events streamed from the chat API route, one JSON object per line */
+export type LlmStreamEvent =
+  | { type: "text"; text: string }
+  | { type: "tool-call"; call: LlmToolCall }
+  | { type: "error"; message: string }
+  | { type: "done" };
+
+/**
+ * Snapshot of what the viewer shows, sent with chat requests so the model
+ * knows what is on screen
+ */
+export interface ViewerContext {
+  /** Label of the active structure, e.g. a PDB ID */
+  structure: string;
+  title?: string;
+  method?: string;
+  /** Å */
+  resolution?: string;
+  organism?: string;
+  /** Other structures in the scene */
+  otherStructures: string[];
+  representation?: string;
+  visibleChains: string[];
+  hiddenChains: string[];
+  removedComponents: ComponentType[];
+  /** Sequence selection regions, author numbering */
+  selection: Array<{
+    chainId: string;
+    start: number;
+    end: number;
+    sequence: string;
+  }>;
+}
+
+export interface LlmRequest {
+  system: string;
+  messages: LlmMessage[];
+  tools: LlmToolDefinition[];
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  kind: LlmProviderKind;
+  stream(request: LlmRequest): AsyncGenerator<LlmStreamEvent>;
+}
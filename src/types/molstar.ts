@@ -1,5 +1,5 @@
 import type { PluginUIContext } from "molstar/lib/mol-plugin-ui/context";
-import type { ResidueRange } from "./sequence";
+import type { ResidueRange, SelectionRegion } from "./sequence";
 
 export interface MolstarPlugin extends PluginUIContext {
   // Additional molstar plugin properties can be added here
@@ -16,7 +16,162 @@ export type RepresentationType =
 
 export type ChainOperation = "hide" | "isolate" | "show";
 export type ComponentType = "water" | "ligands" | "ions";
-export type ResidueOperation = "hide" | "isolate" | "highlight" | "copy";
+
+// Where a structure is loaded from
+export type StructureSource =
+  | {
+      kind: "pdb";
+      id: string;
+      /** Biological assembly; "1" if not given */
+      assemblyId?: string;
+    }
+  | { kind: "file"; file: File }
+  | { kind: "alphafold"; accession: string };
+
+// A structure in the (multi-structure) scene
+export interface SceneStructure {
+  /** State ref of the structure node, used to target operations */
+  ref: string;
+  label: string;
+  isVisible: boolean;
+  /** Key of the StructureSource it was loaded from, if any */
+  sourceKey?: string;
+}
+export type ResidueOperation =
+  | "hide"
+  | "isolate"
+  | "highlight"
+  | "copy"
+  | "measure";
+
+/** Author-numbered residue range in a specific scene structure */
+export interface StructureResidueRange {
+  structureRef: string;
+  chainId: string;
+  startSeq: number;
+  endSeq: number;
+}
+
+// Structural superposition
+export interface SuperpositionTarget {
+  structureRef: string;
+  /** Author chain id (auth_asym_id) */
+  chainId: string;
+  /** Author-numbered residue ranges to use; the whole chain when omitted */
+  ranges?: Array<{ start: number; end: number }>;
+}
+
+export interface AlignedResidue {
+  chainId: string;
+  position: number;
+  insertionCode?: string;
+}
+
+export interface ResidueDeviation {
+  reference: AlignedResidue;
+  mobile: AlignedResidue;
+  /** Cα distance in Å after superposition */
+  deviation: number;
+}
+
+export interface SuperpositionResult {
+  mobile: SuperpositionTarget;
+  reference: SuperpositionTarget;
+  /** Cα RMSD in Å over the aligned residues */
+  rmsd: number;
+  alignedCount: number;
+  deviations: ResidueDeviation[];
+}
+
+// Measurements between picked atoms
+export type MeasurementKind = "distance" | "angle" | "dihedral";
+
+export interface MeasurementPoint {
+  structureRef: string;
+  /** Author chain id (auth_asym_id) */
+  chainId: string;
+  /** Author residue number (auth_seq_id) */
+  residueNumber: number;
+  insertionCode?: string;
+  /** Atom name (label_atom_id), e.g. "CA" */
+  atomName: string;
+  /** Three-letter residue name, for labels */
+  compId?: string;
+}
+
+export interface Measurement {
+  id: string;
+  kind: MeasurementKind;
+  points: MeasurementPoint[];
+  /** Å for distances, degrees for angles and dihedrals */
+  value: number;
+  /** User-given name, also shown next to the value in the 3D view */
+  label?: string;
+}
+
+/** A measurement as persisted, with structures identified by source key */
+export interface StoredMeasurement {
+  id: string;
+  kind: MeasurementKind;
+  label?: string;
+  points: Array<Omit<MeasurementPoint, "structureRef"> & { sourceKey: string }>;
+}
+
+// Non-covalent interactions
+export type InteractionKind =
+  | "hydrogen-bond"
+  | "salt-bridge"
+  | "hydrophobic"
+  | "pi-stacking"
+  | "metal-coordination";
+
+/** A residue identified by author numbering, e.g. a ligand */
+export interface StructureResidue {
+  /** Author chain id (auth_asym_id) */
+  chainId: string;
+  /** Author residue number (auth_seq_id) */
+  residueNumber: number;
+  insertionCode?: string;
+  /** Three-letter residue name, e.g. "HEM" */
+  compId: string;
+}
+
+/** One side of an interaction: a residue and the atoms involved */
+export interface InteractionParticipant extends StructureResidue {
+  /** Atom names (label_atom_id), e.g. the ring atoms of a π-stack */
+  atoms: string[];
+}
+
+export interface StructureInteraction {
+  id: string;
+  kind: InteractionKind;
+  /** Side within the selection or ligand the interactions were computed for */
+  target: InteractionParticipant;
+  partner: InteractionParticipant;
+  /** Å between the centres of the interacting atom groups */
+  distance: number;
+}
+
+// Viewer commands typed into the chat, e.g. "hide chain B"
+export type ViewerCommand =
+  | { type: "load"; source: StructureSource }
+  | { type: "representation"; representation: RepresentationType }
+  | { type: "chain"; operation: ChainOperation; chainId?: string }
+  | {
+      type: "residues";
+      operation: "hide" | "isolate" | "highlight";
+      range: ResidueRange;
+    }
+  | { type: "remove"; component: ComponentType }
+  | { type: "focus-ligand"; compId?: string; chainId?: string }
+  | { type: "reset-camera" }
+  | { type: "help" };
+
+export interface ViewerCommandResult {
+  success: boolean;
+  /** Reply posted back into the conversation */
+  message: string;
+}
 
 export interface MolstarConfig {
   layoutIsExpanded?: boolean;
@@ -30,6 +185,9 @@ export interface MolstarConfig {
   viewportShowAnimation?: boolean;
   pdbProvider?: string;
   emdbProvider?: string;
+  /** Base URL for AlphaFold DB model files; point at a mirror to work offline */
+  alphafoldProvider?: string;
+  alphafoldModelVersion?: number;
 }
 // Selection and highlighting
 export type { ResidueRange } from "./sequence";
@@ -44,7 +202,8 @@ export type MolstarErrorType =
   | "LOADING_ERROR"
   | "OPERATION_ERROR"
   | "SELECTION_ERROR"
-  | "NETWORK_ERROR";
+  | "NETWORK_ERROR"
+  | "VALIDATION_ERROR";
 
 export interface MolstarError extends Error {
   type: MolstarErrorType;
@@ -77,6 +236,64 @@ export interface MolstarState {
   activeOperations: AsyncOperation[];
 }
 
+/** What a scene structure currently shows, read from its Mol* components */
+export interface StructureViewState {
+  structureRef: string;
+  /** Mol* representation type of the displayed polymer, e.g. "cartoon" */
+  representation?: string;
+  /** Author ids of polymer chains with something displayed */
+  visibleChains: string[];
+  hiddenChains: string[];
+  /** Component types present in the structure but no longer displayed */
+  removedComponents: ComponentType[];
+}
+
+/** Undo and redo availability of the viewer history */
+export interface ViewHistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Operation an undo would revert, e.g. "Hide chain A" */
+  undoLabel?: string;
+  redoLabel?: string;
+}
+
+/** Which atoms a coordinate export writes */
+export type CoordinateExportScope =
+  /** The selected residues */
+  | "residues"
+  /** Whole chains with a selected residue */
+  | "chains"
+  /** Everything displayed after hide, isolate and remove operations */
+  | "visible";
+
+export type CoordinateFormat = "pdb" | "mmcif";
+
+export interface CoordinateExportOptions {
+  scope: CoordinateExportScope;
+  format: CoordinateFormat;
+  /**
+   * Selected residues, author numbering or the label_seq_id span of grid
+   * regions; unused for "visible"
+   */
+  ranges: Array<ResidueRange & Pick<SelectionRegion, "labelRange">>;
+  /** Add ligands and ions with an atom within this distance, in Å */
+  ligandRadius?: number;
+}
+
+/** Settings of a rendered image export */
+export interface ImageExportOptions {
+  /** Image size in pixels */
+  width: number;
+  height: number;
+  /** Print resolution written into the PNG, dots per inch */
+  dpi: number;
+  transparentBackground: boolean;
+  /** Text burned into the top left corner; none if empty */
+  title?: string;
+  /** Draw a scale bar, true to size at the camera target */
+  scaleBar: boolean;
+}
+
 export type MolstarEventType =
   | "initialized"
   | "structure-loaded"
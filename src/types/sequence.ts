@@ -1,20 +1,59 @@
+export type SecondaryStructureType = "helix" | "sheet" | "loop";
+
 export interface SequenceResidue {
+  /** Author residue number (auth_seq_id), as used for Mol* selections */
   position: number;
   code: string;
   chainId: string;
-  secondaryStructure?: "helix" | "sheet" | "loop";
+  /** Mol* assignment, from the file or DSSP; absent for unmodelled residues */
+  secondaryStructure?: SecondaryStructureType;
+  /** PDB insertion code; residues sharing a position differ only by this */
+  insertionCode?: string;
+  /** Sequential entity numbering (label_seq_id) */
+  labelSeqId?: number;
+  /** Three-letter component name, e.g. "HIS" */
+  compId?: string;
+  /** False for residues in the deposited sequence without coordinates */
+  observed?: boolean;
+  /** Predicted confidence (0-100) for AlphaFold and other predicted models */
+  plddt?: number;
+  /** UniProt residue from the SIFTS mapping of PDBe mmCIF files */
+  uniprot?: { accession: string; position: number };
 }
 
+export type PolymerType = "protein" | "dna" | "rna";
+
 export interface SequenceChain {
+  /** Author chain id (auth_asym_id) */
   id: string;
+  /** Label chain id (label_asym_id) of the polymer */
+  labelId?: string;
+  entityId?: string;
   name?: string;
+  organism?: string;
+  /** Protein when absent */
+  polymerType?: PolymerType;
   residues: SequenceResidue[];
 }
 
+/** Ligand, ion or carbohydrate residue; water is left out */
+export interface SequenceLigand {
+  /** Author chain id (auth_asym_id) */
+  chainId: string;
+  /** Author residue number (auth_seq_id) */
+  position: number;
+  insertionCode?: string;
+  /** Component name, e.g. "HEM" */
+  compId: string;
+  /** Entity description, e.g. "PROTOPORPHYRIN IX CONTAINING FE" */
+  name?: string;
+}
+
 export interface SequenceData {
   id: string;
   name: string;
   chains: SequenceChain[];
+  ligands?: SequenceLigand[];
   metadata?: Record<string, unknown>;
 }
 
@@ -27,6 +66,115 @@ export interface SelectionRegion {
   label?: string;
   color?: string;
   metadata?: Record<string, unknown>;
+  /**
+   * label_asym_id and label_seq_id span of regions made from grid residues;
+   * exact where author numbers repeat (insertion codes) or jump
+   */
+  labelRange?: { chainId: string; start: number; end: number };
+}
+
+export type NumberingScheme =
+  /** Author numbering (auth_seq_id) with insertion codes, as deposited */
+  | "auth"
+  /** Sequential entity numbering (label_seq_id) from 1 */
+  | "label"
+  /** UniProt positions from the SIFTS mapping */
+  | "uniprot";
+
+/**
+ * Per-residue values drawn as a colour strip under each sequence grid row,
+ * e.g. Cα deviation after superposition
+ */
+export interface ResidueTrack {
+  id: string;
+  label: string;
+  /** Values keyed by residue key (chain, author number, insertion code) */
+  values: Map<string, number>;
+  getColor: (value: number) => string;
+  formatValue?: (value: number) => string;
+  legend?: Array<{ label: string; color: string }>;
+}
+
+/** Needleman–Wunsch (global) or Smith–Waterman (local) */
+export type AlignmentMode = "global" | "local";
+
+export interface AlignmentParams {
+  mode: AlignmentMode;
+  /** Penalty for opening a gap (first gap position) */
+  gapOpen: number;
+  /** Penalty for each further gap position */
+  gapExtend: number;
+}
+
+/** One alignment column; residue indices into each sequence, null for a gap */
+export interface AlignmentColumn {
+  a: number | null;
+  b: number | null;
+}
+
+export interface PairwiseAlignment {
+  params: AlignmentParams;
+  columns: AlignmentColumn[];
+  score: number;
+  /** Columns with identical residues */
+  identical: number;
+  /** Columns with a positive substitution score (includes identical) */
+  similar: number;
+  /** Columns with a gap in either sequence */
+  gaps: number;
+}
+
+export type MsaFormat = "fasta" | "clustal" | "stockholm";
+
+export interface MsaSequence {
+  name: string;
+  /** Aligned sequence, upper case, gaps as "-" */
+  sequence: string;
+}
+
+export interface MultipleSequenceAlignment {
+  format: MsaFormat;
+  sequences: MsaSequence[];
+  /** Number of alignment columns */
+  length: number;
+}
+
+export type ConservationMethod = "shannon" | "jensen-shannon";
+
+/** Per-column conservation of an MSA mapped onto the residues of a chain */
+export interface ConservationMapping {
+  structureRef: string;
+  chainId: string;
+  /** Name of the MSA row matched to the chain */
+  rowName: string;
+  method: ConservationMethod;
+  /** Scores from 0 (variable) to 1 (conserved), keyed by residue key */
+  scores: Map<string, number>;
+}
+
+export type SequenceExportFormat = "fasta" | "pir" | "genbank";
+
+export type SequenceExportScope =
+  /** Each selected region as its own record */
+  | "regions"
+  /** Full sequences of the chains with a selected region */
+  | "chains"
+  /** Full sequences of every chain in the entry */
+  | "entry";
+
+export type MotifSearchMode =
+  /** Literal peptide, e.g. "GKT" */
+  | "text"
+  /** JavaScript regular expression, e.g. "N[^P][ST]" */
+  | "regex"
+  /** PROSITE pattern, e.g. "N-{P}-[ST]-{P}" */
+  | "prosite";
+
+export interface MotifSearchResult {
+  /** One region per match, in chain order */
+  regions: SelectionRegion[];
+  /** True if the search stopped at the match limit */
+  truncated: boolean;
 }
 
 export interface SequenceSelection {
@@ -35,7 +183,12 @@ export interface SequenceSelection {
   clipboard: string | null;
 }
 
-export type RegionAction = "hide" | "isolate" | "highlight" | "copy";
+export type RegionAction =
+  | "hide"
+  | "isolate"
+  | "highlight"
+  | "copy"
+  | "measure";
 
 export interface SequenceInterfaceCallbacks {
   onSelectionChange?: (selection: SequenceSelection) => void;
@@ -50,14 +203,22 @@ export interface SequenceInterfaceCallbacks {
     action: RegionAction,
   ) => void;
   onResidueAction?: (residue: SequenceResidue, action: RegionAction) => void;
+  /** Offers coordinate export of the selection when given */
+  onExportCoordinates?: (regions: SelectionRegion[]) => void;
 }
 
 export interface SequenceInterfaceProps {
   data?: SequenceData;
+  /** Selection set from outside, e.g. by proximity selection; applied each
+   * time a new object is passed */
   selection?: SequenceSelection;
   highlightedResidues?: SequenceResidue[];
   selectedChainIds?: string[];
   colorScheme?: string;
+  /** Scores for score-based colour schemes, keyed by residue key */
+  residueScores?: Map<string, number>;
+  /** Extra per-residue tracks shown under the sequence rows */
+  residueTracks?: ResidueTrack[];
   className?: string;
   readOnly?: boolean;
   callbacks?: SequenceInterfaceCallbacks;
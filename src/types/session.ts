@@ -0,0 +1,70 @@
+import type { Camera } from "molstar/lib/mol-canvas3d/camera";
+import type { PluginState } from "molstar/lib/mol-plugin/state";
+import type { Conversation, ResidueReference } from "./chat";
+import type {
+  RepresentationType,
+  StoredMeasurement,
+  StructureSource,
+  StructureViewState,
+} from "./molstar";
+import type { SelectionRegion } from "./sequence";
+
+/** Where a saved structure comes from; local files are embedded */
+export type SessionStructureSource =
+  | { kind: "pdb"; id: string; assemblyId?: string }
+  | { kind: "alphafold"; accession: string }
+  | {
+      kind: "file";
+      name: string;
+      lastModified: number;
+      /** File contents, base64 encoded */
+      data: string;
+    };
+
+export interface SessionStructure {
+  /** State ref in the saved scene, matched against the bundled Mol* state */
+  ref: string;
+  label: string;
+  source: SessionStructureSource;
+  isVisible: boolean;
+  view: Omit<StructureViewState, "structureRef" | "visibleChains">;
+}
+
+/** A saved analysis session, as written to a session file */
+export interface AnalysisSession {
+  format: string;
+  version: number;
+  savedAt: string;
+  /** Scene structures in load order */
+  structures: SessionStructure[];
+  /** Index of the structure shown in the sequence panel */
+  activeStructure: number | null;
+  camera?: Camera.Snapshot;
+  /** Sequence selection in the active structure */
+  selection: SelectionRegion[];
+  measurements: StoredMeasurement[];
+  /** Sequence colour scheme id, see COLOR_SCHEMES */
+  sequenceColorScheme: string;
+  /** Chat conversation open when the session was saved */
+  conversation?: Conversation;
+  /** Mol* plugin state, restoring representations exactly */
+  molstar?: PluginState.Snapshot;
+}
+
+/** Viewer state carried in the query string of a shareable link */
+export interface ViewLink {
+  /** Structure to show; links can only point at remote structures */
+  source?: Exclude<StructureSource, { kind: "file" }>;
+  representation?: RepresentationType;
+  /** Author ids of chains to hide */
+  hiddenChains: string[];
+  /** Chains or residue ranges to select, author numbering */
+  regions: ResidueReference[];
+  /** Sequence colour scheme id, see COLOR_SCHEMES */
+  colorScheme?: string;
+  camera?: {
+    position: [number, number, number];
+    target: [number, number, number];
+    up: [number, number, number];
+  };
+}
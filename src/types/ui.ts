@@ -15,6 +15,10 @@ export interface KeyboardShortcut {
   key: string;
   metaKey?: boolean;
   ctrlKey?: boolean;
+  /** Whether Shift must be held; either way when unset */
+  shiftKey?: boolean;
+  /** Leave the key to text fields while one is focused, e.g. for Ctrl+Z */
+  ignoreInInputs?: boolean;
   action: () => void;
   description: string;
 }
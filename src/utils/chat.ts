@@ -50,6 +50,29 @@ export function updateConversationWithMessage(
   };
 }
 
+/**
+ * Replace the message with the same id, or append it if it is new
+ */
+export function upsertConversationMessage(
+  conversation: Conversation,
+  message: Message,
+): Conversation {
+  if (!conversation.messages.some((m) => m.id === message.id)) {
+    return updateConversationWithMessage(conversation, message);
+  }
+
+  const messages = conversation.messages.map((m) =>
+    m.id === message.id ? message : m,
+  );
+  const last = messages[messages.length - 1];
+
+  return {
+    ...conversation,
+    messages,
+    preview: last.content.slice(0, 80),
+  };
+}
+
 export function filterConversations(
   conversations: Conversation[],
   query: string,
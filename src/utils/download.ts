@@ -0,0 +1,16 @@
+/**
+ * Let the browser download generated content as a file
+ */
+export function downloadFile(
+  content: BlobPart,
+  fileName: string,
+  type: string = "application/octet-stream",
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoked after the click has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
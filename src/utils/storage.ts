@@ -27,4 +27,6 @@ export const STORAGE_KEYS = {
   PANEL_SIZES: "panel-sizes",
   SIDEBAR_COLLAPSED: "sidebar-collapsed",
   THEME: "theme",
+  MEASUREMENTS: "measurements",
+  CHAT_VIEWER_CONTEXT: "chat-viewer-context",
 } as const;